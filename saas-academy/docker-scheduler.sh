@@ -0,0 +1,20 @@
+#!/bin/sh
+# docker-scheduler.sh – cron container that triggers the internal job endpoints
+# (see src/lib/services/job.service.ts). Overlapping calls are safe: a job that
+# is still running answers 409 and the call is recorded as SKIPPED.
+set -e
+
+: "${CRON_SECRET:?CRON_SECRET must be set}"
+APP="${APP_INTERNAL_URL:-http://app:3000}"
+CALL="wget -q -O /dev/null --header 'x-cron-secret: ${CRON_SECRET}' --post-data ''"
+
+# Schedules are in TZ (KST-9 by default – busybox has no zoneinfo)
+cat > /etc/crontabs/root <<CRONTAB
+* * * * *  ${CALL} ${APP}/api/internal/notifications/process
+*/5 * * * *  ${CALL} ${APP}/api/internal/notifications/delivery-reports
+* * * * *  ${CALL} ${APP}/api/internal/webhooks/process
+0 9 * * *  ${CALL} ${APP}/api/internal/billing/run
+CRONTAB
+
+echo "⏱️  Scheduler calling ${APP}/api/internal/*"
+exec crond -f -l 8
@@ -0,0 +1,21 @@
+/**
+ * prisma/migrate-legacy-notifications.ts
+ * Copies rows of the deprecated `notifications` table into the notification
+ * outbox (NotificationQueue) as MANUAL rows. Safe to re-run: rows already
+ * copied are skipped.
+ * Run: npm run db:migrate-notifications
+ */
+import { migrateLegacyNotifications } from "../src/lib/alimtalk/outbox";
+import { prisma } from "../src/lib/db/client";
+
+async function main() {
+  const result = await migrateLegacyNotifications();
+  console.log(
+    `Legacy notifications: ${result.scanned} scanned, ${result.migrated} migrated, ` +
+    `${result.skipped} skipped (no outbox channel)`,
+  );
+}
+
+main()
+  .catch((e) => { console.error(e); process.exit(1); })
+  .finally(() => prisma.$disconnect());
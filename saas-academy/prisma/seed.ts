@@ -208,6 +208,14 @@ async function main() {
       dueDate:       nextBilling,
       status:        "PENDING",
       orderId,
+      lineItems: {
+        create: [{
+          academyId:   academyA.id,
+          type:        "TUITION",
+          description: planBasic.name,
+          amount:      planBasic.amount,
+        }],
+      },
     },
   });
   console.log(`✅  Subscription ${sub.id} → ${studentA.email} on "${planBasic.name}"`);
@@ -1,13 +1,17 @@
 "use client";
 /**
  * /academy-admin/classes/[id]
- * Class detail: info, enrollments, sessions list, attendance modal.
+ * Class detail: info, enrollments and waitlist, sessions list, attendance modal,
+ * rescheduling a session, adding extra sessions and assigning a substitute
+ * teacher to a session. Teacher / room conflicts are listed and can be
+ * overridden.
  */
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
 import { Spinner } from "@/components/ui/Spinner";
+import { ConflictList, type ScheduleConflict } from "@/components/classes/ConflictList";
 
 interface ClassDetail {
   id:          string;
@@ -16,11 +20,18 @@ interface ClassDetail {
   startDate:   string;
   endDate:     string | null;
   capacity:    number | null;
+  lateAfterMin: number;
   teacher:     { id: string; name: string; email: string } | null;
-  schedules:   { daysOfWeek: number[]; startTime: string; durationMin: number }[];
+  schedules:   {
+    daysOfWeek:  number[];
+    startTime:   string;
+    durationMin: number;
+    room:        { id: string; name: string } | null;
+  }[];
   enrollments: Array<{
     id:        string;
     status:    string;
+    waitlistPosition: number | null;
     student:   { id: string; name: string; email: string };
   }>;
   _count:      { sessions: number; attendances: number };
@@ -32,16 +43,58 @@ interface Session {
   startsAt:    string;
   endsAt:      string;
   status:      string;
+  kind:        "REGULAR" | "RESCHEDULED" | "EXTRA";
+  closure:     string | null;
+  room:        { id: string; name: string } | null;
+  substituteTeacher: { id: string; name: string } | null;
   _count:      { attendances: number };
 }
 
+interface Room {
+  id:       string;
+  name:     string;
+  isActive: boolean;
+}
+
+interface Teacher {
+  id:   string;
+  name: string;
+}
+
+/** Substitute assignment for one session; teacherUserId "" removes it. */
+interface SubForm {
+  session:       Session;
+  teacherUserId: string;
+}
+
 interface AttendanceEntry {
-  enrollment: { id: string; status: string };
+  enrollment: { id: string; status: string } | null;
+  /** Set for students from another class booked in with a make-up credit */
+  makeup:     { creditId: string } | null;
   student:    { id: string; name: string; email: string };
   attendance: { id: string; status: string; memo: string | null } | null;
 }
 
 const DOW = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const KIND_LABEL: Record<Session["kind"], string | null> = {
+  REGULAR:     null,
+  RESCHEDULED: "변경",
+  EXTRA:       "추가",
+};
+
+/** Reschedule an existing session, or add an extra one when session is null. */
+interface TimeForm {
+  session:   Session | null;
+  date:      string;
+  startTime: string;
+  endTime:   string;
+  roomId:    string;
+}
+
+function kstTime(iso: string) {
+  return new Date(iso).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Seoul" });
+}
 const STATUSES = ["PRESENT", "ABSENT", "LATE", "EXCUSED"] as const;
 type AttStatus = typeof STATUSES[number];
 
@@ -71,17 +124,31 @@ export default function ClassDetailPage() {
   const [draftStatuses,   setDraftStatuses]   = useState<Record<string, AttStatus>>({});
   const [saving,          setSaving]          = useState(false);
 
+  // Reschedule / extra session modal state
+  const [timeForm,   setTimeForm]   = useState<TimeForm | null>(null);
+  const [timeSaving, setTimeSaving] = useState(false);
+  const [conflicts,  setConflicts]  = useState<ScheduleConflict[]>([]);
+  const [rooms,      setRooms]      = useState<Room[]>([]);
+
+  // Substitute modal state
+  const [subForm,      setSubForm]      = useState<SubForm | null>(null);
+  const [subSaving,    setSubSaving]    = useState(false);
+  const [subConflicts, setSubConflicts] = useState<ScheduleConflict[]>([]);
+  const [teachers,     setTeachers]     = useState<Teacher[]>([]);
+
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const [clsRes, sessRes] = await Promise.all([
+      const [clsRes, sessRes, roomRes] = await Promise.all([
         fetch(`/api/academy/classes/${classId}`),
         fetch(`/api/academy/sessions?classId=${classId}&limit=100`),
+        fetch("/api/academy/rooms"),
       ]);
-      const [clsJson, sessJson] = await Promise.all([clsRes.json(), sessRes.json()]);
+      const [clsJson, sessJson, roomJson] = await Promise.all([clsRes.json(), sessRes.json(), roomRes.json()]);
       if (!clsRes.ok) throw new Error(clsJson.error ?? "Failed to load class");
       setCls(clsJson.data);
       setSessions(sessJson.data?.sessions ?? []);
+      setRooms((roomJson.data ?? []).filter((r: Room) => r.isActive));
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : String(e));
     } finally {
@@ -146,22 +213,146 @@ export default function ClassDetailPage() {
     });
     const json = await res.json();
     if (!res.ok) { alert(json.error ?? "Failed to enroll"); return; }
+    if (json.data.status === "WAITLISTED") alert(`The class is full. Added to the waitlist at #${json.data.waitlistPosition}.`);
     load();
   }
 
-  async function regenerate() {
-    if (!confirm("Regenerate future sessions? Sessions with attendance will be preserved.")) return;
+  async function setEnrollmentStatus(enrollmentId: string, status: "ACTIVE" | "DROPPED") {
+    const res = await fetch(`/api/academy/enrollments/${enrollmentId}`, {
+      method:  "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status }),
+    });
+    const json = await res.json();
+    if (!res.ok) { alert(json.error ?? "Failed to update enrollment"); return; }
+    load();
+  }
+
+  async function regenerate(override = false) {
+    if (!override && !confirm("Regenerate future sessions? Sessions with attendance will be preserved.")) return;
     const res = await fetch(`/api/academy/classes/${classId}/regenerate-sessions`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ weeks: 8 }),
+      body: JSON.stringify({ weeks: 8, override }),
     });
     const json = await res.json();
+    if (res.status === 409 && json.details?.conflicts) {
+      const list: ScheduleConflict[] = json.details.conflicts;
+      const lines = list.slice(0, 5).map((c) =>
+        `- ${c.type === "TEACHER" ? "Teacher" : "Room"}: ${c.session.localDate} ${c.session.className}`);
+      if (confirm(`${json.error}\n${lines.join("\n")}\n\nRegenerate anyway?`)) regenerate(true);
+      return;
+    }
     if (!res.ok) { alert(json.error ?? "Failed"); return; }
     alert(`Done! Created: ${json.data.created}, Deleted: ${json.data.deleted}, Skipped (has attendance): ${json.data.skippedWithAttendance}`);
     load();
   }
 
+  function openReschedule(session: Session) {
+    setConflicts([]);
+    setTimeForm({
+      session,
+      date:      session.localDate,
+      startTime: kstTime(session.startsAt),
+      endTime:   kstTime(session.endsAt),
+      roomId:    session.room?.id ?? "",
+    });
+  }
+
+  function openExtra() {
+    const first = cls?.schedules[0];
+    const [h, m] = (first?.startTime ?? "16:00").split(":").map(Number);
+    const end = h * 60 + m + (first?.durationMin ?? 50);
+    setConflicts([]);
+    setTimeForm({
+      session:   null,
+      date:      "",
+      startTime: first?.startTime ?? "16:00",
+      endTime:   `${String(Math.floor(end / 60) % 24).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`,
+      roomId:    first?.room?.id ?? "",
+    });
+  }
+
+  async function saveTimeForm(override = false) {
+    if (!timeForm) return;
+    // Times are entered in KST
+    const body = {
+      startsAt: `${timeForm.date}T${timeForm.startTime}:00+09:00`,
+      endsAt:   `${timeForm.date}T${timeForm.endTime}:00+09:00`,
+      roomId:   timeForm.roomId || null,
+      override,
+    };
+    const url = timeForm.session
+      ? `/api/academy/sessions/${timeForm.session.id}/reschedule`
+      : `/api/academy/classes/${classId}/sessions`;
+
+    setTimeSaving(true);
+    try {
+      const res = await fetch(url, {
+        method:  "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (res.status === 409 && json.details?.conflicts) {
+        setConflicts(json.details.conflicts);
+        return;
+      }
+      if (!res.ok) throw new Error(json.error ?? "Failed to save");
+      alert(`Saved. Notifications queued: ${json.data.notifQueued}`);
+      setTimeForm(null);
+      load();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setTimeSaving(false);
+    }
+  }
+
+  async function openSubstitute(session: Session) {
+    setSubConflicts([]);
+    setSubForm({ session, teacherUserId: session.substituteTeacher?.id ?? "" });
+    if (teachers.length > 0) return;
+    const res  = await fetch("/api/academy/users?role=TEACHER&limit=100");
+    const json = await res.json();
+    if (res.ok) setTeachers(json.data.users ?? []);
+  }
+
+  async function saveSubstitute(override = false) {
+    if (!subForm) return;
+    setSubSaving(true);
+    try {
+      const res = await fetch(`/api/academy/sessions/${subForm.session.id}/substitute`, {
+        method:  "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ teacherUserId: subForm.teacherUserId || null, override }),
+      });
+      const json = await res.json();
+      if (res.status === 409 && json.details?.conflicts) {
+        setSubConflicts(json.details.conflicts);
+        return;
+      }
+      if (!res.ok) throw new Error(json.error ?? "Failed to save");
+      setSubForm(null);
+      load();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSubSaving(false);
+    }
+  }
+
+  function enrollFromWaitlist(enrollmentId: string) {
+    const active = cls?.enrollments.filter((e) => e.status === "ACTIVE").length ?? 0;
+    const full   = cls?.capacity != null && active >= cls.capacity;
+    if (full && !confirm("The class is full. Enroll this student over capacity?")) return;
+    setEnrollmentStatus(enrollmentId, "ACTIVE");
+  }
+
+  const enrolled = cls?.enrollments.filter((e) => e.status !== "WAITLISTED") ?? [];
+  const waitlist = (cls?.enrollments.filter((e) => e.status === "WAITLISTED") ?? [])
+    .sort((a, b) => (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0));
+
   if (loading) return <div className="flex justify-center py-20"><Spinner /></div>;
   if (error)   return <p className="text-red-600">{error}</p>;
   if (!cls)    return <p className="text-gray-500">Class not found.</p>;
@@ -180,29 +371,32 @@ export default function ClassDetailPage() {
             {new Date(cls.startDate).toLocaleDateString("ko-KR")}
             {cls.endDate && ` ~ ${new Date(cls.endDate).toLocaleDateString("ko-KR")}`}
             &nbsp;·&nbsp; Capacity: {cls.capacity ?? "∞"}
+            &nbsp;·&nbsp; Late after: {cls.lateAfterMin}min
           </p>
           <div className="mt-2 flex flex-wrap gap-2">
             {cls.schedules.map((s, i) => (
               <span key={i} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
                 {s.daysOfWeek.map((d) => DOW[d]).join("/")} {s.startTime} ({s.durationMin}min)
+                {s.room && ` · ${s.room.name}`}
               </span>
             ))}
           </div>
         </div>
         <div className="flex gap-2">
-          <Button variant="secondary" size="sm" onClick={regenerate}>Regenerate Sessions</Button>
+          <Button variant="secondary" size="sm" onClick={openExtra}>+ Extra Session</Button>
+          <Button variant="secondary" size="sm" onClick={() => regenerate()}>Regenerate Sessions</Button>
           <Button variant="ghost" size="sm" onClick={() => router.back()}>← Back</Button>
         </div>
       </div>
 
       {/* Enrollments */}
       <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
-        <h2 className="text-lg font-semibold mb-4">Enrollments ({cls.enrollments.length})</h2>
-        {cls.enrollments.length === 0 ? (
+        <h2 className="text-lg font-semibold mb-4">Enrollments ({enrolled.length})</h2>
+        {enrolled.length === 0 ? (
           <p className="text-gray-400 text-sm">No students enrolled.</p>
         ) : (
           <div className="space-y-2">
-            {cls.enrollments.map((e) => (
+            {enrolled.map((e) => (
               <div key={e.id} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0">
                 <div>
                   <span className="font-medium text-gray-900">{e.student.name}</span>
@@ -215,6 +409,35 @@ export default function ClassDetailPage() {
         )}
       </section>
 
+      {/* Waitlist */}
+      {waitlist.length > 0 && (
+        <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+          <h2 className="text-lg font-semibold mb-1">Waitlist ({waitlist.length})</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Students are enrolled in this order as seats free up; their parents are notified.
+          </p>
+          <div className="space-y-2">
+            {waitlist.map((e, i) => (
+              <div key={e.id} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0">
+                <div>
+                  <span className="text-sm text-gray-400 mr-3">#{i + 1}</span>
+                  <span className="font-medium text-gray-900">{e.student.name}</span>
+                  <span className="ml-2 text-sm text-gray-500">{e.student.email}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => enrollFromWaitlist(e.id)}>
+                    Enroll now
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEnrollmentStatus(e.id, "DROPPED")}>
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Sessions */}
       <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
         <h2 className="text-lg font-semibold mb-4">Sessions ({sessions.length})</h2>
@@ -231,10 +454,32 @@ export default function ClassDetailPage() {
                     {" ~ "}
                     {new Date(s.endsAt).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Seoul" })}
                   </span>
+                  {s.room && <span className="ml-2 text-xs text-gray-400">{s.room.name}</span>}
+                  {KIND_LABEL[s.kind] && (
+                    <span className="ml-2 text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full">{KIND_LABEL[s.kind]}</span>
+                  )}
+                  {s.substituteTeacher && (
+                    <span className="ml-2 text-xs bg-purple-50 text-purple-700 px-2 py-0.5 rounded-full">
+                      대강 · {s.substituteTeacher.name}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-3">
+                  {s.closure && (
+                    <span className="text-xs bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full">휴원 · {s.closure}</span>
+                  )}
                   <span className="text-xs text-gray-400">{s._count.attendances} marked</span>
                   <Badge variant={statusBadge[s.status] ?? "default"}>{s.status}</Badge>
+                  {s.status === "SCHEDULED" && s._count.attendances === 0 && (
+                    <Button size="sm" variant="ghost" onClick={() => openReschedule(s)}>
+                      Reschedule
+                    </Button>
+                  )}
+                  {s.status !== "CANCELED" && (
+                    <Button size="sm" variant="ghost" onClick={() => openSubstitute(s)}>
+                      Substitute
+                    </Button>
+                  )}
                   {s.status !== "CANCELED" && (
                     <Button size="sm" variant="secondary" onClick={() => openAttendance(s)}>
                       Attendance
@@ -270,7 +515,12 @@ export default function ClassDetailPage() {
               ) : (
                 attendanceEntries.map((e) => (
                   <div key={e.student.id} className="flex items-center justify-between">
-                    <span className="text-sm font-medium text-gray-900">{e.student.name}</span>
+                    <span className="text-sm font-medium text-gray-900">
+                      {e.student.name}
+                      {e.makeup && (
+                        <span className="ml-2 text-xs bg-purple-50 text-purple-700 px-2 py-0.5 rounded-full">보강</span>
+                      )}
+                    </span>
                     <div className="flex gap-1">
                       {STATUSES.map((s) => (
                         <button
@@ -301,6 +551,109 @@ export default function ClassDetailPage() {
           </div>
         </div>
       )}
+
+      {/* Reschedule / Extra Session Modal */}
+      {timeForm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md">
+            <div className="p-5 border-b border-gray-200">
+              <h3 className="text-lg font-semibold">
+                {timeForm.session ? `Reschedule — ${timeForm.session.localDate}` : "Extra Session"}
+              </h3>
+              <p className="text-sm text-gray-500 mt-0.5">
+                Parents of the students on this session are notified (KST).
+              </p>
+            </div>
+
+            <div className="p-5 space-y-3">
+              <label className="block text-sm">
+                <span className="text-gray-700">Date</span>
+                <input
+                  type="date"
+                  className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={timeForm.date}
+                  onChange={(e) => setTimeForm({ ...timeForm, date: e.target.value })}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-sm">
+                  <span className="text-gray-700">Start</span>
+                  <input
+                    type="time"
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    value={timeForm.startTime}
+                    onChange={(e) => setTimeForm({ ...timeForm, startTime: e.target.value })}
+                  />
+                </label>
+                <label className="block text-sm">
+                  <span className="text-gray-700">End</span>
+                  <input
+                    type="time"
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    value={timeForm.endTime}
+                    onChange={(e) => setTimeForm({ ...timeForm, endTime: e.target.value })}
+                  />
+                </label>
+              </div>
+              <label className="block text-sm">
+                <span className="text-gray-700">Room</span>
+                <select
+                  className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={timeForm.roomId}
+                  onChange={(e) => setTimeForm({ ...timeForm, roomId: e.target.value })}
+                >
+                  <option value="">—</option>
+                  {rooms.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+                </select>
+              </label>
+              <ConflictList conflicts={conflicts} loading={timeSaving} onOverride={() => saveTimeForm(true)} />
+            </div>
+
+            <div className="p-5 border-t border-gray-200 flex gap-3 justify-end">
+              <Button variant="secondary" onClick={() => setTimeForm(null)}>Cancel</Button>
+              <Button loading={timeSaving} disabled={!timeForm.date} onClick={() => saveTimeForm()}>
+                {timeForm.session ? "Reschedule" : "Add Session"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Substitute Modal */}
+      {subForm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md">
+            <div className="p-5 border-b border-gray-200">
+              <h3 className="text-lg font-semibold">Substitute — {subForm.session.localDate}</h3>
+              <p className="text-sm text-gray-500 mt-0.5">
+                The substitute can see this class and mark attendance for this session.
+              </p>
+            </div>
+
+            <div className="p-5 space-y-3">
+              <label className="block text-sm">
+                <span className="text-gray-700">Teacher</span>
+                <select
+                  className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={subForm.teacherUserId}
+                  onChange={(e) => { setSubConflicts([]); setSubForm({ ...subForm, teacherUserId: e.target.value }); }}
+                >
+                  <option value="">— None (class teacher) —</option>
+                  {teachers
+                    .filter((t) => t.id !== cls.teacher?.id)
+                    .map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </label>
+              <ConflictList conflicts={subConflicts} loading={subSaving} onOverride={() => saveSubstitute(true)} />
+            </div>
+
+            <div className="p-5 border-t border-gray-200 flex gap-3 justify-end">
+              <Button variant="secondary" onClick={() => setSubForm(null)}>Cancel</Button>
+              <Button loading={subSaving} onClick={() => saveSubstitute()}>Save</Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,11 +2,13 @@
 /**
  * /academy-admin/classes/new
  * Create a new class with schedule and generate sessions.
+ * Teacher / room conflicts are listed and can be overridden.
  */
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
+import { ConflictList, type ScheduleConflict } from "@/components/classes/ConflictList";
 
 const DOW_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -14,25 +16,41 @@ interface ScheduleRule {
   daysOfWeek:  number[];
   startTime:   string;
   durationMin: number;
+  roomId:      string;
+}
+
+interface Room {
+  id:       string;
+  name:     string;
+  isActive: boolean;
 }
 
 export default function NewClassPage() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error,   setError]   = useState("");
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [rooms,     setRooms]     = useState<Room[]>([]);
 
   // Form fields
   const [name,          setName]          = useState("");
   const [startDate,     setStartDate]     = useState("");
   const [endDate,       setEndDate]       = useState("");
   const [capacity,      setCapacity]      = useState("");
+  const [lateAfterMin,  setLateAfterMin]  = useState(10);
   const [generateWeeks, setGenerateWeeks] = useState(8);
   const [schedules,     setSchedules]     = useState<ScheduleRule[]>([
-    { daysOfWeek: [1], startTime: "15:00", durationMin: 60 },
+    { daysOfWeek: [1], startTime: "15:00", durationMin: 60, roomId: "" },
   ]);
 
+  useEffect(() => {
+    fetch("/api/academy/rooms")
+      .then((res) => (res.ok ? res.json() : { data: [] }))
+      .then(({ data }) => setRooms((data ?? []).filter((r: Room) => r.isActive)));
+  }, []);
+
   function addSchedule() {
-    setSchedules((prev) => [...prev, { daysOfWeek: [1], startTime: "15:00", durationMin: 60 }]);
+    setSchedules((prev) => [...prev, { daysOfWeek: [1], startTime: "15:00", durationMin: 60, roomId: "" }]);
   }
 
   function removeSchedule(i: number) {
@@ -56,6 +74,10 @@ export default function NewClassPage() {
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
+    await submit(false);
+  }
+
+  async function submit(override: boolean) {
     if (!name.trim() || !startDate) {
       setError("Name and Start Date are required.");
       return;
@@ -67,6 +89,7 @@ export default function NewClassPage() {
 
     setLoading(true);
     setError("");
+    setConflicts([]);
     try {
       const res = await fetch("/api/academy/classes", {
         method:  "POST",
@@ -76,11 +99,17 @@ export default function NewClassPage() {
           startDate,
           endDate:       endDate || null,
           capacity:      capacity ? parseInt(capacity, 10) : null,
-          schedules,
+          lateAfterMin,
+          schedules: schedules.map((s) => ({ ...s, roomId: s.roomId || null })),
           generateWeeks,
+          override,
         }),
       });
       const json = await res.json();
+      if (res.status === 409 && json.details?.conflicts) {
+        setConflicts(json.details.conflicts);
+        return;
+      }
       if (!res.ok) throw new Error(json.error ?? "Failed to create class");
       router.push(`/academy-admin/classes/${json.data.class.id}`);
     } catch (e: unknown) {
@@ -113,7 +142,7 @@ export default function NewClassPage() {
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Capacity (optional)</label>
             <Input type="number" min="1" value={capacity} onChange={(e) => setCapacity(e.target.value)} placeholder="Unlimited" />
@@ -122,6 +151,10 @@ export default function NewClassPage() {
             <label className="block text-sm font-medium text-gray-700 mb-1">Generate sessions (weeks)</label>
             <Input type="number" min="1" max="52" value={generateWeeks} onChange={(e) => setGenerateWeeks(parseInt(e.target.value, 10))} />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Late after (min)</label>
+            <Input type="number" min="0" max="120" value={lateAfterMin} onChange={(e) => setLateAfterMin(parseInt(e.target.value, 10))} />
+          </div>
         </div>
 
         {/* Schedules */}
@@ -161,7 +194,7 @@ export default function NewClassPage() {
                   </div>
                 </div>
 
-                <div className="grid grid-cols-2 gap-3">
+                <div className="grid grid-cols-3 gap-3">
                   <div>
                     <label className="block text-xs text-gray-500 mb-1">Start Time (KST)</label>
                     <input
@@ -182,12 +215,25 @@ export default function NewClassPage() {
                       className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Room</label>
+                    <select
+                      value={s.roomId}
+                      onChange={(e) => setSchedules((prev) => prev.map((r, idx) => idx === i ? { ...r, roomId: e.target.value } : r))}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+                    >
+                      <option value="">—</option>
+                      {rooms.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+                    </select>
+                  </div>
                 </div>
               </div>
             ))}
           </div>
         </div>
 
+        <ConflictList conflicts={conflicts} loading={loading} onOverride={() => submit(true)} />
+
         <div className="flex gap-3 pt-2">
           <Button type="submit" loading={loading}>Create Class</Button>
           <Button type="button" variant="secondary" onClick={() => router.back()}>Cancel</Button>
@@ -0,0 +1,181 @@
+"use client";
+/**
+ * /academy-admin/closures
+ * Academy closure calendar: single days, vacation ranges and imported public
+ * holidays. Sessions are not generated on these dates; after adding a
+ * closure the admin is offered to cancel the sessions already scheduled.
+ */
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { useToast } from "@/components/ui/Toast";
+import { PUBLIC_HOLIDAY_YEARS } from "@/lib/calendar/kr-holidays";
+
+interface Closure {
+  id:        string;
+  name:      string;
+  startDate: string;
+  endDate:   string;
+  source:    "MANUAL" | "PUBLIC_HOLIDAY";
+}
+
+const EMPTY_FORM = { name: "", startDate: "", endDate: "" };
+
+function rangeLabel(c: Pick<Closure, "startDate" | "endDate">) {
+  return c.startDate === c.endDate ? c.startDate : `${c.startDate} ~ ${c.endDate}`;
+}
+
+export default function ClosuresPage() {
+  const { push: toast } = useToast();
+  const [year, setYear]         = useState(new Date().getFullYear());
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [loading, setLoading]   = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm]         = useState(EMPTY_FORM);
+  const [saving, setSaving]     = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const res = await fetch(`/api/academy/closures?year=${year}`);
+    if (res.ok) { const { data } = await res.json(); setClosures(data ?? []); }
+    setLoading(false);
+  }, [year]);
+
+  useEffect(() => { load(); }, [load]);
+
+  /** Offer to cancel the sessions already scheduled on the new closure(s). */
+  async function offerCancel(affected: number, from: string, to: string) {
+    if (affected === 0) return;
+    if (!confirm(`이 기간에 예정된 수업이 ${affected}개 있습니다. 모두 휴강 처리할까요?\n(출석이 입력된 수업은 제외됩니다)`)) return;
+    const res = await fetch("/api/academy/closures/cancel-sessions", {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ from, to }),
+    });
+    const body = await res.json();
+    if (!res.ok) { toast(body.error ?? "휴강 처리 실패", "error"); return; }
+    toast(`${body.data.canceled}개 수업을 휴강 처리했습니다`, "success");
+  }
+
+  async function handleCreate() {
+    setSaving(true);
+    const res = await fetch("/api/academy/closures", {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({
+        name:      form.name,
+        startDate: form.startDate,
+        endDate:   form.endDate || null,
+      }),
+    });
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "저장 실패", "error"); return; }
+    toast("휴원일을 추가했습니다", "success");
+    setFormOpen(false);
+    const { closure, affectedSessions } = body.data;
+    await offerCancel(affectedSessions, closure.startDate, closure.endDate);
+    load();
+  }
+
+  async function importHolidays() {
+    setImporting(true);
+    const res = await fetch("/api/academy/closures/holidays", {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ year }),
+    });
+    const body = await res.json();
+    setImporting(false);
+    if (!res.ok) { toast(body.error ?? "가져오기 실패", "error"); return; }
+    toast(`공휴일 ${body.data.imported}일을 추가했습니다`, "success");
+    await offerCancel(body.data.affectedSessions, `${year}-01-01`, `${year}-12-31`);
+    load();
+  }
+
+  async function remove(c: Closure) {
+    if (!confirm(`"${c.name}" 휴원일을 삭제할까요? 이미 휴강 처리된 수업은 되돌려지지 않습니다.`)) return;
+    const res = await fetch(`/api/academy/closures/${c.id}`, { method: "DELETE" });
+    if (!res.ok) { toast("삭제 실패", "error"); return; }
+    toast("삭제했습니다", "success");
+    load();
+  }
+
+  const columns = [
+    { key: "date", header: "날짜", render: (c: Closure) => rangeLabel(c) },
+    { key: "name", header: "이름" },
+    {
+      key: "source", header: "구분",
+      render: (c: Closure) => (
+        <Badge variant={c.source === "PUBLIC_HOLIDAY" ? "active" : "default"}>
+          {c.source === "PUBLIC_HOLIDAY" ? "공휴일" : "학원 휴원"}
+        </Badge>
+      ),
+    },
+    {
+      key: "actions", header: "",
+      render: (c: Closure) => (
+        <Button size="sm" variant="danger" onClick={() => remove(c)}>삭제</Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">휴원일</h1>
+          <p className="text-sm text-gray-500 mt-1">휴원일에는 수업이 생성되지 않으며 수업 횟수·일할 계산에서 제외됩니다</p>
+        </div>
+        <Button onClick={() => { setForm(EMPTY_FORM); setFormOpen(true); }}>+ 휴원일 추가</Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <select
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+        >
+          {[year - 1, year, year + 1].map((y) => <option key={y} value={y}>{y}년</option>)}
+        </select>
+        <Button
+          variant="secondary"
+          loading={importing}
+          disabled={!PUBLIC_HOLIDAY_YEARS.includes(year)}
+          onClick={importHolidays}
+        >
+          {year}년 공휴일 가져오기
+        </Button>
+        {!PUBLIC_HOLIDAY_YEARS.includes(year) && (
+          <span className="text-xs text-gray-400">{year}년 공휴일 데이터가 없습니다</span>
+        )}
+      </div>
+
+      <Table columns={columns} rows={closures} keyField="id" loading={loading} emptyMessage="등록된 휴원일이 없습니다." />
+
+      <Modal open={formOpen} onClose={() => setFormOpen(false)} title="휴원일 추가"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setFormOpen(false)}>취소</Button>
+            <Button loading={saving} onClick={handleCreate}>추가</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <Input label="이름" value={form.name} hint="예: 여름 방학, 학원 정기 휴무"
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="시작일" type="date" value={form.startDate}
+              onChange={(e) => setForm((f) => ({ ...f, startDate: e.target.value }))} />
+            <Input label="종료일" type="date" value={form.endDate} hint="하루만 쉬면 비워 두세요"
+              onChange={(e) => setForm((f) => ({ ...f, endDate: e.target.value }))} />
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -128,9 +128,9 @@ export default function DashboardClient({
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
           <KpiCard
             label="납부 완료"
-            value={fmtKRW(revenue.totalPaidAmount)}
-            subLabel="건수"
-            subValue={`${revenue.paidCount}건`}
+            value={fmtKRW(revenue.netPaidAmount)}
+            subLabel={revenue.refundedAmount > 0 ? "환불" : "건수"}
+            subValue={revenue.refundedAmount > 0 ? `-${fmtKRW(revenue.refundedAmount)} · ${revenue.paidCount}건` : `${revenue.paidCount}건`}
             icon="💰"
             color="green"
             loading={loading}
@@ -231,9 +231,9 @@ export default function DashboardClient({
             loading={loading}
           />
           <KpiCard
-            label="알림 발송"
-            value={`${notifications.queuedCount}건`}
-            subLabel="실패"
+            label="알림 도달률"
+            value={notifications.deliveryRate === null ? "—" : `${notifications.deliveryRate}%`}
+            subLabel={`발송 ${notifications.queuedCount}건 · 실패`}
             subValue={`${notifications.failedCount}건`}
             icon="🔔"
             color={notifications.failedCount > 0 ? "yellow" : "gray"}
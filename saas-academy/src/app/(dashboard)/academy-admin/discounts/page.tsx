@@ -0,0 +1,272 @@
+"use client";
+/**
+ * /academy-admin/discounts
+ * Sibling, multi-class, coupon and promotion rules applied by the billing run
+ * when it issues each subscription's next invoice.
+ */
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { useToast } from "@/components/ui/Toast";
+
+type RuleType  = "SIBLING" | "MULTI_CLASS" | "COUPON" | "PROMOTION";
+type ValueType = "FIXED" | "PERCENT";
+
+interface Rule {
+  id:         string;
+  name:       string;
+  type:       RuleType;
+  valueType:  ValueType;
+  value:      number;
+  minCount:   number;
+  code:       string | null;
+  planId:     string | null;
+  validFrom:  string | null;
+  validUntil: string | null;
+  isActive:   boolean;
+  _count:     { lineItems: number; coupons: number };
+}
+
+interface Plan { id: string; name: string }
+
+const TYPE_LABEL: Record<RuleType, string> = {
+  SIBLING:     "Sibling",
+  MULTI_CLASS: "Multi-class",
+  COUPON:      "Coupon",
+  PROMOTION:   "Promotion",
+};
+
+const EMPTY_FORM = {
+  name: "", type: "SIBLING" as RuleType, valueType: "PERCENT" as ValueType, value: "",
+  minCount: "2", code: "", planId: "", validFrom: "", validUntil: "",
+};
+
+export default function DiscountsPage() {
+  const { push: toast } = useToast();
+  const [rules, setRules]     = useState<Rule[]>([]);
+  const [plans, setPlans]     = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<Rule | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm]       = useState(EMPTY_FORM);
+  const [saving, setSaving]   = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [rulesRes, plansRes] = await Promise.all([
+      fetch(`/api/academy/discount-rules?includeInactive=${showInactive}`),
+      fetch("/api/academy/tuition-plans"),
+    ]);
+    if (rulesRes.ok) { const { data } = await rulesRes.json(); setRules(data ?? []); }
+    if (plansRes.ok) { const { data } = await plansRes.json(); setPlans(data ?? []); }
+    setLoading(false);
+  }, [showInactive]);
+
+  useEffect(() => { load(); }, [load]);
+
+  function openCreate() {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  }
+
+  function openEdit(rule: Rule) {
+    setEditing(rule);
+    setForm({
+      name:       rule.name,
+      type:       rule.type,
+      valueType:  rule.valueType,
+      value:      String(rule.value),
+      minCount:   String(rule.minCount),
+      code:       rule.code ?? "",
+      planId:     rule.planId ?? "",
+      validFrom:  rule.validFrom?.slice(0, 10) ?? "",
+      validUntil: rule.validUntil?.slice(0, 10) ?? "",
+    });
+    setFormOpen(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    const payload = {
+      name:       form.name,
+      ...(editing ? {} : { type: form.type }),
+      valueType:  form.valueType,
+      value:      Number(form.value),
+      minCount:   Number(form.minCount),
+      code:       form.type === "COUPON" ? form.code : null,
+      planId:     form.planId || null,
+      validFrom:  form.validFrom || null,
+      validUntil: form.validUntil || null,
+    };
+    const res = await fetch(
+      editing ? `/api/academy/discount-rules/${editing.id}` : "/api/academy/discount-rules",
+      {
+        method:  editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify(payload),
+      },
+    );
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "Save failed", "error"); return; }
+    toast(editing ? "Rule updated" : "Rule created", "success");
+    setFormOpen(false);
+    load();
+  }
+
+  async function toggleActive(rule: Rule) {
+    if (rule.isActive && !confirm(`Deactivate "${rule.name}"? Invoices already issued keep their discount.`)) return;
+    const res = rule.isActive
+      ? await fetch(`/api/academy/discount-rules/${rule.id}`, { method: "DELETE" })
+      : await fetch(`/api/academy/discount-rules/${rule.id}`, {
+          method:  "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body:    JSON.stringify({ isActive: true }),
+        });
+    if (!res.ok) { toast("Failed", "error"); return; }
+    toast(rule.isActive ? "Rule deactivated" : "Rule activated", "success");
+    load();
+  }
+
+  function valueLabel(r: Rule) {
+    return r.valueType === "PERCENT" ? `${r.value}%` : `₩${r.value.toLocaleString()}`;
+  }
+
+  function conditionLabel(r: Rule) {
+    switch (r.type) {
+      case "SIBLING":     return `${r.minCount}+ siblings subscribed`;
+      case "MULTI_CLASS": return `${r.minCount}+ active classes`;
+      case "COUPON":      return `Code ${r.code} (${r._count.coupons} applied)`;
+      case "PROMOTION":   return "All subscriptions";
+    }
+  }
+
+  function windowLabel(r: Rule) {
+    if (!r.validFrom && !r.validUntil) return "—";
+    return `${r.validFrom?.slice(0, 10) ?? "…"} ~ ${r.validUntil?.slice(0, 10) ?? "…"}`;
+  }
+
+  const columns = [
+    { key: "name",      header: "Name" },
+    { key: "type",      header: "Type",      render: (r: Rule) => TYPE_LABEL[r.type] },
+    { key: "value",     header: "Discount",  render: (r: Rule) => valueLabel(r) },
+    { key: "condition", header: "Applies To", render: (r: Rule) => conditionLabel(r) },
+    { key: "plan",      header: "Plan",      render: (r: Rule) => plans.find((p) => p.id === r.planId)?.name ?? (r.planId ? "—" : "All plans") },
+    { key: "window",    header: "Valid",     render: (r: Rule) => windowLabel(r) },
+    { key: "used",      header: "Invoices",  render: (r: Rule) => String(r._count.lineItems) },
+    {
+      key: "isActive", header: "Status",
+      render: (r: Rule) => (
+        <Badge variant={r.isActive ? "active" : "default"}>{r.isActive ? "ACTIVE" : "INACTIVE"}</Badge>
+      ),
+    },
+    {
+      key: "actions", header: "",
+      render: (r: Rule) => (
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={() => openEdit(r)}>Edit</Button>
+          <Button size="sm" variant={r.isActive ? "danger" : "secondary"} onClick={() => toggleActive(r)}>
+            {r.isActive ? "Deactivate" : "Activate"}
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Discounts</h1>
+          <p className="text-sm text-gray-500 mt-1">Applied automatically to each subscription&apos;s next invoice</p>
+        </div>
+        <Button onClick={openCreate}>+ New Rule</Button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+        Show inactive rules
+      </label>
+
+      <Table columns={columns} rows={rules} keyField="id" loading={loading} emptyMessage="No discount rules yet." />
+
+      <Modal open={formOpen} onClose={() => setFormOpen(false)} title={editing ? "Edit Rule" : "New Rule"}
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button loading={saving} onClick={handleSave}>{editing ? "Save" : "Create"}</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <Input label="Name" value={form.name} hint="Shown on the invoice"
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-100"
+              value={form.type}
+              disabled={!!editing}
+              onChange={(e) => setForm((f) => ({ ...f, type: e.target.value as RuleType }))}
+            >
+              {(Object.keys(TYPE_LABEL) as RuleType[]).map((t) => (
+                <option key={t} value={t}>{TYPE_LABEL[t]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
+              <select
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={form.valueType}
+                onChange={(e) => setForm((f) => ({ ...f, valueType: e.target.value as ValueType }))}
+              >
+                <option value="PERCENT">Percent of plan</option>
+                <option value="FIXED">Fixed KRW</option>
+              </select>
+            </div>
+            <Input label={form.valueType === "PERCENT" ? "Percent" : "Amount (KRW)"} type="number" min={1}
+              max={form.valueType === "PERCENT" ? 100 : undefined} value={form.value}
+              onChange={(e) => setForm((f) => ({ ...f, value: e.target.value }))} />
+          </div>
+          {(form.type === "SIBLING" || form.type === "MULTI_CLASS") && (
+            <Input
+              label={form.type === "SIBLING" ? "Minimum siblings" : "Minimum classes"}
+              type="number" min={2} max={10} value={form.minCount}
+              hint={form.type === "SIBLING"
+                ? "Students sharing a parent phone number, each with an active subscription"
+                : "Active class enrollments of the student"}
+              onChange={(e) => setForm((f) => ({ ...f, minCount: e.target.value }))} />
+          )}
+          {form.type === "COUPON" && (
+            <Input label="Coupon Code" value={form.code} hint="Letters, digits, - and _"
+              onChange={(e) => setForm((f) => ({ ...f, code: e.target.value.toUpperCase() }))} />
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Plan</label>
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={form.planId}
+              onChange={(e) => setForm((f) => ({ ...f, planId: e.target.value }))}
+            >
+              <option value="">All plans</option>
+              {plans.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Valid From" type="date" value={form.validFrom}
+              onChange={(e) => setForm((f) => ({ ...f, validFrom: e.target.value }))} />
+            <Input label="Valid Until" type="date" value={form.validUntil}
+              onChange={(e) => setForm((f) => ({ ...f, validUntil: e.target.value }))} />
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/Button";
 import { Table } from "@/components/ui/Table";
 import { Badge } from "@/components/ui/Badge";
 import { Pagination } from "@/components/ui/Pagination";
+import { Modal } from "@/components/ui/Modal";
+import { Input } from "@/components/ui/Input";
 import { useToast } from "@/components/ui/Toast";
 
 interface Invoice {
@@ -12,13 +14,26 @@ interface Invoice {
   orderId: string;
   amount: number;
   dueDate: string;
-  status: "PENDING" | "PAID" | "FAILED" | "CANCELED";
+  status: "PENDING" | "PAID" | "FAILED" | "CANCELED" | "REFUNDED";
   paidAt: string | null;
+  refundedAmount: number;
+  providerPaymentKey: string | null;
   plan: { name: string; amount: number } | null;
   student: { id: string; name: string; email: string } | null;
-  attempts: { attemptNo: number; status: string; requestedAt: string }[];
+  lineItems: { type: string; description: string; amount: number }[];
+  attempts: {
+    attemptNo: number; status: string; requestedAt: string;
+    errorCode: string | null; errorMessage: string | null;
+  }[];
+  virtualAccounts: {
+    bankCode: string; accountNumber: string; amount: number; dueDate: string;
+    status: string; depositedAmount: number | null; errorMessage: string | null;
+  }[];
 }
 
+/** Mirrors MAX_ATTEMPTS in billing.service.ts */
+const MAX_ATTEMPTS = 3;
+
 export default function InvoicesPage() {
   const { push: toast } = useToast();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
@@ -27,6 +42,10 @@ export default function InvoicesPage() {
   const [statusFilter, setStatusFilter] = useState("");
   const [loading, setLoading] = useState(true);
   const [retrying, setRetrying] = useState<string | null>(null);
+  const [settling, setSettling] = useState<string | null>(null);
+  const [refunding, setRefunding] = useState<Invoice | null>(null);
+  const [refundForm, setRefundForm] = useState({ amount: "", reason: "" });
+  const [refundSaving, setRefundSaving] = useState(false);
 
   const LIMIT = 20;
 
@@ -46,7 +65,10 @@ export default function InvoicesPage() {
   useEffect(() => { load(); }, [load]);
 
   async function handleRetry(invoice: Invoice) {
-    if (!confirm(`Retry charge for ${invoice.student?.name ?? invoice.studentUserId}?`)) return;
+    const pastLimit = (invoice.attempts?.length ?? 0) >= MAX_ATTEMPTS
+      ? ` It has already been tried ${invoice.attempts.length} times.`
+      : "";
+    if (!confirm(`Retry charge for ${invoice.student?.name ?? invoice.studentUserId}?${pastLimit}`)) return;
     setRetrying(invoice.id);
     const res = await fetch(`/api/academy/invoices/${invoice.id}`, { method: "POST" });
     const body = await res.json();
@@ -56,9 +78,55 @@ export default function InvoicesPage() {
     load();
   }
 
+  async function handleSettle(invoice: Invoice, status: "PAID" | "CANCELED") {
+    const who = invoice.student?.name ?? invoice.studentUserId;
+    const question = status === "PAID"
+      ? `Mark ${who}'s invoice as paid offline (cash / bank transfer)?`
+      : `Cancel ${who}'s invoice?`;
+    if (!confirm(question)) return;
+    setSettling(invoice.id);
+    const res = await fetch(`/api/academy/invoices/${invoice.id}`, {
+      method:  "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ status }),
+    });
+    const body = await res.json();
+    setSettling(null);
+    if (!res.ok) { toast(body.error ?? "Update failed", "error"); return; }
+    toast(status === "PAID" ? "Marked as paid" : "Invoice canceled", "success");
+    load();
+  }
+
+  function openRefund(invoice: Invoice) {
+    setRefunding(invoice);
+    setRefundForm({ amount: String(invoice.amount - invoice.refundedAmount), reason: "" });
+  }
+
+  async function handleRefund() {
+    if (!refunding) return;
+    setRefundSaving(true);
+    const res = await fetch(`/api/academy/invoices/${refunding.id}/refunds`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ amount: Number(refundForm.amount), reason: refundForm.reason }),
+    });
+    const body = await res.json();
+    setRefundSaving(false);
+    if (!res.ok) { toast(body.error ?? "Refund failed", "error"); return; }
+    toast("Refund completed", "success");
+    setRefunding(null);
+    load();
+  }
+
+  function attemptsLabel(inv: Invoice) {
+    const last = inv.attempts?.[inv.attempts.length - 1];
+    const count = `${inv.attempts?.length ?? 0}/${MAX_ATTEMPTS}`;
+    return last?.errorCode ? `${count} (${last.errorCode})` : count;
+  }
+
   function statusVariant(s: string): "active" | "suspended" | "default" {
     if (s === "PAID")   return "active";
-    if (s === "FAILED" || s === "CANCELED") return "suspended";
+    if (s === "FAILED" || s === "CANCELED" || s === "REFUNDED") return "suspended";
     return "default";
   }
 
@@ -66,22 +134,92 @@ export default function InvoicesPage() {
     { key: "orderId",  header: "Order ID",  render: (inv: Invoice) => <span className="font-mono text-xs">{inv.orderId}</span> },
     { key: "student",  header: "Student",   render: (inv: Invoice) => inv.student?.name ?? inv.studentUserId },
     { key: "plan",     header: "Plan",      render: (inv: Invoice) => inv.plan?.name ?? "—" },
-    { key: "amount",   header: "Amount",    render: (inv: Invoice) => `₩${inv.amount.toLocaleString()}` },
+    {
+      key: "amount", header: "Amount",
+      render: (inv: Invoice) => (
+        <span title={inv.lineItems?.map((li) => `${li.description}: ₩${li.amount.toLocaleString()}`).join("\n")}>
+          ₩{inv.amount.toLocaleString()}
+          {inv.lineItems?.some((li) => li.type === "LATE_FEE") && (
+            <span className="ml-1 text-xs text-red-600">+late fee</span>
+          )}
+          {inv.lineItems?.some((li) => li.type === "DISCOUNT") && (
+            <span className="ml-1 text-xs text-green-600">
+              −{inv.lineItems.filter((li) => li.type === "DISCOUNT").map((li) => li.description).join(", ")}
+            </span>
+          )}
+          {inv.lineItems?.some((li) => li.type.startsWith("PRORATION_")) && (
+            <span className="ml-1 text-xs text-blue-600">prorated</span>
+          )}
+          {inv.refundedAmount > 0 && (
+            <span className="ml-1 text-xs text-gray-500">(−₩{inv.refundedAmount.toLocaleString()} refunded)</span>
+          )}
+        </span>
+      ),
+    },
     { key: "dueDate",  header: "Due",       render: (inv: Invoice) => inv.dueDate.slice(0, 10) },
     { key: "status",   header: "Status",    render: (inv: Invoice) => <Badge variant={statusVariant(inv.status)}>{inv.status}</Badge> },
-    { key: "paidAt",   header: "Paid At",   render: (inv: Invoice) => inv.paidAt ? inv.paidAt.slice(0, 10) : "—" },
-    { key: "attempts", header: "Attempts",  render: (inv: Invoice) => String(inv.attempts?.length ?? 0) },
+    {
+      key: "paidAt", header: "Paid At",
+      render: (inv: Invoice) => {
+        const va = inv.virtualAccounts?.[0];
+        return (
+          <span>
+            {inv.paidAt ? inv.paidAt.slice(0, 10) : "—"}
+            {va?.status === "WAITING_FOR_DEPOSIT" && (
+              <span className="ml-1 text-xs text-blue-600" title={`${va.bankCode} ${va.accountNumber}`}>
+                awaiting transfer
+              </span>
+            )}
+            {va && va.errorMessage && (va.status === "AMOUNT_MISMATCH" || va.status === "DONE") && (
+              <span className="ml-1 text-xs text-red-600" title={va.errorMessage}>
+                transfer ₩{(va.depositedAmount ?? 0).toLocaleString()} needs review
+              </span>
+            )}
+          </span>
+        );
+      },
+    },
+    {
+      key: "attempts", header: "Attempts",
+      render: (inv: Invoice) => (
+        <span title={inv.attempts?.map((a) => `#${a.attemptNo} ${a.status}${a.errorMessage ? ` – ${a.errorMessage}` : ""}`).join("\n")}>
+          {attemptsLabel(inv)}
+        </span>
+      ),
+    },
     {
       key: "actions", header: "Actions",
       render: (inv: Invoice) =>
         inv.status === "FAILED" || inv.status === "PENDING" ? (
-          <Button
-            size="sm"
-            variant="secondary"
-            disabled={retrying === inv.id}
-            onClick={() => handleRetry(inv)}
-          >
-            {retrying === inv.id ? "Retrying…" : "Retry"}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={retrying === inv.id}
+              onClick={() => handleRetry(inv)}
+            >
+              {retrying === inv.id ? "Retrying…" : "Retry"}
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={settling === inv.id}
+              onClick={() => handleSettle(inv, "PAID")}
+            >
+              Mark Paid
+            </Button>
+            <Button
+              size="sm"
+              variant="danger"
+              disabled={settling === inv.id}
+              onClick={() => handleSettle(inv, "CANCELED")}
+            >
+              Cancel
+            </Button>
+          </div>
+        ) : inv.status === "PAID" && inv.providerPaymentKey && inv.refundedAmount < inv.amount ? (
+          <Button size="sm" variant="secondary" onClick={() => openRefund(inv)}>
+            Refund
           </Button>
         ) : <span />,
     },
@@ -104,11 +242,38 @@ export default function InvoicesPage() {
           <option value="PAID">Paid</option>
           <option value="FAILED">Failed</option>
           <option value="CANCELED">Canceled</option>
+          <option value="REFUNDED">Refunded</option>
         </select>
       </div>
 
       <Table columns={columns} rows={invoices} keyField="id" loading={loading} emptyMessage="No invoices found." />
       <Pagination page={page} total={total} limit={LIMIT} onChange={setPage} />
+
+      <Modal open={!!refunding} onClose={() => setRefunding(null)} title="Refund Invoice"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setRefunding(null)}>Close</Button>
+            <Button variant="danger" loading={refundSaving} onClick={handleRefund}
+              disabled={!refundForm.reason || Number(refundForm.amount) <= 0}>
+              Refund
+            </Button>
+          </>
+        }
+      >
+        {refunding && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {refunding.student?.name ?? refunding.studentUserId} · {refunding.orderId}
+            </p>
+            <Input label="Amount (KRW)" type="number" min={1}
+              max={refunding.amount - refunding.refundedAmount} value={refundForm.amount}
+              hint={`Up to ₩${(refunding.amount - refunding.refundedAmount).toLocaleString()}; less than that is a partial refund`}
+              onChange={(e) => setRefundForm((f) => ({ ...f, amount: e.target.value }))} />
+            <Input label="Reason" value={refundForm.reason}
+              onChange={(e) => setRefundForm((f) => ({ ...f, reason: e.target.value }))} />
+          </div>
+        )}
+      </Modal>
     </div>
   );
 }
@@ -9,8 +9,12 @@ const NAV = [
   { href: "/academy-admin/invites",       label: "Invites",       icon: "✉️" },
   { href: "/academy-admin/tuition-plans", label: "Tuition Plans", icon: "📋" },
   { href: "/academy-admin/subscriptions", label: "Subscriptions", icon: "🔄" },
+  { href: "/academy-admin/discounts",     label: "Discounts",     icon: "🏷️" },
   { href: "/academy-admin/invoices",      label: "Invoices",      icon: "🧾" },
   { href: "/academy-admin/classes",       label: "Classes",       icon: "🏫" },
+  { href: "/academy-admin/rooms",         label: "강의실",         icon: "🚪" },
+  { href: "/academy-admin/closures",      label: "휴원일",         icon: "📅" },
+  { href: "/academy-admin/makeups",       label: "보강",           icon: "🔁" },
   { href: "/academy-admin/notifications", label: "알림 설정",      icon: "🔔" },
 ];
 
@@ -0,0 +1,185 @@
+"use client";
+/**
+ * /academy-admin/makeups
+ * Make-up credits granted for EXCUSED absences. An available credit is
+ * redeemed by booking the student into an upcoming session of another
+ * class; a booking can be undone until attendance is marked for it.
+ */
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Modal } from "@/components/ui/Modal";
+import { useToast } from "@/components/ui/Toast";
+
+type CreditStatus = "AVAILABLE" | "REDEEMED" | "VOID";
+
+interface SessionRef {
+  id:        string;
+  startsAt:  string;
+  localDate: string;
+}
+
+interface Credit {
+  id:              string;
+  status:          CreditStatus;
+  student:         { id: string; name: string; email: string };
+  class:           { id: string; name: string };
+  missedSession:   SessionRef;
+  redeemedSession: (SessionRef & { class: { id: string; name: string } }) | null;
+}
+
+interface UpcomingSession extends SessionRef {
+  class:   { id: string; name: string };
+  closure: string | null;
+}
+
+const STATUS_LABEL: Record<CreditStatus, string> = {
+  AVAILABLE: "사용 가능",
+  REDEEMED:  "예약됨",
+  VOID:      "취소됨",
+};
+
+function sessionLabel(s: SessionRef) {
+  const time = new Date(s.startsAt).toLocaleTimeString("ko-KR", {
+    hour: "2-digit", minute: "2-digit", timeZone: "Asia/Seoul",
+  });
+  return `${s.localDate} ${time}`;
+}
+
+export default function MakeupsPage() {
+  const { push: toast } = useToast();
+  const [status, setStatus]     = useState<CreditStatus | "">("AVAILABLE");
+  const [credits, setCredits]   = useState<Credit[]>([]);
+  const [loading, setLoading]   = useState(true);
+  const [booking, setBooking]   = useState<Credit | null>(null);
+  const [sessions, setSessions] = useState<UpcomingSession[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [saving, setSaving]     = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const res = await fetch(`/api/academy/makeup-credits${status ? `?status=${status}` : ""}`);
+    if (res.ok) { const { data } = await res.json(); setCredits(data ?? []); }
+    setLoading(false);
+  }, [status]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function openBooking(c: Credit) {
+    setBooking(c);
+    setSessionId("");
+    const today = new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Seoul" });
+    const res = await fetch(`/api/academy/sessions?status=SCHEDULED&from=${today}&limit=200`);
+    if (!res.ok) { setSessions([]); return; }
+    const { data } = await res.json();
+    const upcoming: UpcomingSession[] = data?.sessions ?? [];
+    setSessions(upcoming.filter((s) =>
+      s.class.id !== c.class.id && !s.closure && new Date(s.startsAt) > new Date()));
+  }
+
+  async function redeem() {
+    if (!booking || !sessionId) return;
+    setSaving(true);
+    const res = await fetch(`/api/academy/makeup-credits/${booking.id}/redeem`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ sessionId }),
+    });
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "예약 실패", "error"); return; }
+    toast("보강 수업을 예약했습니다", "success");
+    setBooking(null);
+    load();
+  }
+
+  async function cancelBooking(c: Credit) {
+    if (!confirm(`${c.student.name} 학생의 보강 예약을 취소할까요?`)) return;
+    const res = await fetch(`/api/academy/makeup-credits/${c.id}/redeem`, { method: "DELETE" });
+    const body = await res.json();
+    if (!res.ok) { toast(body.error ?? "취소 실패", "error"); return; }
+    toast("보강 예약을 취소했습니다", "success");
+    load();
+  }
+
+  const columns = [
+    { key: "student", header: "학생", render: (c: Credit) => c.student.name },
+    {
+      key: "missed", header: "결석 수업",
+      render: (c: Credit) => `${c.class.name} · ${sessionLabel(c.missedSession)}`,
+    },
+    {
+      key: "status", header: "상태",
+      render: (c: Credit) => (
+        <Badge variant={c.status === "AVAILABLE" ? "active" : c.status === "VOID" ? "suspended" : "default"}>
+          {STATUS_LABEL[c.status]}
+        </Badge>
+      ),
+    },
+    {
+      key: "makeup", header: "보강 수업",
+      render: (c: Credit) => c.redeemedSession
+        ? `${c.redeemedSession.class.name} · ${sessionLabel(c.redeemedSession)}`
+        : "—",
+    },
+    {
+      key: "actions", header: "",
+      render: (c: Credit) => c.status === "AVAILABLE" ? (
+        <Button size="sm" onClick={() => openBooking(c)}>보강 예약</Button>
+      ) : c.status === "REDEEMED" ? (
+        <Button size="sm" variant="secondary" onClick={() => cancelBooking(c)}>예약 취소</Button>
+      ) : null,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">보강</h1>
+        <p className="text-sm text-gray-500 mt-1">사유 결석(EXCUSED) 1회마다 보강권 1장이 발급됩니다</p>
+      </div>
+
+      <select
+        className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+        value={status}
+        onChange={(e) => setStatus(e.target.value as CreditStatus | "")}
+      >
+        <option value="">전체</option>
+        {(Object.keys(STATUS_LABEL) as CreditStatus[]).map((s) => (
+          <option key={s} value={s}>{STATUS_LABEL[s]}</option>
+        ))}
+      </select>
+
+      <Table columns={columns} rows={credits} keyField="id" loading={loading} emptyMessage="보강권이 없습니다." />
+
+      <Modal open={!!booking} onClose={() => setBooking(null)} title="보강 예약"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setBooking(null)}>취소</Button>
+            <Button loading={saving} disabled={!sessionId} onClick={redeem}>예약</Button>
+          </>
+        }
+      >
+        {booking && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {booking.student.name} · {booking.class.name} {sessionLabel(booking.missedSession)} 결석분
+            </p>
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+            >
+              <option value="">수업 선택</option>
+              {sessions.map((s) => (
+                <option key={s.id} value={s.id}>{s.class.name} · {sessionLabel(s)}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400">다른 반의 예정된 수업만 표시됩니다. 정원이 찬 수업은 예약되지 않습니다.</p>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -2,15 +2,31 @@
 /**
  * /academy-admin/notifications
  *
- * Page: AlimTalk notification settings + template management for academy admin.
- * Two tabs:
- *  1. "알림 설정"  – toggle flags, quiet hours
- *  2. "템플릿 관리" – register ABSENT / LATE / EXCUSED template codes
+ * Page: AlimTalk notification settings, template management and the
+ * delivery log for academy admin.
+ * Three tabs:
+ *  1. "알림 설정"  – toggle flags, quiet hours, SMS/LMS fallback, sending
+ *                    limits (per-minute rate, monthly cap with usage; a
+ *                    warning banner shows from 80% of the cap)
+ *  2. "템플릿 관리" – register attendance (ABSENT / LATE / EXCUSED), billing
+ *                    (BILLING_*), schedule (SESSION_*) and waitlist
+ *                    (WAITLIST_PROMOTED) template codes and approved bodies,
+ *                    with a rendered preview. All but billing templates are
+ *                    kept per language (KO / EN / ZH / VI); billing is Korean
+ *                    only.
+ *  3. "발송 내역"  – outbox log with resend / cancel (NotificationLog)
  */
 
 import React, { useEffect, useState } from "react";
 import { Button, Input, Spinner } from "@/components/ui";
 import toast from "react-hot-toast";
+import { NotificationLog } from "@/components/notifications/NotificationLog";
+import { smsByteLength, SMS_MAX_BYTES } from "@/lib/alimtalk/sms-client";
+import {
+  LANGUAGE_LABEL,
+  NOTIFICATION_LANGUAGES,
+  type NotificationLanguage,
+} from "@/lib/alimtalk/templates";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -23,26 +39,103 @@ interface NotificationSettings {
   quietHoursEnabled:         boolean;
   quietHoursStart:           string;
   quietHoursEnd:             string;
+  sendOnChargeUpcoming:      boolean;
+  chargeReminderDays:        number;
+  sendOnChargeFailed:        boolean;
+  sendOnChargeSucceeded:     boolean;
+  sendOnScheduleChange:      boolean;
+  sendOnWaitlistPromotion:   boolean;
+  smsFallbackEnabled:        boolean;
+  smsSenderNumber:           string | null;
+  smsFallbackTexts:          Partial<Record<AlimtalkTemplate["type"], string>>;
+  sendRatePerMinute:         number;
+  monthlyMessageCap:         number | null;
+}
+
+/** This month's sent messages against the cap (throttle.ts) */
+interface MessageUsage {
+  sent:      number;
+  cap:       number | null;
+  ratio:     number | null;
+  warning:   boolean;
+  exhausted: boolean;
 }
 
 interface AlimtalkTemplate {
   id:           string;
-  type:         "ABSENT" | "LATE" | "EXCUSED";
+  type:
+    | "ABSENT"
+    | "LATE"
+    | "EXCUSED"
+    | "BILLING_UPCOMING"
+    | "BILLING_FAILED"
+    | "BILLING_FINAL_FAILED"
+    | "BILLING_PAID"
+    | "SESSION_RESCHEDULED"
+    | "SESSION_EXTRA"
+    | "SESSION_MAKEUP"
+    | "WAITLIST_PROMOTED";
+  language:     NotificationLanguage;
   templateCode: string;
   senderKey:    string;
+  body:         string;
   isActive:     boolean;
 }
 
+type TemplateInput = Pick<AlimtalkTemplate, "templateCode" | "senderKey" | "body" | "isActive">;
+
+interface TemplatePreview {
+  text:    string;
+  missing: string[];
+}
+
 const TEMPLATE_TYPES: Array<{ type: AlimtalkTemplate["type"]; label: string; description: string }> = [
   { type: "ABSENT",  label: "결석",  description: "학생이 결석했을 때 발송" },
   { type: "LATE",    label: "지각",  description: "학생이 지각했을 때 발송" },
   { type: "EXCUSED", label: "공결",  description: "학생이 공결 처리됐을 때 발송 (선택적)" },
+  { type: "BILLING_UPCOMING",     label: "결제 예정", description: "자동 결제 며칠 전 안내" },
+  { type: "BILLING_FAILED",       label: "결제 실패", description: "결제가 실패해 재시도 예정일 때 발송" },
+  { type: "BILLING_FINAL_FAILED", label: "최종 실패", description: "모든 재시도가 실패했을 때 발송" },
+  { type: "BILLING_PAID",         label: "결제 완료", description: "결제가 완료됐을 때 발송 (선택적)" },
+  { type: "SESSION_RESCHEDULED",  label: "일정 변경", description: "수업 시간이 변경됐을 때 발송" },
+  { type: "SESSION_EXTRA",        label: "추가 수업", description: "정규 일정 외 수업이 추가됐을 때 발송" },
+  { type: "SESSION_MAKEUP",       label: "보강 예약", description: "공결한 수업의 보강이 예약됐을 때 발송" },
+  { type: "WAITLIST_PROMOTED",    label: "대기 등록", description: "대기 중인 학생이 수업에 등록됐을 때 발송" },
 ];
 
+/** State key of one template: type + language */
+function templateKey(type: AlimtalkTemplate["type"], language: NotificationLanguage): string {
+  return `${language}:${type}`;
+}
+
+function emptyTemplateInputs(): Record<string, TemplateInput> {
+  const inputs: Record<string, TemplateInput> = {};
+  for (const language of NOTIFICATION_LANGUAGES) {
+    for (const { type } of TEMPLATE_TYPES) {
+      inputs[templateKey(type, language)] = { templateCode: "", senderKey: "", body: "", isActive: true };
+    }
+  }
+  return inputs;
+}
+
+const TYPE_BADGE: Record<AlimtalkTemplate["type"], string> = {
+  ABSENT:               "bg-red-100 text-red-700",
+  LATE:                 "bg-yellow-100 text-yellow-700",
+  EXCUSED:              "bg-blue-100 text-blue-700",
+  BILLING_UPCOMING:     "bg-gray-100 text-gray-700",
+  BILLING_FAILED:       "bg-orange-100 text-orange-700",
+  BILLING_FINAL_FAILED: "bg-red-100 text-red-700",
+  BILLING_PAID:         "bg-green-100 text-green-700",
+  SESSION_RESCHEDULED:  "bg-purple-100 text-purple-700",
+  SESSION_EXTRA:        "bg-purple-100 text-purple-700",
+  SESSION_MAKEUP:       "bg-teal-100 text-teal-700",
+  WAITLIST_PROMOTED:    "bg-blue-100 text-blue-700",
+};
+
 // ── Component ────────────────────────────────────────────────────────────────
 
 export default function NotificationSettingsPage() {
-  const [activeTab, setActiveTab] = useState<"settings" | "templates">("settings");
+  const [activeTab, setActiveTab] = useState<"settings" | "templates" | "log">("settings");
   const [loading,  setLoading]    = useState(true);
 
   // Settings state
@@ -55,19 +148,28 @@ export default function NotificationSettingsPage() {
     quietHoursEnabled:         true,
     quietHoursStart:           "21:00",
     quietHoursEnd:             "08:00",
+    sendOnChargeUpcoming:      true,
+    chargeReminderDays:        3,
+    sendOnChargeFailed:        true,
+    sendOnChargeSucceeded:     false,
+    sendOnScheduleChange:      true,
+    sendOnWaitlistPromotion:   true,
+    smsFallbackEnabled:        false,
+    smsSenderNumber:           null,
+    smsFallbackTexts:          {},
+    sendRatePerMinute:         60,
+    monthlyMessageCap:         null,
   });
+  const [usage, setUsage] = useState<MessageUsage | null>(null);
   const [savingSettings, setSavingSettings] = useState(false);
 
   // Templates state
   const [templates,     setTemplates]     = useState<Record<string, AlimtalkTemplate>>({});
-  const [templateInput, setTemplateInput] = useState<
-    Record<string, { templateCode: string; senderKey: string; isActive: boolean }>
-  >({
-    ABSENT:  { templateCode: "", senderKey: "", isActive: true },
-    LATE:    { templateCode: "", senderKey: "", isActive: true },
-    EXCUSED: { templateCode: "", senderKey: "", isActive: true },
-  });
+  const [templateInput, setTemplateInput] = useState<Record<string, TemplateInput>>(emptyTemplateInputs);
+  const [templateLanguage, setTemplateLanguage] = useState<NotificationLanguage>("KO");
   const [savingTemplate, setSavingTemplate] = useState<string | null>(null);
+  const [previews,       setPreviews]       = useState<Record<string, TemplatePreview>>({});
+  const [previewing,     setPreviewing]     = useState<string | null>(null);
 
   // ── Fetch ──────────────────────────────────────────────────────────────────
 
@@ -84,8 +186,9 @@ export default function NotificationSettingsPage() {
       ]);
 
       if (sRes.ok) {
-        const { data } = await sRes.json();
+        const { data: { usage, ...data } } = await sRes.json();
         setSettings(data);
+        setUsage(usage);
       }
 
       if (tRes.ok) {
@@ -93,8 +196,14 @@ export default function NotificationSettingsPage() {
         const map: Record<string, AlimtalkTemplate> = {};
         const inp = { ...templateInput };
         for (const t of data as AlimtalkTemplate[]) {
-          map[t.type] = t;
-          inp[t.type] = { templateCode: t.templateCode, senderKey: t.senderKey, isActive: t.isActive };
+          const key = templateKey(t.type, t.language);
+          map[key] = t;
+          inp[key] = {
+            templateCode: t.templateCode,
+            senderKey:    t.senderKey,
+            body:         t.body,
+            isActive:     t.isActive,
+          };
         }
         setTemplates(map);
         setTemplateInput(inp);
@@ -112,9 +221,12 @@ export default function NotificationSettingsPage() {
       const res = await fetch("/api/academy/notification-settings", {
         method:  "PUT",
         headers: { "Content-Type": "application/json" },
-        body:    JSON.stringify(settings),
+        body:    JSON.stringify({ ...settings, smsSenderNumber: settings.smsSenderNumber || null }),
       });
-      if (!res.ok) throw new Error("저장 실패");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? "저장 실패");
+      }
       toast.success("알림 설정이 저장되었습니다");
     } catch (e) {
       toast.error(e instanceof Error ? e.message : "오류 발생");
@@ -125,21 +237,28 @@ export default function NotificationSettingsPage() {
 
   // ── Save template ──────────────────────────────────────────────────────────
 
-  async function saveTemplate(type: AlimtalkTemplate["type"]) {
-    setSavingTemplate(type);
+  async function saveTemplate(type: AlimtalkTemplate["type"], language: NotificationLanguage) {
+    const key = templateKey(type, language);
+    setSavingTemplate(key);
     try {
-      const inp = templateInput[type];
-      if (!inp.templateCode || !inp.senderKey) {
-        toast.error("템플릿 코드와 발신키를 입력해주세요");
+      const inp = templateInput[key];
+      if (!inp.templateCode || !inp.senderKey || !inp.body.trim()) {
+        toast.error("템플릿 코드, 발신키, 본문을 입력해주세요");
         return;
       }
       const res = await fetch("/api/academy/alimtalk-templates", {
         method:  "POST",
         headers: { "Content-Type": "application/json" },
-        body:    JSON.stringify({ type, ...inp }),
+        body:    JSON.stringify({ type, language, ...inp }),
       });
-      if (!res.ok) throw new Error("저장 실패");
-      toast.success(`${TEMPLATE_TYPES.find((t) => t.type === type)?.label} 템플릿 저장됨`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        const fieldErrors = body.details?.fieldErrors ?? {};
+        throw new Error(fieldErrors.body?.[0] ?? fieldErrors.language?.[0] ?? body.error ?? "저장 실패");
+      }
+      toast.success(
+        `${TEMPLATE_TYPES.find((t) => t.type === type)?.label} 템플릿 저장됨 (${LANGUAGE_LABEL[language]})`,
+      );
       await fetchAll();
     } catch (e) {
       toast.error(e instanceof Error ? e.message : "오류 발생");
@@ -148,6 +267,32 @@ export default function NotificationSettingsPage() {
     }
   }
 
+  // ── Preview template ───────────────────────────────────────────────────────
+
+  async function previewTemplate(type: AlimtalkTemplate["type"], language: NotificationLanguage) {
+    const key = templateKey(type, language);
+    const inp = templateInput[key];
+    if (!inp.body.trim()) {
+      toast.error("미리볼 본문을 입력해주세요");
+      return;
+    }
+    setPreviewing(key);
+    try {
+      const res = await fetch("/api/academy/alimtalk-templates/preview", {
+        method:  "POST",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify({ type, language, body: inp.body }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? "미리보기 실패");
+      setPreviews({ ...previews, [key]: { text: body.data.text, missing: body.data.missing } });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "오류 발생");
+    } finally {
+      setPreviewing(null);
+    }
+  }
+
   // ── Render ─────────────────────────────────────────────────────────────────
 
   if (loading) {
@@ -167,11 +312,28 @@ export default function NotificationSettingsPage() {
         </p>
       </div>
 
+      {usage?.warning && (
+        <div
+          className={`rounded-lg border p-4 text-sm ${
+            usage.exhausted
+              ? "bg-red-50 border-red-200 text-red-800"
+              : "bg-amber-50 border-amber-200 text-amber-800"
+          }`}
+        >
+          <strong>이번 달 발송 한도 {Math.floor((usage.ratio ?? 0) * 100)}% 사용</strong>{" "}
+          ({usage.sent.toLocaleString()} / {usage.cap?.toLocaleString()}건).{" "}
+          {usage.exhausted
+            ? "한도를 모두 사용해 이후 알림은 발송되지 않고 건너뜀 처리됩니다."
+            : "한도에 도달하면 이후 알림은 발송되지 않고 건너뜀 처리됩니다."}
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex gap-2 border-b border-gray-200">
         {[
           { key: "settings",  label: "알림 설정"  },
           { key: "templates", label: "템플릿 관리" },
+          { key: "log",       label: "발송 내역"  },
         ].map((tab) => (
           <button
             key={tab.key}
@@ -269,6 +431,179 @@ export default function NotificationSettingsPage() {
                 </div>
               )}
             </div>
+
+            {/* Billing (dunning) */}
+            <div className="p-5">
+              <h3 className="text-sm font-semibold text-gray-700 mb-4">결제 알림</h3>
+              <div className="space-y-3">
+                <ToggleRow
+                  label="결제 예정 안내"
+                  description="자동 결제일 며칠 전에 학부모에게 결제 금액 안내"
+                  checked={settings.sendOnChargeUpcoming}
+                  onChange={(v) => setSettings({ ...settings, sendOnChargeUpcoming: v })}
+                />
+                {settings.sendOnChargeUpcoming && (
+                  <div className="ml-4">
+                    <label className="block text-xs text-gray-500 mb-1">결제일 며칠 전 (1–14일)</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={14}
+                      value={settings.chargeReminderDays}
+                      onChange={(e) =>
+                        setSettings({ ...settings, chargeReminderDays: Number(e.target.value) })
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                )}
+                <ToggleRow
+                  label="결제 실패 시 발송"
+                  description="결제 실패(재시도 예정) 및 최종 실패 시 학부모에게 알림"
+                  checked={settings.sendOnChargeFailed}
+                  onChange={(v) => setSettings({ ...settings, sendOnChargeFailed: v })}
+                />
+                <ToggleRow
+                  label="결제 완료 시 발송"
+                  description="결제가 완료되면 학부모에게 영수 알림 (기본 비활성)"
+                  checked={settings.sendOnChargeSucceeded}
+                  onChange={(v) => setSettings({ ...settings, sendOnChargeSucceeded: v })}
+                />
+              </div>
+            </div>
+
+            {/* Schedule changes and waitlist */}
+            <div className="p-5">
+              <h3 className="text-sm font-semibold text-gray-700 mb-4">수업 일정·등록 알림</h3>
+              <div className="space-y-3">
+                <ToggleRow
+                  label="일정 변경 시 발송"
+                  description="수업 시간 변경, 추가 수업, 보강 예약 시 해당 학생의 학부모에게 알림"
+                  checked={settings.sendOnScheduleChange}
+                  onChange={(v) => setSettings({ ...settings, sendOnScheduleChange: v })}
+                />
+                <ToggleRow
+                  label="대기 등록 시 발송"
+                  description="정원이 차 대기 중이던 학생이 수업에 등록되면 해당 학생의 학부모에게 알림"
+                  checked={settings.sendOnWaitlistPromotion}
+                  onChange={(v) => setSettings({ ...settings, sendOnWaitlistPromotion: v })}
+                />
+              </div>
+            </div>
+
+            {/* SMS / LMS fallback */}
+            <div className="p-5">
+              <h3 className="text-sm font-semibold text-gray-700 mb-4">SMS 대체 발송</h3>
+              <div className="space-y-3">
+                <ToggleRow
+                  label="알림톡 실패 시 문자로 발송"
+                  description="카카오톡 미사용·채널 차단 등으로 알림톡이 거부되거나 재시도가 모두 실패하면 SMS/LMS로 다시 발송"
+                  checked={settings.smsFallbackEnabled}
+                  onChange={(v) => setSettings({ ...settings, smsFallbackEnabled: v })}
+                />
+                {settings.smsFallbackEnabled && (
+                  <div className="ml-4 space-y-4">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">발신번호 (사전 등록된 번호)</label>
+                      <Input
+                        value={settings.smsSenderNumber ?? ""}
+                        onChange={(e) => setSettings({ ...settings, smsSenderNumber: e.target.value })}
+                        placeholder="0212345678"
+                        className="w-48"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      유형별 문자 내용 – 알림톡과 같은 #{"{변수}"}를 사용할 수 있습니다.
+                      비워 두면 해당 유형은 문자로 발송하지 않습니다.
+                      {` ${SMS_MAX_BYTES}바이트를 넘으면 LMS로 발송됩니다.`}
+                    </p>
+                    {TEMPLATE_TYPES.map(({ type, label }) => {
+                      const text  = settings.smsFallbackTexts[type] ?? "";
+                      const bytes = smsByteLength(text);
+                      return (
+                        <div key={type}>
+                          <div className="flex items-center justify-between mb-1">
+                            <span className={`inline-block px-2 py-0.5 rounded text-xs font-bold ${TYPE_BADGE[type]}`}>
+                              {label}
+                            </span>
+                            {text && (
+                              <span className="text-xs text-gray-400">
+                                {bytes}바이트 · {bytes > SMS_MAX_BYTES ? "LMS" : "SMS"}
+                              </span>
+                            )}
+                          </div>
+                          <textarea
+                            rows={2}
+                            value={text}
+                            onChange={(e) =>
+                              setSettings({
+                                ...settings,
+                                smsFallbackTexts: { ...settings.smsFallbackTexts, [type]: e.target.value },
+                              })
+                            }
+                            className="input w-full"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Sending limits */}
+            <div className="p-5 space-y-4">
+              <h3 className="text-sm font-semibold text-gray-700">발송 한도</h3>
+              <div className="flex items-end gap-4 flex-wrap">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">분당 발송 수</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    value={settings.sendRatePerMinute}
+                    onChange={(e) => setSettings({ ...settings, sendRatePerMinute: Number(e.target.value) })}
+                    className="w-32"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">월 발송 한도 (비우면 제한 없음)</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={settings.monthlyMessageCap ?? ""}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        monthlyMessageCap: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                    className="w-40"
+                  />
+                </div>
+              </div>
+              {usage && (
+                <div className="space-y-1">
+                  <p className="text-xs text-gray-500">
+                    이번 달 발송 {usage.sent.toLocaleString()}건
+                    {usage.cap !== null && ` / ${usage.cap.toLocaleString()}건`}
+                  </p>
+                  {usage.ratio !== null && (
+                    <div className="h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+                      <div
+                        className={`h-full ${
+                          usage.exhausted ? "bg-red-500" : usage.warning ? "bg-amber-500" : "bg-brand-500"
+                        }`}
+                        style={{ width: `${Math.min(100, usage.ratio * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                한도를 넘은 알림은 발송하지 않고 발송 내역에 &lsquo;건너뜀&rsquo;으로 남습니다.
+              </p>
+            </div>
           </div>
 
           <div className="flex justify-end">
@@ -283,33 +618,63 @@ export default function NotificationSettingsPage() {
       {activeTab === "templates" && (
         <div className="space-y-4">
           <p className="text-sm text-gray-500">
-            카카오 비즈메시지 포털에서 등록한 템플릿 코드와 발신 채널 키를 입력하세요.
+            카카오 비즈메시지 포털에서 등록한 템플릿 코드와 발신 채널 키, 승인된 본문을 입력하세요.
           </p>
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
             <strong>템플릿 변수:</strong>{" "}
             #{"{academyName}"} #{"{studentName}"} #{"{className}"} #{"{sessionDate}"}
             #{"{sessionTime}"} #{"{statusText}"} #{"{teacherName}"}
+            <br />
+            <strong>결제 템플릿 변수:</strong>{" "}
+            #{"{academyName}"} #{"{studentName}"} #{"{planName}"} #{"{amount}"}
+            #{"{dueDate}"} #{"{attemptNo}"} #{"{failureReason}"}
+            <br />
+            <strong>공통 변수:</strong>{" "}
+            #{"{preferenceUrl}"} – 학부모가 알림 종류를 선택하거나 수신을 거부하는 링크
           </div>
 
-          {TEMPLATE_TYPES.map(({ type, label, description }) => {
-            const inp = templateInput[type];
-            const saved = templates[type];
+          {/* Language selector */}
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-gray-600">언어</span>
+            {NOTIFICATION_LANGUAGES.map((language) => (
+              <button
+                key={language}
+                type="button"
+                onClick={() => setTemplateLanguage(language)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  templateLanguage === language
+                    ? "bg-brand-500 border-brand-500 text-white"
+                    : "bg-white border-gray-300 text-gray-600 hover:bg-gray-50"
+                }`}
+              >
+                {LANGUAGE_LABEL[language]}
+              </button>
+            ))}
+          </div>
+          {templateLanguage !== "KO" && (
+            <p className="text-xs text-gray-500">
+              학부모 연락처의 선호 언어가 {LANGUAGE_LABEL[templateLanguage]}이면 이 템플릿으로 발송하고,
+              등록되지 않은 유형은 한국어 템플릿으로 발송합니다. 결제 알림은 한국어로만 발송됩니다.
+            </p>
+          )}
+
+          {TEMPLATE_TYPES.filter(
+            ({ type }) => templateLanguage === "KO" || !type.startsWith("BILLING_"),
+          ).map(({ type, label, description }) => {
+            const key = templateKey(type, templateLanguage);
+            const inp = templateInput[key];
+            const saved = templates[key];
+            const preview = previews[key];
             return (
               <div
-                key={type}
+                key={key}
                 className="bg-white rounded-lg border border-gray-200 p-5 space-y-4"
               >
                 <div className="flex items-start justify-between">
                   <div>
                     <h3 className="text-sm font-semibold text-gray-800">
                       <span
-                        className={`inline-block px-2 py-0.5 rounded text-xs font-bold mr-2 ${
-                          type === "ABSENT"
-                            ? "bg-red-100 text-red-700"
-                            : type === "LATE"
-                              ? "bg-yellow-100 text-yellow-700"
-                              : "bg-blue-100 text-blue-700"
-                        }`}
+                        className={`inline-block px-2 py-0.5 rounded text-xs font-bold mr-2 ${TYPE_BADGE[type]}`}
                       >
                         {label}
                       </span>
@@ -334,7 +699,7 @@ export default function NotificationSettingsPage() {
                       onChange={(e) =>
                         setTemplateInput({
                           ...templateInput,
-                          [type]: { ...inp, templateCode: e.target.value },
+                          [key]: { ...inp, templateCode: e.target.value },
                         })
                       }
                     />
@@ -349,13 +714,43 @@ export default function NotificationSettingsPage() {
                       onChange={(e) =>
                         setTemplateInput({
                           ...templateInput,
-                          [type]: { ...inp, senderKey: e.target.value },
+                          [key]: { ...inp, senderKey: e.target.value },
                         })
                       }
                     />
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    템플릿 본문 (승인된 내용 그대로)
+                  </label>
+                  <textarea
+                    className="input w-full min-h-[96px]"
+                    placeholder="예: [#{academyName}] #{studentName} 학생이 #{sessionDate} #{className} 수업에 #{statusText}했습니다."
+                    value={inp.body}
+                    maxLength={1000}
+                    onChange={(e) =>
+                      setTemplateInput({
+                        ...templateInput,
+                        [key]: { ...inp, body: e.target.value },
+                      })
+                    }
+                  />
+                </div>
+
+                {preview && (
+                  <div className="rounded-lg bg-yellow-50 border border-yellow-200 p-3 space-y-1">
+                    <p className="text-xs font-medium text-gray-600">미리보기 (예시 데이터)</p>
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{preview.text}</p>
+                    {preview.missing.length > 0 && (
+                      <p className="text-xs text-red-600">
+                        지원하지 않는 변수: {preview.missing.map((n) => `#{${n}}`).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between">
                   <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
                     <input
@@ -364,26 +759,39 @@ export default function NotificationSettingsPage() {
                       onChange={(e) =>
                         setTemplateInput({
                           ...templateInput,
-                          [type]: { ...inp, isActive: e.target.checked },
+                          [key]: { ...inp, isActive: e.target.checked },
                         })
                       }
                       className="rounded"
                     />
                     활성화
                   </label>
-                  <Button
-                    size="sm"
-                    onClick={() => saveTemplate(type)}
-                    disabled={savingTemplate === type}
-                  >
-                    {savingTemplate === type ? "저장 중…" : "저장"}
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => previewTemplate(type, templateLanguage)}
+                      disabled={previewing === key}
+                    >
+                      {previewing === key ? "불러오는 중…" : "미리보기"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => saveTemplate(type, templateLanguage)}
+                      disabled={savingTemplate === key}
+                    >
+                      {savingTemplate === key ? "저장 중…" : "저장"}
+                    </Button>
+                  </div>
                 </div>
               </div>
             );
           })}
         </div>
       )}
+
+      {/* ── Tab 3: Delivery log ───────────────────────────────────────────── */}
+      {activeTab === "log" && <NotificationLog />}
     </div>
   );
 }
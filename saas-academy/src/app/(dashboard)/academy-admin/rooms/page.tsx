@@ -0,0 +1,144 @@
+"use client";
+/**
+ * /academy-admin/rooms
+ * Classrooms. Schedules and sessions can be assigned a room; two sessions in
+ * the same room at overlapping times are reported as a conflict. A room in
+ * use cannot be deleted, only deactivated.
+ */
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { useToast } from "@/components/ui/Toast";
+
+interface Room {
+  id:       string;
+  name:     string;
+  capacity: number | null;
+  isActive: boolean;
+}
+
+const EMPTY_FORM = { name: "", capacity: "" };
+
+export default function RoomsPage() {
+  const { push: toast } = useToast();
+  const [rooms, setRooms]       = useState<Room[]>([]);
+  const [loading, setLoading]   = useState(true);
+  const [editing, setEditing]   = useState<Room | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm]         = useState(EMPTY_FORM);
+  const [saving, setSaving]     = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const res = await fetch("/api/academy/rooms");
+    if (res.ok) { const { data } = await res.json(); setRooms(data ?? []); }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  function openCreate() {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  }
+
+  function openEdit(r: Room) {
+    setEditing(r);
+    setForm({ name: r.name, capacity: r.capacity?.toString() ?? "" });
+    setFormOpen(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    const res = await fetch(editing ? `/api/academy/rooms/${editing.id}` : "/api/academy/rooms", {
+      method:  editing ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({
+        name:     form.name,
+        capacity: form.capacity ? parseInt(form.capacity, 10) : null,
+      }),
+    });
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "저장 실패", "error"); return; }
+    toast(editing ? "강의실을 수정했습니다" : "강의실을 추가했습니다", "success");
+    setFormOpen(false);
+    load();
+  }
+
+  async function toggleActive(r: Room) {
+    const res = await fetch(`/api/academy/rooms/${r.id}`, {
+      method:  "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ isActive: !r.isActive }),
+    });
+    if (!res.ok) { toast("변경 실패", "error"); return; }
+    load();
+  }
+
+  async function remove(r: Room) {
+    if (!confirm(`"${r.name}" 강의실을 삭제할까요?`)) return;
+    const res = await fetch(`/api/academy/rooms/${r.id}`, { method: "DELETE" });
+    const body = await res.json();
+    if (!res.ok) { toast(body.error ?? "삭제 실패", "error"); return; }
+    toast("삭제했습니다", "success");
+    load();
+  }
+
+  const columns = [
+    { key: "name", header: "이름" },
+    { key: "capacity", header: "정원", render: (r: Room) => r.capacity ?? "—" },
+    {
+      key: "isActive", header: "상태",
+      render: (r: Room) => (
+        <Badge variant={r.isActive ? "active" : "suspended"}>{r.isActive ? "사용" : "미사용"}</Badge>
+      ),
+    },
+    {
+      key: "actions", header: "",
+      render: (r: Room) => (
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={() => openEdit(r)}>수정</Button>
+          <Button size="sm" variant="ghost" onClick={() => toggleActive(r)}>
+            {r.isActive ? "사용 중지" : "다시 사용"}
+          </Button>
+          <Button size="sm" variant="danger" onClick={() => remove(r)}>삭제</Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">강의실</h1>
+          <p className="text-sm text-gray-500 mt-1">같은 시간에 한 강의실을 두 수업이 쓰면 충돌로 표시됩니다</p>
+        </div>
+        <Button onClick={openCreate}>+ 강의실 추가</Button>
+      </div>
+
+      <Table columns={columns} rows={rooms} keyField="id" loading={loading} emptyMessage="등록된 강의실이 없습니다." />
+
+      <Modal open={formOpen} onClose={() => setFormOpen(false)} title={editing ? "강의실 수정" : "강의실 추가"}
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setFormOpen(false)}>취소</Button>
+            <Button loading={saving} onClick={handleSave}>저장</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <Input label="이름" value={form.name} hint="예: 301호, 큰 강의실"
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          <Input label="정원" type="number" min="1" value={form.capacity} hint="비워 두면 제한 없음"
+            onChange={(e) => setForm((f) => ({ ...f, capacity: e.target.value }))} />
+        </div>
+      </Modal>
+    </div>
+  );
+}
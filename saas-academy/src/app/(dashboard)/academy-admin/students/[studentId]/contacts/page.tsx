@@ -8,12 +8,22 @@
  *  - Add new contact modal
  *  - Edit/delete existing contacts
  *  - Toggle notificationOptIn with consent timestamp
+ *  - Preferred language for AlimTalk templates (Korean if none registered)
+ *  - Per-event choices (absent / late / billing) and the consent history,
+ *    including changes parents made through their preference link
+ *  - Timeline of the student's notifications, with resend / cancel
  */
 
 import React, { useCallback, useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import { Button, Input, Modal, Spinner, Badge } from "@/components/ui";
 import toast from "react-hot-toast";
+import { NotificationLog } from "@/components/notifications/NotificationLog";
+import {
+  LANGUAGE_LABEL,
+  NOTIFICATION_LANGUAGES,
+  normalizeLanguage,
+} from "@/lib/alimtalk/templates";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -28,16 +38,33 @@ interface ParentContact {
   relationship:       Relationship;
   notificationOptIn:  boolean;
   consentRecordedAt:  string | null;
+  notifyAbsent:       boolean;
+  notifyLate:         boolean;
+  notifyBilling:      boolean;
   preferredLanguage:  string;
   status:             ContactStatus;
   createdAt:          string;
 }
 
+interface ConsentRecord {
+  id:            string;
+  source:        "ADMIN" | "PARENT_LINK";
+  optIn:         boolean;
+  notifyAbsent:  boolean;
+  notifyLate:    boolean;
+  notifyBilling: boolean;
+  ip:            string | null;
+  createdAt:     string;
+}
+
 interface FormState {
   name:              string;
   phone:             string;
   relationship:      Relationship;
   notificationOptIn: boolean;
+  notifyAbsent:      boolean;
+  notifyLate:        boolean;
+  notifyBilling:     boolean;
   preferredLanguage: string;
 }
 
@@ -46,9 +73,30 @@ const DEFAULT_FORM: FormState = {
   phone:             "",
   relationship:      "ETC",
   notificationOptIn: false,
+  notifyAbsent:      true,
+  notifyLate:        true,
+  notifyBilling:     true,
   preferredLanguage: "KO",
 };
 
+const EVENT_OPTIONS = [
+  { key: "notifyAbsent",  label: "결석·공결" },
+  { key: "notifyLate",    label: "지각" },
+  { key: "notifyBilling", label: "결제" },
+] as const;
+
+const CONSENT_SOURCE_LABEL: Record<ConsentRecord["source"], string> = {
+  ADMIN:       "관리자",
+  PARENT_LINK: "학부모 링크",
+};
+
+/** "결석·지각" summary of the events a consent state covers */
+function consentSummary(c: Pick<ConsentRecord, "optIn" | "notifyAbsent" | "notifyLate" | "notifyBilling">): string {
+  if (!c.optIn) return "수신 거부";
+  const events = EVENT_OPTIONS.filter(({ key }) => c[key]).map(({ label }) => label);
+  return events.length > 0 ? events.join(", ") : "선택한 알림 없음";
+}
+
 const RELATIONSHIP_LABEL: Record<Relationship, string> = {
   MOTHER:   "어머니",
   FATHER:   "아버지",
@@ -68,6 +116,7 @@ export default function StudentContactsPage() {
   const [form,     setForm]               = useState<FormState>(DEFAULT_FORM);
   const [saving,   setSaving]             = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [history,  setHistory]            = useState<{ contact: ParentContact; records: ConsentRecord[] } | null>(null);
 
   const fetchContacts = useCallback(async () => {
     setLoading(true);
@@ -103,7 +152,10 @@ export default function StudentContactsPage() {
       phone:             contact.phone,
       relationship:      contact.relationship,
       notificationOptIn: contact.notificationOptIn,
-      preferredLanguage: contact.preferredLanguage,
+      notifyAbsent:      contact.notifyAbsent,
+      notifyLate:        contact.notifyLate,
+      notifyBilling:     contact.notifyBilling,
+      preferredLanguage: normalizeLanguage(contact.preferredLanguage),
     });
     setEditContact(contact);
     setShowAdd(true);
@@ -181,6 +233,19 @@ export default function StudentContactsPage() {
     }
   }
 
+  // ── Consent history ────────────────────────────────────────────────────────
+
+  async function openHistory(contact: ParentContact) {
+    try {
+      const res = await fetch(`/api/academy/parent-contacts/${contact.id}/consents`);
+      if (!res.ok) throw new Error("이력 조회 실패");
+      const { data } = await res.json();
+      setHistory({ contact, records: data });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "오류 발생");
+    }
+  }
+
   // ── Render ─────────────────────────────────────────────────────────────────
 
   return (
@@ -220,6 +285,9 @@ export default function StudentContactsPage() {
                 <div className="flex items-center gap-2 flex-wrap">
                   <span className="font-medium text-gray-900">{c.name}</span>
                   <Badge variant="role">{RELATIONSHIP_LABEL[c.relationship]}</Badge>
+                  {normalizeLanguage(c.preferredLanguage) !== "KO" && (
+                    <Badge variant="default">{LANGUAGE_LABEL[normalizeLanguage(c.preferredLanguage)]}</Badge>
+                  )}
                   {c.status === "INACTIVE" && (
                     <Badge variant="suspended">비활성</Badge>
                   )}
@@ -231,6 +299,9 @@ export default function StudentContactsPage() {
                     {new Date(c.consentRecordedAt).toLocaleDateString("ko-KR")}
                   </p>
                 )}
+                {c.notificationOptIn && (
+                  <p className="text-xs text-gray-500 mt-0.5">수신: {consentSummary({ ...c, optIn: true })}</p>
+                )}
               </div>
 
               <div className="flex items-center gap-3 flex-shrink-0">
@@ -254,6 +325,9 @@ export default function StudentContactsPage() {
                   알림
                 </label>
 
+                <Button size="sm" variant="ghost" onClick={() => openHistory(c)}>
+                  이력
+                </Button>
                 <Button size="sm" variant="ghost" onClick={() => openEdit(c)}>
                   수정
                 </Button>
@@ -270,6 +344,12 @@ export default function StudentContactsPage() {
         </div>
       )}
 
+      {/* ── Notification timeline ────────────────────────────────────────── */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">알림 발송 내역</h2>
+        <NotificationLog studentUserId={studentId} />
+      </div>
+
       {/* ── Add / Edit Modal ─────────────────────────────────────────────── */}
       {showAdd && (
         <Modal
@@ -313,6 +393,20 @@ export default function StudentContactsPage() {
                 ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">알림 언어</label>
+              <select
+                value={normalizeLanguage(form.preferredLanguage)}
+                onChange={(e) => setForm({ ...form, preferredLanguage: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+              >
+                {NOTIFICATION_LANGUAGES.map((language) => (
+                  <option key={language} value={language}>
+                    {LANGUAGE_LABEL[language]}
+                  </option>
+                ))}
+              </select>
+            </div>
             <label className="flex items-center gap-2 cursor-pointer">
               <input
                 type="checkbox"
@@ -327,9 +421,24 @@ export default function StudentContactsPage() {
               </span>
             </label>
             {form.notificationOptIn && (
-              <p className="text-xs text-green-600 bg-green-50 px-3 py-2 rounded">
-                저장 시 현재 시각으로 동의 시각이 기록됩니다.
-              </p>
+              <>
+                <div className="flex gap-4 pl-6">
+                  {EVENT_OPTIONS.map(({ key, label }) => (
+                    <label key={key} className="flex items-center gap-1.5 cursor-pointer text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form[key]}
+                        onChange={(e) => setForm({ ...form, [key]: e.target.checked })}
+                        className="rounded"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-green-600 bg-green-50 px-3 py-2 rounded">
+                  저장 시 현재 시각으로 동의 시각이 기록됩니다.
+                </p>
+              </>
             )}
 
             <div className="flex justify-end gap-2 pt-2">
@@ -344,6 +453,32 @@ export default function StudentContactsPage() {
         </Modal>
       )}
 
+      {/* ── Consent History Modal ────────────────────────────────────────── */}
+      {history && (
+        <Modal open={!!history} title={`${history.contact.name} 동의 이력`} onClose={() => setHistory(null)}>
+          <div className="space-y-2 p-1 max-h-96 overflow-y-auto">
+            {history.records.length === 0 ? (
+              <p className="text-sm text-gray-400">기록된 이력이 없습니다.</p>
+            ) : (
+              history.records.map((r) => (
+                <div key={r.id} className="flex items-start justify-between gap-3 border-b border-gray-100 pb-2">
+                  <div>
+                    <p className="text-sm text-gray-800">{consentSummary(r)}</p>
+                    <p className="text-xs text-gray-400">
+                      {new Date(r.createdAt).toLocaleString("ko-KR")}
+                      {r.ip ? ` · ${r.ip}` : ""}
+                    </p>
+                  </div>
+                  <Badge variant={r.source === "PARENT_LINK" ? "active" : "default"}>
+                    {CONSENT_SOURCE_LABEL[r.source]}
+                  </Badge>
+                </div>
+              ))
+            )}
+          </div>
+        </Modal>
+      )}
+
       {/* ── Delete Confirm Modal ─────────────────────────────────────────── */}
       {deleteConfirm && (
         <Modal open={!!deleteConfirm} title="연락처 삭제" onClose={() => setDeleteConfirm(null)}>
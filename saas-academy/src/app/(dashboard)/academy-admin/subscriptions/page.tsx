@@ -0,0 +1,311 @@
+"use client";
+/**
+ * /academy-admin/subscriptions
+ * Assign students to tuition plans and pause / resume / cancel / change plan,
+ * and apply coupon codes.
+ */
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Pagination } from "@/components/ui/Pagination";
+import { useToast } from "@/components/ui/Toast";
+
+interface Subscription {
+  id:              string;
+  status:          "ACTIVE" | "PAUSED" | "CANCELED";
+  startDate:       string;
+  endDate:         string | null;
+  nextBillingDate: string;
+  student:         { id: string; name: string; email: string };
+  plan:            { id: string; name: string; amount: number; billingDay: number };
+}
+
+interface AppliedCoupon {
+  ruleId: string;
+  rule:   { name: string; code: string | null; valueType: "FIXED" | "PERCENT"; value: number };
+}
+
+interface PlanOption    { id: string; name: string; amount: number }
+interface StudentOption { id: string; name: string; email: string }
+
+function todayStr() {
+  return new Date().toLocaleDateString("sv-SE", { timeZone: "Asia/Seoul" });
+}
+
+export default function SubscriptionsPage() {
+  const { push: toast } = useToast();
+  const [subs, setSubs]       = useState<Subscription[]>([]);
+  const [total, setTotal]     = useState(0);
+  const [page, setPage]       = useState(1);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [plans, setPlans]     = useState<PlanOption[]>([]);
+  const [students, setStudents] = useState<StudentOption[]>([]);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm]       = useState({ studentUserId: "", planId: "", startDate: todayStr() });
+  const [saving, setSaving]   = useState(false);
+
+  const [changing, setChanging] = useState<Subscription | null>(null);
+  const [newPlanId, setNewPlanId] = useState("");
+
+  const [couponSub, setCouponSub] = useState<Subscription | null>(null);
+  const [coupons, setCoupons]     = useState<AppliedCoupon[]>([]);
+  const [couponCode, setCouponCode] = useState("");
+
+  const LIMIT = 20;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({ page: String(page), limit: String(LIMIT) });
+    if (statusFilter) params.set("status", statusFilter);
+    const res = await fetch(`/api/academy/subscriptions?${params}`);
+    if (res.ok) {
+      const { data } = await res.json();
+      setSubs(data.items ?? []);
+      setTotal(data.total ?? 0);
+    }
+    setLoading(false);
+  }, [page, statusFilter]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    fetch("/api/academy/tuition-plans")
+      .then((r) => r.json())
+      .then((j) => setPlans(j.data ?? []));
+    fetch("/api/academy/users?role=STUDENT&limit=100")
+      .then((r) => r.json())
+      .then((j) => setStudents(j.data?.users ?? []));
+  }, []);
+
+  async function handleCreate() {
+    setSaving(true);
+    const res = await fetch("/api/academy/subscriptions", {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify(form),
+    });
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "Subscribe failed", "error"); return; }
+    toast("Subscription created – first invoice issued", "success");
+    setCreateOpen(false);
+    setForm({ studentUserId: "", planId: "", startDate: todayStr() });
+    load();
+  }
+
+  async function setStatus(sub: Subscription, status: Subscription["status"]) {
+    if (status === "CANCELED" && !confirm(`Cancel ${sub.student.name}'s subscription? Unpaid invoices will be canceled.`)) return;
+    const res = await fetch(`/api/academy/subscriptions/${sub.id}`, {
+      method:  "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ status }),
+    });
+    const body = await res.json();
+    if (!res.ok) { toast(body.error ?? "Update failed", "error"); return; }
+    toast(`Subscription ${status.toLowerCase()}`, "success");
+    load();
+  }
+
+  async function handleChangePlan() {
+    if (!changing) return;
+    setSaving(true);
+    const res = await fetch(`/api/academy/subscriptions/${changing.id}/change-plan`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ planId: newPlanId }),
+    });
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "Change failed", "error"); return; }
+    toast("Plan changed", "success");
+    setChanging(null);
+    load();
+  }
+
+  async function loadCoupons(sub: Subscription) {
+    const res = await fetch(`/api/academy/subscriptions/${sub.id}/coupons`);
+    if (res.ok) { const { data } = await res.json(); setCoupons(data ?? []); }
+  }
+
+  function openCoupons(sub: Subscription) {
+    setCouponSub(sub);
+    setCoupons([]);
+    setCouponCode("");
+    loadCoupons(sub);
+  }
+
+  async function handleApplyCoupon() {
+    if (!couponSub) return;
+    setSaving(true);
+    const res = await fetch(`/api/academy/subscriptions/${couponSub.id}/coupons`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ code: couponCode }),
+    });
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "Coupon failed", "error"); return; }
+    toast("Coupon applied to the next invoice", "success");
+    setCouponCode("");
+    loadCoupons(couponSub);
+  }
+
+  async function handleRemoveCoupon(ruleId: string) {
+    if (!couponSub) return;
+    const res = await fetch(`/api/academy/subscriptions/${couponSub.id}/coupons/${ruleId}`, { method: "DELETE" });
+    if (!res.ok) { toast("Failed", "error"); return; }
+    loadCoupons(couponSub);
+  }
+
+  function statusVariant(s: string): "active" | "suspended" | "default" {
+    if (s === "ACTIVE")   return "active";
+    if (s === "CANCELED") return "suspended";
+    return "default";
+  }
+
+  const columns = [
+    { key: "student", header: "Student", render: (s: Subscription) => s.student.name },
+    { key: "plan",    header: "Plan",    render: (s: Subscription) => `${s.plan.name} (₩${s.plan.amount.toLocaleString()})` },
+    { key: "start",   header: "Start",   render: (s: Subscription) => s.startDate.slice(0, 10) },
+    { key: "next",    header: "Next Billing", render: (s: Subscription) => s.status === "CANCELED" ? "—" : s.nextBillingDate.slice(0, 10) },
+    { key: "status",  header: "Status",  render: (s: Subscription) => <Badge variant={statusVariant(s.status)}>{s.status}</Badge> },
+    {
+      key: "actions", header: "",
+      render: (s: Subscription) => s.status === "CANCELED" ? <span /> : (
+        <div className="flex gap-2">
+          {s.status === "ACTIVE" ? (
+            <Button size="sm" variant="secondary" onClick={() => setStatus(s, "PAUSED")}>Pause</Button>
+          ) : (
+            <Button size="sm" variant="secondary" onClick={() => setStatus(s, "ACTIVE")}>Resume</Button>
+          )}
+          <Button size="sm" variant="secondary" onClick={() => { setChanging(s); setNewPlanId(""); }}>
+            Change Plan
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => openCoupons(s)}>Coupons</Button>
+          <Button size="sm" variant="danger" onClick={() => setStatus(s, "CANCELED")}>Cancel</Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Subscriptions</h1>
+          <p className="text-sm text-gray-500 mt-1">Students assigned to tuition plans</p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            value={statusFilter}
+            onChange={(e) => { setStatusFilter(e.target.value); setPage(1); }}
+          >
+            <option value="">All statuses</option>
+            <option value="ACTIVE">Active</option>
+            <option value="PAUSED">Paused</option>
+            <option value="CANCELED">Canceled</option>
+          </select>
+          <Button onClick={() => setCreateOpen(true)}>+ Subscribe Student</Button>
+        </div>
+      </div>
+
+      <Table columns={columns} rows={subs} keyField="id" loading={loading} emptyMessage="No subscriptions found." />
+      <Pagination page={page} total={total} limit={LIMIT} onChange={setPage} />
+
+      <Modal open={createOpen} onClose={() => setCreateOpen(false)} title="Subscribe Student"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button loading={saving} disabled={!form.studentUserId || !form.planId} onClick={handleCreate}>
+              Subscribe
+            </Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="label">Student</label>
+            <select className="input" value={form.studentUserId}
+              onChange={(e) => setForm((f) => ({ ...f, studentUserId: e.target.value }))}>
+              <option value="">Select a student…</option>
+              {students.map((s) => <option key={s.id} value={s.id}>{s.name} ({s.email})</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="label">Plan</label>
+            <select className="input" value={form.planId}
+              onChange={(e) => setForm((f) => ({ ...f, planId: e.target.value }))}>
+              <option value="">Select a plan…</option>
+              {plans.map((p) => <option key={p.id} value={p.id}>{p.name} – ₩{p.amount.toLocaleString()}</option>)}
+            </select>
+          </div>
+          <Input label="Start Date" type="date" value={form.startDate}
+            hint="The first invoice is due on this date"
+            onChange={(e) => setForm((f) => ({ ...f, startDate: e.target.value }))} />
+        </div>
+      </Modal>
+
+      <Modal open={changing !== null} onClose={() => setChanging(null)} title="Change Plan"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setChanging(null)}>Cancel</Button>
+            <Button loading={saving} disabled={!newPlanId} onClick={handleChangePlan}>Change</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {changing?.student.name} is on <strong>{changing?.plan.name}</strong>.
+            The upcoming unpaid invoice will be re-priced. On prorated plans the unused
+            part of the current period is credited on the next invoice.
+          </p>
+          <select className="input" value={newPlanId} onChange={(e) => setNewPlanId(e.target.value)}>
+            <option value="">Select a plan…</option>
+            {plans.filter((p) => p.id !== changing?.plan.id).map((p) => (
+              <option key={p.id} value={p.id}>{p.name} – ₩{p.amount.toLocaleString()}</option>
+            ))}
+          </select>
+        </div>
+      </Modal>
+
+      <Modal open={couponSub !== null} onClose={() => setCouponSub(null)} title="Coupons"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setCouponSub(null)}>Close</Button>
+            <Button loading={saving} disabled={!couponCode} onClick={handleApplyCoupon}>Apply</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Coupons on {couponSub?.student.name}&apos;s subscription are discounted from each invoice
+            issued while the coupon is valid.
+          </p>
+          {coupons.length > 0 ? (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {coupons.map((c) => (
+                <li key={c.ruleId} className="flex items-center justify-between py-2">
+                  <span>
+                    <span className="font-mono">{c.rule.code}</span> · {c.rule.name} (
+                    {c.rule.valueType === "PERCENT" ? `${c.rule.value}%` : `₩${c.rule.value.toLocaleString()}`})
+                  </span>
+                  <Button size="sm" variant="danger" onClick={() => handleRemoveCoupon(c.ruleId)}>Remove</Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">No coupons applied.</p>
+          )}
+          <Input label="Coupon Code" value={couponCode}
+            onChange={(e) => setCouponCode(e.target.value.toUpperCase())} />
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+/**
+ * /academy-admin/tuition-plans
+ * Create, edit and archive the academy's monthly tuition plans.
+ */
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { useToast } from "@/components/ui/Toast";
+
+interface Plan {
+  id:         string;
+  name:       string;
+  amount:     number;
+  currency:   string;
+  billingDay: number;
+  graceDays:  number;
+  lateFee:    number;
+  prorationMode: ProrationMode;
+  isActive:   boolean;
+  _count:     { subscriptions: number };
+}
+
+type ProrationMode = "NONE" | "DAILY" | "PER_SESSION";
+
+const PRORATION_LABEL: Record<ProrationMode, string> = {
+  NONE:        "None (full month)",
+  DAILY:       "Daily rate",
+  PER_SESSION: "Per session",
+};
+
+const EMPTY_FORM = {
+  name: "", amount: "", billingDay: "1", graceDays: "3", lateFee: "0",
+  prorationMode: "NONE" as ProrationMode,
+};
+
+export default function TuitionPlansPage() {
+  const { push: toast } = useToast();
+  const [plans, setPlans]     = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<Plan | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm]       = useState(EMPTY_FORM);
+  const [saving, setSaving]   = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const res = await fetch(`/api/academy/tuition-plans?includeArchived=${showArchived}`);
+    if (res.ok) { const { data } = await res.json(); setPlans(data ?? []); }
+    setLoading(false);
+  }, [showArchived]);
+
+  useEffect(() => { load(); }, [load]);
+
+  function openCreate() {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  }
+
+  function openEdit(plan: Plan) {
+    setEditing(plan);
+    setForm({
+      name:       plan.name,
+      amount:     String(plan.amount),
+      billingDay: String(plan.billingDay),
+      graceDays:  String(plan.graceDays),
+      lateFee:    String(plan.lateFee),
+      prorationMode: plan.prorationMode,
+    });
+    setFormOpen(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    const payload = {
+      name:       form.name,
+      amount:     Number(form.amount),
+      billingDay: Number(form.billingDay),
+      graceDays:  Number(form.graceDays),
+      lateFee:    Number(form.lateFee),
+      prorationMode: form.prorationMode,
+    };
+    const res = await fetch(
+      editing ? `/api/academy/tuition-plans/${editing.id}` : "/api/academy/tuition-plans",
+      {
+        method:  editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify(payload),
+      },
+    );
+    const body = await res.json();
+    setSaving(false);
+    if (!res.ok) { toast(body.error ?? "Save failed", "error"); return; }
+    toast(editing ? "Plan updated" : "Plan created", "success");
+    setFormOpen(false);
+    load();
+  }
+
+  async function toggleArchive(plan: Plan) {
+    if (plan.isActive && !confirm(`Archive "${plan.name}"? Existing subscriptions keep billing.`)) return;
+    const res = plan.isActive
+      ? await fetch(`/api/academy/tuition-plans/${plan.id}`, { method: "DELETE" })
+      : await fetch(`/api/academy/tuition-plans/${plan.id}`, {
+          method:  "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body:    JSON.stringify({ isActive: true }),
+        });
+    if (!res.ok) { toast("Failed", "error"); return; }
+    toast(plan.isActive ? "Plan archived" : "Plan restored", "success");
+    load();
+  }
+
+  const columns = [
+    { key: "name",       header: "Name" },
+    { key: "amount",     header: "Amount",      render: (p: Plan) => `₩${p.amount.toLocaleString()}` },
+    { key: "billingDay", header: "Billing Day", render: (p: Plan) => `${p.billingDay}일` },
+    { key: "graceDays",  header: "Grace",       render: (p: Plan) => `${p.graceDays}d` },
+    { key: "lateFee",    header: "Late Fee",    render: (p: Plan) => p.lateFee ? `₩${p.lateFee.toLocaleString()}` : "—" },
+    { key: "proration",  header: "Proration",   render: (p: Plan) => p.prorationMode === "NONE" ? "—" : PRORATION_LABEL[p.prorationMode] },
+    { key: "subs",       header: "Subscribers", render: (p: Plan) => String(p._count.subscriptions) },
+    {
+      key: "isActive", header: "Status",
+      render: (p: Plan) => (
+        <Badge variant={p.isActive ? "active" : "default"}>{p.isActive ? "ACTIVE" : "ARCHIVED"}</Badge>
+      ),
+    },
+    {
+      key: "actions", header: "",
+      render: (p: Plan) => (
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={() => openEdit(p)}>Edit</Button>
+          <Button size="sm" variant={p.isActive ? "danger" : "secondary"} onClick={() => toggleArchive(p)}>
+            {p.isActive ? "Archive" : "Restore"}
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Tuition Plans</h1>
+          <p className="text-sm text-gray-500 mt-1">Monthly plans students can be subscribed to</p>
+        </div>
+        <Button onClick={openCreate}>+ New Plan</Button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+        Show archived plans
+      </label>
+
+      <Table columns={columns} rows={plans} keyField="id" loading={loading} emptyMessage="No tuition plans yet." />
+
+      <Modal open={formOpen} onClose={() => setFormOpen(false)} title={editing ? "Edit Plan" : "New Plan"}
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button loading={saving} onClick={handleSave}>{editing ? "Save" : "Create"}</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <Input label="Name" value={form.name}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          <Input label="Amount (KRW)" type="number" min={1} value={form.amount}
+            onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))} />
+          <Input label="Billing Day" type="number" min={1} max={28} value={form.billingDay}
+            hint="Day of month to charge (1–28)"
+            onChange={(e) => setForm((f) => ({ ...f, billingDay: e.target.value }))} />
+          <Input label="Grace Days" type="number" min={0} max={30} value={form.graceDays}
+            onChange={(e) => setForm((f) => ({ ...f, graceDays: e.target.value }))} />
+          <Input label="Late Fee (KRW)" type="number" min={0} value={form.lateFee}
+            onChange={(e) => setForm((f) => ({ ...f, lateFee: e.target.value }))} />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Proration</label>
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={form.prorationMode}
+              onChange={(e) => setForm((f) => ({ ...f, prorationMode: e.target.value as ProrationMode }))}
+            >
+              {(Object.keys(PRORATION_LABEL) as ProrationMode[]).map((m) => (
+                <option key={m} value={m}>{PRORATION_LABEL[m]}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              How mid-month starts and plan changes are priced. Per session counts the student&apos;s class sessions in the period.
+            </p>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
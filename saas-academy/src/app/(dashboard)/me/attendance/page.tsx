@@ -1,10 +1,14 @@
 "use client";
 /**
  * /me/attendance
- * Student: view own attendance history with summary stats.
+ * Student: view own attendance history with summary stats, and check in to
+ * a session with the code the teacher shows. The student picks one of
+ * today's sessions open for check-in; the QR link on the check-in screen
+ * opens this page with ?checkin=<sessionId>&code=<code> instead.
  */
 import { useState, useEffect } from "react";
 import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
 import { Spinner } from "@/components/ui/Spinner";
 
 interface AttRecord {
@@ -16,6 +20,13 @@ interface AttRecord {
   class:     { name: string };
 }
 
+interface OpenSession {
+  id:        string;
+  localDate: string;
+  startsAt:  string;
+  class:     { name: string };
+}
+
 interface SummaryItem {
   status: string;
   _count: { _all: number };
@@ -45,6 +56,12 @@ export default function AttendancePage() {
   const [month,   setMonth]     = useState("");
   const LIMIT = 20;
 
+  const [code,          setCode]          = useState("");
+  const [codeSessionId, setCodeSessionId] = useState("");
+  const [openSessions,  setOpenSessions]  = useState<OpenSession[]>([]);
+  const [checkingIn,    setCheckingIn]    = useState(false);
+  const [checkInMsg,    setCheckInMsg]    = useState<{ ok: boolean; text: string } | null>(null);
+
   async function load(p = 1, m?: string) {
     setLoading(true);
     try {
@@ -65,6 +82,55 @@ export default function AttendancePage() {
 
   useEffect(() => { load(1); }, []);
 
+  // Prefill from the QR link, else offer today's sessions open for check-in
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get("checkin");
+    if (linked) {
+      setCodeSessionId(linked);
+      setCode(params.get("code") ?? "");
+      return;
+    }
+    (async () => {
+      const today = new Date().toLocaleDateString("sv-SE", { timeZone: "Asia/Seoul" });
+      const res   = await fetch("/api/me/sessions");
+      const json  = await res.json();
+      if (!res.ok) return;
+      const open = (json.data ?? []).filter(
+        (s: OpenSession & { checkInOpen: boolean; status: string }) =>
+          s.checkInOpen && s.status !== "CANCELED" && s.localDate === today,
+      );
+      setOpenSessions(open);
+      if (open.length === 1) setCodeSessionId(open[0].id);
+    })();
+  }, []);
+
+  async function checkIn() {
+    setCheckingIn(true);
+    setCheckInMsg(null);
+    try {
+      const res  = await fetch("/api/me/check-in", {
+        method:  "POST",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify({ code, sessionId: codeSessionId }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? "Check-in failed");
+      setCheckInMsg({
+        ok:   true,
+        text: `${json.data.className} (${json.data.session.localDate}): ${json.data.status === "LATE" ? "checked in late" : "checked in"}`,
+      });
+      setCode("");
+      setOpenSessions((prev) => prev.filter((s) => s.id !== codeSessionId));
+      setCodeSessionId("");
+      load(page, month || undefined);
+    } catch (e: unknown) {
+      setCheckInMsg({ ok: false, text: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setCheckingIn(false);
+    }
+  }
+
   const summaryMap = Object.fromEntries(summary.map((s) => [s.status, s._count._all]));
   const totalCount = summary.reduce((acc, s) => acc + s._count._all, 0);
   const presentCount = (summaryMap["PRESENT"] ?? 0) + (summaryMap["LATE"] ?? 0);
@@ -91,6 +157,47 @@ export default function AttendancePage() {
 
       {error   && <p className="text-red-600">{error}</p>}
 
+      {/* Self Check-in */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4">
+        <p className="text-sm font-medium text-gray-900 mb-2">Check in</p>
+        <div className="flex items-center gap-3">
+          {openSessions.length > 1 && (
+            <select
+              value={codeSessionId}
+              onChange={(e) => setCodeSessionId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+            >
+              <option value="">Select class…</option>
+              {openSessions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.class.name} ·{" "}
+                  {new Date(s.startsAt).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Seoul" })}
+                </option>
+              ))}
+            </select>
+          )}
+          {openSessions.length === 1 && codeSessionId === openSessions[0].id && (
+            <span className="text-sm text-gray-600">{openSessions[0].class.name}</span>
+          )}
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            placeholder="6-digit code"
+            className="w-40 font-mono tracking-widest border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500"
+          />
+          <Button loading={checkingIn} disabled={code.length !== 6 || !codeSessionId} onClick={checkIn}>Check in</Button>
+        </div>
+        {!codeSessionId && openSessions.length === 0 && (
+          <p className="text-xs text-gray-400 mt-2">No class is open for check-in right now.</p>
+        )}
+        {checkInMsg && (
+          <p className={`text-sm mt-2 ${checkInMsg.ok ? "text-green-700" : "text-red-600"}`}>{checkInMsg.text}</p>
+        )}
+      </div>
+
       {/* Summary Cards */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="bg-white rounded-xl border border-gray-200 p-4 col-span-2 md:col-span-1">
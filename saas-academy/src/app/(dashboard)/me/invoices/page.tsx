@@ -3,23 +3,54 @@ import { useEffect, useState, useCallback } from "react";
 import { Table } from "@/components/ui/Table";
 import { Badge } from "@/components/ui/Badge";
 import { Pagination } from "@/components/ui/Pagination";
+import { Button } from "@/components/ui/Button";
+import { Modal } from "@/components/ui/Modal";
+import { useToast } from "@/components/ui/Toast";
+
+interface VirtualAccount {
+  bankCode: string;
+  accountNumber: string;
+  amount: number;
+  dueDate: string;
+  status: "WAITING_FOR_DEPOSIT" | "DONE" | "EXPIRED" | "CANCELED" | "AMOUNT_MISMATCH";
+}
 
 interface Invoice {
   id: string;
   orderId: string;
   amount: number;
   dueDate: string;
-  status: "PENDING" | "PAID" | "FAILED" | "CANCELED";
+  status: "PENDING" | "PAID" | "FAILED" | "CANCELED" | "REFUNDED";
   paidAt: string | null;
   plan: { name: string } | null;
+  lineItems: { type: string; description: string; amount: number }[];
   attempts: { attemptNo: number; status: string }[];
+  virtualAccounts: VirtualAccount[];
+}
+
+/** Toss bank codes offered for virtual accounts. */
+const BANKS: { code: string; name: string }[] = [
+  { code: "04", name: "KB국민" },
+  { code: "88", name: "신한" },
+  { code: "20", name: "우리" },
+  { code: "81", name: "하나" },
+  { code: "11", name: "NH농협" },
+  { code: "03", name: "IBK기업" },
+];
+
+function bankName(code: string) {
+  return BANKS.find((b) => b.code === code)?.name ?? code;
 }
 
 export default function StudentInvoicesPage() {
+  const { push: toast } = useToast();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [total, setTotal] = useState(0);
   const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState<Invoice | null>(null);
+  const [bank, setBank] = useState(BANKS[0].code);
+  const [issuing, setIssuing] = useState(false);
   const LIMIT = 20;
 
   const load = useCallback(async () => {
@@ -35,18 +66,81 @@ export default function StudentInvoicesPage() {
 
   useEffect(() => { load(); }, [load]);
 
+  async function handleIssue() {
+    if (!paying) return;
+    setIssuing(true);
+    const res = await fetch(`/api/me/invoices/${paying.id}/virtual-account`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify({ bank }),
+    });
+    const body = await res.json();
+    setIssuing(false);
+    if (!res.ok) { toast(body.error ?? "Could not issue an account", "error"); return; }
+    toast("Bank transfer account issued", "success");
+    setPaying(null);
+    load();
+  }
+
+  /** Live account the family should deposit into, if any. */
+  function liveAccount(inv: Invoice): VirtualAccount | null {
+    const va = inv.virtualAccounts?.[0];
+    if (!va || va.status !== "WAITING_FOR_DEPOSIT") return null;
+    return new Date(va.dueDate) > new Date() ? va : null;
+  }
+
   function statusVariant(s: string): "active" | "suspended" | "default" {
     if (s === "PAID")   return "active";
-    if (s === "FAILED" || s === "CANCELED") return "suspended";
+    if (s === "FAILED" || s === "CANCELED" || s === "REFUNDED") return "suspended";
     return "default";
   }
 
   const columns = [
     { key: "plan",     header: "Plan",   render: (inv: Invoice) => inv.plan?.name ?? "—" },
     { key: "amount",   header: "Amount", render: (inv: Invoice) => `₩${inv.amount.toLocaleString()}` },
+    {
+      key: "details", header: "Details",
+      render: (inv: Invoice) => {
+        const extras = (inv.lineItems ?? []).filter((li) => li.type !== "TUITION");
+        if (extras.length === 0) return "—";
+        return (
+          <ul className="text-xs text-gray-500 space-y-0.5">
+            {extras.map((li, i) => (
+              <li key={i}>
+                {li.description}: {li.amount < 0 ? "−" : "+"}₩{Math.abs(li.amount).toLocaleString()}
+              </li>
+            ))}
+          </ul>
+        );
+      },
+    },
     { key: "dueDate",  header: "Due",    render: (inv: Invoice) => inv.dueDate.slice(0, 10) },
     { key: "status",   header: "Status", render: (inv: Invoice) => <Badge variant={statusVariant(inv.status)}>{inv.status}</Badge> },
     { key: "paidAt",   header: "Paid",   render: (inv: Invoice) => inv.paidAt ? inv.paidAt.slice(0, 10) : "—" },
+    {
+      key: "transfer", header: "Bank Transfer",
+      render: (inv: Invoice) => {
+        const va = liveAccount(inv);
+        if (va) {
+          return (
+            <div className="text-xs">
+              <p className="font-mono">{bankName(va.bankCode)} {va.accountNumber}</p>
+              <p className="text-gray-500">
+                ₩{va.amount.toLocaleString()} by {new Date(va.dueDate).toLocaleString()}
+              </p>
+            </div>
+          );
+        }
+        if (inv.virtualAccounts?.[0]?.status === "AMOUNT_MISMATCH") {
+          return <span className="text-xs text-red-600">Deposit amount did not match – contact the academy</span>;
+        }
+        return inv.status === "PENDING" && inv.amount > 0 ? (
+          <Button size="sm" variant="secondary" onClick={() => setPaying(inv)}>
+            Pay by transfer
+          </Button>
+        ) : "—";
+      },
+    },
   ];
 
   return (
@@ -58,6 +152,30 @@ export default function StudentInvoicesPage() {
 
       <Table columns={columns} rows={invoices} keyField="id" loading={loading} emptyMessage="No invoices yet." />
       <Pagination page={page} total={total} limit={LIMIT} onChange={setPage} />
+
+      <Modal open={!!paying} onClose={() => setPaying(null)} title="Pay by Bank Transfer"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setPaying(null)}>Close</Button>
+            <Button loading={issuing} onClick={handleIssue}>Issue Account</Button>
+          </>
+        }
+      >
+        {paying && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              A one-time account for ₩{paying.amount.toLocaleString()} is issued. Deposit the exact
+              amount within 3 days; the invoice is marked paid automatically.
+            </p>
+            <div>
+              <label className="label">Bank</label>
+              <select className="input" value={bank} onChange={(e) => setBank(e.target.value)}>
+                {BANKS.map((b) => <option key={b.code} value={b.code}>{b.name}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   );
 }
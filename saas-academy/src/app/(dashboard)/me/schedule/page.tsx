@@ -1,7 +1,8 @@
 "use client";
 /**
  * /me/schedule
- * Student: view upcoming and past class sessions with attendance status.
+ * Student: view upcoming and past class sessions with attendance status,
+ * and the classes they are waitlisted for.
  */
 import { useState, useEffect } from "react";
 import { Badge } from "@/components/ui/Badge";
@@ -17,6 +18,11 @@ interface Session {
   myAttendance: { status: string; memo: string | null; markedAt: string } | null;
 }
 
+interface WaitlistItem {
+  class:        { id: string; name: string };
+  waitlistRank: number;
+}
+
 const attBadge: Record<string, "active" | "suspended" | "default"> = {
   PRESENT: "active",
   ABSENT:  "suspended",
@@ -36,6 +42,7 @@ export default function SchedulePage() {
   const [loading,  setLoading]  = useState(true);
   const [error,    setError]    = useState("");
   const [month,    setMonth]    = useState("");
+  const [waitlist, setWaitlist] = useState<WaitlistItem[]>([]);
 
   async function load(m?: string) {
     setLoading(true);
@@ -53,7 +60,16 @@ export default function SchedulePage() {
     }
   }
 
-  useEffect(() => { load(); }, []);
+  async function loadWaitlist() {
+    const res  = await fetch("/api/me/classes");
+    const json = await res.json();
+    if (!res.ok) return;
+    setWaitlist(
+      (json.data ?? []).filter((c: { enrollment: { status: string } }) => c.enrollment.status === "WAITLISTED"),
+    );
+  }
+
+  useEffect(() => { load(); loadWaitlist(); }, []);
 
   const now = new Date();
   const upcoming = sessions.filter((s) => new Date(s.startsAt) >= now);
@@ -84,6 +100,23 @@ export default function SchedulePage() {
 
       {!loading && (
         <>
+          {/* Waitlist */}
+          {waitlist.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-gray-800 mb-3">
+                Waitlist ({waitlist.length})
+              </h2>
+              <div className="space-y-3">
+                {waitlist.map((w) => (
+                  <div key={w.class.id} className="flex items-center justify-between bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+                    <p className="font-semibold text-gray-900">{w.class.name}</p>
+                    <span className="text-sm text-gray-500">#{w.waitlistRank} in line</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Upcoming */}
           <section>
             <h2 className="text-lg font-semibold text-gray-800 mb-3">
@@ -0,0 +1,242 @@
+"use client";
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Modal } from "@/components/ui/Modal";
+import { Pagination } from "@/components/ui/Pagination";
+import { useToast } from "@/components/ui/Toast";
+
+type RunStatus = "RUNNING" | "SUCCEEDED" | "FAILED" | "SKIPPED";
+
+interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: "CRON" | "MANUAL";
+  status: RunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  resultJson: unknown;
+  errorMessage: string | null;
+}
+
+interface Job {
+  name: string;
+  label: string;
+  schedule: string;
+  lock: { holder: string; acquiredAt: string; lockedUntil: string } | null;
+  lastRun: JobRun | null;
+}
+
+function statusVariant(s: RunStatus): "active" | "suspended" | "default" {
+  if (s === "SUCCEEDED") return "active";
+  if (s === "FAILED")    return "suspended";
+  return "default";
+}
+
+function duration(ms: number | null): string {
+  if (ms == null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/** One-line summary of a worker result, e.g. "processed 3 · succeeded 3". */
+function summary(result: unknown): string {
+  if (!result || typeof result !== "object") return "—";
+  return Object.entries(result as Record<string, unknown>)
+    .filter(([, v]) => typeof v === "number")
+    .map(([k, v]) => `${k} ${v}`)
+    .join(" · ") || "—";
+}
+
+export default function JobsPage() {
+  const { push: toast } = useToast();
+
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [jobName, setJobName] = useState("");
+  const [status, setStatus] = useState<"" | RunStatus>("");
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState<string | null>(null);
+  const [detail, setDetail] = useState<JobRun | null>(null);
+
+  const LIMIT = 20;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({
+      page: String(page),
+      limit: String(LIMIT),
+      ...(jobName && { jobName }),
+      ...(status && { status }),
+    });
+    const res = await fetch(`/api/admin/jobs?${params}`);
+    if (res.ok) {
+      const { data } = await res.json();
+      setJobs(data.jobs);
+      setRuns(data.runs);
+      setTotal(data.total);
+    }
+    setLoading(false);
+  }, [page, jobName, status]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function handleRun(job: Job) {
+    if (!confirm(`Run "${job.label}" now?`)) return;
+    setRunning(job.name);
+    const res = await fetch(`/api/admin/jobs/${job.name}/run`, { method: "POST" });
+    const body = await res.json();
+    setRunning(null);
+    if (!res.ok) toast(body.error ?? "Run failed", "error");
+    else toast(`${job.label}: ${summary(body.data.resultJson)}`, "success");
+    load();
+  }
+
+  const jobColumns = [
+    {
+      key: "label", header: "Job",
+      render: (j: Job) => (
+        <div>
+          <p className="font-medium">{j.label}</p>
+          <p className="text-xs text-gray-500 font-mono">{j.name}</p>
+        </div>
+      ),
+    },
+    { key: "schedule", header: "Schedule" },
+    {
+      key: "lastRun", header: "Last Run",
+      render: (j: Job) => j.lastRun ? (
+        <span className="text-xs">
+          <Badge variant={statusVariant(j.lastRun.status)}>{j.lastRun.status}</Badge>
+          <span className="ml-2 text-gray-500">{new Date(j.lastRun.startedAt).toLocaleString()}</span>
+        </span>
+      ) : "never",
+    },
+    {
+      key: "lock", header: "Lease",
+      render: (j: Job) => j.lock ? (
+        <span className="text-xs text-amber-700">
+          running since {new Date(j.lock.acquiredAt).toLocaleTimeString()}
+        </span>
+      ) : <span className="text-xs text-gray-400">free</span>,
+    },
+    {
+      key: "actions", header: "",
+      render: (j: Job) => (
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={!!j.lock || running === j.name}
+          onClick={() => handleRun(j)}
+        >
+          {running === j.name ? "Running…" : "Run now"}
+        </Button>
+      ),
+    },
+  ];
+
+  const runColumns = [
+    {
+      key: "startedAt", header: "Started",
+      render: (r: JobRun) => new Date(r.startedAt).toLocaleString(),
+    },
+    { key: "jobName", header: "Job" },
+    { key: "trigger", header: "Trigger" },
+    {
+      key: "status", header: "Status",
+      render: (r: JobRun) => (
+        <span title={r.errorMessage ?? undefined}>
+          <Badge variant={statusVariant(r.status)}>{r.status}</Badge>
+        </span>
+      ),
+    },
+    {
+      key: "durationMs", header: "Duration",
+      render: (r: JobRun) => <span className="text-xs">{duration(r.durationMs)}</span>,
+    },
+    {
+      key: "resultJson", header: "Result",
+      render: (r: JobRun) => (
+        <span className="text-xs text-gray-600">
+          {r.status === "SUCCEEDED" ? summary(r.resultJson) : r.errorMessage ?? "—"}
+        </span>
+      ),
+    },
+    {
+      key: "actions", header: "",
+      render: (r: JobRun) => (
+        <Button size="sm" variant="ghost" onClick={() => setDetail(r)}>
+          Details
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Jobs</h1>
+        <p className="text-sm text-gray-500 mt-1">Scheduled workers – triggered by cron via /api/internal, one run at a time</p>
+      </div>
+
+      <Table columns={jobColumns} rows={jobs} keyField="name" loading={loading && jobs.length === 0} emptyMessage="No jobs." />
+
+      <h2 className="text-lg font-semibold text-gray-900">Recent runs</h2>
+
+      {/* Filters */}
+      <div className="flex gap-3 flex-wrap">
+        <select
+          value={jobName}
+          onChange={(e) => { setJobName(e.target.value); setPage(1); }}
+          className="input w-48"
+        >
+          <option value="">All jobs</option>
+          {jobs.map((j) => <option key={j.name} value={j.name}>{j.label}</option>)}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => { setStatus(e.target.value as "" | RunStatus); setPage(1); }}
+          className="input w-40"
+        >
+          <option value="">All statuses</option>
+          <option value="RUNNING">RUNNING</option>
+          <option value="SUCCEEDED">SUCCEEDED</option>
+          <option value="FAILED">FAILED</option>
+          <option value="SKIPPED">SKIPPED</option>
+        </select>
+      </div>
+
+      <Table columns={runColumns} rows={runs} keyField="id" loading={loading} emptyMessage="No job runs yet." />
+      <Pagination page={page} total={total} limit={LIMIT} onChange={setPage} />
+
+      {/* Result modal */}
+      <Modal
+        open={!!detail}
+        onClose={() => setDetail(null)}
+        title={detail ? `${detail.jobName} · ${detail.status}` : ""}
+        footer={<Button variant="secondary" onClick={() => setDetail(null)}>Close</Button>}
+      >
+        {detail && (
+          <div className="space-y-3">
+            <p className="text-xs text-gray-500">
+              {new Date(detail.startedAt).toLocaleString()}
+              {detail.finishedAt && ` → ${new Date(detail.finishedAt).toLocaleString()}`}
+              {` · ${duration(detail.durationMs)} · ${detail.trigger}`}
+            </p>
+            {detail.errorMessage && (
+              <p className="text-sm text-red-600 break-words">{detail.errorMessage}</p>
+            )}
+            {detail.resultJson != null && (
+              <pre className="max-h-96 overflow-auto rounded bg-gray-900 p-3 text-xs text-gray-100">
+                {JSON.stringify(detail.resultJson, null, 2)}
+              </pre>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
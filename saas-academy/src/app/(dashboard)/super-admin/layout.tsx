@@ -6,6 +6,8 @@ import { Toast } from "@/components/ui/Toast";
 const NAV = [
   { href: "/super-admin/academies", label: "Academies", icon: "🏫" },
   { href: "/super-admin/users",     label: "All Users",  icon: "👥" },
+  { href: "/super-admin/webhooks",  label: "Webhooks",   icon: "🔁" },
+  { href: "/super-admin/jobs",      label: "Jobs",       icon: "⏱️" },
 ];
 
 export default async function SuperAdminLayout({
@@ -0,0 +1,249 @@
+"use client";
+import { useEffect, useState, useCallback } from "react";
+import { Table } from "@/components/ui/Table";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Pagination } from "@/components/ui/Pagination";
+import { useToast } from "@/components/ui/Toast";
+
+type ProcessingStatus = "PENDING" | "PROCESSING" | "DONE" | "ERROR";
+
+interface WebhookEvent {
+  id: string;
+  eventType: string;
+  providerKey: string | null;
+  receivedAt: string;
+  processedAt: string | null;
+  processingStatus: ProcessingStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRetryAt: string | null;
+  errorMessage: string | null;
+  claimedAt: string | null;
+  academy: { id: string; name: string } | null;
+  payloadJson?: unknown;
+}
+
+// Mirrors STALE_CLAIM_MS in webhook.service.ts
+const STALE_CLAIM_MS = 10 * 60_000;
+
+/** Being processed by a live worker – replay is refused until the claim goes stale */
+function isClaimed(ev: WebhookEvent): boolean {
+  return ev.processingStatus === "PROCESSING" &&
+    !!ev.claimedAt && Date.now() - new Date(ev.claimedAt).getTime() < STALE_CLAIM_MS;
+}
+
+function statusVariant(s: ProcessingStatus): "active" | "suspended" | "default" {
+  if (s === "DONE")  return "active";
+  if (s === "ERROR") return "suspended";
+  return "default";
+}
+
+export default function WebhooksPage() {
+  const { push: toast } = useToast();
+
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<"" | ProcessingStatus>("");
+  const [eventType, setEventType] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [detail, setDetail] = useState<WebhookEvent | null>(null);
+
+  const LIMIT = 20;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({
+      page: String(page),
+      limit: String(LIMIT),
+      ...(search && { search }),
+      ...(status && { status }),
+      ...(eventType && { eventType }),
+    });
+    const res = await fetch(`/api/admin/webhooks?${params}`);
+    if (res.ok) {
+      const { data } = await res.json();
+      setEvents(data.events);
+      setTotal(data.total);
+    }
+    setLoading(false);
+  }, [page, search, status, eventType]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function openDetail(ev: WebhookEvent) {
+    const res = await fetch(`/api/admin/webhooks/${ev.id}`);
+    if (!res.ok) { toast("Could not load event", "error"); return; }
+    const { data } = await res.json();
+    setDetail(data);
+  }
+
+  async function handleReplay(ev: WebhookEvent) {
+    if (!confirm(`Replay ${ev.eventType} ${ev.providerKey ?? ev.id}?`)) return;
+    setReplaying(ev.id);
+    const res = await fetch(`/api/admin/webhooks/${ev.id}/replay`, { method: "POST" });
+    const body = await res.json();
+    setReplaying(null);
+    if (!res.ok) { toast(body.error ?? "Replay failed", "error"); return; }
+    const updated = body.data as WebhookEvent;
+    if (updated.processingStatus === "DONE") toast("Event processed", "success");
+    else toast(updated.errorMessage ?? `Event is ${updated.processingStatus}`, "error");
+    if (detail?.id === ev.id) setDetail({ ...detail, ...updated });
+    load();
+  }
+
+  async function handleProcessNow() {
+    setProcessing(true);
+    const res = await fetch("/api/admin/webhooks/process", { method: "POST" });
+    const body = await res.json();
+    setProcessing(false);
+    if (!res.ok) { toast(body.error ?? "Processing failed", "error"); return; }
+    const r = body.data.resultJson as { processed: number; succeeded: number; failed: number };
+    toast(`Processed ${r.processed}: ${r.succeeded} ok, ${r.failed} failed`, r.failed ? "error" : "success");
+    load();
+  }
+
+  const columns = [
+    {
+      key: "receivedAt", header: "Received",
+      render: (ev: WebhookEvent) => new Date(ev.receivedAt).toLocaleString(),
+    },
+    { key: "eventType", header: "Event" },
+    {
+      key: "providerKey", header: "Provider Key",
+      render: (ev: WebhookEvent) => <span className="font-mono text-xs">{ev.providerKey ?? "—"}</span>,
+    },
+    {
+      key: "academy", header: "Academy",
+      render: (ev: WebhookEvent) => ev.academy?.name ?? "—",
+    },
+    {
+      key: "processingStatus", header: "Status",
+      render: (ev: WebhookEvent) => (
+        <span title={ev.errorMessage ?? undefined}>
+          <Badge variant={statusVariant(ev.processingStatus)}>{ev.processingStatus}</Badge>
+        </span>
+      ),
+    },
+    {
+      key: "attempts", header: "Attempts",
+      render: (ev: WebhookEvent) => (
+        <span className="text-xs">
+          {ev.attempts}/{ev.maxAttempts}
+          {ev.processingStatus === "ERROR" && (
+            <span className="ml-1 text-gray-500">
+              {ev.nextRetryAt ? `retry ${new Date(ev.nextRetryAt).toLocaleTimeString()}` : "gave up"}
+            </span>
+          )}
+        </span>
+      ),
+    },
+    {
+      key: "actions", header: "",
+      render: (ev: WebhookEvent) => (
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={() => openDetail(ev)}>
+            Payload
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={replaying === ev.id || isClaimed(ev)}
+            onClick={() => handleReplay(ev)}
+          >
+            {replaying === ev.id ? "Replaying…" : "Replay"}
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-sm text-gray-500 mt-1">Toss Payments events – stored on receipt, processed by the worker</p>
+        </div>
+        <Button onClick={handleProcessNow} loading={processing}>Process pending now</Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-3 flex-wrap">
+        <div className="w-64">
+          <Input
+            placeholder="Search payment key / order ID…"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+          />
+        </div>
+        <select
+          value={status}
+          onChange={(e) => { setStatus(e.target.value as "" | ProcessingStatus); setPage(1); }}
+          className="input w-40"
+        >
+          <option value="">All statuses</option>
+          <option value="PENDING">PENDING</option>
+          <option value="PROCESSING">PROCESSING</option>
+          <option value="DONE">DONE</option>
+          <option value="ERROR">ERROR</option>
+        </select>
+        <select
+          value={eventType}
+          onChange={(e) => { setEventType(e.target.value); setPage(1); }}
+          className="input w-64"
+        >
+          <option value="">All events</option>
+          <option value="PAYMENT_STATUS_CHANGED">PAYMENT_STATUS_CHANGED</option>
+          <option value="BILLING_STATUS_CHANGED">BILLING_STATUS_CHANGED</option>
+          <option value="DEPOSIT_CALLBACK">DEPOSIT_CALLBACK</option>
+        </select>
+      </div>
+
+      <Table columns={columns} rows={events} keyField="id" loading={loading} emptyMessage="No webhook events." />
+      <Pagination page={page} total={total} limit={LIMIT} onChange={setPage} />
+
+      {/* Payload modal */}
+      <Modal
+        open={!!detail}
+        onClose={() => setDetail(null)}
+        title={detail ? `${detail.eventType} · ${detail.processingStatus}` : ""}
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setDetail(null)}>Close</Button>
+            {detail && (
+              <Button
+                loading={replaying === detail.id}
+                disabled={isClaimed(detail)}
+                onClick={() => handleReplay(detail)}
+              >
+                Replay
+              </Button>
+            )}
+          </>
+        }
+      >
+        {detail && (
+          <div className="space-y-3">
+            {detail.errorMessage && (
+              <p className="text-sm text-red-600 break-words">{detail.errorMessage}</p>
+            )}
+            <pre className="max-h-96 overflow-auto rounded bg-gray-900 p-3 text-xs text-gray-100">
+              {JSON.stringify(
+                typeof detail.payloadJson === "string" ? JSON.parse(detail.payloadJson) : detail.payloadJson,
+                null,
+                2,
+              )}
+            </pre>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
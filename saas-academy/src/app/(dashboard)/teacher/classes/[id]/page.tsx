@@ -2,7 +2,10 @@
 /**
  * /teacher/classes/[id]
  * Teacher: view class sessions and mark attendance.
- * Re-uses the same API as the admin page (TEACHER role filtering is server-side).
+ * Re-uses the same API as the admin page (TEACHER role filtering is server-side):
+ * a substitute only gets the sessions they substitute on.
+ * Today's sessions can open student self check-in: the screen shows the
+ * rotating code and refreshes it when it expires.
  */
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
@@ -16,9 +19,17 @@ interface SessionItem {
   startsAt:  string;
   endsAt:    string;
   status:    string;
+  substituteTeacher: { id: string; name: string } | null;
   _count:    { attendances: number };
 }
 
+interface CheckInCode {
+  code:      string;
+  expiresAt: string;
+  periodSec: number;
+  qrPayload: string;
+}
+
 interface AttEntry {
   student:    { id: string; name: string; email: string };
   attendance: { id: string; status: string; memo: string | null } | null;
@@ -57,6 +68,12 @@ export default function TeacherClassDetailPage() {
   const [draftMemos,       setDraftMemos]       = useState<Record<string, string>>({});
   const [saving,           setSaving]           = useState(false);
 
+  const [checkInSession,   setCheckInSession]   = useState<SessionItem | null>(null);
+  const [checkInCode,      setCheckInCode]      = useState<CheckInCode | null>(null);
+  const [checkInError,     setCheckInError]     = useState("");
+  const [secondsLeft,      setSecondsLeft]      = useState(0);
+  const [closingCheckIn,   setClosingCheckIn]   = useState(false);
+
   const load = useCallback(async () => {
     setLoading(true);
     try {
@@ -77,6 +94,45 @@ export default function TeacherClassDetailPage() {
 
   useEffect(() => { load(); }, [load]);
 
+  // Fetch the next code when the current one expires, and count down to it
+  useEffect(() => {
+    if (!checkInSession || !checkInCode) return;
+    const expiresAt = new Date(checkInCode.expiresAt).getTime();
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    const refresh  = setTimeout(async () => {
+      const res  = await fetch(`/api/academy/sessions/${checkInSession.id}/check-in`);
+      const json = await res.json();
+      if (res.ok) setCheckInCode(json.data);
+      else { setCheckInCode(null); setCheckInError(json.error ?? "Check-in closed"); }
+    }, Math.max(0, expiresAt - Date.now()) + 200);
+    return () => { clearInterval(interval); clearTimeout(refresh); };
+  }, [checkInSession, checkInCode]);
+
+  async function openCheckIn(session: SessionItem) {
+    setCheckInSession(session);
+    setCheckInCode(null);
+    setCheckInError("");
+    const res  = await fetch(`/api/academy/sessions/${session.id}/check-in`, { method: "POST" });
+    const json = await res.json();
+    if (res.ok) setCheckInCode(json.data);
+    else setCheckInError(json.error ?? "Failed to open check-in");
+  }
+
+  async function closeCheckIn() {
+    if (!checkInSession) return;
+    setClosingCheckIn(true);
+    try {
+      await fetch(`/api/academy/sessions/${checkInSession.id}/check-in`, { method: "DELETE" });
+      setCheckInSession(null);
+      setCheckInCode(null);
+      load();
+    } finally {
+      setClosingCheckIn(false);
+    }
+  }
+
   async function openAttendance(session: SessionItem) {
     setActiveSession(session);
     setAttLoading(true);
@@ -168,8 +224,18 @@ export default function TeacherClassDetailPage() {
                   <span className="ml-3 text-sm text-gray-500">
                     {new Date(s.startsAt).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Seoul" })}
                   </span>
+                  {s.substituteTeacher && (
+                    <span className="ml-2 text-xs bg-purple-50 text-purple-700 px-2 py-0.5 rounded-full">
+                      Substitute: {s.substituteTeacher.name}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {s.localDate === today && (
+                    <Button size="sm" variant="secondary" onClick={() => openCheckIn(s)}>Self Check-in</Button>
+                  )}
+                  <Button size="sm" onClick={() => openAttendance(s)}>Mark Attendance</Button>
                 </div>
-                <Button size="sm" onClick={() => openAttendance(s)}>Mark Attendance</Button>
               </div>
             ))}
           </div>
@@ -199,6 +265,40 @@ export default function TeacherClassDetailPage() {
         )}
       </section>
 
+      {/* Self Check-in Modal */}
+      {checkInSession && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-4 text-center">
+            <h3 className="text-lg font-semibold">Self Check-in — {checkInSession.localDate}</h3>
+            {checkInError ? (
+              <p className="text-sm text-red-600">{checkInError}</p>
+            ) : !checkInCode ? (
+              <div className="flex justify-center py-8"><Spinner /></div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500">Students enter this code under My Attendance.</p>
+                <p className="text-6xl font-mono font-bold tracking-widest text-gray-900">{checkInCode.code}</p>
+                <p className="text-xs text-gray-400">New code in {secondsLeft}s</p>
+                <a
+                  href={checkInCode.qrPayload}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-xs text-brand-600 underline break-all"
+                >
+                  {checkInCode.qrPayload}
+                </a>
+              </>
+            )}
+            <div className="flex gap-3 justify-center pt-2">
+              <Button variant="secondary" onClick={() => { setCheckInSession(null); setCheckInCode(null); }}>
+                Hide
+              </Button>
+              <Button variant="danger" loading={closingCheckIn} onClick={closeCheckIn}>Close check-in</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Attendance Modal */}
       {activeSession && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
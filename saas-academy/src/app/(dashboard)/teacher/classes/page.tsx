@@ -1,7 +1,7 @@
 "use client";
 /**
  * /teacher/classes
- * Teacher: view assigned classes.
+ * Teacher: view assigned classes, and classes they substitute on.
  */
 import { useState, useEffect } from "react";
 import Link from "next/link";
@@ -16,6 +16,8 @@ interface ClassItem {
   endDate:   string | null;
   schedules: { daysOfWeek: number[]; startTime: string; durationMin: number }[];
   _count:    { enrollments: number; sessions: number };
+  /** Not the class teacher: substitutes on some of its sessions */
+  substitute: boolean;
 }
 
 const DOW = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -67,6 +69,7 @@ export default function TeacherClassesPage() {
                   <div className="flex items-center gap-3 mb-1">
                     <h2 className="text-lg font-semibold text-gray-900">{cls.name}</h2>
                     <Badge variant={cls.status === "ACTIVE" ? "active" : "default"}>{cls.status}</Badge>
+                    {cls.substitute && <Badge variant="role">Substitute</Badge>}
                   </div>
                   <p className="text-sm text-gray-500">
                     {new Date(cls.startDate).toLocaleDateString("ko-KR")}
@@ -0,0 +1,77 @@
+/**
+ * POST /api/academy/alimtalk-templates/preview – render a template body
+ *
+ * Body: { type, language?, body?, attendanceId? }
+ *  - body omitted       → the stored template for `type` + `language`
+ *  - attendanceId given → variables from that attendance (attendance types
+ *                         only); otherwise sample data
+ *
+ * Returns the rendered text plus any variables the builder cannot supply.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { PreviewAlimtalkTemplateSchema } from "@/lib/validators/notifications";
+import {
+  isAttendanceType,
+  missingTemplateVars,
+  renderTemplateText,
+  sampleTemplateVars,
+} from "@/lib/alimtalk/templates";
+import {
+  ATTENDANCE_CONTEXT_INCLUDE,
+  attendanceTemplateVars,
+} from "@/lib/alimtalk/attendance-notifier";
+
+function resolveAcademyId(ctx: { user: { role: string }; academyId: string | null }, url: URL): string | null {
+  if (ctx.user.role === "SUPER_ADMIN") return url.searchParams.get("academyId");
+  return ctx.academyId;
+}
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const academyId = resolveAcademyId(ctx, req.nextUrl);
+  if (!academyId) return err("academyId required", 400);
+
+  const input = await parseBody(req, PreviewAlimtalkTemplateSchema);
+  if (input instanceof NextResponse) return input;
+
+  let body = input.body;
+  if (body === undefined) {
+    const template = await prisma.alimtalkTemplate.findUnique({
+      where:  {
+        academyId_type_language: { academyId, type: input.type, language: input.language },
+      },
+      select: { body: true },
+    });
+    if (!template?.body) return err("No template body saved for this type", 404);
+    body = template.body;
+  }
+
+  let variables = sampleTemplateVars(input.type, input.language);
+  if (input.attendanceId) {
+    if (!isAttendanceType(input.type)) {
+      return err("attendanceId only applies to attendance templates", 400);
+    }
+    const attendance = await prisma.attendance.findFirst({
+      where:   { id: input.attendanceId, academyId },
+      include: ATTENDANCE_CONTEXT_INCLUDE,
+    });
+    if (!attendance) return err("Attendance not found", 404);
+    variables = await attendanceTemplateVars(attendance, input.language);
+  }
+
+  return ok({
+    type:     input.type,
+    language: input.language,
+    source:   input.attendanceId ? "attendance" : "sample",
+    body,
+    text:     renderTemplateText(body, variables),
+    variables,
+    missing:  missingTemplateVars(input.type, body),
+  });
+}
@@ -1,6 +1,9 @@
 /**
  * GET  /api/academy/alimtalk-templates       – list templates for academy
- * POST /api/academy/alimtalk-templates       – upsert template (by type)
+ * POST /api/academy/alimtalk-templates       – upsert template (by type + language)
+ *
+ * The body must only use #{var}s the builder for its type supplies
+ * (see templates.ts); anything else is rejected with 422.
  *
  * RBAC: ADMIN, SUPER_ADMIN
  */
@@ -24,7 +27,7 @@ export async function GET(req: NextRequest) {
 
   const templates = await prisma.alimtalkTemplate.findMany({
     where:   { academyId },
-    orderBy: { type: "asc" },
+    orderBy: [{ type: "asc" }, { language: "asc" }],
   });
 
   return ok(templates);
@@ -40,21 +43,24 @@ export async function POST(req: NextRequest) {
   const body = await parseBody(req, UpsertAlimtalkTemplateSchema);
   if (body instanceof NextResponse) return body;
 
-  // Upsert: unique on (academyId, type)
+  // Upsert: unique on (academyId, type, language)
   const template = await prisma.alimtalkTemplate.upsert({
     where: {
-      academyId_type: { academyId, type: body.type },
+      academyId_type_language: { academyId, type: body.type, language: body.language },
     },
     create: {
       academyId,
       type:         body.type,
+      language:     body.language,
       templateCode: body.templateCode,
       senderKey:    body.senderKey,
+      body:         body.body,
       isActive:     body.isActive,
     },
     update: {
       templateCode: body.templateCode,
       senderKey:    body.senderKey,
+      body:         body.body,
       isActive:     body.isActive,
     },
   });
@@ -65,7 +71,7 @@ export async function POST(req: NextRequest) {
     action:      "alimtalkTemplate.upsert",
     targetType:  "AlimtalkTemplate",
     targetId:    template.id,
-    metaJson:    { type: body.type, templateCode: body.templateCode },
+    metaJson:    { type: body.type, language: body.language, templateCode: body.templateCode },
   });
 
   return ok(template, 200);
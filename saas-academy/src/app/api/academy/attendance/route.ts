@@ -2,12 +2,13 @@
  * GET /api/academy/attendance
  * List attendance records with filters.
  * Query: classId, sessionId, studentUserId, month (YYYY-MM), page, limit
- * Allowed: ADMIN, TEACHER (own classes only), SUPER_ADMIN
+ * Allowed: ADMIN, TEACHER (own classes, or sessions they substitute on), SUPER_ADMIN
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { listAttendanceQuerySchema } from "@/lib/validators/attendance";
+import { teacherSessionFilter } from "@/lib/services/session.service";
 
 export async function GET(req: NextRequest) {
   const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
@@ -22,21 +23,18 @@ export async function GET(req: NextRequest) {
   }
   const q = parsed.data;
 
-  // TEACHER: only own classes
-  const teacherClassFilter =
-    ctx.user.role === "TEACHER"
-      ? { class: { teacherUserId: ctx.user.sub } }
-      : {};
+  // TEACHER: only own classes and sessions they substitute on
+  const sessionWhere = {
+    ...(ctx.user.role === "TEACHER" ? teacherSessionFilter(ctx.user.sub) : {}),
+    ...(q.month ? { localDate: { gte: `${q.month}-01`, lte: `${q.month}-31` } } : {}),
+  };
 
   const where: Record<string, unknown> = {
     academyId,
-    ...teacherClassFilter,
     ...(q.classId       ? { classId:       q.classId }       : {}),
     ...(q.sessionId     ? { sessionId:     q.sessionId }     : {}),
     ...(q.studentUserId ? { studentUserId: q.studentUserId } : {}),
-    ...(q.month
-      ? { session: { localDate: { gte: `${q.month}-01`, lte: `${q.month}-31` } } }
-      : {}),
+    ...(Object.keys(sessionWhere).length > 0 ? { session: sessionWhere } : {}),
   };
 
   const [records, total] = await Promise.all([
@@ -1,12 +1,14 @@
 /**
  * POST /api/academy/classes/[id]/enroll
- * Enroll a student in a class.
+ * Enroll a student in a class. A full class puts the student on its waitlist
+ * instead (status WAITLISTED with a waitlistPosition, see waitlist.service.ts).
  * Allowed: ADMIN, SUPER_ADMIN
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { enrollStudentSchema } from "@/lib/validators/attendance";
+import { enrollOrWaitlist } from "@/lib/services/waitlist.service";
 
 interface Params { params: Promise<{ id: string }> }
 
@@ -37,32 +39,16 @@ export async function POST(req: NextRequest, { params }: Params) {
     return err("User is not a STUDENT", 422);
   }
 
-  // Check capacity
-  if (cls.capacity !== null) {
-    const activeCount = await prisma.classEnrollment.count({
-      where: { classId, academyId, status: "ACTIVE" },
-    });
-    if (activeCount >= cls.capacity) {
-      return err("Class is at full capacity", 400);
-    }
-  }
+  // Enroll, re-activate if DROPPED/PAUSED, or waitlist when full
+  const { id: enrollmentId } = await enrollOrWaitlist({
+    academyId,
+    classId,
+    studentUserId: body.studentUserId,
+    actorUserId:   ctx.user.sub,
+  });
 
-  // Upsert enrollment (re-activate if DROPPED/PAUSED)
-  const enrollment = await prisma.classEnrollment.upsert({
-    where: {
-      academyId_classId_studentUserId: {
-        academyId,
-        classId,
-        studentUserId: body.studentUserId,
-      },
-    },
-    update: { status: "ACTIVE" },
-    create: {
-      academyId,
-      classId,
-      studentUserId: body.studentUserId,
-      status:        "ACTIVE",
-    },
+  const enrollment = await prisma.classEnrollment.findUniqueOrThrow({
+    where:   { id: enrollmentId },
     include: { student: { select: { id: true, name: true, email: true } } },
   });
 
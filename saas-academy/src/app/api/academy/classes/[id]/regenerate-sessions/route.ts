@@ -4,8 +4,12 @@
  *
  * Rules:
  *  - Only deletes SCHEDULED sessions after today with 0 attendance.
- *  - Keeps sessions that are CANCELED, COMPLETED, or have attendance.
+ *  - Keeps sessions that are CANCELED, COMPLETED, or have attendance or
+ *    make-up bookings, and RESCHEDULED / EXTRA sessions.
  *  - Re-creates from the new schedule rules.
+ *  - Refuses with 409 { error, details: { conflicts } } when the new sessions
+ *    would double-book the teacher or a room, unless `override` is set.
+ *    The class's own sessions never count as conflicts.
  *
  * Allowed: ADMIN, SUPER_ADMIN
  */
@@ -13,7 +17,13 @@ import { type NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { regenerateSessionsSchema } from "@/lib/validators/attendance";
-import { regenerateFutureSessions } from "@/lib/services/classSessionGenerator";
+import { audit }  from "@/lib/auth/audit";
+import { planSessions, regenerateFutureSessions } from "@/lib/services/classSessionGenerator";
+import {
+  assertNoConflicts,
+  findConflicts,
+  ConflictError,
+} from "@/lib/services/conflict.service";
 
 interface Params { params: Promise<{ id: string }> }
 
@@ -24,7 +34,10 @@ export async function POST(req: NextRequest, { params }: Params) {
   const { id: classId } = await params;
   const academyId = ctx.academyId!;
 
-  const cls = await prisma.class.findFirst({ where: { id: classId, academyId } });
+  const cls = await prisma.class.findFirst({
+    where:   { id: classId, academyId },
+    include: { schedules: true },
+  });
   if (!cls) return err("Class not found", 404);
 
   const body = await parseBody(req, regenerateSessionsSchema);
@@ -42,6 +55,25 @@ export async function POST(req: NextRequest, { params }: Params) {
   const effectiveDateTo =
     cls.endDate && cls.endDate < dateTo ? cls.endDate : dateTo;
 
+  // Same range regenerateFutureSessions creates sessions in
+  let overridden;
+  try {
+    overridden = assertNoConflicts(await findConflicts({
+      academyId,
+      teacherUserId:  cls.teacherUserId,
+      slots:          await planSessions(
+        academyId,
+        cls.schedules,
+        today > dateFrom ? today : dateFrom,
+        effectiveDateTo,
+      ),
+      excludeClassId: classId,
+    }), body.override);
+  } catch (e) {
+    if (e instanceof ConflictError) return err(e.message, e.status, { conflicts: e.conflicts });
+    throw e;
+  }
+
   const result = await regenerateFutureSessions({
     classId,
     academyId,
@@ -50,6 +82,17 @@ export async function POST(req: NextRequest, { params }: Params) {
     safeAfter: today,
   });
 
+  if (overridden.length > 0) {
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "class.conflict.override",
+      targetType:  "Class",
+      targetId:    classId,
+      metaJson:    { conflicts: overridden.length },
+    });
+  }
+
   return ok({
     deleted:               result.deleted,
     created:               result.created,
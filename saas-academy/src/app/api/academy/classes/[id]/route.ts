@@ -1,11 +1,15 @@
 /**
- * GET    /api/academy/classes/[id]   – get a single class (with sessions + enrollments summary)
- * PATCH  /api/academy/classes/[id]   – update class fields
+ * GET    /api/academy/classes/[id]   – get a single class (with sessions + enrollments summary);
+ *                                      TEACHER: own classes and classes they substitute on
+ * PATCH  /api/academy/classes/[id]   – update class fields; a raised capacity promotes
+ *                                      waitlisted students
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { updateClassSchema } from "@/lib/validators/attendance";
+import { findClosures, notOnClosures } from "@/lib/services/closure.service";
+import { promoteWaitlisted } from "@/lib/services/waitlist.service";
 
 interface Params { params: Promise<{ id: string }> }
 
@@ -15,19 +19,21 @@ export async function GET(req: NextRequest, { params }: Params) {
 
   const { id } = await params;
   const academyId = ctx.academyId!;
+  const closures  = await findClosures(academyId);
 
   const cls = await prisma.class.findFirst({
     where: { id, academyId },
     include: {
       teacher:     { select: { id: true, name: true, email: true } },
-      schedules:   true,
+      schedules:   { include: { room: { select: { id: true, name: true } } } },
       enrollments: {
         include: { student: { select: { id: true, name: true, email: true } } },
         orderBy: { enrolledAt: "asc" },
       },
       _count: {
         select: {
-          sessions:    true,
+          // Sessions actually held: not canceled, not on a closure date
+          sessions:    { where: { status: { not: "CANCELED" }, ...notOnClosures(closures) } },
           attendances: true,
         },
       },
@@ -36,9 +42,12 @@ export async function GET(req: NextRequest, { params }: Params) {
 
   if (!cls) return err("Class not found", 404);
 
-  // TEACHER can only see their own class
+  // TEACHER can only see their own class, or one they substitute on
   if (ctx.user.role === "TEACHER" && cls.teacherUserId !== ctx.user.sub) {
-    return err("Forbidden", 403);
+    const substitutes = await prisma.classSession.count({
+      where: { classId: id, substituteTeacherUserId: ctx.user.sub },
+    });
+    if (substitutes === 0) return err("Forbidden", 403);
   }
 
   return ok(cls);
@@ -77,11 +86,17 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       ...(body.name          !== undefined ? { name:          body.name }          : {}),
       ...(body.teacherUserId !== undefined ? { teacherUserId: body.teacherUserId } : {}),
       ...(body.capacity      !== undefined ? { capacity:      body.capacity }      : {}),
+      ...(body.lateAfterMin  !== undefined ? { lateAfterMin:  body.lateAfterMin }  : {}),
       ...(body.endDate       !== undefined ? { endDate:       body.endDate ? new Date(body.endDate) : null } : {}),
       ...(body.status        !== undefined ? { status:        body.status }        : {}),
     },
     include: { schedules: true },
   });
 
+  // A raised or removed capacity (or a re-activated class) may free seats
+  if (body.capacity !== undefined || body.status === "ACTIVE") {
+    await promoteWaitlisted({ academyId, classId: id, actorUserId: ctx.user.sub });
+  }
+
   return ok(updated);
 }
@@ -0,0 +1,80 @@
+/**
+ * POST /api/academy/classes/[id]/sessions
+ * Add an extra (ad-hoc) session to a class { startsAt, endsAt, roomId?, override? }.
+ * Parents of enrolled students are notified (sendOnScheduleChange).
+ *
+ * Extra sessions are kept when sessions are regenerated. Teacher / room
+ * double-bookings answer 409 { error, details: { conflicts } }; admins may
+ * pass `override` to go ahead anyway.
+ *
+ * ADMIN / SUPER_ADMIN may add sessions to any class.
+ * TEACHER may only add sessions to their own classes.
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { sessionTimesSchema } from "@/lib/validators/attendance";
+import { createExtraSession, SessionError } from "@/lib/services/session.service";
+import { roomsUsable, ConflictError } from "@/lib/services/conflict.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id: classId } = await params;
+  const academyId = ctx.academyId!;
+
+  if (ctx.user.role === "TEACHER") {
+    const cls = await prisma.class.findFirst({
+      where:  { id: classId, academyId },
+      select: { teacherUserId: true },
+    });
+    if (!cls) return err("Class not found", 404);
+    if (cls.teacherUserId !== ctx.user.sub) return err("Forbidden", 403);
+  }
+
+  const body = await parseBody(req, sessionTimesSchema);
+  if (body instanceof Response) return body;
+
+  if (body.override && ctx.user.role === "TEACHER") {
+    return err("Only admins can override schedule conflicts", 403);
+  }
+  if (!(await roomsUsable(academyId, [body.roomId]))) {
+    return err("Room not found in this academy", 422);
+  }
+
+  try {
+    const result = await createExtraSession({
+      academyId,
+      classId,
+      startsAt:    new Date(body.startsAt),
+      endsAt:      new Date(body.endsAt),
+      roomId:      body.roomId,
+      override:    body.override,
+      actorUserId: ctx.user.sub,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "session.createExtra",
+      targetType:  "ClassSession",
+      targetId:    result.session.id,
+      metaJson:    {
+        classId,
+        startsAt:            result.session.startsAt.toISOString(),
+        roomId:              result.session.roomId,
+        conflictsOverridden: result.conflicts.length,
+      },
+    });
+
+    return ok(result, 201);
+  } catch (e) {
+    if (e instanceof SessionError)  return err(e.message, e.status);
+    if (e instanceof ConflictError) return err(e.message, e.status, { conflicts: e.conflicts });
+    throw e;
+  }
+}
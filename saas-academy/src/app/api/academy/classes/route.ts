@@ -2,25 +2,45 @@
  * POST /api/academy/classes  – create a class + schedules + generate sessions
  * GET  /api/academy/classes  – list classes for the current academy
  *
+ * POST checks the generated sessions for teacher and room double-bookings and
+ * answers 409 { error, details: { conflicts } } unless `override` is set.
+ *
  * Allowed roles: ADMIN (own academy), SUPER_ADMIN (any), TEACHER (GET only).
+ * TEACHER sees their own classes and the classes they substitute on
+ * (`substitute: true`).
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { createClassSchema } from "@/lib/validators/attendance";
-import { generateSessions } from "@/lib/services/classSessionGenerator";
+import { audit }  from "@/lib/auth/audit";
+import { generateSessions, planSessions } from "@/lib/services/classSessionGenerator";
+import { findClosures, notOnClosures } from "@/lib/services/closure.service";
+import {
+  assertNoConflicts,
+  findConflicts,
+  roomsUsable,
+  ConflictError,
+} from "@/lib/services/conflict.service";
 
 export async function GET(req: NextRequest) {
   const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
   if (ctx instanceof Response) return ctx;
 
   const academyId = ctx.academyId!;
+  const closures  = await findClosures(academyId);
 
+  const isTeacher = ctx.user.role === "TEACHER";
   const classes = await prisma.class.findMany({
     where: {
       academyId,
-      ...(ctx.user.role === "TEACHER"
-        ? { teacherUserId: ctx.user.sub }
+      ...(isTeacher
+        ? {
+            OR: [
+              { teacherUserId: ctx.user.sub },
+              { sessions: { some: { substituteTeacherUserId: ctx.user.sub } } },
+            ],
+          }
         : {}),
     },
     include: {
@@ -29,14 +49,16 @@ export async function GET(req: NextRequest) {
       _count: {
         select: {
           enrollments: { where: { status: "ACTIVE" } },
-          sessions:    { where: { status: { not: "CANCELED" } } },
+          sessions:    { where: { status: { not: "CANCELED" }, ...notOnClosures(closures) } },
         },
       },
     },
     orderBy: { createdAt: "desc" },
   });
 
-  return ok(classes);
+  return ok(isTeacher
+    ? classes.map((c) => ({ ...c, substitute: c.teacherUserId !== ctx.user.sub }))
+    : classes);
 }
 
 export async function POST(req: NextRequest) {
@@ -62,9 +84,30 @@ export async function POST(req: NextRequest) {
     }
   }
 
+  if (!(await roomsUsable(academyId, body.schedules.map((s) => s.roomId)))) {
+    return err("Room not found in this academy", 422);
+  }
+
   const startDate = new Date(body.startDate);
   const endDate   = body.endDate ? new Date(body.endDate) : null;
 
+  const dateTo = new Date();
+  dateTo.setDate(dateTo.getDate() + body.generateWeeks * 7);
+  const generateTo = endDate && endDate < dateTo ? endDate : dateTo;
+
+  // Teacher / room double-bookings of the sessions about to be generated
+  let overridden;
+  try {
+    overridden = assertNoConflicts(await findConflicts({
+      academyId,
+      teacherUserId: body.teacherUserId ?? null,
+      slots:         await planSessions(academyId, body.schedules, startDate, generateTo),
+    }), body.override);
+  } catch (e) {
+    if (e instanceof ConflictError) return err(e.message, e.status, { conflicts: e.conflicts });
+    throw e;
+  }
+
   // Create class + schedules in a transaction
   const newClass = await prisma.$transaction(async (tx) => {
     const cls = await tx.class.create({
@@ -73,6 +116,7 @@ export async function POST(req: NextRequest) {
         name:          body.name,
         teacherUserId: body.teacherUserId ?? null,
         capacity:      body.capacity ?? null,
+        lateAfterMin:  body.lateAfterMin,
         startDate,
         endDate,
         status: "ACTIVE",
@@ -88,20 +132,30 @@ export async function POST(req: NextRequest) {
         startTime:   s.startTime,
         durationMin: s.durationMin,
         timezone:    s.timezone ?? "Asia/Seoul",
+        roomId:      s.roomId ?? null,
       })),
     });
 
     return cls;
   });
 
+  if (overridden.length > 0) {
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "class.conflict.override",
+      targetType:  "Class",
+      targetId:    newClass.id,
+      metaJson:    { conflicts: overridden.length },
+    });
+  }
+
   // Generate sessions (outside transaction – may be many rows)
-  const dateTo = new Date();
-  dateTo.setDate(dateTo.getDate() + body.generateWeeks * 7);
   const generated = await generateSessions({
     classId:   newClass.id,
     academyId,
     dateFrom:  startDate,
-    dateTo:    endDate && endDate < dateTo ? endDate : dateTo,
+    dateTo:    generateTo,
   });
 
   const result = await prisma.class.findUnique({
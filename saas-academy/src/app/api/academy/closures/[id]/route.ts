@@ -0,0 +1,38 @@
+/**
+ * DELETE /api/academy/closures/[id]  – remove a closure
+ *
+ * Sessions canceled for the closure stay canceled; regenerate the class's
+ * sessions to bring them back.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.academyClosure.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Closure not found", 404);
+
+  await prisma.academyClosure.delete({ where: { id } });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "closure.delete",
+    targetType:  "AcademyClosure",
+    targetId:    id,
+    metaJson:    { name: existing.name, startDate: existing.startDate, endDate: existing.endDate },
+  });
+
+  return ok({ id });
+}
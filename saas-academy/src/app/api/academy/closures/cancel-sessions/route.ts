@@ -0,0 +1,40 @@
+/**
+ * POST /api/academy/closures/cancel-sessions  – cancel the future sessions
+ *                                               on closures in { from, to }
+ *
+ * Only SCHEDULED sessions without attendance are canceled. Make-up bookings
+ * on them return to their credits.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { audit }  from "@/lib/auth/audit";
+import { cancelClosedSessionsSchema } from "@/lib/validators/attendance";
+import { cancelSessionsOnClosures } from "@/lib/services/closure.service";
+import { releaseCanceledBookings } from "@/lib/services/makeup.service";
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, cancelClosedSessionsSchema);
+  if (body instanceof Response) return body;
+  if (body.to < body.from) return err("to must not be before from", 422);
+
+  const academyId = ctx.academyId!;
+  const canceled  = await cancelSessionsOnClosures(academyId, body.from, body.to);
+
+  if (canceled > 0) {
+    await releaseCanceledBookings(academyId);
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "closure.cancelSessions",
+      targetType:  "ClassSession",
+      metaJson:    { from: body.from, to: body.to, canceled },
+    });
+  }
+
+  return ok({ canceled });
+}
@@ -0,0 +1,45 @@
+/**
+ * POST /api/academy/closures/holidays  – import a year of Korean public
+ *                                        holidays as closures { year }
+ *
+ * Holidays already on the calendar are skipped. Returns the number imported
+ * and the future sessions falling on that year's holidays (affectedSessions).
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { audit }  from "@/lib/auth/audit";
+import { importHolidaysSchema } from "@/lib/validators/attendance";
+import { importPublicHolidays, ClosureError } from "@/lib/services/closure.service";
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, importHolidaysSchema);
+  if (body instanceof Response) return body;
+
+  const academyId = ctx.academyId!;
+
+  try {
+    const result = await importPublicHolidays({
+      academyId,
+      year:            body.year,
+      createdByUserId: ctx.user.sub,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "closure.importHolidays",
+      targetType:  "AcademyClosure",
+      metaJson:    { year: body.year, imported: result.imported },
+    });
+
+    return ok(result, 201);
+  } catch (e) {
+    if (e instanceof ClosureError) return err(e.message, e.status);
+    throw e;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GET  /api/academy/closures  – list closure days / ranges (?year=YYYY)
+ * POST /api/academy/closures  – add a closure { name, startDate, endDate? }
+ *
+ * POST returns the number of future sessions on the new closure
+ * (affectedSessions); cancel them with POST /api/academy/closures/cancel-sessions.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN; TEACHER (GET only)
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { audit }  from "@/lib/auth/audit";
+import { createClosureSchema, listClosuresQuerySchema } from "@/lib/validators/attendance";
+import { createClosure, findClosures, ClosureError } from "@/lib/services/closure.service";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const parsed = listClosuresQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return err("Invalid query params", 422, parsed.error.flatten());
+  }
+  const { year } = parsed.data;
+
+  const closures = await findClosures(
+    ctx.academyId!,
+    year ? { from: `${year}-01-01`, to: `${year}-12-31` } : undefined,
+  );
+  return ok(closures);
+}
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, createClosureSchema);
+  if (body instanceof Response) return body;
+
+  const academyId = ctx.academyId!;
+
+  try {
+    const { closure, affectedSessions } = await createClosure({
+      academyId,
+      name:            body.name,
+      startDate:       body.startDate,
+      endDate:         body.endDate,
+      createdByUserId: ctx.user.sub,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "closure.create",
+      targetType:  "AcademyClosure",
+      targetId:    closure.id,
+      metaJson:    { name: closure.name, startDate: closure.startDate, endDate: closure.endDate },
+    });
+
+    return ok({ closure, affectedSessions }, 201);
+  } catch (e) {
+    if (e instanceof ClosureError) return err(e.message, e.status);
+    throw e;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * PATCH  /api/academy/discount-rules/[id]   – update rule fields
+ * DELETE /api/academy/discount-rules/[id]   – deactivate (isActive → false)
+ *
+ * Changes affect invoices issued from now on; line items already on an
+ * invoice keep the amount they were created with.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { updateDiscountRuleSchema } from "@/lib/validators/billing";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.discountRule.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Discount rule not found", 404);
+
+  const body = await parseBody(req, updateDiscountRuleSchema);
+  if (body instanceof Response) return body;
+
+  const valueType = body.valueType ?? existing.valueType;
+  const value     = body.value     ?? existing.value;
+  if (valueType === "PERCENT" && value > 100) {
+    return err("Percentage must be between 1 and 100", 422);
+  }
+
+  const validFrom  = body.validFrom  !== undefined ? body.validFrom  : existing.validFrom?.toISOString().slice(0, 10);
+  const validUntil = body.validUntil !== undefined ? body.validUntil : existing.validUntil?.toISOString().slice(0, 10);
+  if (validFrom && validUntil && validFrom > validUntil) {
+    return err("validUntil must not be before validFrom", 422);
+  }
+
+  if (body.planId) {
+    const plan = await prisma.tuitionPlan.findFirst({ where: { id: body.planId, academyId } });
+    if (!plan) return err("Tuition plan not found", 422);
+  }
+
+  let code: string | undefined;
+  if (existing.type === "COUPON" && body.code) {
+    code = body.code.toUpperCase();
+    const taken = await prisma.discountRule.findFirst({ where: { academyId, code, id: { not: id } } });
+    if (taken) return err("Coupon code already in use", 409);
+  }
+
+  const updated = await prisma.discountRule.update({
+    where: { id },
+    data: {
+      ...(body.name      !== undefined ? { name:      body.name }      : {}),
+      ...(body.valueType !== undefined ? { valueType: body.valueType } : {}),
+      ...(body.value     !== undefined ? { value:     body.value }     : {}),
+      ...(body.minCount  !== undefined ? { minCount:  body.minCount }  : {}),
+      ...(code           !== undefined ? { code }                      : {}),
+      ...(body.planId    !== undefined ? { planId:    body.planId }    : {}),
+      ...(body.validFrom  !== undefined ? { validFrom:  body.validFrom  ? new Date(body.validFrom)  : null } : {}),
+      ...(body.validUntil !== undefined ? { validUntil: body.validUntil ? new Date(body.validUntil) : null } : {}),
+      ...(body.isActive  !== undefined ? { isActive:  body.isActive }  : {}),
+    },
+  });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "discountRule.update",
+    targetType:  "DiscountRule",
+    targetId:    id,
+    metaJson:    { changes: body },
+  });
+
+  return ok(updated);
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.discountRule.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Discount rule not found", 404);
+
+  const deactivated = await prisma.discountRule.update({
+    where: { id },
+    data:  { isActive: false },
+  });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "discountRule.deactivate",
+    targetType:  "DiscountRule",
+    targetId:    id,
+  });
+
+  return ok(deactivated);
+}
@@ -0,0 +1,88 @@
+/**
+ * GET  /api/academy/discount-rules   – list discount rules (?includeInactive=true)
+ * POST /api/academy/discount-rules   – create a sibling / multi-class / coupon / promotion rule
+ *
+ * Rules are applied by the billing run when it issues the next invoice of a
+ * subscription (see discount.service.ts).
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import {
+  createDiscountRuleSchema,
+  discountRuleQuerySchema,
+} from "@/lib/validators/billing";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const parsed = discountRuleQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  const includeInactive = parsed.success && parsed.data.includeInactive === "true";
+
+  const rules = await prisma.discountRule.findMany({
+    where: {
+      academyId: ctx.academyId!,
+      ...(includeInactive ? {} : { isActive: true }),
+    },
+    include: {
+      _count: { select: { lineItems: true, coupons: true } },
+    },
+    orderBy: [{ isActive: "desc" }, { createdAt: "asc" }],
+  });
+
+  return ok(rules);
+}
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, createDiscountRuleSchema);
+  if (body instanceof Response) return body;
+
+  const academyId = ctx.academyId!;
+
+  if (body.planId) {
+    const plan = await prisma.tuitionPlan.findFirst({ where: { id: body.planId, academyId } });
+    if (!plan) return err("Tuition plan not found", 422);
+  }
+
+  const code = body.type === "COUPON" ? body.code!.toUpperCase() : null;
+  if (code) {
+    const taken = await prisma.discountRule.findFirst({ where: { academyId, code } });
+    if (taken) return err("Coupon code already in use", 409);
+  }
+
+  const rule = await prisma.discountRule.create({
+    data: {
+      academyId,
+      name:       body.name,
+      type:       body.type,
+      valueType:  body.valueType,
+      value:      body.value,
+      minCount:   body.minCount,
+      code,
+      planId:     body.planId ?? null,
+      validFrom:  body.validFrom  ? new Date(body.validFrom)  : null,
+      validUntil: body.validUntil ? new Date(body.validUntil) : null,
+      isActive:   body.isActive,
+    },
+  });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "discountRule.create",
+    targetType:  "DiscountRule",
+    targetId:    rule.id,
+    metaJson:    { name: rule.name, type: rule.type, valueType: rule.valueType, value: rule.value },
+  });
+
+  return ok(rule, 201);
+}
@@ -1,12 +1,16 @@
 /**
  * PATCH /api/academy/enrollments/[enrollmentId]
- * Update enrollment status (ACTIVE | PAUSED | DROPPED).
+ * Update enrollment status (ACTIVE | PAUSED | DROPPED). A WAITLISTED
+ * enrollment leaves the waitlist: ACTIVE seats it regardless of capacity,
+ * DROPPED removes it. When an ACTIVE enrollment is dropped or paused, the
+ * freed seat goes to the first waitlisted student (waitlist.service.ts).
  * Allowed: ADMIN, SUPER_ADMIN
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { updateEnrollmentSchema } from "@/lib/validators/attendance";
+import { promoteWaitlisted } from "@/lib/services/waitlist.service";
 
 interface Params { params: Promise<{ enrollmentId: string }> }
 
@@ -27,12 +31,16 @@ export async function PATCH(req: NextRequest, { params }: Params) {
 
   const updated = await prisma.classEnrollment.update({
     where: { id: enrollmentId },
-    data:  { status: body.status },
+    data:  { status: body.status, waitlistPosition: null },
     include: {
       student: { select: { id: true, name: true, email: true } },
       class:   { select: { id: true, name: true } },
     },
   });
 
+  if (enrollment.status === "ACTIVE" && body.status !== "ACTIVE") {
+    await promoteWaitlisted({ academyId, classId: enrollment.classId, actorUserId: ctx.user.sub });
+  }
+
   return ok(updated);
 }
@@ -0,0 +1,85 @@
+/**
+ * GET  /api/academy/invoices/[id]/refunds   – refund history of an invoice
+ * POST /api/academy/invoices/[id]/refunds   – full or partial refund through Toss
+ *
+ * Body: { amount?: number, reason: string }  (amount omitted = refund the remaining balance)
+ *
+ * Invoices paid offline or by bank transfer (virtual account) get 422 –
+ * the academy refunds those to the family directly.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { refundInvoiceSchema } from "@/lib/validators/billing";
+import { refundInvoice, RefundError } from "@/lib/services/refund.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const invoice = await prisma.invoice.findFirst({ where: { id, academyId } });
+  if (!invoice) return err("Invoice not found", 404);
+
+  const refunds = await prisma.refund.findMany({
+    where:   { invoiceId: id, academyId },
+    orderBy: { requestedAt: "desc" },
+  });
+
+  return ok(refunds);
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const invoice = await prisma.invoice.findFirst({ where: { id, academyId } });
+  if (!invoice) return err("Invoice not found", 404);
+
+  const body = await parseBody(req, refundInvoiceSchema);
+  if (body instanceof Response) return body;
+
+  let refund;
+  try {
+    refund = await refundInvoice({
+      invoice,
+      amount:      body.amount,
+      reason:      body.reason,
+      actorUserId: ctx.user.sub,
+    });
+  } catch (e) {
+    if (e instanceof RefundError) {
+      await audit({
+        actorUserId: ctx.user.sub,
+        academyId,
+        action:      "invoice.refund.failed",
+        targetType:  "Invoice",
+        targetId:    id,
+        metaJson:    { amount: body.amount ?? null, reason: body.reason, error: e.message },
+      });
+      return err(e.message, e.status);
+    }
+    throw e;
+  }
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "invoice.refund",
+    targetType:  "Invoice",
+    targetId:    id,
+    metaJson:    { refundId: refund.id, amount: refund.amount, reason: body.reason },
+  });
+
+  return ok(refund, 201);
+}
@@ -0,0 +1,144 @@
+/**
+ * GET   /api/academy/invoices/[id]   – invoice detail with attempts
+ * POST  /api/academy/invoices/[id]   – manual charge retry via the stored billingKey
+ * PATCH /api/academy/invoices/[id]   – settle manually: { status: "PAID" | "CANCELED", note? }
+ *
+ * Manual retry goes through chargeInvoice() like runDailyBilling(): one
+ * PaymentAttempt per call, claimed by its attemptNo so a retry racing the
+ * daily run never charges twice. Unlike the daily run an admin may retry
+ * past MAX_ATTEMPTS, including a FAILED invoice.
+ *
+ * Settling and canceling only apply while the invoice is still PENDING or
+ * FAILED at write time, so a manual settle racing a charge or a deposit
+ * gets 409 instead of taking the money twice.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { updateInvoiceSchema } from "@/lib/validators/billing";
+import {
+  BILLABLE_INVOICE_INCLUDE,
+  chargeInvoice,
+  settleInvoice,
+} from "@/lib/services/billing.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+function loadInvoice(id: string, academyId: string) {
+  return prisma.invoice.findFirst({
+    where:   { id, academyId },
+    include: BILLABLE_INVOICE_INCLUDE,
+  });
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const invoice = await loadInvoice(id, ctx.academyId!);
+  if (!invoice) return err("Invoice not found", 404);
+
+  const student = await prisma.user.findUnique({
+    where:  { id: invoice.studentUserId },
+    select: { id: true, name: true, email: true },
+  });
+
+  return ok({ ...invoice, student });
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const invoice = await loadInvoice(id, academyId);
+  if (!invoice) return err("Invoice not found", 404);
+
+  if (invoice.status !== "PENDING" && invoice.status !== "FAILED") {
+    return err(`Cannot retry a ${invoice.status} invoice`, 409);
+  }
+  if (invoice.subscription.status === "CANCELED") {
+    return err("Subscription is canceled", 409);
+  }
+  const student = await prisma.user.findUnique({
+    where:  { id: invoice.studentUserId },
+    select: { name: true, email: true },
+  });
+
+  const outcome = await chargeInvoice(invoice, student ?? undefined, { ignoreAttemptLimit: true });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "invoice.retry",
+    targetType:  "Invoice",
+    targetId:    id,
+    metaJson:    { ...outcome },
+  });
+
+  switch (outcome.status) {
+    case "SUCCEEDED":
+    case "NOTHING_DUE":
+      return ok(await loadInvoice(id, academyId));
+    case "SKIPPED":
+      return err(`Cannot charge: ${outcome.reason}`, 422);
+    case "IN_PROGRESS":
+      return err("This invoice is being charged right now", 409);
+    case "ALREADY_SETTLED":
+      return err("Invoice was settled in the meantime", 409, { paymentKey: outcome.paymentKey ?? null });
+    case "FAILED":
+      return err(outcome.errorMessage, 402, {
+        errorCode: outcome.errorCode,
+        attemptNo: outcome.attemptNo,
+        final:     outcome.final,
+      });
+    // Not returned with ignoreAttemptLimit
+    case "IN_GRACE":
+    case "EXHAUSTED":
+      return err("Invoice has reached the maximum number of attempts", 409);
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const invoice = await loadInvoice(id, academyId);
+  if (!invoice) return err("Invoice not found", 404);
+
+  const body = await parseBody(req, updateInvoiceSchema);
+  if (body instanceof Response) return body;
+
+  if (invoice.status !== "PENDING" && invoice.status !== "FAILED") {
+    return err(`Invoice is already ${invoice.status}`, 409);
+  }
+
+  // Paid outside Toss (cash / bank transfer) – no provider payment key
+  const changed = body.status === "PAID"
+    ? await prisma.$transaction((tx) => settleInvoice(tx, invoice, null))
+    : (await prisma.invoice.updateMany({
+        where: { id, status: { in: ["PENDING", "FAILED"] } },
+        data:  { status: "CANCELED" },
+      })).count === 1;
+  if (!changed) return err("Invoice was settled in the meantime", 409);
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      body.status === "PAID" ? "invoice.markPaidOffline" : "invoice.cancel",
+    targetType:  "Invoice",
+    targetId:    id,
+    metaJson:    { previousStatus: invoice.status, note: body.note ?? null },
+  });
+
+  return ok(await loadInvoice(id, academyId));
+}
@@ -0,0 +1,91 @@
+/**
+ * GET /api/academy/invoices
+ * Paginated invoice list with student, plan, line items, PaymentAttempt history
+ * and the latest virtual account (bank transfer).
+ *
+ * Query: page, limit, status, studentUserId, subscriptionId, planId,
+ *        dueFrom / dueTo (YYYY-MM-DD, inclusive)
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { invoiceQuerySchema } from "@/lib/validators/billing";
+import type { Prisma } from "@prisma/client";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const parsed = invoiceQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return err("Validation error", 422, parsed.error.flatten());
+  }
+  const q = parsed.data;
+
+  const where: Prisma.InvoiceWhereInput = {
+    academyId: ctx.academyId!,
+    ...(q.status         ? { status:         q.status }         : {}),
+    ...(q.studentUserId  ? { studentUserId:  q.studentUserId }  : {}),
+    ...(q.subscriptionId ? { subscriptionId: q.subscriptionId } : {}),
+    ...(q.planId         ? { planId:         q.planId }         : {}),
+    ...(q.dueFrom || q.dueTo
+      ? {
+          dueDate: {
+            ...(q.dueFrom ? { gte: new Date(q.dueFrom) } : {}),
+            ...(q.dueTo   ? { lte: new Date(q.dueTo) }   : {}),
+          },
+        }
+      : {}),
+  };
+
+  const [invoices, total] = await prisma.$transaction([
+    prisma.invoice.findMany({
+      where,
+      skip:    (q.page - 1) * q.limit,
+      take:    q.limit,
+      orderBy: { dueDate: "desc" },
+      include: {
+        plan:      { select: { id: true, name: true, amount: true } },
+        lineItems: {
+          orderBy: { createdAt: "asc" },
+          select:  { type: true, description: true, amount: true },
+        },
+        attempts:  {
+          orderBy: { attemptNo: "asc" },
+          select:  {
+            attemptNo: true, status: true, requestedAt: true,
+            errorCode: true, errorMessage: true,
+          },
+        },
+        virtualAccounts: {
+          orderBy: { createdAt: "desc" },
+          take:    1,
+          select:  {
+            bankCode: true, accountNumber: true, amount: true, dueDate: true,
+            status: true, depositedAmount: true, errorMessage: true,
+          },
+        },
+      },
+    }),
+    prisma.invoice.count({ where }),
+  ]);
+
+  // Invoice has no student relation – resolve names in bulk
+  const studentIds = [...new Set(invoices.map((i) => i.studentUserId))];
+  const students = await prisma.user.findMany({
+    where:  { id: { in: studentIds } },
+    select: { id: true, name: true, email: true },
+  });
+  const studentMap = Object.fromEntries(students.map((s) => [s.id, s]));
+
+  const items = invoices.map((inv) => ({
+    ...inv,
+    student: studentMap[inv.studentUserId] ?? null,
+  }));
+
+  return ok({ items, total, page: q.page, limit: q.limit });
+}
@@ -9,11 +9,11 @@
  * Response shape:
  * {
  *   range: { from, to },
- *   revenue: { totalPaidAmount, paidCount, outstandingAmount, outstandingCount, failedCount, collectionRate },
+ *   revenue: { totalPaidAmount, paidCount, refundedAmount, netPaidAmount, outstandingAmount, outstandingCount, failedCount, collectionRate },
  *   students: { activeCount, newCount, churnCount, participantCount },
  *   attendance: { scheduledSessions, completedSessions, attendanceRate, lateRate, activeTeachers },
  *   risk: { atRiskStudentsCount, delinquentStudentsCount },
- *   notifications: { queuedCount, failedCount }
+ *   notifications: { queuedCount, deliveredCount, failedCount, pendingCount, smsFallbackCount, deliveryRate }
  * }
  */
 import { type NextRequest, NextResponse } from "next/server";
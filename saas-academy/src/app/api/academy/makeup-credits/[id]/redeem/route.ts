@@ -0,0 +1,79 @@
+/**
+ * POST   /api/academy/makeup-credits/[id]/redeem  – book the credit's student
+ *        into an upcoming session of another class { sessionId }
+ * DELETE /api/academy/makeup-credits/[id]/redeem  – undo the booking (only
+ *        before attendance is marked for it)
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { audit }  from "@/lib/auth/audit";
+import { redeemMakeupCreditSchema } from "@/lib/validators/attendance";
+import {
+  cancelMakeupBooking,
+  redeemMakeupCredit,
+  MakeupError,
+} from "@/lib/services/makeup.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id: creditId } = await params;
+  const academyId = ctx.academyId!;
+
+  const body = await parseBody(req, redeemMakeupCreditSchema);
+  if (body instanceof Response) return body;
+
+  try {
+    const result = await redeemMakeupCredit({
+      academyId,
+      creditId,
+      sessionId:   body.sessionId,
+      actorUserId: ctx.user.sub,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "makeup.redeem",
+      targetType:  "MakeupCredit",
+      targetId:    creditId,
+      metaJson:    { sessionId: body.sessionId, studentUserId: result.credit.studentUserId },
+    });
+
+    return ok(result);
+  } catch (e) {
+    if (e instanceof MakeupError) return err(e.message, e.status);
+    throw e;
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id: creditId } = await params;
+  const academyId = ctx.academyId!;
+
+  try {
+    const credit = await cancelMakeupBooking(academyId, creditId);
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "makeup.cancelBooking",
+      targetType:  "MakeupCredit",
+      targetId:    creditId,
+      metaJson:    { studentUserId: credit.studentUserId },
+    });
+
+    return ok(credit);
+  } catch (e) {
+    if (e instanceof MakeupError) return err(e.message, e.status);
+    throw e;
+  }
+}
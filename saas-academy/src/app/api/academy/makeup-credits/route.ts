@@ -0,0 +1,49 @@
+/**
+ * GET /api/academy/makeup-credits
+ * List make-up credits granted for EXCUSED absences.
+ *
+ * Query params: studentUserId, status (AVAILABLE | REDEEMED | VOID)
+ * Each credit carries the student, the class and the missed session, and –
+ * once booked – the make-up session.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { listMakeupCreditsQuerySchema } from "@/lib/validators/attendance";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const parsed = listMakeupCreditsQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return err("Invalid query params", 422, parsed.error.flatten());
+  }
+  const q = parsed.data;
+
+  const credits = await prisma.makeupCredit.findMany({
+    where: {
+      academyId: ctx.academyId!,
+      ...(q.studentUserId ? { studentUserId: q.studentUserId } : {}),
+      ...(q.status        ? { status:        q.status }        : {}),
+    },
+    include: {
+      student:    { select: { id: true, name: true, email: true } },
+      class:      { select: { id: true, name: true } },
+      attendance: { select: { session: { select: { id: true, startsAt: true, localDate: true } } } },
+      redeemedSession: {
+        select: {
+          id: true, startsAt: true, localDate: true,
+          class: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return ok(credits.map(({ attendance, ...c }) => ({ ...c, missedSession: attendance.session })));
+}
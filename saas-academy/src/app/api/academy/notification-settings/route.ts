@@ -1,5 +1,6 @@
 /**
- * GET   /api/academy/notification-settings  – fetch current settings
+ * GET   /api/academy/notification-settings  – fetch current settings, plus
+ *                                            this month's message usage
  * PUT   /api/academy/notification-settings  – upsert settings
  *
  * RBAC: ADMIN, SUPER_ADMIN
@@ -9,6 +10,7 @@ import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { audit }  from "@/lib/auth/audit";
 import { UpsertNotificationSettingsSchema } from "@/lib/validators/notifications";
+import { DEFAULT_SEND_RATE_PER_MINUTE, getMessageUsage } from "@/lib/alimtalk/throttle";
 
 function resolveAcademyId(ctx: { user: { role: string; academyId?: string | null }; academyId: string | null }, url: URL): string | null {
   if (ctx.user.role === "SUPER_ADMIN") {
@@ -27,21 +29,34 @@ export async function GET(req: NextRequest) {
   const settings = await prisma.academyNotificationSettings.findUnique({
     where: { academyId },
   });
+  const usage = await getMessageUsage(academyId);
 
   // Return defaults if not yet configured
-  return ok(
-    settings ?? {
-      academyId,
-      alimtalkEnabled:           false,
-      sendOnAbsent:              true,
-      sendOnLate:                true,
-      sendOnExcused:             false,
-      allowResendOnStatusChange: false,
-      quietHoursEnabled:         true,
-      quietHoursStart:           "21:00",
-      quietHoursEnd:             "08:00",
-    },
-  );
+  return ok({
+    ...(settings ?? {
+        academyId,
+        alimtalkEnabled:           false,
+        sendOnAbsent:              true,
+        sendOnLate:                true,
+        sendOnExcused:             false,
+        allowResendOnStatusChange: false,
+        quietHoursEnabled:         true,
+        quietHoursStart:           "21:00",
+        quietHoursEnd:             "08:00",
+        sendOnChargeUpcoming:      true,
+        chargeReminderDays:        3,
+        sendOnChargeFailed:        true,
+        sendOnChargeSucceeded:     false,
+        sendOnScheduleChange:      true,
+        sendOnWaitlistPromotion:   true,
+        smsFallbackEnabled:        false,
+        smsSenderNumber:           null,
+        smsFallbackTexts:          {},
+        sendRatePerMinute:         DEFAULT_SEND_RATE_PER_MINUTE,
+        monthlyMessageCap:         null,
+    }),
+    usage,
+  });
 }
 
 export async function PUT(req: NextRequest) {
@@ -66,6 +81,17 @@ export async function PUT(req: NextRequest) {
       quietHoursEnabled:         body.quietHoursEnabled         ?? true,
       quietHoursStart:           body.quietHoursStart           ?? "21:00",
       quietHoursEnd:             body.quietHoursEnd             ?? "08:00",
+      sendOnChargeUpcoming:      body.sendOnChargeUpcoming      ?? true,
+      chargeReminderDays:        body.chargeReminderDays        ?? 3,
+      sendOnChargeFailed:        body.sendOnChargeFailed        ?? true,
+      sendOnChargeSucceeded:     body.sendOnChargeSucceeded     ?? false,
+      sendOnScheduleChange:      body.sendOnScheduleChange      ?? true,
+      sendOnWaitlistPromotion:   body.sendOnWaitlistPromotion   ?? true,
+      smsFallbackEnabled:        body.smsFallbackEnabled        ?? false,
+      smsSenderNumber:           body.smsSenderNumber           ?? null,
+      smsFallbackTexts:          body.smsFallbackTexts          ?? {},
+      sendRatePerMinute:         body.sendRatePerMinute         ?? DEFAULT_SEND_RATE_PER_MINUTE,
+      monthlyMessageCap:         body.monthlyMessageCap         ?? null,
     },
     update: {
       ...(body.alimtalkEnabled           !== undefined ? { alimtalkEnabled: body.alimtalkEnabled }                     : {}),
@@ -76,6 +102,17 @@ export async function PUT(req: NextRequest) {
       ...(body.quietHoursEnabled         !== undefined ? { quietHoursEnabled: body.quietHoursEnabled }                 : {}),
       ...(body.quietHoursStart           !== undefined ? { quietHoursStart: body.quietHoursStart }                     : {}),
       ...(body.quietHoursEnd             !== undefined ? { quietHoursEnd: body.quietHoursEnd }                         : {}),
+      ...(body.sendOnChargeUpcoming      !== undefined ? { sendOnChargeUpcoming: body.sendOnChargeUpcoming }           : {}),
+      ...(body.chargeReminderDays        !== undefined ? { chargeReminderDays: body.chargeReminderDays }               : {}),
+      ...(body.sendOnChargeFailed        !== undefined ? { sendOnChargeFailed: body.sendOnChargeFailed }               : {}),
+      ...(body.sendOnChargeSucceeded     !== undefined ? { sendOnChargeSucceeded: body.sendOnChargeSucceeded }         : {}),
+      ...(body.sendOnScheduleChange      !== undefined ? { sendOnScheduleChange: body.sendOnScheduleChange }           : {}),
+      ...(body.sendOnWaitlistPromotion   !== undefined ? { sendOnWaitlistPromotion: body.sendOnWaitlistPromotion }     : {}),
+      ...(body.smsFallbackEnabled        !== undefined ? { smsFallbackEnabled: body.smsFallbackEnabled }               : {}),
+      ...(body.smsSenderNumber           !== undefined ? { smsSenderNumber: body.smsSenderNumber }                     : {}),
+      ...(body.smsFallbackTexts          !== undefined ? { smsFallbackTexts: body.smsFallbackTexts }                   : {}),
+      ...(body.sendRatePerMinute         !== undefined ? { sendRatePerMinute: body.sendRatePerMinute }                 : {}),
+      ...(body.monthlyMessageCap         !== undefined ? { monthlyMessageCap: body.monthlyMessageCap }                 : {}),
     },
   });
 
@@ -0,0 +1,30 @@
+/**
+ * GET /api/academy/parent-contacts/[id]/consents – consent history, newest first
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { id } = await params;
+  const contact = await prisma.parentContact.findFirst({
+    where:  { id, ...(ctx.user.role === "SUPER_ADMIN" ? {} : { academyId: ctx.academyId! }) },
+    select: { id: true },
+  });
+  if (!contact) return err("Contact not found", 404);
+
+  const consents = await prisma.parentContactConsent.findMany({
+    where:   { parentContactId: id },
+    orderBy: { createdAt: "desc" },
+    take:    100,
+  });
+
+  return ok(consents);
+}
@@ -1,6 +1,7 @@
 /**
  * GET    /api/academy/parent-contacts/[id]   – fetch one contact
- * PATCH  /api/academy/parent-contacts/[id]   – update contact
+ * PATCH  /api/academy/parent-contacts/[id]   – update contact (consent changes
+ *                                               are kept in the consent history)
  * DELETE /api/academy/parent-contacts/[id]   – soft-delete (status→INACTIVE)
  *
  * RBAC: ADMIN, SUPER_ADMIN
@@ -9,6 +10,7 @@ import { type NextRequest, NextResponse } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { audit }  from "@/lib/auth/audit";
+import { recordConsentChange } from "@/lib/services/consent.service";
 import { UpdateParentContactSchema } from "@/lib/validators/notifications";
 
 type Params = { params: Promise<{ id: string }> };
@@ -65,12 +67,22 @@ export async function PATCH(req: NextRequest, { params }: Params) {
       ...(body.phone             !== undefined ? { phone: body.phone }                       : {}),
       ...(body.relationship      !== undefined ? { relationship: body.relationship }         : {}),
       ...(body.notificationOptIn !== undefined ? { notificationOptIn: body.notificationOptIn } : {}),
+      ...(body.notifyAbsent      !== undefined ? { notifyAbsent: body.notifyAbsent }         : {}),
+      ...(body.notifyLate        !== undefined ? { notifyLate: body.notifyLate }             : {}),
+      ...(body.notifyBilling     !== undefined ? { notifyBilling: body.notifyBilling }       : {}),
       ...(body.preferredLanguage !== undefined ? { preferredLanguage: body.preferredLanguage } : {}),
       ...(body.status            !== undefined ? { status: body.status }                     : {}),
       ...(consentRecordedAt      !== undefined ? { consentRecordedAt }                        : {}),
     },
   });
 
+  await recordConsentChange(existing, updated, {
+    source:      "ADMIN",
+    actorUserId: ctx.user.sub,
+    ip:          req.headers.get("x-forwarded-for"),
+    userAgent:   req.headers.get("user-agent"),
+  });
+
   await audit({
     actorUserId: ctx.user.sub,
     academyId:   existing.academyId,
@@ -8,6 +8,7 @@ import { type NextRequest, NextResponse } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma }  from "@/lib/db/client";
 import { audit }   from "@/lib/auth/audit";
+import { recordConsentChange } from "@/lib/services/consent.service";
 import {
   CreateParentContactSchema,
 } from "@/lib/validators/notifications";
@@ -67,11 +68,21 @@ export async function POST(req: NextRequest) {
       phone:             body.phone,
       relationship:      body.relationship,
       notificationOptIn: body.notificationOptIn,
+      notifyAbsent:      body.notifyAbsent,
+      notifyLate:        body.notifyLate,
+      notifyBilling:     body.notifyBilling,
       preferredLanguage: body.preferredLanguage,
       consentRecordedAt: body.notificationOptIn ? new Date() : null,
     },
   });
 
+  await recordConsentChange(null, contact, {
+    source:      "ADMIN",
+    actorUserId: ctx.user.sub,
+    ip:          req.headers.get("x-forwarded-for"),
+    userAgent:   req.headers.get("user-agent"),
+  });
+
   await audit({
     actorUserId: ctx.user.sub,
     academyId,
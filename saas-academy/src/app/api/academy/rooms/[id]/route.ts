@@ -0,0 +1,90 @@
+/**
+ * PATCH  /api/academy/rooms/[id]  – rename, resize or (de)activate a room
+ * DELETE /api/academy/rooms/[id]  – remove a room no schedule or upcoming
+ *                                   session uses; deactivate it otherwise
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { updateRoomSchema } from "@/lib/validators/attendance";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.room.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Room not found", 404);
+
+  const body = await parseBody(req, updateRoomSchema);
+  if (body instanceof Response) return body;
+
+  try {
+    const room = await prisma.room.update({
+      where: { id },
+      data: {
+        ...(body.name     !== undefined ? { name:     body.name }     : {}),
+        ...(body.capacity !== undefined ? { capacity: body.capacity } : {}),
+        ...(body.isActive !== undefined ? { isActive: body.isActive } : {}),
+      },
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "room.update",
+      targetType:  "Room",
+      targetId:    id,
+      metaJson:    body,
+    });
+
+    return ok(room);
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return err("A room with this name already exists", 409);
+    }
+    throw e;
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.room.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Room not found", 404);
+
+  const [schedules, upcoming] = await Promise.all([
+    prisma.classSchedule.count({ where: { roomId: id } }),
+    prisma.classSession.count({
+      where: { roomId: id, status: "SCHEDULED", startsAt: { gt: new Date() } },
+    }),
+  ]);
+  if (schedules + upcoming > 0) {
+    return err("The room is in use; deactivate it instead", 409, { schedules, upcoming });
+  }
+
+  await prisma.room.delete({ where: { id } });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "room.delete",
+    targetType:  "Room",
+    targetId:    id,
+    metaJson:    { name: existing.name },
+  });
+
+  return ok({ id });
+}
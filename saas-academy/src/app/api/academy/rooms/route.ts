@@ -0,0 +1,55 @@
+/**
+ * GET  /api/academy/rooms  – list rooms (active first)
+ * POST /api/academy/rooms  – add a room { name, capacity? }
+ *
+ * RBAC: ADMIN, SUPER_ADMIN; TEACHER (GET only)
+ */
+import { type NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { createRoomSchema } from "@/lib/validators/attendance";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const rooms = await prisma.room.findMany({
+    where:   { academyId: ctx.academyId! },
+    orderBy: [{ isActive: "desc" }, { name: "asc" }],
+  });
+  return ok(rooms);
+}
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, createRoomSchema);
+  if (body instanceof Response) return body;
+
+  const academyId = ctx.academyId!;
+
+  try {
+    const room = await prisma.room.create({
+      data: { academyId, name: body.name, capacity: body.capacity ?? null },
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "room.create",
+      targetType:  "Room",
+      targetId:    room.id,
+      metaJson:    { name: room.name },
+    });
+
+    return ok(room, 201);
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return err("A room with this name already exists", 409);
+    }
+    throw e;
+  }
+}
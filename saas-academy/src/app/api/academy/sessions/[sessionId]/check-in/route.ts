@@ -0,0 +1,95 @@
+/**
+ * GET    /api/academy/sessions/[sessionId]/check-in – the current code
+ * POST   /api/academy/sessions/[sessionId]/check-in – open student self check-in
+ * DELETE /api/academy/sessions/[sessionId]/check-in – close it
+ *
+ * The code rotates every 30 seconds: the check-in screen refetches it at
+ * `expiresAt`. `qrPayload` is the /me/attendance URL carrying the session
+ * and the code. See check-in.service.ts.
+ *
+ * RBAC: ADMIN, TEACHER (own classes, or sessions they substitute on), SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err, type RouteContext } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { teachesSession } from "@/lib/services/session.service";
+import {
+  CheckInError,
+  closeCheckIn,
+  currentCheckInCode,
+  openCheckIn,
+} from "@/lib/services/check-in.service";
+
+interface Params { params: Promise<{ sessionId: string }> }
+
+/** The session, or an error response when it is missing or not the teacher's. */
+async function findSession(ctx: RouteContext, sessionId: string) {
+  const session = await prisma.classSession.findFirst({
+    where:   { id: sessionId, academyId: ctx.academyId! },
+    include: { class: { select: { teacherUserId: true } } },
+  });
+  if (!session) return err("Session not found", 404);
+  if (ctx.user.role === "TEACHER" && !teachesSession(session, ctx.user.sub)) {
+    return err("Forbidden", 403);
+  }
+  return session;
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const session = await findSession(ctx, (await params).sessionId);
+  if (session instanceof Response) return session;
+
+  try {
+    return ok(currentCheckInCode(session));
+  } catch (e) {
+    if (e instanceof CheckInError) return err(e.message, e.status);
+    throw e;
+  }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const session = await findSession(ctx, (await params).sessionId);
+  if (session instanceof Response) return session;
+
+  try {
+    const code = await openCheckIn(ctx.academyId!, session.id);
+    if (!session.checkInSecret) {
+      await audit({
+        actorUserId: ctx.user.sub,
+        academyId:   ctx.academyId!,
+        action:      "session.checkin.open",
+        targetType:  "ClassSession",
+        targetId:    session.id,
+      });
+    }
+    return ok(code);
+  } catch (e) {
+    if (e instanceof CheckInError) return err(e.message, e.status);
+    throw e;
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const session = await findSession(ctx, (await params).sessionId);
+  if (session instanceof Response) return session;
+
+  await closeCheckIn(ctx.academyId!, session.id);
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId:   ctx.academyId!,
+    action:      "session.checkin.close",
+    targetType:  "ClassSession",
+    targetId:    session.id,
+  });
+  return ok({ closed: true });
+}
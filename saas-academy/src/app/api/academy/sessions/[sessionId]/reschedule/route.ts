@@ -0,0 +1,87 @@
+/**
+ * POST /api/academy/sessions/[sessionId]/reschedule
+ * Move a SCHEDULED session to a new time { startsAt, endsAt, roomId?, override? }.
+ *
+ * The original session is CANCELED and a RESCHEDULED session takes its
+ * place; make-up bookings move along and parents of every student on the
+ * session are notified (sendOnScheduleChange).
+ *
+ * Teacher / room double-bookings answer 409 { error, details: { conflicts } };
+ * admins may pass `override` to go ahead anyway.
+ *
+ * ADMIN / SUPER_ADMIN may reschedule any session.
+ * TEACHER may only reschedule sessions of their own classes.
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { sessionTimesSchema } from "@/lib/validators/attendance";
+import { rescheduleSession, SessionError } from "@/lib/services/session.service";
+import { roomsUsable, ConflictError } from "@/lib/services/conflict.service";
+
+interface Params { params: Promise<{ sessionId: string }> }
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { sessionId } = await params;
+  const academyId = ctx.academyId!;
+
+  const session = await prisma.classSession.findFirst({
+    where:   { id: sessionId, academyId },
+    include: { class: { select: { teacherUserId: true } } },
+  });
+  if (!session) return err("Session not found", 404);
+
+  if (
+    ctx.user.role === "TEACHER" &&
+    session.class.teacherUserId !== ctx.user.sub
+  ) {
+    return err("Forbidden", 403);
+  }
+
+  const body = await parseBody(req, sessionTimesSchema);
+  if (body instanceof Response) return body;
+
+  if (body.override && ctx.user.role === "TEACHER") {
+    return err("Only admins can override schedule conflicts", 403);
+  }
+  if (!(await roomsUsable(academyId, [body.roomId]))) {
+    return err("Room not found in this academy", 422);
+  }
+
+  try {
+    const result = await rescheduleSession({
+      academyId,
+      sessionId,
+      startsAt:    new Date(body.startsAt),
+      endsAt:      new Date(body.endsAt),
+      roomId:      body.roomId,
+      override:    body.override,
+      actorUserId: ctx.user.sub,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      "session.reschedule",
+      targetType:  "ClassSession",
+      targetId:    result.session.id,
+      metaJson:    {
+        rescheduledFromId:   sessionId,
+        from:                result.previous.startsAt.toISOString(),
+        to:                  result.session.startsAt.toISOString(),
+        roomId:              result.session.roomId,
+        conflictsOverridden: result.conflicts.length,
+      },
+    });
+
+    return ok(result, 201);
+  } catch (e) {
+    if (e instanceof SessionError)  return err(e.message, e.status);
+    if (e instanceof ConflictError) return err(e.message, e.status, { conflicts: e.conflicts });
+    throw e;
+  }
+}
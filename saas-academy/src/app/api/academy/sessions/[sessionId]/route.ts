@@ -3,11 +3,15 @@
  * Update session status (SCHEDULED | CANCELED | COMPLETED).
  * ADMIN / SUPER_ADMIN may update any session.
  * TEACHER may only update sessions for their own classes.
+ *
+ * Canceling a session returns its make-up bookings to their credits. To move
+ * a session use POST …/reschedule.
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { updateSessionSchema } from "@/lib/validators/attendance";
+import { releaseCanceledBookings } from "@/lib/services/makeup.service";
 
 interface Params { params: Promise<{ sessionId: string }> }
 
@@ -39,6 +43,7 @@ export async function PATCH(req: NextRequest, { params }: Params) {
     where: { id: sessionId },
     data:  { status: body.status },
   });
+  if (body.status === "CANCELED") await releaseCanceledBookings(academyId);
 
   return ok(updated);
 }
@@ -0,0 +1,55 @@
+/**
+ * PUT /api/academy/sessions/[sessionId]/substitute
+ * Assign a substitute teacher to one session { teacherUserId, override? };
+ * teacherUserId null removes the substitute.
+ *
+ * The substitute sees the class on /teacher/classes, may mark attendance for
+ * this session only, and is credited with the session in teacher KPIs.
+ * A substitute who teaches elsewhere at that time answers
+ * 409 { error, details: { conflicts } } unless `override` is set.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { audit }  from "@/lib/auth/audit";
+import { assignSubstituteSchema } from "@/lib/validators/attendance";
+import { assignSubstitute, SessionError } from "@/lib/services/session.service";
+import { ConflictError } from "@/lib/services/conflict.service";
+
+interface Params { params: Promise<{ sessionId: string }> }
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { sessionId } = await params;
+  const academyId = ctx.academyId!;
+
+  const body = await parseBody(req, assignSubstituteSchema);
+  if (body instanceof Response) return body;
+
+  try {
+    const { session, conflicts } = await assignSubstitute({
+      academyId,
+      sessionId,
+      teacherUserId: body.teacherUserId,
+      override:      body.override,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId,
+      action:      body.teacherUserId ? "session.substitute.assign" : "session.substitute.remove",
+      targetType:  "ClassSession",
+      targetId:    sessionId,
+      metaJson:    { teacherUserId: body.teacherUserId, conflictsOverridden: conflicts.length },
+    });
+
+    return ok(session);
+  } catch (e) {
+    if (e instanceof SessionError)  return err(e.message, e.status);
+    if (e instanceof ConflictError) return err(e.message, e.status, { conflicts: e.conflicts });
+    throw e;
+  }
+}
@@ -2,13 +2,19 @@
  * GET   /api/academy/sessions       – list sessions (with filters)
  * PATCH /api/academy/sessions/[id]  – handled in [sessionId]/route.ts
  *
- * Query params: classId, month (YYYY-MM), localDate, status, page, limit
+ * Query params: classId, month (YYYY-MM), localDate, from (YYYY-MM-DD), status,
+ *               page, limit
+ * Each session carries `closure` – the name of the academy closure on its
+ * date, if any – and its substitute teacher.
+ * TEACHER sees the sessions of their classes and those they substitute on.
  * Allowed: ADMIN, TEACHER, SUPER_ADMIN
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, ok, err } from "@/lib/guards/route-guard";
 import { prisma } from "@/lib/db/client";
 import { listSessionsQuerySchema } from "@/lib/validators/attendance";
+import { findClosures } from "@/lib/services/closure.service";
+import { teacherSessionFilter } from "@/lib/services/session.service";
 
 export async function GET(req: NextRequest) {
   const ctx = await guardRoute(req, ["ADMIN", "TEACHER", "SUPER_ADMIN"]);
@@ -24,10 +30,11 @@ export async function GET(req: NextRequest) {
   }
   const q = parsed.data;
 
-  // For TEACHER role, only show sessions for their classes
+  // For TEACHER role, only show sessions for their classes and the sessions
+  // they substitute on
   const teacherFilter =
     ctx.user.role === "TEACHER"
-      ? { class: { teacherUserId: ctx.user.sub } }
+      ? teacherSessionFilter(ctx.user.sub)
       : {};
 
   const where: Record<string, unknown> = {
@@ -36,6 +43,7 @@ export async function GET(req: NextRequest) {
     ...(q.classId    ? { classId:   q.classId }   : {}),
     ...(q.status     ? { status:    q.status }     : {}),
     ...(q.localDate  ? { localDate: q.localDate }  : {}),
+    ...(q.from       ? { localDate: { gte: q.from } } : {}),
     ...(q.month
       ? {
           localDate: {
@@ -51,6 +59,8 @@ export async function GET(req: NextRequest) {
       where,
       include: {
         class: { select: { id: true, name: true, teacherUserId: true } },
+        room:  { select: { id: true, name: true } },
+        substituteTeacher: { select: { id: true, name: true } },
         _count: { select: { attendances: true } },
       },
       orderBy: { startsAt: "asc" },
@@ -60,5 +70,16 @@ export async function GET(req: NextRequest) {
     prisma.classSession.count({ where }),
   ]);
 
-  return ok({ sessions, total, page: q.page, limit: q.limit });
+  const closures = sessions.length > 0
+    ? await findClosures(academyId, {
+        from: sessions[0].localDate,
+        to:   sessions[sessions.length - 1].localDate,
+      })
+    : [];
+  const withClosure = sessions.map((s) => ({
+    ...s,
+    closure: closures.find((c) => c.startDate <= s.localDate && s.localDate <= c.endDate)?.name ?? null,
+  }));
+
+  return ok({ sessions: withClosure, total, page: q.page, limit: q.limit });
 }
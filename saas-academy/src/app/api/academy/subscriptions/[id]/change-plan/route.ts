@@ -0,0 +1,52 @@
+/**
+ * POST /api/academy/subscriptions/[id]/change-plan
+ * Switch a subscription to another tuition plan. The upcoming PENDING
+ * invoice is re-priced; paid invoices are left as they are.
+ *
+ * Body: { planId }
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { changeSubscriptionPlanSchema } from "@/lib/validators/billing";
+import {
+  changeSubscriptionPlan,
+  SubscriptionError,
+} from "@/lib/services/subscription.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const sub = await prisma.studentSubscription.findFirst({ where: { id, academyId } });
+  if (!sub) return err("Subscription not found", 404);
+
+  const body = await parseBody(req, changeSubscriptionPlanSchema);
+  if (body instanceof Response) return body;
+
+  let updated;
+  try {
+    updated = await changeSubscriptionPlan(sub, body.planId);
+  } catch (e) {
+    if (e instanceof SubscriptionError) return err(e.message, e.status);
+    throw e;
+  }
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "subscription.changePlan",
+    targetType:  "StudentSubscription",
+    targetId:    id,
+    metaJson:    { fromPlanId: sub.planId, toPlanId: body.planId },
+  });
+
+  return ok(updated);
+}
@@ -0,0 +1,39 @@
+/**
+ * DELETE /api/academy/subscriptions/[id]/coupons/[ruleId]   – remove a coupon
+ *
+ * Invoices already issued keep their DISCOUNT line item.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+
+interface Params { params: Promise<{ id: string; ruleId: string }> }
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id, ruleId } = await params;
+  const academyId = ctx.academyId!;
+
+  const coupon = await prisma.subscriptionCoupon.findFirst({
+    where: { subscriptionId: id, ruleId, academyId },
+  });
+  if (!coupon) return err("Coupon not applied to this subscription", 404);
+
+  await prisma.subscriptionCoupon.delete({ where: { id: coupon.id } });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "subscription.removeCoupon",
+    targetType:  "StudentSubscription",
+    targetId:    id,
+    metaJson:    { ruleId },
+  });
+
+  return ok({ removed: true });
+}
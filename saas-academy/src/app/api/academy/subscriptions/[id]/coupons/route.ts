@@ -0,0 +1,69 @@
+/**
+ * GET  /api/academy/subscriptions/[id]/coupons   – coupons applied to a subscription
+ * POST /api/academy/subscriptions/[id]/coupons   – apply a coupon by code
+ *
+ * Body: { code }
+ * The coupon is discounted from the next invoice the billing run issues.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { applyCouponSchema } from "@/lib/validators/billing";
+import { applyCoupon, DiscountError } from "@/lib/services/discount.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const sub = await prisma.studentSubscription.findFirst({ where: { id, academyId } });
+  if (!sub) return err("Subscription not found", 404);
+
+  const coupons = await prisma.subscriptionCoupon.findMany({
+    where:   { subscriptionId: id, academyId },
+    include: { rule: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return ok(coupons);
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const sub = await prisma.studentSubscription.findFirst({ where: { id, academyId } });
+  if (!sub) return err("Subscription not found", 404);
+
+  const body = await parseBody(req, applyCouponSchema);
+  if (body instanceof Response) return body;
+
+  let coupon;
+  try {
+    coupon = await applyCoupon(sub, body.code);
+  } catch (e) {
+    if (e instanceof DiscountError) return err(e.message, e.status);
+    throw e;
+  }
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "subscription.applyCoupon",
+    targetType:  "StudentSubscription",
+    targetId:    id,
+    metaJson:    { ruleId: coupon.ruleId, code: coupon.rule.code },
+  });
+
+  return ok(coupon, 201);
+}
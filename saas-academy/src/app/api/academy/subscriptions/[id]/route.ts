@@ -0,0 +1,94 @@
+/**
+ * GET   /api/academy/subscriptions/[id]   – subscription with plan and invoices
+ * PATCH /api/academy/subscriptions/[id]   – pause / resume / cancel, or move nextBillingDate
+ *
+ * Body: { status?: "ACTIVE" | "PAUSED" | "CANCELED", nextBillingDate?, endDate? }
+ *   status PAUSED   → pause (billing run skips its invoices)
+ *   status ACTIVE   → resume a paused subscription
+ *   status CANCELED → cancel; PENDING invoices are canceled too (endDate optional)
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { updateSubscriptionSchema } from "@/lib/validators/billing";
+import {
+  pauseSubscription,
+  resumeSubscription,
+  cancelSubscription,
+  rescheduleNextBilling,
+  SubscriptionError,
+} from "@/lib/services/subscription.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const sub = await prisma.studentSubscription.findFirst({
+    where:   { id, academyId: ctx.academyId! },
+    include: {
+      student:  { select: { id: true, name: true, email: true } },
+      plan:     true,
+      invoices: { orderBy: { dueDate: "desc" } },
+    },
+  });
+  if (!sub) return err("Subscription not found", 404);
+
+  return ok(sub);
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const sub = await prisma.studentSubscription.findFirst({ where: { id, academyId } });
+  if (!sub) return err("Subscription not found", 404);
+
+  const body = await parseBody(req, updateSubscriptionSchema);
+  if (body instanceof Response) return body;
+
+  let updated = sub;
+  let action  = "subscription.update";
+  try {
+    if (body.nextBillingDate !== undefined) {
+      updated = await rescheduleNextBilling(updated, body.nextBillingDate);
+    }
+    if (body.status === "PAUSED" && sub.status !== "PAUSED") {
+      updated = await pauseSubscription(updated);
+      action  = "subscription.pause";
+    } else if (body.status === "ACTIVE" && sub.status !== "ACTIVE") {
+      updated = await resumeSubscription(updated);
+      action  = "subscription.resume";
+    } else if (body.status === "CANCELED") {
+      updated = await cancelSubscription(updated, body.endDate);
+      action  = "subscription.cancel";
+    } else if (body.endDate !== undefined) {
+      updated = await prisma.studentSubscription.update({
+        where: { id },
+        data:  { endDate: new Date(body.endDate) },
+      });
+    }
+  } catch (e) {
+    if (e instanceof SubscriptionError) return err(e.message, e.status);
+    throw e;
+  }
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action,
+    targetType:  "StudentSubscription",
+    targetId:    id,
+    metaJson:    body as Record<string, unknown>,
+  });
+
+  return ok(updated);
+}
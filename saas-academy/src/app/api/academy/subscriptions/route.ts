@@ -0,0 +1,87 @@
+/**
+ * GET  /api/academy/subscriptions   – list subscriptions (?status=&studentUserId=&planId=&page=)
+ * POST /api/academy/subscriptions   – subscribe a student to a plan (creates the first invoice)
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import {
+  createSubscriptionSchema,
+  subscriptionQuerySchema,
+} from "@/lib/validators/billing";
+import {
+  createSubscription,
+  SubscriptionError,
+} from "@/lib/services/subscription.service";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const parsed = subscriptionQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return err("Validation error", 422, parsed.error.flatten());
+  }
+  const q = parsed.data;
+
+  const where = {
+    academyId: ctx.academyId!,
+    ...(q.status        ? { status:        q.status }        : {}),
+    ...(q.studentUserId ? { studentUserId: q.studentUserId } : {}),
+    ...(q.planId        ? { planId:        q.planId }        : {}),
+  };
+
+  const [items, total] = await prisma.$transaction([
+    prisma.studentSubscription.findMany({
+      where,
+      skip:    (q.page - 1) * q.limit,
+      take:    q.limit,
+      orderBy: { createdAt: "desc" },
+      include: {
+        student: { select: { id: true, name: true, email: true } },
+        plan:    { select: { id: true, name: true, amount: true, billingDay: true } },
+      },
+    }),
+    prisma.studentSubscription.count({ where }),
+  ]);
+
+  return ok({ items, total, page: q.page, limit: q.limit });
+}
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, createSubscriptionSchema);
+  if (body instanceof Response) return body;
+
+  const academyId = ctx.academyId!;
+
+  let created;
+  try {
+    created = await createSubscription({ academyId, ...body });
+  } catch (e) {
+    if (e instanceof SubscriptionError) return err(e.message, e.status);
+    throw e;
+  }
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "subscription.create",
+    targetType:  "StudentSubscription",
+    targetId:    created.subscription.id,
+    metaJson:    {
+      studentUserId: body.studentUserId,
+      planId:        body.planId,
+      invoiceId:     created.invoice.id,
+    },
+  });
+
+  return ok(created, 201);
+}
@@ -0,0 +1,100 @@
+/**
+ * GET    /api/academy/tuition-plans/[id]   – fetch one plan
+ * PATCH  /api/academy/tuition-plans/[id]   – update plan fields
+ * DELETE /api/academy/tuition-plans/[id]   – archive (isActive → false)
+ *
+ * Archived plans keep their existing subscriptions and invoices but can no
+ * longer be assigned to students.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { updateTuitionPlanSchema } from "@/lib/validators/billing";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const plan = await prisma.tuitionPlan.findFirst({
+    where:   { id, academyId: ctx.academyId! },
+    include: {
+      _count: { select: { subscriptions: { where: { status: { not: "CANCELED" } } } } },
+    },
+  });
+  if (!plan) return err("Tuition plan not found", 404);
+
+  return ok(plan);
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.tuitionPlan.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Tuition plan not found", 404);
+
+  const body = await parseBody(req, updateTuitionPlanSchema);
+  if (body instanceof Response) return body;
+
+  // Amount changes apply to invoices created from now on; PENDING invoices
+  // keep the amount they were issued with.
+  const updated = await prisma.tuitionPlan.update({
+    where: { id },
+    data: {
+      ...(body.name       !== undefined ? { name:       body.name }       : {}),
+      ...(body.amount     !== undefined ? { amount:     body.amount }     : {}),
+      ...(body.currency   !== undefined ? { currency:   body.currency }   : {}),
+      ...(body.billingDay !== undefined ? { billingDay: body.billingDay } : {}),
+      ...(body.graceDays  !== undefined ? { graceDays:  body.graceDays }  : {}),
+      ...(body.lateFee    !== undefined ? { lateFee:    body.lateFee }    : {}),
+      ...(body.isActive   !== undefined ? { isActive:   body.isActive }   : {}),
+      ...(body.prorationMode !== undefined ? { prorationMode: body.prorationMode } : {}),
+    },
+  });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "tuitionPlan.update",
+    targetType:  "TuitionPlan",
+    targetId:    id,
+    metaJson:    body as Record<string, unknown>,
+  });
+
+  return ok(updated);
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const academyId = ctx.academyId!;
+
+  const existing = await prisma.tuitionPlan.findFirst({ where: { id, academyId } });
+  if (!existing) return err("Tuition plan not found", 404);
+
+  const archived = await prisma.tuitionPlan.update({
+    where: { id },
+    data:  { isActive: false },
+  });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "tuitionPlan.archive",
+    targetType:  "TuitionPlan",
+    targetId:    id,
+  });
+
+  return ok(archived);
+}
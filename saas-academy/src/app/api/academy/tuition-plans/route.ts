@@ -0,0 +1,72 @@
+/**
+ * GET  /api/academy/tuition-plans   – list tuition plans (?includeArchived=true)
+ * POST /api/academy/tuition-plans   – create a tuition plan
+ *
+ * RBAC: ADMIN, SUPER_ADMIN
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import {
+  createTuitionPlanSchema,
+  tuitionPlanQuerySchema,
+} from "@/lib/validators/billing";
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const parsed = tuitionPlanQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  const includeArchived = parsed.success && parsed.data.includeArchived === "true";
+
+  const plans = await prisma.tuitionPlan.findMany({
+    where: {
+      academyId: ctx.academyId!,
+      ...(includeArchived ? {} : { isActive: true }),
+    },
+    include: {
+      _count: { select: { subscriptions: { where: { status: { not: "CANCELED" } } } } },
+    },
+    orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+  });
+
+  return ok(plans);
+}
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const body = await parseBody(req, createTuitionPlanSchema);
+  if (body instanceof Response) return body;
+
+  const academyId = ctx.academyId!;
+
+  const plan = await prisma.tuitionPlan.create({
+    data: {
+      academyId,
+      name:       body.name,
+      amount:     body.amount,
+      currency:   body.currency,
+      billingDay: body.billingDay,
+      graceDays:  body.graceDays,
+      lateFee:    body.lateFee ?? 0,
+      prorationMode: body.prorationMode,
+      isActive:   body.isActive,
+    },
+  });
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId,
+    action:      "tuitionPlan.create",
+    targetType:  "TuitionPlan",
+    targetId:    plan.id,
+    metaJson:    { name: plan.name, amount: plan.amount, billingDay: plan.billingDay },
+  });
+
+  return ok(plan, 201);
+}
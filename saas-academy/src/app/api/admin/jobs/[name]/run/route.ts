@@ -0,0 +1,21 @@
+/**
+ * POST /api/admin/jobs/[name]/run  – run an internal job now
+ * Same lease as the scheduler: 409 while a run is in progress.
+ * SUPER_ADMIN only.
+ */
+import { NextRequest } from "next/server";
+import { guardRoute, err } from "@/lib/guards/route-guard";
+import { jobRunResponse } from "@/lib/guards/cron-guard";
+import { isJobName, runJob } from "@/lib/services/job.service";
+
+type Params = { params: Promise<{ name: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { name } = await params;
+  if (!isJobName(name)) return err("Unknown job", 404);
+
+  return jobRunResponse(await runJob(name, { trigger: "MANUAL", actorUserId: ctx.user.sub }));
+}
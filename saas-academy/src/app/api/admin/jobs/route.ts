@@ -0,0 +1,57 @@
+/**
+ * GET /api/admin/jobs?jobName=&status=&page=&limit=
+ * Internal job definitions with their current lease and last run, plus the
+ * run history (newest first).
+ * SUPER_ADMIN only.
+ */
+import { NextRequest } from "next/server";
+import { guardRoute, ok } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { JOBS } from "@/lib/services/job.service";
+import type { JobRunStatus, Prisma } from "@prisma/client";
+
+const STATUSES: JobRunStatus[] = ["RUNNING", "SUCCEEDED", "FAILED", "SKIPPED"];
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { searchParams } = req.nextUrl;
+  const jobName = searchParams.get("jobName") ?? "";
+  const status  = searchParams.get("status") as JobRunStatus | null;
+  const page  = Math.max(1, Number(searchParams.get("page") ?? 1));
+  const limit = Math.min(100, Math.max(1, Number(searchParams.get("limit") ?? 20)));
+  const skip  = (page - 1) * limit;
+
+  const where: Prisma.JobRunWhereInput = {};
+  if (jobName) where.jobName = jobName;
+  if (status && STATUSES.includes(status)) where.status = status;
+
+  const names = Object.keys(JOBS) as (keyof typeof JOBS)[];
+
+  const [runs, total, locks, lastRuns] = await Promise.all([
+    prisma.jobRun.findMany({ where, skip, take: limit, orderBy: { startedAt: "desc" } }),
+    prisma.jobRun.count({ where }),
+    prisma.jobLock.findMany(),
+    Promise.all(names.map((name) =>
+      prisma.jobRun.findFirst({
+        where:   { jobName: name, status: { not: "SKIPPED" } },
+        orderBy: { startedAt: "desc" },
+      }),
+    )),
+  ]);
+
+  const now = new Date();
+  const jobs = names.map((name, i) => {
+    const lock = locks.find((l) => l.jobName === name);
+    return {
+      name,
+      label:    JOBS[name].label,
+      schedule: JOBS[name].schedule,
+      lock:     lock && lock.lockedUntil > now ? lock : null,
+      lastRun:  lastRuns[i],
+    };
+  });
+
+  return ok({ jobs, runs, total, page, limit });
+}
@@ -0,0 +1,19 @@
+/**
+ * POST /api/admin/webhooks/[id]/replay  – re-run one webhook event now
+ * SUPER_ADMIN only.
+ */
+import { NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { replayWebhookEvent } from "@/lib/services/webhook.service";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const event = await replayWebhookEvent(id, ctx.user.sub);
+  if (!event) return err("Webhook event not found", 404);
+  return ok(event);
+}
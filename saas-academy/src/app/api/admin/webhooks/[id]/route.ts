@@ -0,0 +1,22 @@
+/**
+ * GET /api/admin/webhooks/[id]  – one webhook event including its payload
+ * SUPER_ADMIN only.
+ */
+import { NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const event = await prisma.webhookEvent.findUnique({
+    where:   { id },
+    include: { academy: { select: { id: true, name: true } } },
+  });
+  if (!event) return err("Webhook event not found", 404);
+  return ok(event);
+}
@@ -0,0 +1,16 @@
+/**
+ * POST /api/admin/webhooks/process  – run the webhook worker once now
+ * Goes through the "webhooks" job lease (409 while the scheduler is running it).
+ * SUPER_ADMIN only.
+ */
+import { NextRequest } from "next/server";
+import { guardRoute } from "@/lib/guards/route-guard";
+import { jobRunResponse } from "@/lib/guards/cron-guard";
+import { runJob } from "@/lib/services/job.service";
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  return jobRunResponse(await runJob("webhooks", { trigger: "MANUAL", actorUserId: ctx.user.sub }));
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/admin/webhooks?status=&eventType=&academyId=&search=&page=&limit=
+ * Webhook event log (payloads excluded – see /api/admin/webhooks/[id]).
+ * `search` matches the provider key (paymentKey / billingKey / orderId).
+ * SUPER_ADMIN only.
+ */
+import { NextRequest } from "next/server";
+import { guardRoute, ok } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import type { Prisma, WebhookProcessingStatus } from "@prisma/client";
+
+const STATUSES: WebhookProcessingStatus[] = ["PENDING", "PROCESSING", "DONE", "ERROR"];
+
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { searchParams } = req.nextUrl;
+  const status    = searchParams.get("status") as WebhookProcessingStatus | null;
+  const eventType = searchParams.get("eventType") ?? "";
+  const academyId = searchParams.get("academyId") ?? "";
+  const search    = searchParams.get("search") ?? "";
+  const page  = Math.max(1, Number(searchParams.get("page") ?? 1));
+  const limit = Math.min(100, Math.max(1, Number(searchParams.get("limit") ?? 20)));
+  const skip  = (page - 1) * limit;
+
+  const where: Prisma.WebhookEventWhereInput = {};
+  if (status && STATUSES.includes(status)) where.processingStatus = status;
+  if (eventType) where.eventType = eventType;
+  if (academyId) where.academyId = academyId;
+  if (search)    where.providerKey = { contains: search };
+
+  const [events, total] = await Promise.all([
+    prisma.webhookEvent.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { receivedAt: "desc" },
+      select: {
+        id: true, provider: true, eventType: true, providerKey: true,
+        receivedAt: true, processedAt: true, processingStatus: true,
+        attempts: true, maxAttempts: true, nextRetryAt: true, errorMessage: true, claimedAt: true,
+        academy: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.webhookEvent.count({ where }),
+  ]);
+
+  return ok({ events, total, page, limit });
+}
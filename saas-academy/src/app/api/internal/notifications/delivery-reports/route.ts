@@ -0,0 +1,14 @@
+/**
+ * POST /api/internal/notifications/delivery-reports  – poll delivery results of SENT rows
+ * Scheduler only: requires the x-cron-secret header (see cron-guard.ts).
+ */
+import { NextRequest } from "next/server";
+import { guardCron, jobRunResponse } from "@/lib/guards/cron-guard";
+import { runJob } from "@/lib/services/job.service";
+
+export async function POST(req: NextRequest) {
+  const denied = guardCron(req);
+  if (denied) return denied;
+
+  return jobRunResponse(await runJob("deliveryReports"));
+}
@@ -0,0 +1,37 @@
+/**
+ * POST /api/me/check-in
+ * Student self check-in with the rotating code shown by the teacher
+ * { code, sessionId }. Marks the student PRESENT, or LATE past the class's
+ * lateAfterMin (check-in.service.ts).
+ * Rate limited per student: 5 attempts per 10 minutes, so codes cannot be
+ * guessed.
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { rateLimit } from "@/lib/auth/rate-limit";
+import { selfCheckInSchema } from "@/lib/validators/attendance";
+import { CheckInError, selfCheckIn } from "@/lib/services/check-in.service";
+
+export async function POST(req: NextRequest) {
+  const ctx = await guardRoute(req, ["STUDENT"]);
+  if (ctx instanceof Response) return ctx;
+
+  const allowed = rateLimit(`${ctx.user.sub}:check-in`, 5, 10 * 60_000);
+  if (!allowed) return err("Too many check-in attempts. Please wait before trying again.", 429);
+
+  const body = await parseBody(req, selfCheckInSchema);
+  if (body instanceof Response) return body;
+
+  try {
+    const { attendance, session, className } = await selfCheckIn({
+      academyId:     ctx.academyId!,
+      studentUserId: ctx.user.sub,
+      code:          body.code,
+      sessionId:     body.sessionId,
+    });
+    return ok({ status: attendance.status, session, className });
+  } catch (e) {
+    if (e instanceof CheckInError) return err(e.message, e.status);
+    throw e;
+  }
+}
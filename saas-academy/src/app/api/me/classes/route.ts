@@ -1,6 +1,7 @@
 /**
  * GET /api/me/classes
- * Returns all classes the authenticated student is enrolled in.
+ * Returns all classes the authenticated student is enrolled in, and those
+ * they are waitlisted for with their place in line (waitlistRank, 1 = next).
  */
 import { type NextRequest } from "next/server";
 import { guardRoute, ok } from "@/lib/guards/route-guard";
@@ -14,7 +15,7 @@ export async function GET(req: NextRequest) {
   const academyId     = ctx.academyId!;
 
   const enrollments = await prisma.classEnrollment.findMany({
-    where:   { studentUserId, academyId, status: "ACTIVE" },
+    where:   { studentUserId, academyId, status: { in: ["ACTIVE", "WAITLISTED"] } },
     include: {
       class: {
         include: {
@@ -27,5 +28,13 @@ export async function GET(req: NextRequest) {
     orderBy: { enrolledAt: "desc" },
   });
 
-  return ok(enrollments.map((e) => ({ enrollment: e, class: e.class })));
+  const ranks = await Promise.all(enrollments.map((e) =>
+    e.status === "WAITLISTED" && e.waitlistPosition !== null
+      ? prisma.classEnrollment.count({
+          where: { classId: e.classId, status: "WAITLISTED", waitlistPosition: { lte: e.waitlistPosition } },
+        })
+      : null,
+  ));
+
+  return ok(enrollments.map((e, i) => ({ enrollment: e, class: e.class, waitlistRank: ranks[i] })));
 }
@@ -0,0 +1,92 @@
+/**
+ * GET  /api/me/invoices/[id]/virtual-account  – latest virtual account for an own invoice
+ * POST /api/me/invoices/[id]/virtual-account  – issue a Toss virtual account (bank transfer)
+ *
+ * Body: { bank: string }  (Toss bank code, e.g. "88")
+ *
+ * The invoice is marked PAID when Toss sends the DEPOSIT_CALLBACK webhook.
+ *
+ * RBAC: STUDENT
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { issueVirtualAccountSchema } from "@/lib/validators/billing";
+import {
+  issueInvoiceVirtualAccount,
+  VirtualAccountError,
+} from "@/lib/services/virtual-account.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+/** Never expose the callback secret to the browser. */
+const PUBLIC_FIELDS = {
+  id: true, bankCode: true, accountNumber: true, customerName: true,
+  amount: true, dueDate: true, status: true, depositedAt: true,
+} as const;
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["STUDENT"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const invoice = await prisma.invoice.findFirst({
+    where: { id, studentUserId: ctx.user.sub },
+  });
+  if (!invoice) return err("Invoice not found", 404);
+
+  const account = await prisma.virtualAccount.findFirst({
+    where:   { invoiceId: id },
+    orderBy: { createdAt: "desc" },
+    select:  PUBLIC_FIELDS,
+  });
+
+  return ok(account);
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["STUDENT"]);
+  if (ctx instanceof Response) return ctx;
+
+  const { id } = await params;
+  const invoice = await prisma.invoice.findFirst({
+    where:   { id, studentUserId: ctx.user.sub },
+    include: { plan: { select: { name: true } } },
+  });
+  if (!invoice) return err("Invoice not found", 404);
+
+  const body = await parseBody(req, issueVirtualAccountSchema);
+  if (body instanceof Response) return body;
+
+  const student = await prisma.user.findUnique({
+    where:  { id: ctx.user.sub },
+    select: { name: true, email: true },
+  });
+
+  let account;
+  try {
+    account = await issueInvoiceVirtualAccount({
+      invoice,
+      student: student ?? { name: ctx.user.sub },
+      bank:    body.bank,
+    });
+  } catch (e) {
+    if (e instanceof VirtualAccountError) return err(e.message, e.status);
+    throw e;
+  }
+
+  await audit({
+    actorUserId: ctx.user.sub,
+    academyId:   invoice.academyId,
+    action:      "invoice.virtualAccount.issue",
+    targetType:  "Invoice",
+    targetId:    id,
+    metaJson:    { virtualAccountId: account.id, orderId: account.orderId, bank: body.bank },
+  });
+
+  return ok(
+    await prisma.virtualAccount.findUnique({ where: { id: account.id }, select: PUBLIC_FIELDS }),
+    201,
+  );
+}
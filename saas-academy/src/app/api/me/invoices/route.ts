@@ -23,8 +23,14 @@ export async function GET(req: NextRequest) {
       take:    q.limit,
       orderBy: { dueDate: "desc" },
       include: {
-        plan:     { select: { name: true, amount: true } },
+        plan:      { select: { name: true, amount: true } },
+        lineItems: { orderBy: { createdAt: "asc" }, select: { type: true, description: true, amount: true } },
         attempts: { orderBy: { attemptNo: "asc" }, select: { attemptNo: true, status: true, requestedAt: true } },
+        virtualAccounts: {
+          orderBy: { createdAt: "desc" },
+          take:    1,
+          select:  { bankCode: true, accountNumber: true, amount: true, dueDate: true, status: true },
+        },
       },
     }),
     ctx.rawDb.invoice.count({ where }),
@@ -67,6 +67,9 @@ export async function GET(req: NextRequest) {
       ...s,
       myAttendance: s.attendances[0] ?? null,
       attendances: undefined,
+      // Students check in with the code on the teacher's screen only
+      checkInSecret: undefined,
+      checkInOpen:   s.checkInSecret !== null,
     })),
   );
 }
@@ -0,0 +1,85 @@
+/**
+ * GET /api/notification-preferences/[token] – a parent's current choices
+ * PUT /api/notification-preferences/[token] – save them (or opt out)
+ *
+ * Public: the signed token from #{preferenceUrl} is the only credential
+ * (see preference-link.ts). Changes go into the consent history with source
+ * PARENT_LINK, IP and user agent.
+ *
+ * RBAC: none (token), rate limited per IP
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { rateLimit, rateLimitKey } from "@/lib/auth/rate-limit";
+import { verifyPreferenceToken } from "@/lib/alimtalk/preference-link";
+import { consentChoices, setContactConsent } from "@/lib/services/consent.service";
+import { ParentPreferencesSchema } from "@/lib/validators/notifications";
+
+type Params = { params: Promise<{ token: string }> };
+
+/** "홍길동" → "홍*동": the link may be forwarded, so the name is masked */
+function maskName(name: string): string {
+  const chars = Array.from(name);
+  if (chars.length <= 1) return name;
+  if (chars.length === 2) return `${chars[0]}*`;
+  return `${chars[0]}${"*".repeat(chars.length - 2)}${chars[chars.length - 1]}`;
+}
+
+async function loadContact(req: NextRequest, params: Params["params"]) {
+  const allowed = rateLimit(rateLimitKey(req, "notification-preferences"), 30, 60_000);
+  if (!allowed) return err("Too many requests. Please wait before trying again.", 429);
+
+  const { token } = await params;
+  const contactId = await verifyPreferenceToken(token);
+  if (!contactId) return err("This link is invalid or has expired", 401);
+
+  const contact = await prisma.parentContact.findUnique({
+    where:   { id: contactId },
+    include: {
+      academy: { select: { name: true } },
+      student: { select: { name: true } },
+    },
+  });
+  if (!contact || contact.status !== "ACTIVE") return err("Contact not found", 404);
+  return contact;
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const contact = await loadContact(req, params);
+  if (contact instanceof NextResponse) return contact;
+
+  return ok({
+    academyName:       contact.academy.name,
+    studentName:       maskName(contact.student.name),
+    preferredLanguage: contact.preferredLanguage,
+    ...consentChoices(contact),
+  });
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  const contact = await loadContact(req, params);
+  if (contact instanceof NextResponse) return contact;
+
+  const body = await parseBody(req, ParentPreferencesSchema);
+  if (body instanceof NextResponse) return body;
+
+  const ip = req.headers.get("x-forwarded-for");
+  const updated = await setContactConsent(contact, body, {
+    source:    "PARENT_LINK",
+    ip,
+    userAgent: req.headers.get("user-agent"),
+  });
+
+  await audit({
+    academyId:  contact.academyId,
+    action:     body.optIn ? "parentContact.preferences" : "parentContact.optOut",
+    targetType: "ParentContact",
+    targetId:   contact.id,
+    metaJson:   { ...body },
+    ip:         ip ?? undefined,
+  });
+
+  return ok(consentChoices(updated));
+}
@@ -0,0 +1,40 @@
+/**
+ * POST /api/notifications/[id]/cancel – cancel a PENDING notification that is
+ * not due yet (held for quiet hours or waiting to retry). The row becomes
+ * SKIPPED with errorCode CANCELED.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN (own academy)
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { audit } from "@/lib/auth/audit";
+import { cancelNotification, NotificationError } from "@/lib/services/notification.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+  if (!ctx.academyId) return err("academyId is required", 400);
+
+  const { id } = await params;
+
+  try {
+    const row = await cancelNotification(ctx.academyId, id);
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId:   ctx.academyId,
+      action:      "notification.cancel",
+      targetType:  "NotificationQueue",
+      targetId:    row.id,
+      metaJson:    { phone: row.recipientPhone, scheduledAt: row.scheduledAt, eventType: row.eventType },
+      ip:          req.headers.get("x-forwarded-for") ?? undefined,
+    });
+
+    return ok({ id: row.id, status: row.status });
+  } catch (e) {
+    if (e instanceof NotificationError) return err(e.message, e.status);
+    throw e;
+  }
+}
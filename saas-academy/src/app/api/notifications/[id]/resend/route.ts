@@ -0,0 +1,48 @@
+/**
+ * POST /api/notifications/[id]/resend – send a FAILED notification again
+ *
+ * Queues a copy linked by resendOfId and delivers it right away; the failed
+ * row is kept. 409 when the row is not FAILED, was already resent, or the
+ * parent has since withdrawn consent.
+ *
+ * RBAC: ADMIN, SUPER_ADMIN (own academy)
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { audit } from "@/lib/auth/audit";
+import { resendNotification, NotificationError } from "@/lib/services/notification.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+  if (!ctx.academyId) return err("academyId is required", 400);
+
+  const { id } = await params;
+
+  try {
+    const { row, outcome } = await resendNotification(ctx.academyId, id);
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId:   ctx.academyId,
+      action:      "notification.resend",
+      targetType:  "NotificationQueue",
+      targetId:    row.id,
+      metaJson:    { resendOfId: id, phone: row.recipientPhone, status: outcome.status },
+      ip:          req.headers.get("x-forwarded-for") ?? undefined,
+    });
+
+    return ok({
+      id:           row.id,
+      status:       outcome.status,
+      success:      outcome.status === "SENT",
+      errorCode:    outcome.errorCode ?? null,
+      errorMessage: outcome.errorMessage ?? null,
+    }, 201);
+  } catch (e) {
+    if (e instanceof NotificationError) return err(e.message, e.status);
+    throw e;
+  }
+}
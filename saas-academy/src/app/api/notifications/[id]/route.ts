@@ -0,0 +1,29 @@
+/**
+ * GET /api/notifications/[id] – one outbox row with its variables, the text
+ * the parent reads, and the SMS fallback / resend rows linked to it
+ *
+ * RBAC: ADMIN, SUPER_ADMIN (own academy)
+ */
+import { type NextRequest } from "next/server";
+import { guardRoute, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { renderedNotificationText } from "@/lib/services/notification.service";
+
+interface Params { params: Promise<{ id: string }> }
+
+const LINKED_ROW = { select: { id: true, channel: true, status: true, errorCode: true, createdAt: true } };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof Response) return ctx;
+  if (!ctx.academyId) return err("academyId is required", 400);
+
+  const { id } = await params;
+  const row = await prisma.notificationQueue.findFirst({
+    where:   { id, academyId: ctx.academyId },
+    include: { fallbackOf: LINKED_ROW, fallback: LINKED_ROW, resendOf: LINKED_ROW, resend: LINKED_ROW },
+  });
+  if (!row) return err("Notification not found", 404);
+
+  return ok({ ...row, text: await renderedNotificationText(row) });
+}
@@ -1,80 +1,143 @@
 /**
- * POST /api/notifications/send
+ * POST /api/notifications – send one AlimTalk message by template code
+ * GET  /api/notifications – notification outbox log (attendance, billing,
+ *                           manual and SMS fallback rows)
  *
- * Manually trigger a notification.
- * Requires: ADMIN (own academy) or SUPER_ADMIN.
+ * POST body: { phone, templateCode, params, recipientId?, senderKey? }
+ *   Queued as a MANUAL outbox row and delivered right away; a failed
+ *   attempt is retried by the queue worker.
  *
- * Body:
- *   { phone, templateCode, params, recipientId? }
+ * GET query: page, limit, status, channel, eventType, studentUserId,
+ *            student (name search), phone, from / to (YYYY-MM-DD, KST, inclusive)
+ *   Each item carries its template variables, errors, the student's name
+ *   and the id of a resend, if any.
  *
- * POST /api/notifications/retry  (internal / cron)
- *   Processes retries; only SUPER_ADMIN or internal cron token.
+ * RBAC: ADMIN, SUPER_ADMIN (own academy)
  */
-import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
-import { requireRole } from "@/lib/guards/require-role";
-import { enqueueNotification, processRetries } from "@/lib/services/notification.service";
-import { writeAuditLog } from "@/lib/services/audit.service";
-
-const sendSchema = z.object({
-  phone:        z.string().min(9).max(15),
-  templateCode: z.string().min(1),
-  params:       z.record(z.string()),
-  recipientId:  z.string().uuid().optional(),
-});
+import { type NextRequest, NextResponse } from "next/server";
+import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { enqueueNotification, NotificationError } from "@/lib/services/notification.service";
+import { OutboxQuerySchema, SendNotificationSchema } from "@/lib/validators/notifications";
+import type { Prisma } from "@prisma/client";
 
 export async function POST(req: NextRequest) {
-  // Only ADMIN or SUPER_ADMIN may trigger manual notifications
-  const auth = await requireRole(req, ["ADMIN", "SUPER_ADMIN"]);
-  if (auth.error) return auth.error;
-  const { user } = auth;
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof NextResponse) return ctx;
+  if (!ctx.academyId) return err("academyId is required", 400);
 
-  const body = await req.json().catch(() => null);
-  const parsed = sendSchema.safeParse(body);
-  if (!parsed.success) {
-    return NextResponse.json(
-      { error: "Invalid payload", details: parsed.error.flatten().fieldErrors },
-      { status: 400 },
-    );
+  const body = await parseBody(req, SendNotificationSchema);
+  if (body instanceof NextResponse) return body;
+
+  try {
+    const { row, outcome } = await enqueueNotification({
+      academyId:    ctx.academyId,
+      recipientId:  body.recipientId,
+      phone:        body.phone,
+      templateCode: body.templateCode,
+      params:       body.params,
+      senderKey:    body.senderKey,
+    });
+
+    await audit({
+      actorUserId: ctx.user.sub,
+      academyId:   ctx.academyId,
+      action:      "notification.send",
+      targetType:  "NotificationQueue",
+      targetId:    row.id,
+      metaJson:    { phone: body.phone, templateCode: body.templateCode, status: outcome.status },
+      ip:          req.headers.get("x-forwarded-for") ?? undefined,
+    });
+
+    return ok({
+      id:           row.id,
+      status:       outcome.status,
+      success:      outcome.status === "SENT",
+      errorCode:    outcome.errorCode ?? null,
+      errorMessage: outcome.errorMessage ?? null,
+    }, 201);
+  } catch (e) {
+    if (e instanceof NotificationError) return err(e.message, e.status);
+    throw e;
   }
+}
 
-  const { phone, templateCode, params, recipientId } = parsed.data;
+export async function GET(req: NextRequest) {
+  const ctx = await guardRoute(req, ["ADMIN", "SUPER_ADMIN"]);
+  if (ctx instanceof NextResponse) return ctx;
+  if (!ctx.academyId) return err("academyId is required", 400);
 
-  // ADMIN must supply academyId from their own token; SUPER_ADMIN can supply any
-  const academyId = user.academyId;
-  if (!academyId) {
-    return NextResponse.json(
-      { error: "academyId is required" },
-      { status: 400 },
-    );
+  const parsed = OutboxQuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return err("Validation error", 422, parsed.error.flatten());
   }
+  const q = parsed.data;
 
-  const result = await enqueueNotification({
-    academyId,
-    recipientId,
-    phone,
-    templateCode,
-    params,
-  });
+  let studentIds: string[] | undefined;
+  if (q.student) {
+    const matches = await prisma.user.findMany({
+      where:  { academyId: ctx.academyId, name: { contains: q.student, mode: "insensitive" } },
+      select: { id: true },
+      take:   100,
+    });
+    studentIds = matches.map((u) => u.id);
+  }
 
-  // Audit
-  await writeAuditLog({
-    actorUserId: user.id,
-    academyId,
-    action:      "notification.send",
-    targetType:  "Notification",
-    metaJson:    { phone, templateCode, success: result?.success },
-    ip:          req.headers.get("x-forwarded-for") ?? undefined,
-  });
+  const where: Prisma.NotificationQueueWhereInput = {
+    academyId: ctx.academyId,
+    ...(q.status        ? { status:         q.status }        : {}),
+    ...(q.channel       ? { channel:        q.channel }       : {}),
+    ...(q.eventType     ? { eventType:      q.eventType }     : {}),
+    ...(q.studentUserId ? { studentUserId:  q.studentUserId } : {}),
+    ...(studentIds && !q.studentUserId ? { studentUserId: { in: studentIds } } : {}),
+    ...(q.phone         ? { recipientPhone: q.phone }         : {}),
+    ...(q.from || q.to
+      ? {
+          createdAt: {
+            ...(q.from ? { gte: new Date(`${q.from}T00:00:00+09:00`) } : {}),
+            ...(q.to   ? { lte: new Date(`${q.to}T23:59:59.999+09:00`) } : {}),
+          },
+        }
+      : {}),
+  };
 
-  return NextResponse.json({ success: result?.success, error: result?.error });
-}
+  const [rows, total] = await prisma.$transaction([
+    prisma.notificationQueue.findMany({
+      where,
+      skip:    (q.page - 1) * q.limit,
+      take:    q.limit,
+      orderBy: { createdAt: "desc" },
+      select:  {
+        id: true, channel: true, eventType: true, status: true,
+        attendanceId: true, attendanceStatus: true, invoiceId: true, billingEvent: true,
+        sessionId: true, scheduleEvent: true, enrollmentId: true,
+        studentUserId: true, parentContactId: true, recipientPhone: true, templateCode: true,
+        attempts: true, maxAttempts: true, nextRetryAt: true, scheduledAt: true, processedAt: true,
+        templateVarsJson: true, messageText: true,
+        errorCode: true, errorMessage: true, fallbackOfId: true, resendOfId: true,
+        deliveryStatus: true, deliveredAt: true, createdAt: true,
+        resend: { select: { id: true } },
+      },
+    }),
+    prisma.notificationQueue.count({ where }),
+  ]);
 
-/** GET /api/notifications/retry — sweep pending notifications */
-export async function GET(req: NextRequest) {
-  const auth = await requireRole(req, ["SUPER_ADMIN"]);
-  if (auth.error) return auth.error;
+  // NotificationQueue has no student relation – resolve names in bulk
+  const ids = [...new Set(rows.flatMap((r) => (r.studentUserId ? [r.studentUserId] : [])))];
+  const students = await prisma.user.findMany({
+    where:  { id: { in: ids } },
+    select: { id: true, name: true },
+  });
+  const studentMap = Object.fromEntries(students.map((s) => [s.id, s]));
+
+  const items = rows.map(({ resend, ...row }) => ({
+    ...row,
+    resendId: resend?.id ?? null,
+    student:  row.studentUserId ? studentMap[row.studentUserId] ?? null : null,
+  }));
 
-  const result = await processRetries();
-  return NextResponse.json(result);
+  return ok({ items, total, page: q.page, limit: q.limit });
 }
@@ -8,7 +8,7 @@
 import { NextRequest } from "next/server";
 import { guardRoute, parseBody, ok, err } from "@/lib/guards/route-guard";
 import { issuePaymentMethodSchema } from "@/lib/validators/billing";
-import { issueBillingKey } from "@/lib/toss/billing";
+import { getPaymentProvider } from "@/lib/payments";
 import { writeAuditLog } from "@/lib/services/audit.service";
 
 export async function POST(req: NextRequest) {
@@ -38,7 +38,7 @@ export async function POST(req: NextRequest) {
 
   let billingKeyData;
   try {
-    billingKeyData = await issueBillingKey(body.authKey, customerKey);
+    billingKeyData = await getPaymentProvider().issueBillingKey(body.authKey, customerKey);
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : "Toss billing key issuance failed";
     return err(msg, 502);
@@ -0,0 +1,232 @@
+"use client";
+/**
+ * /notification-preferences/[token]
+ *
+ * Public page opened from #{preferenceUrl} in an AlimTalk/SMS message.
+ * The parent picks which events they are notified about (absent, late,
+ * billing) or opts out completely. No login: the signed token is the
+ * credential (see /api/notification-preferences/[token]).
+ *
+ * Copy follows the contact's preferredLanguage.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button, Spinner } from "@/components/ui";
+import { normalizeLanguage, type NotificationLanguage } from "@/lib/alimtalk/templates";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface Preferences {
+  optIn:         boolean;
+  notifyAbsent:  boolean;
+  notifyLate:    boolean;
+  notifyBilling: boolean;
+}
+
+interface PreferenceData extends Preferences {
+  academyName:       string;
+  studentName:       string;
+  preferredLanguage: string;
+}
+
+const COPY: Record<NotificationLanguage, {
+  title:       string;
+  intro:       (academy: string, student: string) => string;
+  absent:      string;
+  late:        string;
+  billing:     string;
+  save:        string;
+  optOut:      string;
+  optIn:       string;
+  saved:       string;
+  optedOut:    string;
+  invalidLink: string;
+  error:       string;
+}> = {
+  KO: {
+    title:       "알림 수신 설정",
+    intro:       (a, s) => `${a}에서 ${s} 학생에 대해 보내는 알림을 선택하세요.`,
+    absent:      "결석·공결 알림",
+    late:        "지각 알림",
+    billing:     "수강료 결제 알림",
+    save:        "저장",
+    optOut:      "모든 알림 수신 거부",
+    optIn:       "알림 다시 받기",
+    saved:       "설정이 저장되었습니다.",
+    optedOut:    "모든 알림 수신을 거부했습니다. 언제든 이 링크에서 다시 받을 수 있습니다.",
+    invalidLink: "링크가 유효하지 않거나 만료되었습니다. 최근 받은 메시지의 링크를 이용해 주세요.",
+    error:       "오류가 발생했습니다. 잠시 후 다시 시도해 주세요.",
+  },
+  EN: {
+    title:       "Notification preferences",
+    intro:       (a, s) => `Choose which messages ${a} sends you about ${s}.`,
+    absent:      "Absences (incl. excused)",
+    late:        "Late arrivals",
+    billing:     "Tuition payments",
+    save:        "Save",
+    optOut:      "Stop all notifications",
+    optIn:       "Receive notifications again",
+    saved:       "Your preferences have been saved.",
+    optedOut:    "You will no longer receive notifications. You can turn them back on from this link.",
+    invalidLink: "This link is invalid or has expired. Please use the link in your latest message.",
+    error:       "Something went wrong. Please try again later.",
+  },
+  ZH: {
+    title:       "通知设置",
+    intro:       (a, s) => `请选择${a}关于${s}学生发送的通知。`,
+    absent:      "缺席（含请假）通知",
+    late:        "迟到通知",
+    billing:     "学费缴费通知",
+    save:        "保存",
+    optOut:      "拒收所有通知",
+    optIn:       "重新接收通知",
+    saved:       "设置已保存。",
+    optedOut:    "您已拒收所有通知，可随时通过此链接重新开启。",
+    invalidLink: "链接无效或已过期，请使用最近收到的消息中的链接。",
+    error:       "发生错误，请稍后再试。",
+  },
+  VI: {
+    title:       "Cài đặt thông báo",
+    intro:       (a, s) => `Chọn các thông báo ${a} gửi cho bạn về học sinh ${s}.`,
+    absent:      "Vắng mặt (kể cả có phép)",
+    late:        "Đi muộn",
+    billing:     "Thanh toán học phí",
+    save:        "Lưu",
+    optOut:      "Từ chối mọi thông báo",
+    optIn:       "Nhận lại thông báo",
+    saved:       "Đã lưu cài đặt.",
+    optedOut:    "Bạn sẽ không nhận thông báo nữa. Có thể bật lại bất cứ lúc nào từ liên kết này.",
+    invalidLink: "Liên kết không hợp lệ hoặc đã hết hạn. Vui lòng dùng liên kết trong tin nhắn mới nhất.",
+    error:       "Đã xảy ra lỗi. Vui lòng thử lại sau.",
+  },
+};
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+export default function NotificationPreferencesPage() {
+  const { token } = useParams<{ token: string }>();
+  const [data,    setData]    = useState<PreferenceData | null>(null);
+  const [prefs,   setPrefs]   = useState<Preferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving,  setSaving]  = useState(false);
+  const [notice,  setNotice]  = useState<string | null>(null);
+  const [failed,  setFailed]  = useState<"invalid" | "error" | null>(null);
+
+  const copy = COPY[normalizeLanguage(data?.preferredLanguage)];
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch(`/api/notification-preferences/${token}`);
+        if (!res.ok) {
+          setFailed(res.status === 401 || res.status === 404 ? "invalid" : "error");
+          return;
+        }
+        const { data } = await res.json();
+        setData(data);
+        setPrefs({
+          optIn:         data.optIn,
+          notifyAbsent:  data.notifyAbsent,
+          notifyLate:    data.notifyLate,
+          notifyBilling: data.notifyBilling,
+        });
+      } catch {
+        setFailed("error");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [token]);
+
+  async function save(next: Preferences) {
+    setSaving(true);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/notification-preferences/${token}`, {
+        method:  "PUT",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify(next),
+      });
+      if (!res.ok) throw new Error();
+      const { data } = await res.json();
+      setPrefs(data);
+      setNotice(data.optIn ? copy.saved : copy.optedOut);
+    } catch {
+      setNotice(copy.error);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // ── Render ─────────────────────────────────────────────────────────────────
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Spinner />
+          </div>
+        ) : failed || !data || !prefs ? (
+          <p className="text-sm text-gray-600">
+            {failed === "invalid" ? copy.invalidLink : copy.error}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">{copy.title}</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                {copy.intro(data.academyName, data.studentName)}
+              </p>
+            </div>
+
+            {prefs.optIn && (
+              <div className="space-y-3">
+                {([
+                  ["notifyAbsent",  copy.absent],
+                  ["notifyLate",    copy.late],
+                  ["notifyBilling", copy.billing],
+                ] as const).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={prefs[key]}
+                      onChange={(e) => setPrefs({ ...prefs, [key]: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span className="text-sm text-gray-700">{label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {notice && (
+              <p className="text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-2">{notice}</p>
+            )}
+
+            {prefs.optIn ? (
+              <div className="flex flex-col gap-2">
+                <Button onClick={() => save(prefs)} loading={saving} className="w-full">
+                  {copy.save}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => save({ ...prefs, optIn: false })}
+                  disabled={saving}
+                  className="w-full"
+                >
+                  {copy.optOut}
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={() => save({ ...prefs, optIn: true })} loading={saving} className="w-full">
+                {copy.optIn}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
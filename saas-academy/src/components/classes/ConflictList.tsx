@@ -0,0 +1,66 @@
+"use client";
+/**
+ * src/components/classes/ConflictList.tsx
+ *
+ * Teacher / room double-bookings returned with a 409 by class creation,
+ * session regeneration, rescheduling and extra sessions. Admins can go
+ * ahead anyway with onOverride.
+ */
+
+import React from "react";
+import { Button } from "@/components/ui/Button";
+
+export interface ScheduleConflict {
+  type:     "TEACHER" | "ROOM";
+  startsAt: string;
+  endsAt:   string;
+  session: {
+    id:        string;
+    classId:   string;
+    className: string;
+    localDate: string;
+    startsAt:  string;
+    endsAt:    string;
+    roomName:  string | null;
+  };
+}
+
+interface ConflictListProps {
+  conflicts:   ScheduleConflict[];
+  onOverride?: () => void;
+  loading?:    boolean;
+}
+
+/** Show at most this many rows; the rest are summarized */
+const MAX_ROWS = 10;
+
+function kstTime(iso: string) {
+  return new Date(iso).toLocaleTimeString("ko-KR", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Seoul" });
+}
+
+export function ConflictList({ conflicts, onOverride, loading }: ConflictListProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 p-4 space-y-2">
+      <p className="text-sm font-medium text-red-700">
+        {conflicts.length} schedule conflict{conflicts.length > 1 ? "s" : ""}
+      </p>
+      <ul className="space-y-1 text-xs text-red-700">
+        {conflicts.slice(0, MAX_ROWS).map((c, i) => (
+          <li key={`${c.session.id}-${c.type}-${i}`}>
+            <span className="font-medium">{c.type === "TEACHER" ? "Teacher" : `Room ${c.session.roomName ?? ""}`}</span>
+            {" · "}
+            {c.session.localDate} {kstTime(c.session.startsAt)}~{kstTime(c.session.endsAt)} {c.session.className}
+          </li>
+        ))}
+        {conflicts.length > MAX_ROWS && <li>… and {conflicts.length - MAX_ROWS} more</li>}
+      </ul>
+      {onOverride && (
+        <Button type="button" size="sm" variant="danger" loading={loading} onClick={onOverride}>
+          Save anyway
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+"use client";
+/**
+ * src/components/notifications/NotificationLog.tsx
+ *
+ * Notification outbox log (GET /api/notifications) for academy admins:
+ * search by student, parent phone, status, event type and date, open a row
+ * for its rendered text, variables and errors, resend FAILED rows and
+ * cancel PENDING rows still held back (quiet hours / retry back-off).
+ *
+ * With `studentUserId` it becomes that student's timeline (contacts page):
+ * the student filter is fixed and rows are shown as a compact list.
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Badge, Button, Input, Modal, Pagination, Spinner, Table } from "@/components/ui";
+import toast from "react-hot-toast";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+type OutboxStatus = "PENDING" | "PROCESSING" | "SENT" | "FAILED" | "SKIPPED";
+type EventType    = "ATTENDANCE" | "BILLING" | "MANUAL" | "SCHEDULE" | "ENROLLMENT";
+
+interface OutboxRow {
+  id:               string;
+  channel:          "KAKAO_ALIMTALK" | "SMS";
+  eventType:        EventType;
+  status:           OutboxStatus;
+  attendanceStatus: string | null;
+  billingEvent:     string | null;
+  scheduleEvent:    string | null;
+  studentUserId:    string | null;
+  recipientPhone:   string;
+  templateCode:     string;
+  templateVarsJson: Record<string, string>;
+  messageText:      string | null;
+  attempts:         number;
+  maxAttempts:      number;
+  nextRetryAt:      string | null;
+  scheduledAt:      string;
+  processedAt:      string | null;
+  errorCode:        string | null;
+  errorMessage:     string | null;
+  fallbackOfId:     string | null;
+  resendOfId:       string | null;
+  resendId:         string | null;
+  deliveryStatus:   "DELIVERED" | "FAILED" | "FALLBACK" | null;
+  createdAt:        string;
+  student:          { id: string; name: string } | null;
+}
+
+interface LinkedRow {
+  id:        string;
+  channel:   OutboxRow["channel"];
+  status:    OutboxStatus;
+  errorCode: string | null;
+  createdAt: string;
+}
+
+interface OutboxDetail extends Omit<OutboxRow, "resendId" | "student"> {
+  text:       string | null;
+  fallbackOf: LinkedRow | null;
+  fallback:   LinkedRow | null;
+  resendOf:   LinkedRow | null;
+  resend:     LinkedRow | null;
+}
+
+interface Filters {
+  student:   string;
+  phone:     string;
+  status:    "" | OutboxStatus;
+  eventType: "" | EventType;
+  from:      string;
+  to:        string;
+}
+
+const EMPTY_FILTERS: Filters = { student: "", phone: "", status: "", eventType: "", from: "", to: "" };
+
+const STATUS_LABEL: Record<OutboxStatus, string> = {
+  PENDING:    "대기",
+  PROCESSING: "발송 중",
+  SENT:       "발송",
+  FAILED:     "실패",
+  SKIPPED:    "건너뜀",
+};
+
+const EVENT_LABEL: Record<EventType, string> = {
+  ATTENDANCE: "출결",
+  BILLING:    "결제",
+  MANUAL:     "수동",
+  SCHEDULE:   "일정",
+  ENROLLMENT: "대기 명단",
+};
+
+const DETAIL_LABEL: Record<string, string> = {
+  ABSENT:       "결석",
+  LATE:         "지각",
+  EXCUSED:      "공결",
+  UPCOMING:     "결제 예정",
+  FAILED:       "결제 실패",
+  FINAL_FAILED: "최종 실패",
+  PAID:         "결제 완료",
+  RESCHEDULED:  "시간 변경",
+  EXTRA:        "추가 수업",
+  MAKEUP:       "보강",
+};
+
+const DELIVERY_LABEL: Record<NonNullable<OutboxRow["deliveryStatus"]>, string> = {
+  DELIVERED: "수신 확인",
+  FAILED:    "미수신",
+  FALLBACK:  "문자 대체",
+};
+
+/** SKIPPED rows say why: canceled by an admin or over the monthly cap */
+const SKIP_LABEL: Record<string, string> = {
+  CANCELED:    "취소",
+  MONTHLY_CAP: "한도 초과",
+};
+
+const LIMIT = 20;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function statusText(row: Pick<OutboxRow, "status" | "errorCode">): string {
+  return (row.status === "SKIPPED" && row.errorCode && SKIP_LABEL[row.errorCode]) || STATUS_LABEL[row.status];
+}
+
+function statusVariant(status: OutboxStatus): "active" | "suspended" | "default" {
+  if (status === "SENT")   return "active";
+  if (status === "FAILED") return "suspended";
+  return "default";
+}
+
+function eventText(row: Pick<OutboxRow, "eventType" | "attendanceStatus" | "billingEvent" | "scheduleEvent">): string {
+  const detail = row.attendanceStatus ?? row.billingEvent ?? row.scheduleEvent;
+  return detail ? `${EVENT_LABEL[row.eventType]} · ${DETAIL_LABEL[detail] ?? detail}` : EVENT_LABEL[row.eventType];
+}
+
+/** PENDING and not due yet – held for quiet hours or waiting to retry */
+function isHeld(row: Pick<OutboxRow, "status" | "nextRetryAt">): boolean {
+  return row.status === "PENDING" && !!row.nextRetryAt && new Date(row.nextRetryAt) > new Date();
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("ko-KR", { dateStyle: "short", timeStyle: "short" });
+}
+
+// ── Component ────────────────────────────────────────────────────────────────
+
+export function NotificationLog({ studentUserId }: { studentUserId?: string }) {
+  const [rows,    setRows]    = useState<OutboxRow[]>([]);
+  const [total,   setTotal]   = useState(0);
+  const [page,    setPage]    = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [form,    setForm]    = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [busy,    setBusy]    = useState<string | null>(null);
+  const [detail,  setDetail]  = useState<OutboxDetail | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({ page: String(page), limit: String(LIMIT) });
+    if (studentUserId) params.set("studentUserId", studentUserId);
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    const res = await fetch(`/api/notifications?${params}`);
+    if (res.ok) {
+      const { data } = await res.json();
+      setRows(data.items ?? []);
+      setTotal(data.total ?? 0);
+    } else {
+      toast.error("발송 내역을 불러오지 못했습니다.");
+    }
+    setLoading(false);
+  }, [page, filters, studentUserId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(1);
+    setFilters(form);
+  }
+
+  function resetFilters() {
+    setForm(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+  }
+
+  async function openDetail(row: OutboxRow) {
+    const res = await fetch(`/api/notifications/${row.id}`);
+    const body = await res.json();
+    if (!res.ok) { toast.error(body.error ?? "상세 정보를 불러오지 못했습니다."); return; }
+    setDetail(body.data);
+  }
+
+  async function handleResend(row: Pick<OutboxRow, "id" | "recipientPhone">) {
+    if (!confirm(`${row.recipientPhone}(으)로 다시 발송할까요?`)) return;
+    setBusy(row.id);
+    const res = await fetch(`/api/notifications/${row.id}/resend`, { method: "POST" });
+    const body = await res.json();
+    setBusy(null);
+    if (!res.ok) { toast.error(body.error ?? "재발송에 실패했습니다."); return; }
+    if (body.data.success) toast.success("재발송했습니다.");
+    else toast.error(`재발송 대기 중: ${body.data.errorMessage ?? body.data.errorCode ?? "발송 실패"}`);
+    setDetail(null);
+    load();
+  }
+
+  async function handleCancel(row: Pick<OutboxRow, "id" | "scheduledAt">) {
+    if (!confirm(`${formatTime(row.scheduledAt)} 발송 예정인 알림을 취소할까요?`)) return;
+    setBusy(row.id);
+    const res = await fetch(`/api/notifications/${row.id}/cancel`, { method: "POST" });
+    const body = await res.json();
+    setBusy(null);
+    if (!res.ok) { toast.error(body.error ?? "취소에 실패했습니다."); return; }
+    toast.success("발송을 취소했습니다.");
+    setDetail(null);
+    load();
+  }
+
+  function actions(row: OutboxRow) {
+    return (
+      <div className="flex gap-1">
+        <Button size="sm" variant="ghost" onClick={() => openDetail(row)}>상세</Button>
+        {row.status === "FAILED" && !row.resendId && (
+          <Button size="sm" variant="secondary" loading={busy === row.id} onClick={() => handleResend(row)}>
+            재발송
+          </Button>
+        )}
+        {isHeld(row) && (
+          <Button size="sm" variant="danger" loading={busy === row.id} onClick={() => handleCancel(row)}>
+            취소
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  function statusCell(row: OutboxRow) {
+    return (
+      <div className="flex flex-col gap-0.5">
+        <Badge variant={statusVariant(row.status)}>{statusText(row)}</Badge>
+        {isHeld(row) && (
+          <span className="text-xs text-gray-500">{formatTime(row.nextRetryAt!)} 예정</span>
+        )}
+        {row.deliveryStatus && (
+          <span className="text-xs text-gray-500">{DELIVERY_LABEL[row.deliveryStatus]}</span>
+        )}
+      </div>
+    );
+  }
+
+  const columns = [
+    { key: "createdAt", header: "시각",   render: (r: OutboxRow) => formatTime(r.createdAt) },
+    { key: "student",   header: "학생",   render: (r: OutboxRow) => r.student?.name ?? "—" },
+    { key: "phone",     header: "수신번호", render: (r: OutboxRow) => r.recipientPhone },
+    {
+      key: "event", header: "유형",
+      render: (r: OutboxRow) => (
+        <span>
+          {eventText(r)}
+          {r.channel === "SMS" && <span className="ml-1 text-xs text-blue-600">문자</span>}
+          {r.resendOfId && <span className="ml-1 text-xs text-gray-500">재발송</span>}
+        </span>
+      ),
+    },
+    { key: "status",   header: "상태",   render: statusCell },
+    { key: "attempts", header: "시도",   render: (r: OutboxRow) => `${r.attempts}/${r.maxAttempts}` },
+    {
+      key: "error", header: "오류",
+      render: (r: OutboxRow) => r.errorCode
+        ? <span className="font-mono text-xs text-red-600" title={r.errorMessage ?? ""}>{r.errorCode}</span>
+        : "—",
+    },
+    { key: "actions", header: "", render: actions },
+  ];
+
+  // ── Render ─────────────────────────────────────────────────────────────────
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={applyFilters} className="bg-white rounded-lg border border-gray-200 p-4 grid grid-cols-2 md:grid-cols-3 gap-3">
+        {!studentUserId && (
+          <Input
+            placeholder="학생 이름"
+            value={form.student}
+            onChange={(e) => setForm({ ...form, student: e.target.value })}
+          />
+        )}
+        <Input
+          placeholder="학부모 번호"
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        />
+        <select
+          value={form.status}
+          onChange={(e) => setForm({ ...form, status: e.target.value as Filters["status"] })}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+        >
+          <option value="">전체 상태</option>
+          {(Object.keys(STATUS_LABEL) as OutboxStatus[]).map((s) => (
+            <option key={s} value={s}>{STATUS_LABEL[s]}</option>
+          ))}
+        </select>
+        <select
+          value={form.eventType}
+          onChange={(e) => setForm({ ...form, eventType: e.target.value as Filters["eventType"] })}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+        >
+          <option value="">전체 유형</option>
+          {(Object.keys(EVENT_LABEL) as EventType[]).map((t) => (
+            <option key={t} value={t}>{EVENT_LABEL[t]}</option>
+          ))}
+        </select>
+        <Input type="date" value={form.from} onChange={(e) => setForm({ ...form, from: e.target.value })} />
+        <Input type="date" value={form.to} onChange={(e) => setForm({ ...form, to: e.target.value })} />
+        <div className="col-span-full flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={resetFilters}>초기화</Button>
+          <Button type="submit" size="sm">검색</Button>
+        </div>
+      </form>
+
+      {studentUserId ? (
+        loading ? (
+          <div className="flex justify-center items-center h-24"><Spinner /></div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">발송 내역이 없습니다.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {rows.map((r) => (
+              <li key={r.id} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                  r.status === "SENT" ? "bg-green-500" : r.status === "FAILED" ? "bg-red-500" : "bg-gray-300"
+                }`} />
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-800">
+                      {eventText(r)} · {r.recipientPhone}
+                      {r.channel === "SMS" && <span className="ml-1 text-xs text-blue-600">문자</span>}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {formatTime(r.createdAt)} · {statusText(r)}
+                      {isHeld(r) ? ` (${formatTime(r.nextRetryAt!)} 예정)` : ""}
+                      {r.errorCode ? ` · ${r.errorCode}` : ""}
+                    </p>
+                  </div>
+                  {actions(r)}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )
+      ) : (
+        <Table columns={columns} rows={rows} keyField="id" loading={loading} emptyMessage="발송 내역이 없습니다." />
+      )}
+
+      <Pagination page={page} total={total} limit={LIMIT} onChange={setPage} />
+
+      {/* ── Detail Modal ───────────────────────────────────────────────────── */}
+      {detail && (
+        <Modal open={!!detail} title="알림 상세" onClose={() => setDetail(null)}>
+          <div className="space-y-4 p-1 max-h-[70vh] overflow-y-auto text-sm">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={statusVariant(detail.status)}>{statusText(detail)}</Badge>
+              <span className="text-gray-600">{eventText(detail)}</span>
+              <span className="font-mono text-xs text-gray-400">{detail.templateCode}</span>
+            </div>
+
+            <dl className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+              <dt className="text-gray-500">수신번호</dt>
+              <dd className="col-span-2">{detail.recipientPhone}</dd>
+              <dt className="text-gray-500">발송 예정</dt>
+              <dd className="col-span-2">{formatTime(detail.scheduledAt)}</dd>
+              <dt className="text-gray-500">처리 시각</dt>
+              <dd className="col-span-2">{detail.processedAt ? formatTime(detail.processedAt) : "—"}</dd>
+              <dt className="text-gray-500">시도</dt>
+              <dd className="col-span-2">{detail.attempts}/{detail.maxAttempts}</dd>
+              {detail.errorCode && (
+                <>
+                  <dt className="text-gray-500">오류</dt>
+                  <dd className="col-span-2 text-red-600">
+                    <span className="font-mono">{detail.errorCode}</span>
+                    {detail.errorMessage ? ` – ${detail.errorMessage}` : ""}
+                  </dd>
+                </>
+              )}
+            </dl>
+
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">발송 내용</p>
+              {detail.text ? (
+                <pre className="whitespace-pre-wrap rounded-md bg-gray-50 border border-gray-200 p-3 text-xs text-gray-800">
+                  {detail.text}
+                </pre>
+              ) : (
+                <p className="text-xs text-gray-400">등록된 템플릿 본문이 없어 변수만 표시합니다.</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">변수</p>
+              <table className="w-full text-xs">
+                <tbody>
+                  {Object.entries(detail.templateVarsJson ?? {}).map(([name, value]) => (
+                    <tr key={name} className="border-b border-gray-100">
+                      <td className="py-1 pr-3 font-mono text-gray-500">#{`{${name}}`}</td>
+                      <td className="py-1 break-all text-gray-800">{value || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {(detail.fallbackOf || detail.fallback || detail.resendOf || detail.resend) && (
+              <div className="space-y-1 text-xs text-gray-600">
+                {detail.fallbackOf && <p>알림톡 실패로 대체 발송된 문자입니다 ({STATUS_LABEL[detail.fallbackOf.status]}).</p>}
+                {detail.fallback && <p>문자로 대체 발송: {statusText(detail.fallback)}</p>}
+                {detail.resendOf && <p>실패한 알림의 재발송입니다 ({formatTime(detail.resendOf.createdAt)}).</p>}
+                {detail.resend && <p>재발송: {statusText(detail.resend)} ({formatTime(detail.resend.createdAt)})</p>}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {detail.status === "FAILED" && !detail.resend && (
+                <Button size="sm" variant="secondary" loading={busy === detail.id} onClick={() => handleResend(detail)}>
+                  재발송
+                </Button>
+              )}
+              {isHeld(detail) && (
+                <Button size="sm" variant="danger" loading={busy === detail.id} onClick={() => handleCancel(detail)}>
+                  발송 취소
+                </Button>
+              )}
+            </div>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+}
@@ -8,10 +8,12 @@
  *  2. Check sendOnAbsent / sendOnLate / sendOnExcused policy.
  *  3. Dedup: if (attendanceId, attendanceStatus) already has a SENT/PENDING
  *     queue row → skip (unless allowResendOnStatusChange=true).
- *  4. Load active ParentContacts with notificationOptIn=true.
+ *  4. Load active ParentContacts with notificationOptIn=true that still want
+ *     this event (notifyAbsent covers ABSENT and EXCUSED, notifyLate LATE).
  *  5. Check quiet hours → if inside, set scheduledAt to quietEnd.
- *  6. Load matching AlimtalkTemplate (ABSENT/LATE/EXCUSED).
- *  7. Insert NotificationQueue rows (one per parent contact).
+ *  6. Load matching AlimtalkTemplates (ABSENT/LATE/EXCUSED), one per language.
+ *  7. Queue outbox rows (enqueueOutbox, one per parent contact), each using the
+ *     template in the contact's preferredLanguage or else the Korean one.
  *  8. Return list of queue IDs created.
  */
 
@@ -19,14 +21,20 @@ import { prisma } from "@/lib/db/client";
 import { audit }  from "@/lib/auth/audit";
 import {
   buildAttendanceVars,
-  STATUS_LABEL,
+  DEFAULT_LANGUAGE,
+  normalizeLanguage,
+  statusLabel,
   toKSTDateString,
   toKSTTimeString,
+  type NotificationLanguage,
 } from "@/lib/alimtalk/templates";
 import { isInQuietHours, nextQuietHoursEnd } from "@/lib/alimtalk/quiet-hours";
+import { withContactVars } from "@/lib/alimtalk/preference-link";
+import { enqueueOutbox } from "@/lib/alimtalk/outbox";
 import type {
   AlimtalkTemplateType,
   NotificationQueueStatus,
+  Prisma,
 } from "@prisma/client";
 
 // Map Attendance status → AlimtalkTemplateType
@@ -37,6 +45,43 @@ const STATUS_TO_TEMPLATE_TYPE: Record<string, AlimtalkTemplateType | null> = {
   PRESENT: null,
 };
 
+/** Attendance relations the template variables are built from */
+export const ATTENDANCE_CONTEXT_INCLUDE = {
+  session: {
+    include: { class: { include: { teacher: true } } },
+  },
+} satisfies Prisma.AttendanceInclude;
+
+export type AttendanceWithContext = Prisma.AttendanceGetPayload<{
+  include: typeof ATTENDANCE_CONTEXT_INCLUDE;
+}>;
+
+/**
+ * Template variables for one attendance row – what the notifier queues and
+ * what the template preview renders with real data. #{statusText} is in
+ * `language`.
+ */
+export async function attendanceTemplateVars(
+  attendance: AttendanceWithContext,
+  language: NotificationLanguage = DEFAULT_LANGUAGE,
+): Promise<Record<string, string>> {
+  const { session } = attendance;
+  const [academy, student] = await Promise.all([
+    prisma.academy.findUnique({ where: { id: attendance.academyId }, select: { name: true } }),
+    prisma.user.findUnique({ where: { id: attendance.studentUserId }, select: { name: true } }),
+  ]);
+
+  return buildAttendanceVars({
+    academyName: academy?.name ?? "",
+    studentName: student?.name ?? "",
+    className:   session.class.name,
+    sessionDate: toKSTDateString(session.startsAt),
+    sessionTime: toKSTTimeString(session.startsAt),
+    statusText:  statusLabel(attendance.status, language),
+    teacherName: session.class.teacher?.name ?? "선생님",
+  });
+}
+
 export interface EnqueueAttendanceNotificationParams {
   attendanceId:  string;
   actorUserId?:  string; // teacher/admin who marked attendance
@@ -60,11 +105,7 @@ export async function enqueueAttendanceNotification(
   // ── 1. Load attendance with all context ────────────────────────────────────
   const attendance = await prisma.attendance.findUnique({
     where:   { id: attendanceId },
-    include: {
-      session: {
-        include: { class: { include: { teacher: true } } },
-      },
-    },
+    include: ATTENDANCE_CONTEXT_INCLUDE,
   });
 
   if (!attendance) {
@@ -137,6 +178,7 @@ export async function enqueueAttendanceNotification(
       studentUserId,
       notificationOptIn: true,
       status: "ACTIVE",
+      ...(attendanceStatus === "LATE" ? { notifyLate: true } : { notifyAbsent: true }),
     },
   });
 
@@ -148,12 +190,12 @@ export async function enqueueAttendanceNotification(
     };
   }
 
-  // ── 7. Load AlimTalk template ──────────────────────────────────────────────
-  const template = await prisma.alimtalkTemplate.findFirst({
+  // ── 7. Load AlimTalk templates (one per language) ──────────────────────────
+  const templates = await prisma.alimtalkTemplate.findMany({
     where: { academyId, type: templateType, isActive: true },
   });
 
-  if (!template) {
+  if (templates.length === 0) {
     return {
       skipped: true,
       reason:  `No active ${templateType} template for academy`,
@@ -161,27 +203,12 @@ export async function enqueueAttendanceNotification(
     };
   }
 
-  // ── 8. Load supporting data ────────────────────────────────────────────────
-  const [academy, student] = await Promise.all([
-    prisma.academy.findUnique({ where: { id: academyId }, select: { name: true } }),
-    prisma.user.findUnique({ where: { id: studentUserId }, select: { name: true } }),
-  ]);
+  const templateByLanguage = new Map(
+    templates.map((t) => [normalizeLanguage(t.language), t]),
+  );
 
-  const teacherName = session.class.teacher?.name ?? "선생님";
-  const className   = session.class.name;
-  const sessionDate = toKSTDateString(session.startsAt);
-  const sessionTime = toKSTTimeString(session.startsAt);
-  const statusText  = STATUS_LABEL[attendanceStatus] ?? attendanceStatus;
-
-  const templateVars = buildAttendanceVars({
-    academyName: academy?.name ?? "",
-    studentName: student?.name ?? "",
-    className,
-    sessionDate,
-    sessionTime,
-    statusText,
-    teacherName,
-  });
+  // ── 8. Load supporting data (variables per template language) ──────────────
+  const varsByLanguage = new Map<NotificationLanguage, Record<string, string>>();
 
   // ── 9. Quiet hours check ───────────────────────────────────────────────────
   const now = new Date();
@@ -196,27 +223,45 @@ export async function enqueueAttendanceNotification(
 
   // ── 10. Insert queue rows ──────────────────────────────────────────────────
   const queueIds: string[] = [];
+  const languages: string[] = [];
 
   for (const contact of contacts) {
-    const row = await prisma.notificationQueue.create({
-      data: {
-        academyId,
-        channel:         "KAKAO_ALIMTALK",
-        eventType:       "ATTENDANCE",
-        attendanceId,
-        attendanceStatus,
-        studentUserId,
-        parentContactId: contact.id,
-        recipientPhone:  contact.phone,
-        templateCode:    template.templateCode,
-        senderKey:       template.senderKey,
-        templateVarsJson: templateVars,
-        status:          "PENDING",
-        scheduledAt:     scheduledAt ?? now,
-        nextRetryAt:     scheduledAt ?? now,
-      },
-    });
+    const template =
+      templateByLanguage.get(normalizeLanguage(contact.preferredLanguage)) ??
+      templateByLanguage.get(DEFAULT_LANGUAGE);
+    if (!template) continue;
+
+    const language = normalizeLanguage(template.language);
+    let templateVars = varsByLanguage.get(language);
+    if (!templateVars) {
+      templateVars = await attendanceTemplateVars(attendance, language);
+      varsByLanguage.set(language, templateVars);
+    }
+
+    const row = await enqueueOutbox({
+      academyId,
+      channel:         "KAKAO_ALIMTALK",
+      eventType:       "ATTENDANCE",
+      attendanceId,
+      attendanceStatus,
+      studentUserId,
+      parentContactId: contact.id,
+      recipientPhone:  contact.phone,
+      templateCode:    template.templateCode,
+      senderKey:       template.senderKey,
+      templateVarsJson: await withContactVars(templateVars, contact.id),
+      scheduledAt:     scheduledAt ?? now,
+    }, now);
     queueIds.push(row.id);
+    languages.push(language);
+  }
+
+  if (queueIds.length === 0) {
+    return {
+      skipped: true,
+      reason:  `No active ${templateType} template in the contacts' languages or Korean`,
+      queueIds: [],
+    };
   }
 
   // ── 11. Audit log ──────────────────────────────────────────────────────────
@@ -230,6 +275,7 @@ export async function enqueueAttendanceNotification(
       attendanceStatus,
       templateType,
       queueIds,
+      languages,
       contactCount: contacts.length,
     },
   });
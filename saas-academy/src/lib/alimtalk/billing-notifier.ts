@@ -0,0 +1,246 @@
+/**
+ * src/lib/alimtalk/billing-notifier.ts
+ *
+ * Dunning service: enqueue AlimTalk notifications for billing events.
+ *
+ * Events:
+ *  - UPCOMING      – charge due in AcademyNotificationSettings.chargeReminderDays
+ *  - FAILED        – a charge attempt failed and will be retried
+ *  - FINAL_FAILED  – attempts exhausted, the invoice is (or will be) FAILED
+ *  - PAID          – the charge succeeded
+ *
+ * Flow mirrors attendance-notifier.ts:
+ *  1. Load academy notification settings – bail if disabled or policy off.
+ *  2. Dedup: one delivery per (invoiceId, billingEvent, attemptNo).
+ *  3. Load active ParentContacts with notificationOptIn=true and notifyBilling.
+ *  4. Load matching BILLING_* AlimtalkTemplate.
+ *  5. Check quiet hours → if inside, set scheduledAt to quietEnd.
+ *  6. Queue outbox rows (enqueueOutbox, one per parent contact).
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { buildBillingVars, DEFAULT_LANGUAGE } from "@/lib/alimtalk/templates";
+import { isInQuietHours, nextQuietHoursEnd } from "@/lib/alimtalk/quiet-hours";
+import { withContactVars } from "@/lib/alimtalk/preference-link";
+import { enqueueOutbox } from "@/lib/alimtalk/outbox";
+import type { EnqueueResult } from "@/lib/alimtalk/attendance-notifier";
+import { addDays } from "date-fns";
+import type {
+  AcademyNotificationSettings,
+  AlimtalkTemplateType,
+  NotificationQueueStatus,
+} from "@prisma/client";
+
+export type BillingEvent = "UPCOMING" | "FAILED" | "FINAL_FAILED" | "PAID";
+
+const EVENT_TO_TEMPLATE_TYPE: Record<BillingEvent, AlimtalkTemplateType> = {
+  UPCOMING:     "BILLING_UPCOMING",
+  FAILED:       "BILLING_FAILED",
+  FINAL_FAILED: "BILLING_FINAL_FAILED",
+  PAID:         "BILLING_PAID",
+};
+
+export interface EnqueueBillingNotificationParams {
+  invoiceId:      string;
+  event:          BillingEvent;
+  /** PaymentAttempt.attemptNo – part of the dedup key for FAILED / FINAL_FAILED / PAID */
+  attemptNo?:     number;
+  maxAttempts?:   number;
+  failureReason?: string;
+  actorUserId?:   string;
+}
+
+function policyAllows(settings: AcademyNotificationSettings, event: BillingEvent): boolean {
+  switch (event) {
+    case "UPCOMING":     return settings.sendOnChargeUpcoming;
+    case "FAILED":
+    case "FINAL_FAILED": return settings.sendOnChargeFailed;
+    case "PAID":         return settings.sendOnChargeSucceeded;
+  }
+}
+
+/**
+ * Queue a billing notification for every opted-in parent of the invoice's
+ * student. Idempotent per (invoiceId, event, attemptNo).
+ */
+export async function enqueueBillingNotification(
+  params: EnqueueBillingNotificationParams,
+): Promise<EnqueueResult> {
+  const { invoiceId, event, actorUserId } = params;
+  const attemptNo = params.attemptNo ?? null;
+
+  // ── 1. Load invoice ────────────────────────────────────────────────────────
+  const invoice = await prisma.invoice.findUnique({
+    where:   { id: invoiceId },
+    include: { plan: { select: { name: true } } },
+  });
+  if (!invoice) {
+    return { skipped: true, reason: "Invoice not found", queueIds: [] };
+  }
+
+  const { academyId, studentUserId } = invoice;
+
+  // ── 2. Settings & policy ───────────────────────────────────────────────────
+  const settings = await prisma.academyNotificationSettings.findUnique({
+    where: { academyId },
+  });
+  if (!settings?.alimtalkEnabled) {
+    return { skipped: true, reason: "AlimTalk disabled for academy", queueIds: [] };
+  }
+  if (!policyAllows(settings, event)) {
+    return { skipped: true, reason: `${event} notifications disabled`, queueIds: [] };
+  }
+
+  // ── 3. Dedup check ─────────────────────────────────────────────────────────
+  const existingQueue = await prisma.notificationQueue.findFirst({
+    where: {
+      invoiceId,
+      billingEvent: event,
+      attemptNo,
+      status: { in: ["PENDING", "PROCESSING", "SENT"] as NotificationQueueStatus[] },
+    },
+  });
+  if (existingQueue) {
+    return {
+      skipped: true,
+      reason:  `Already queued/sent (id=${existingQueue.id}) – dedup skip`,
+      queueIds: [],
+    };
+  }
+
+  // ── 4. Parent contacts with opt-in ─────────────────────────────────────────
+  const contacts = await prisma.parentContact.findMany({
+    where: {
+      academyId,
+      studentUserId,
+      notificationOptIn: true,
+      notifyBilling:     true,
+      status: "ACTIVE",
+    },
+  });
+  if (contacts.length === 0) {
+    return { skipped: true, reason: "No opted-in parent contacts", queueIds: [] };
+  }
+
+  // ── 5. Template ────────────────────────────────────────────────────────────
+  const templateType = EVENT_TO_TEMPLATE_TYPE[event];
+  // Billing messages go out in Korean; only the KO template is registered
+  const template = await prisma.alimtalkTemplate.findFirst({
+    where: { academyId, type: templateType, language: DEFAULT_LANGUAGE, isActive: true },
+  });
+  if (!template) {
+    return {
+      skipped: true,
+      reason:  `No active ${templateType} template for academy`,
+      queueIds: [],
+    };
+  }
+
+  // ── 6. Variables ───────────────────────────────────────────────────────────
+  const [academy, student] = await Promise.all([
+    prisma.academy.findUnique({ where: { id: academyId }, select: { name: true } }),
+    prisma.user.findUnique({ where: { id: studentUserId }, select: { name: true } }),
+  ]);
+
+  const templateVars = buildBillingVars({
+    academyName:   academy?.name ?? "",
+    studentName:   student?.name ?? "",
+    planName:      invoice.plan?.name ?? "수강료",
+    amount:        invoice.amount,
+    dueDate:       invoice.dueDate.toISOString().slice(0, 10),
+    attemptNo:     params.attemptNo,
+    maxAttempts:   params.maxAttempts,
+    failureReason: params.failureReason,
+  });
+
+  // ── 7. Quiet hours ─────────────────────────────────────────────────────────
+  const now = new Date();
+  let scheduledAt: Date | undefined;
+
+  if (
+    settings.quietHoursEnabled &&
+    isInQuietHours(settings.quietHoursStart, settings.quietHoursEnd, now)
+  ) {
+    scheduledAt = nextQuietHoursEnd(settings.quietHoursEnd, now);
+  }
+
+  // ── 8. Insert queue rows ───────────────────────────────────────────────────
+  const queueIds: string[] = [];
+
+  for (const contact of contacts) {
+    const row = await enqueueOutbox({
+      academyId,
+      channel:         "KAKAO_ALIMTALK",
+      eventType:       "BILLING",
+      invoiceId,
+      billingEvent:    event,
+      attemptNo,
+      studentUserId,
+      parentContactId: contact.id,
+      recipientPhone:  contact.phone,
+      templateCode:    template.templateCode,
+      senderKey:       template.senderKey,
+      templateVarsJson: await withContactVars(templateVars, contact.id),
+      scheduledAt:     scheduledAt ?? now,
+    }, now);
+    queueIds.push(row.id);
+  }
+
+  // ── 9. Audit log ───────────────────────────────────────────────────────────
+  await audit({
+    actorUserId: actorUserId ?? null,
+    academyId,
+    action:      "billing.notification.queued",
+    targetType:  "Invoice",
+    targetId:    invoiceId,
+    metaJson: {
+      event,
+      attemptNo,
+      templateType,
+      queueIds,
+      contactCount: contacts.length,
+    },
+  });
+
+  return { skipped: false, queueIds };
+}
+
+/**
+ * Queue UPCOMING reminders for PENDING invoices due exactly
+ * chargeReminderDays after `today` (KST "YYYY-MM-DD"), per academy.
+ * Safe to run more than once a day thanks to the dedup check.
+ *
+ * @returns number of invoices a reminder was queued for
+ */
+export async function enqueueUpcomingChargeReminders(today: string): Promise<number> {
+  const academies = await prisma.academyNotificationSettings.findMany({
+    where: {
+      alimtalkEnabled:      true,
+      sendOnChargeUpcoming: true,
+      chargeReminderDays:   { gt: 0 },
+    },
+    select: { academyId: true, chargeReminderDays: true },
+  });
+
+  let queued = 0;
+
+  for (const { academyId, chargeReminderDays } of academies) {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        academyId,
+        status:       "PENDING",
+        dueDate:      addDays(new Date(today), chargeReminderDays),
+        subscription: { status: "ACTIVE" },
+      },
+      select: { id: true },
+    });
+
+    for (const invoice of invoices) {
+      const result = await enqueueBillingNotification({ invoiceId: invoice.id, event: "UPCOMING" });
+      if (!result.skipped) queued++;
+    }
+  }
+
+  return queued;
+}
@@ -5,6 +5,7 @@
  *
  * Provider: Aligo BizMessage REST API (https://kakaoapi.aligo.in)
  *   POST /akv10/alimtalk/send/
+ *   POST /akv10/history/detail/   – delivery report by message id (mid)
  *
  * Environment variables required:
  *   KAKAO_API_KEY     – Aligo API key (issued per service account)
@@ -62,7 +63,9 @@ export async function sendAlimtalk(
     receiver_1: params.phone,
     // Kakao substitutes #{varName} in the template using this JSON map
     tpl_vars:   JSON.stringify(params.variables),
-    failover:   "0", // 0 = AlimTalk only, no SMS fallback
+    // 0 = AlimTalk only: SMS fallback is queued by our worker (queue-worker.ts)
+    // so both outcomes are recorded and the per-academy sender/text apply
+    failover:   "0",
   });
 
   try {
@@ -101,3 +104,62 @@ export async function sendAlimtalk(
     return { success: false, errorCode: "FETCH_ERROR", errorMessage: msg };
   }
 }
+
+// ── Delivery reports ────────────────────────────────────────────────────────
+
+export type DeliveryState = "PENDING" | "DELIVERED" | "FAILED";
+
+export interface DeliveryReport {
+  state:    DeliveryState;
+  code?:    string;
+  message?: string;
+  /** When the provider got the handset result */
+  at?:      Date;
+}
+
+/** Provider timestamps are KST "YYYY-MM-DD HH:mm:ss". */
+export function parseProviderTime(v: string | null | undefined): Date | undefined {
+  if (!v) return undefined;
+  const d = new Date(`${v.trim().replace(" ", "T")}+09:00`);
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+/**
+ * Fetch the delivery result of one AlimTalk message.
+ * `rslt` stays empty until the handset result is in; "0" means delivered,
+ * any other code is a delivery failure (not a KakaoTalk user, blocked, ...).
+ * Lookup errors are reported as PENDING so the row is polled again.
+ */
+export async function fetchAlimtalkReport(msgKey: string): Promise<DeliveryReport> {
+  const apiKey = process.env.KAKAO_API_KEY;
+  const userId = process.env.KAKAO_USER_ID;
+  if (!apiKey || !userId) return { state: "PENDING", code: "CONFIG_MISSING" };
+
+  const body = new URLSearchParams({ apikey: apiKey, userid: userId, mid: msgKey, page: "1", limit: "1" });
+
+  try {
+    const res = await fetch(`${BASE_URL}/akv10/history/detail/`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body:    body.toString(),
+      signal:  AbortSignal.timeout(10_000),
+    });
+    if (!res.ok) return { state: "PENDING", code: `HTTP_${res.status}` };
+
+    const data = (await res.json()) as {
+      code:  number;
+      list?: Array<{ rslt?: string; rslt_message?: string; rsltdate?: string; reportdate?: string }>;
+    };
+    const item = data.code === 0 ? data.list?.[0] : undefined;
+    if (!item?.rslt) return { state: "PENDING" };
+
+    return {
+      state:   item.rslt === "0" ? "DELIVERED" : "FAILED",
+      code:    item.rslt,
+      message: item.rslt_message,
+      at:      parseProviderTime(item.rsltdate ?? item.reportdate),
+    };
+  } catch {
+    return { state: "PENDING", code: "FETCH_ERROR" };
+  }
+}
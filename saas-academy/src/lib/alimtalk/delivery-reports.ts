@@ -0,0 +1,128 @@
+/**
+ * src/lib/alimtalk/delivery-reports.ts
+ *
+ * Delivery-report poller: a SENT NotificationQueue row only means the
+ * provider accepted the request. This job asks the provider, by
+ * providerMsgKey, whether the message actually reached the handset.
+ *
+ * Called from the "deliveryReports" job (POST /api/internal/notifications/
+ * delivery-reports, every 5 minutes).
+ *
+ * Outcome per row:
+ *  - DELIVERED – deliveredAt = provider result time
+ *  - FAILED    – delivery failed; AlimTalk rows get an SMS fallback row when
+ *                the academy has one configured (see sms-fallback.ts), and
+ *                are then recorded as FALLBACK instead
+ *  - pending   – only deliveryCheckedAt moves; polled again after
+ *                RECHECK_MINUTES, until REPORT_WINDOW_HOURS after sending
+ *
+ * deliveryReportedAt is the provider's result time in both final cases.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { fetchAlimtalkReport } from "@/lib/alimtalk/client";
+import { fetchSmsReport } from "@/lib/alimtalk/sms-client";
+import { enqueueSmsFallback } from "@/lib/alimtalk/sms-fallback";
+
+const DEFAULT_BATCH = 100;
+
+/** Minimum gap between two polls of the same row */
+const RECHECK_MINUTES = 5;
+
+/** Provider keeps results for a limited time; stop asking after this */
+export const REPORT_WINDOW_HOURS = 72;
+
+export interface DeliveryReportResult {
+  checked:   number;
+  delivered: number;
+  failed:    number;
+  fallbacks: number;
+  pending:   number;
+}
+
+export async function pollDeliveryReports(
+  batchSize = DEFAULT_BATCH,
+  now: Date = new Date(),
+): Promise<DeliveryReportResult> {
+  const rows = await prisma.notificationQueue.findMany({
+    where: {
+      status:         "SENT",
+      deliveryStatus: null,
+      providerMsgKey: { not: null },
+      processedAt:    { gte: new Date(now.getTime() - REPORT_WINDOW_HOURS * 3_600_000) },
+      OR: [
+        { deliveryCheckedAt: null },
+        { deliveryCheckedAt: { lt: new Date(now.getTime() - RECHECK_MINUTES * 60_000) } },
+      ],
+    },
+    orderBy: { processedAt: "asc" },
+    take:    batchSize,
+  });
+
+  const result: DeliveryReportResult = { checked: rows.length, delivered: 0, failed: 0, fallbacks: 0, pending: 0 };
+
+  for (const row of rows) {
+    const report = row.channel === "SMS"
+      ? await fetchSmsReport(row.providerMsgKey!)
+      : await fetchAlimtalkReport(row.providerMsgKey!);
+
+    if (report.state === "PENDING") {
+      await prisma.notificationQueue.update({
+        where: { id: row.id },
+        data:  { deliveryCheckedAt: now },
+      });
+      result.pending++;
+      continue;
+    }
+
+    if (report.state === "DELIVERED") {
+      await prisma.notificationQueue.update({
+        where: { id: row.id },
+        data:  {
+          deliveryStatus:     "DELIVERED",
+          deliveryCode:       report.code ?? null,
+          deliveryMessage:    report.message ?? null,
+          deliveredAt:        report.at ?? now,
+          deliveryReportedAt: report.at ?? now,
+          deliveryCheckedAt:  now,
+        },
+      });
+      result.delivered++;
+      continue;
+    }
+
+    // ── Delivery failed ────────────────────────────────────────────────────
+    const fallbackId = await enqueueSmsFallback(
+      { ...row, errorCode: report.code ?? null },
+      now,
+    ).catch((e) => {
+      console.error("[AlimTalk] SMS fallback enqueue failed:", e);
+      return null;
+    });
+
+    await prisma.notificationQueue.update({
+      where: { id: row.id },
+      data:  {
+        deliveryStatus:     fallbackId ? "FALLBACK" : "FAILED",
+        deliveryCode:       report.code ?? null,
+        deliveryMessage:    report.message ?? null,
+        deliveryReportedAt: report.at ?? now,
+        deliveryCheckedAt:  now,
+      },
+    });
+
+    await audit({
+      academyId:  row.academyId,
+      action:     `${row.channel === "SMS" ? "sms" : "alimtalk"}.undelivered`,
+      targetType: "NotificationQueue",
+      targetId:   row.id,
+      metaJson:   { phone: row.recipientPhone, code: report.code, message: report.message, fallbackId },
+    });
+
+    result.failed++;
+    if (fallbackId) result.fallbacks++;
+  }
+
+  return result;
+}
@@ -0,0 +1,157 @@
+/**
+ * src/lib/alimtalk/enrollment-notifier.ts
+ *
+ * Enqueue AlimTalk notifications when a waitlisted student is given a seat
+ * in a class (waitlist.service.ts).
+ *
+ * Flow:
+ *  1. Load academy notification settings – bail if disabled or
+ *     sendOnWaitlistPromotion is off.
+ *  2. Load the student's active, opted-in ParentContacts. Students have no
+ *     phone number of their own; they see the change under /me/schedule.
+ *  3. Load WAITLIST_PROMOTED templates, one per language.
+ *  4. Queue outbox rows (one per contact) in the contact's preferredLanguage
+ *     or else Korean, holding them until quiet hours end.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import {
+  buildWaitlistVars,
+  DEFAULT_LANGUAGE,
+  normalizeLanguage,
+  toKSTDateString,
+  toKSTTimeString,
+} from "@/lib/alimtalk/templates";
+import { isInQuietHours, nextQuietHoursEnd } from "@/lib/alimtalk/quiet-hours";
+import { withContactVars } from "@/lib/alimtalk/preference-link";
+import { enqueueOutbox } from "@/lib/alimtalk/outbox";
+import type { EnqueueResult } from "@/lib/alimtalk/attendance-notifier";
+
+const TEMPLATE_TYPE = "WAITLIST_PROMOTED" as const;
+
+export interface EnqueueWaitlistNotificationParams {
+  enrollmentId: string;
+  actorUserId?: string;
+}
+
+export async function enqueueWaitlistPromotedNotification(
+  params: EnqueueWaitlistNotificationParams,
+): Promise<EnqueueResult> {
+  const { enrollmentId, actorUserId } = params;
+
+  const enrollment = await prisma.classEnrollment.findUnique({
+    where:   { id: enrollmentId },
+    include: {
+      student: { select: { name: true } },
+      class:   { include: { teacher: { select: { name: true } } } },
+    },
+  });
+  if (!enrollment) return { skipped: true, reason: "Enrollment not found", queueIds: [] };
+
+  const { academyId, studentUserId } = enrollment;
+
+  // ── 1. Settings ────────────────────────────────────────────────────────────
+  const settings = await prisma.academyNotificationSettings.findUnique({
+    where: { academyId },
+  });
+  if (!settings?.alimtalkEnabled) {
+    return { skipped: true, reason: "AlimTalk disabled for academy", queueIds: [] };
+  }
+  if (!settings.sendOnWaitlistPromotion) {
+    return { skipped: true, reason: "sendOnWaitlistPromotion=false", queueIds: [] };
+  }
+
+  // ── 2. Parent contacts ─────────────────────────────────────────────────────
+  const contacts = await prisma.parentContact.findMany({
+    where: {
+      academyId,
+      studentUserId,
+      notificationOptIn: true,
+      status:            "ACTIVE",
+    },
+  });
+  if (contacts.length === 0) {
+    return { skipped: true, reason: "No opted-in parent contacts", queueIds: [] };
+  }
+
+  // ── 3. Templates ───────────────────────────────────────────────────────────
+  const templates = await prisma.alimtalkTemplate.findMany({
+    where: { academyId, type: TEMPLATE_TYPE, isActive: true },
+  });
+  if (templates.length === 0) {
+    return { skipped: true, reason: `No active ${TEMPLATE_TYPE} template for academy`, queueIds: [] };
+  }
+  const templateByLanguage = new Map(
+    templates.map((t) => [normalizeLanguage(t.language), t]),
+  );
+
+  // ── 4. Quiet hours ─────────────────────────────────────────────────────────
+  const now = new Date();
+  const scheduledAt =
+    settings.quietHoursEnabled &&
+    isInQuietHours(settings.quietHoursStart, settings.quietHoursEnd, now)
+      ? nextQuietHoursEnd(settings.quietHoursEnd, now)
+      : now;
+
+  const [academy, firstSession] = await Promise.all([
+    prisma.academy.findUnique({ where: { id: academyId }, select: { name: true } }),
+    prisma.classSession.findFirst({
+      where:   { classId: enrollment.classId, status: "SCHEDULED", startsAt: { gt: now } },
+      orderBy: { startsAt: "asc" },
+      select:  { startsAt: true },
+    }),
+  ]);
+
+  // ── 5. Queue rows ──────────────────────────────────────────────────────────
+  const queueIds: string[] = [];
+  for (const contact of contacts) {
+    const template =
+      templateByLanguage.get(normalizeLanguage(contact.preferredLanguage)) ??
+      templateByLanguage.get(DEFAULT_LANGUAGE);
+    if (!template) continue;
+
+    const templateVars = buildWaitlistVars({
+      academyName: academy?.name ?? "",
+      studentName: enrollment.student.name,
+      className:   enrollment.class.name,
+      teacherName: enrollment.class.teacher?.name ?? "선생님",
+      sessionDate: firstSession ? toKSTDateString(firstSession.startsAt) : undefined,
+      sessionTime: firstSession ? toKSTTimeString(firstSession.startsAt) : undefined,
+    });
+
+    const row = await enqueueOutbox({
+      academyId,
+      channel:          "KAKAO_ALIMTALK",
+      eventType:        "ENROLLMENT",
+      enrollmentId,
+      studentUserId,
+      parentContactId:  contact.id,
+      recipientPhone:   contact.phone,
+      templateCode:     template.templateCode,
+      senderKey:        template.senderKey,
+      templateVarsJson: await withContactVars(templateVars, contact.id),
+      scheduledAt,
+    }, now);
+    queueIds.push(row.id);
+  }
+
+  if (queueIds.length === 0) {
+    return {
+      skipped: true,
+      reason:  `No active ${TEMPLATE_TYPE} template in the contacts' languages or Korean`,
+      queueIds: [],
+    };
+  }
+
+  await audit({
+    actorUserId: actorUserId ?? null,
+    academyId,
+    action:      "enrollment.notification.queued",
+    targetType:  "ClassEnrollment",
+    targetId:    enrollmentId,
+    metaJson:    { templateType: TEMPLATE_TYPE, queueIds, contactCount: contacts.length },
+  });
+
+  return { skipped: false, queueIds };
+}
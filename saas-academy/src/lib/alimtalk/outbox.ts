@@ -0,0 +1,149 @@
+/**
+ * src/lib/alimtalk/outbox.ts
+ *
+ * Notification outbox: NotificationQueue is the one table every outgoing
+ * message goes through, whatever triggered it.
+ *
+ *   eventType   ATTENDANCE – attendance-notifier.ts (status changes)
+ *               BILLING    – billing-notifier.ts (invoice events, reminders)
+ *               MANUAL     – admin sends via POST /api/notifications
+ *   channel     KAKAO_ALIMTALK, or SMS for fallback rows (sms-fallback.ts)
+ *
+ * Producers call enqueueOutbox(); the queue worker (queue-worker.ts)
+ * delivers due rows under the single retry policy below, and the admin
+ * log (GET /api/notifications) reads the same rows.
+ *
+ * The older `notifications` table (Notification model) is no longer
+ * written. migrateLegacyNotifications() copies its rows into the outbox;
+ * run it once with `npm run db:migrate-notifications`.
+ */
+
+import { prisma } from "@/lib/db/client";
+import type { NotificationQueue, NotificationQueueStatus, Prisma } from "@prisma/client";
+
+// ─── Retry policy ─────────────────────────────────────────────────────────────
+
+/** Delivery attempts per row before it is marked FAILED */
+export const OUTBOX_MAX_ATTEMPTS = 3;
+
+/** Back-off after a failed attempt, in minutes: attempt 1→5m, 2→30m, 3→120m */
+export const BACKOFF_MINUTES = [5, 30, 120];
+
+/** When to try again after `attempts` failed attempts. */
+export function nextRetryAt(attempts: number, now: Date = new Date()): Date {
+  const minutes = BACKOFF_MINUTES[attempts - 1] ?? BACKOFF_MINUTES[BACKOFF_MINUTES.length - 1];
+  return new Date(now.getTime() + minutes * 60_000);
+}
+
+// ─── Enqueue ──────────────────────────────────────────────────────────────────
+
+/** A new outbox row; status, attempts and retry timing are set here. */
+export type OutboxMessage = Omit<
+  Prisma.NotificationQueueUncheckedCreateInput,
+  "id" | "status" | "attempts" | "maxAttempts" | "nextRetryAt"
+>;
+
+/**
+ * Queue a message. It becomes due at `scheduledAt` (default: now), e.g.
+ * the end of an academy's quiet hours.
+ */
+export async function enqueueOutbox(
+  message: OutboxMessage,
+  now: Date = new Date(),
+): Promise<NotificationQueue> {
+  const dueAt = message.scheduledAt ? new Date(message.scheduledAt) : now;
+  return prisma.notificationQueue.create({
+    data: {
+      ...message,
+      status:      "PENDING",
+      maxAttempts: OUTBOX_MAX_ATTEMPTS,
+      scheduledAt: dueAt,
+      nextRetryAt: dueAt,
+    },
+  });
+}
+
+// ─── Legacy migration ─────────────────────────────────────────────────────────
+
+export interface LegacyMigrationResult {
+  /** Legacy rows read */
+  scanned:  number;
+  /** Outbox rows created (rows migrated by an earlier run are not counted) */
+  migrated: number;
+  /** Rows with no outbox equivalent (EMAIL channel) */
+  skipped:  number;
+}
+
+/**
+ * Copy Notification rows into the outbox as MANUAL rows. Idempotent: each
+ * outbox row remembers its source (legacyNotificationId), so re-running
+ * only picks up what is left.
+ *
+ * Status mapping:
+ *   SENT              → SENT (processedAt = sentAt)
+ *   FAILED            → FAILED
+ *   PENDING, RETRYING → PENDING, due now, when attempts remain; else FAILED
+ *
+ * Legacy rows were sent with the KAKAO_SENDER_KEY environment sender, so
+ * that key is carried over for rows still to be delivered.
+ */
+export async function migrateLegacyNotifications(
+  batchSize = 500,
+  now: Date = new Date(),
+): Promise<LegacyMigrationResult> {
+  const senderKey = process.env.KAKAO_SENDER_KEY ?? "";
+  const result: LegacyMigrationResult = { scanned: 0, migrated: 0, skipped: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.notification.findMany({
+      orderBy: { id: "asc" },
+      take:    batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+    result.scanned += rows.length;
+
+    const data: Prisma.NotificationQueueCreateManyInput[] = [];
+    for (const n of rows) {
+      if (n.channel !== "KAKAO_ALIM") {
+        result.skipped++;
+        continue;
+      }
+
+      const open   = n.status === "PENDING" || n.status === "RETRYING";
+      const status: NotificationQueueStatus = n.status === "SENT"
+        ? "SENT"
+        : open && n.attempts < OUTBOX_MAX_ATTEMPTS ? "PENDING" : "FAILED";
+
+      data.push({
+        academyId:            n.academyId,
+        channel:              "KAKAO_ALIMTALK",
+        eventType:            "MANUAL",
+        studentUserId:        n.recipientId,
+        recipientPhone:       n.phone,
+        templateCode:         n.templateCode,
+        senderKey,
+        templateVarsJson:     n.params ?? {},
+        status,
+        attempts:             n.attempts,
+        maxAttempts:          OUTBOX_MAX_ATTEMPTS,
+        nextRetryAt:          status === "PENDING" ? now : null,
+        scheduledAt:          n.createdAt,
+        processedAt:          status === "SENT" ? n.sentAt ?? n.updatedAt : null,
+        errorMessage:         n.lastError,
+        legacyNotificationId: n.id,
+        createdAt:            n.createdAt,
+      });
+    }
+
+    if (data.length > 0) {
+      const created = await prisma.notificationQueue.createMany({ data, skipDuplicates: true });
+      result.migrated += created.count;
+    }
+    if (rows.length < batchSize) break;
+  }
+
+  return result;
+}
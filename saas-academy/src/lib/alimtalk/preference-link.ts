@@ -0,0 +1,80 @@
+/**
+ * src/lib/alimtalk/preference-link.ts
+ *
+ * Signed, expiring links that let a parent manage their own notification
+ * consent without an account.
+ *
+ * Every queued message carries #{preferenceUrl} for its contact:
+ *   {APP_URL}/notification-preferences/{token}
+ *
+ * The token is an HS256 JWT (jose) naming the ParentContact. It proves the
+ * link came from us and expires after NOTIFICATION_LINK_EXPIRES (default
+ * 30d); a later message always brings a fresh one.
+ *
+ * Environment variables:
+ *   NOTIFICATION_LINK_SECRET  – signing secret, at least 32 characters
+ *   NOTIFICATION_LINK_EXPIRES – token lifetime ("30d", "72h", …)
+ */
+
+import { SignJWT, jwtVerify } from "jose";
+
+const TOKEN_TYPE = "notification-preferences";
+const MIN_SECRET_LENGTH = 32;
+
+function hasUsableSecret(): boolean {
+  return (process.env.NOTIFICATION_LINK_SECRET?.length ?? 0) >= MIN_SECRET_LENGTH;
+}
+
+function getSecret(): Uint8Array {
+  if (!hasUsableSecret()) {
+    throw new Error(`NOTIFICATION_LINK_SECRET must be set to a string of at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return new TextEncoder().encode(process.env.NOTIFICATION_LINK_SECRET);
+}
+
+/** Sign a preference token for one parent contact. */
+export async function signPreferenceToken(parentContactId: string): Promise<string> {
+  return new SignJWT({ type: TOKEN_TYPE })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(parentContactId)
+    .setIssuedAt()
+    .setExpirationTime(process.env.NOTIFICATION_LINK_EXPIRES ?? "30d")
+    .sign(getSecret());
+}
+
+/**
+ * Verify a preference token.
+ * Returns the ParentContact id, or null when the token is forged, expired
+ * or not a preference token.
+ */
+export async function verifyPreferenceToken(token: string): Promise<string | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), { algorithms: ["HS256"] });
+    if (payload.type !== TOKEN_TYPE || typeof payload.sub !== "string") return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+/** Public preference page URL for one parent contact (#{preferenceUrl}). */
+export async function preferenceUrl(parentContactId: string): Promise<string> {
+  const baseUrl = process.env.APP_URL ?? "http://localhost:3001";
+  return `${baseUrl}/notification-preferences/${await signPreferenceToken(parentContactId)}`;
+}
+
+/**
+ * Add the per-contact variables to a template variable map. Without a
+ * usable signing secret (unset or too short) the link is left empty (and
+ * logged) rather than holding back the message itself.
+ */
+export async function withContactVars(
+  vars: Record<string, string>,
+  parentContactId: string,
+): Promise<Record<string, string>> {
+  if (!hasUsableSecret()) {
+    console.warn(`[AlimTalk] NOTIFICATION_LINK_SECRET not set or shorter than ${MIN_SECRET_LENGTH} characters – #{preferenceUrl} left empty`);
+    return { ...vars, preferenceUrl: "" };
+  }
+  return { ...vars, preferenceUrl: await preferenceUrl(parentContactId) };
+}
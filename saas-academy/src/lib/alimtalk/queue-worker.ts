@@ -1,35 +1,59 @@
 /**
  * src/lib/alimtalk/queue-worker.ts
  *
- * Queue worker: processes pending NotificationQueue rows.
+ * Queue worker: delivers due rows of the notification outbox (outbox.ts) –
+ * attendance, billing and manual messages alike, both AlimTalk and their
+ * SMS/LMS fallbacks (channel = SMS, see sms-fallback.ts).
  *
  * Designed to be called from a cron-style route handler
- * (POST /api/internal/notifications/process).
+ * (POST /api/internal/notifications/process). Manual sends deliver their
+ * row right away through deliverQueueRow().
  *
  * Algorithm:
- *  1. Fetch up to `batchSize` PENDING rows where nextRetryAt <= now.
+ *  1. Pick up to `batchSize` PENDING rows where nextRetryAt <= now, fairly
+ *     across academies and within each academy's per-minute rate; rows of
+ *     academies over their monthly cap are SKIPPED (throttle.ts).
  *  2. Mark each row PROCESSING (atomic check to avoid double-processing).
- *  3. Call sendAlimtalk().
+ *  3. Call sendAlimtalk() (or sendSms() for SMS rows).
  *  4a. Success → status=SENT, providerMsgKey, processedAt.
- *  4b. Failure → attempts++; if < maxAttempts: status=PENDING, nextRetryAt with
- *                exponential back-off; else status=FAILED.
+ *  4b. Failure → attempts++; if < maxAttempts: status=PENDING, nextRetryAt per
+ *                the outbox back-off policy; else status=FAILED.
+ *                A Kakao rejection fails the AlimTalk row at once. A FAILED
+ *                AlimTalk row gets an SMS fallback row when the academy has
+ *                fallback configured.
  *  5. Return summary.
  */
 
 import { prisma }        from "@/lib/db/client";
 import { sendAlimtalk }  from "@/lib/alimtalk/client";
+import { sendSms }       from "@/lib/alimtalk/sms-client";
+import { enqueueSmsFallback, isKakaoRejection } from "@/lib/alimtalk/sms-fallback";
+import { nextRetryAt }   from "@/lib/alimtalk/outbox";
+import { selectDueRows } from "@/lib/alimtalk/throttle";
 import { audit }         from "@/lib/auth/audit";
+import type { NotificationQueue } from "@prisma/client";
 
 const DEFAULT_BATCH = 50;
 
-// Exponential back-off delays in minutes: attempt 1→5m, 2→30m, 3→120m
-const BACKOFF_MINUTES = [5, 30, 120];
-
 export interface WorkerResult {
   processed: number;
   succeeded: number;
   failed:    number;
   skipped:   number;
+  /** SMS fallback rows queued for failed AlimTalk rows */
+  fallbacks: number;
+  /** Due rows SKIPPED because their academy reached its monthly cap */
+  overCap:   number;
+}
+
+/** Outcome of one delivery attempt */
+export interface DeliveryOutcome {
+  /** SENT, PENDING (retry scheduled) or FAILED; "CLAIMED" when another worker has the row */
+  status:        "SENT" | "PENDING" | "FAILED" | "CLAIMED";
+  errorCode?:    string | null;
+  errorMessage?: string | null;
+  /** SMS fallback row queued for a failed AlimTalk row */
+  fallbackId?:   string | null;
 }
 
 export async function processNotificationQueue(
@@ -37,109 +61,135 @@ export async function processNotificationQueue(
 ): Promise<WorkerResult> {
   const now = new Date();
 
-  // ── 1. Fetch due rows ──────────────────────────────────────────────────────
-  const rows = await prisma.notificationQueue.findMany({
-    where: {
-      status:      { in: ["PENDING"] },
-      nextRetryAt: { lte: now },
-    },
-    orderBy: { nextRetryAt: "asc" },
-    take:    batchSize,
-  });
+  // ── 1. Pick due rows ───────────────────────────────────────────────────────
+  const { rows, overCap } = await selectDueRows(batchSize, now);
 
   let succeeded = 0;
   let failed    = 0;
   let skipped   = 0;
+  let fallbacks = 0;
 
   for (const row of rows) {
-    // ── 2. Claim row (optimistic lock via status update) ───────────────────
-    const claimed = await prisma.notificationQueue.updateMany({
-      where:  { id: row.id, status: "PENDING" },
-      data:   { status: "PROCESSING" },
-    });
+    const outcome = await deliverQueueRow(row, now);
+    if (outcome.status === "CLAIMED") skipped++;
+    if (outcome.status === "SENT") succeeded++;
+    if (outcome.status === "FAILED") failed++;
+    if (outcome.fallbackId) fallbacks++;
+  }
 
-    if (claimed.count === 0) {
-      skipped++;
-      continue; // Another worker beat us to it
-    }
-
-    // ── 3. Send ────────────────────────────────────────────────────────────
-    const result = await sendAlimtalk({
-      senderKey:    row.senderKey,
-      templateCode: row.templateCode,
-      phone:        row.recipientPhone,
-      variables:    row.templateVarsJson as Record<string, string>,
-    });
+  return {
+    processed: rows.length,
+    succeeded,
+    failed,
+    skipped,
+    fallbacks,
+    overCap,
+  };
+}
 
-    const newAttempts = row.attempts + 1;
-
-    if (result.success) {
-      // ── 4a. Success ──────────────────────────────────────────────────────
-      await prisma.notificationQueue.update({
-        where: { id: row.id },
-        data:  {
-          status:         "SENT",
-          attempts:       newAttempts,
-          processedAt:    now,
-          providerMsgKey: result.msgKey ?? null,
-          errorCode:      null,
-          errorMessage:   null,
-        },
-      });
+/** Claim one PENDING row and make a delivery attempt (steps 2–4). */
+export async function deliverQueueRow(
+  row: NotificationQueue,
+  now: Date = new Date(),
+): Promise<DeliveryOutcome> {
+  // ── 2. Claim row (optimistic lock via status update) ─────────────────────
+  const claimed = await prisma.notificationQueue.updateMany({
+    where:  { id: row.id, status: "PENDING" },
+    data:   { status: "PROCESSING" },
+  });
 
-      await audit({
-        academyId:  row.academyId,
-        action:     "alimtalk.sent",
-        targetType: "NotificationQueue",
-        targetId:   row.id,
-        metaJson:   {
-          phone:    row.recipientPhone,
-          msgKey:   result.msgKey,
-          attempts: newAttempts,
-        },
-      });
+  if (claimed.count === 0) {
+    return { status: "CLAIMED" }; // Another worker beat us to it
+  }
 
-      succeeded++;
-    } else {
-      // ── 4b. Failure ──────────────────────────────────────────────────────
-      const exhausted = newAttempts >= row.maxAttempts;
-      const backoffMs = (BACKOFF_MINUTES[newAttempts - 1] ?? 120) * 60_000;
-      const nextRetry = exhausted
-        ? null
-        : new Date(now.getTime() + backoffMs);
-
-      await prisma.notificationQueue.update({
-        where: { id: row.id },
-        data:  {
-          status:       exhausted ? "FAILED" : "PENDING",
-          attempts:     newAttempts,
-          nextRetryAt:  nextRetry,
-          errorCode:    result.errorCode ?? null,
-          errorMessage: result.errorMessage ?? null,
-        },
+  // ── 3. Send ──────────────────────────────────────────────────────────────
+  const isSms  = row.channel === "SMS";
+  const result = isSms
+    ? await sendSms({
+        sender: row.senderNumber ?? "",
+        phone:  row.recipientPhone,
+        text:   row.messageText ?? "",
+      })
+    : await sendAlimtalk({
+        senderKey:    row.senderKey,
+        templateCode: row.templateCode,
+        phone:        row.recipientPhone,
+        variables:    row.templateVarsJson as Record<string, string>,
       });
+  const action = isSms ? "sms" : "alimtalk";
+
+  const newAttempts = row.attempts + 1;
+
+  if (result.success) {
+    // ── 4a. Success ────────────────────────────────────────────────────────
+    await prisma.notificationQueue.update({
+      where: { id: row.id },
+      data:  {
+        status:         "SENT",
+        attempts:       newAttempts,
+        processedAt:    now,
+        providerMsgKey: result.msgKey ?? null,
+        errorCode:      null,
+        errorMessage:   null,
+      },
+    });
 
-      if (exhausted) {
-        await audit({
-          academyId:  row.academyId,
-          action:     "alimtalk.failed",
-          targetType: "NotificationQueue",
-          targetId:   row.id,
-          metaJson:   {
-            phone:       row.recipientPhone,
-            error:       result.errorMessage,
-            attempts:    newAttempts,
-          },
-        });
-        failed++;
-      }
-    }
+    await audit({
+      academyId:  row.academyId,
+      action:     `${action}.sent`,
+      targetType: "NotificationQueue",
+      targetId:   row.id,
+      metaJson:   {
+        phone:    row.recipientPhone,
+        msgKey:   result.msgKey,
+        attempts: newAttempts,
+        ...("messageType" in result ? { messageType: result.messageType } : {}),
+      },
+    });
+
+    return { status: "SENT" };
   }
 
-  return {
-    processed: rows.length,
-    succeeded,
-    failed,
-    skipped,
+  // ── 4b. Failure ──────────────────────────────────────────────────────────
+  const rejected  = !isSms && isKakaoRejection(result.errorCode);
+  const exhausted = rejected || newAttempts >= row.maxAttempts;
+  const error     = {
+    errorCode:    result.errorCode ?? null,
+    errorMessage: result.errorMessage ?? null,
   };
+
+  await prisma.notificationQueue.update({
+    where: { id: row.id },
+    data:  {
+      status:      exhausted ? "FAILED" : "PENDING",
+      attempts:    newAttempts,
+      nextRetryAt: exhausted ? null : nextRetryAt(newAttempts, now),
+      ...error,
+    },
+  });
+
+  if (!exhausted) return { status: "PENDING", ...error };
+
+  await audit({
+    academyId:  row.academyId,
+    action:     `${action}.failed`,
+    targetType: "NotificationQueue",
+    targetId:   row.id,
+    metaJson:   {
+      phone:       row.recipientPhone,
+      error:       result.errorMessage,
+      attempts:    newAttempts,
+      rejected,
+    },
+  });
+
+  const fallbackId = await enqueueSmsFallback(
+    { ...row, errorCode: result.errorCode ?? null },
+    now,
+  ).catch((e) => {
+    console.error("[AlimTalk] SMS fallback enqueue failed:", e);
+    return null;
+  });
+
+  return { status: "FAILED", ...error, fallbackId };
 }
@@ -0,0 +1,168 @@
+/**
+ * src/lib/alimtalk/schedule-notifier.ts
+ *
+ * Enqueue AlimTalk notifications when a class session changes for a student:
+ *  - RESCHEDULED – a session moved to another time (every student on it)
+ *  - EXTRA       – an ad-hoc session added to a class (enrolled students)
+ *  - MAKEUP      – a student booked into a make-up session
+ *
+ * Flow:
+ *  1. Load academy notification settings – bail if disabled or
+ *     sendOnScheduleChange is off.
+ *  2. Load active, opted-in ParentContacts of the students. Schedule changes
+ *     are service notices: there is no per-event choice for them.
+ *  3. Load SESSION_<event> templates, one per language.
+ *  4. Queue outbox rows (one per contact) in the contact's preferredLanguage
+ *     or else Korean, holding them until quiet hours end.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import {
+  buildScheduleVars,
+  DEFAULT_LANGUAGE,
+  normalizeLanguage,
+  toKSTDateString,
+  toKSTTimeString,
+} from "@/lib/alimtalk/templates";
+import { isInQuietHours, nextQuietHoursEnd } from "@/lib/alimtalk/quiet-hours";
+import { withContactVars } from "@/lib/alimtalk/preference-link";
+import { enqueueOutbox } from "@/lib/alimtalk/outbox";
+import type { EnqueueResult } from "@/lib/alimtalk/attendance-notifier";
+import type { AlimtalkTemplateType } from "@prisma/client";
+
+export type ScheduleEvent = "RESCHEDULED" | "EXTRA" | "MAKEUP";
+
+export interface EnqueueScheduleNotificationParams {
+  sessionId:         string;
+  event:             ScheduleEvent;
+  studentUserIds:    string[];
+  /** RESCHEDULED: where the session was before; MAKEUP: the missed session */
+  previousStartsAt?: Date;
+  actorUserId?:      string;
+}
+
+export async function enqueueScheduleNotification(
+  params: EnqueueScheduleNotificationParams,
+): Promise<EnqueueResult> {
+  const { sessionId, event, studentUserIds, previousStartsAt, actorUserId } = params;
+  if (studentUserIds.length === 0) {
+    return { skipped: true, reason: "No students affected", queueIds: [] };
+  }
+
+  const session = await prisma.classSession.findUnique({
+    where:   { id: sessionId },
+    include: { class: { include: { teacher: true } } },
+  });
+  if (!session) return { skipped: true, reason: "Session not found", queueIds: [] };
+
+  const { academyId } = session;
+
+  // ── 1. Settings ────────────────────────────────────────────────────────────
+  const settings = await prisma.academyNotificationSettings.findUnique({
+    where: { academyId },
+  });
+  if (!settings?.alimtalkEnabled) {
+    return { skipped: true, reason: "AlimTalk disabled for academy", queueIds: [] };
+  }
+  if (!settings.sendOnScheduleChange) {
+    return { skipped: true, reason: "sendOnScheduleChange=false", queueIds: [] };
+  }
+
+  // ── 2. Parent contacts ─────────────────────────────────────────────────────
+  const contacts = await prisma.parentContact.findMany({
+    where: {
+      academyId,
+      studentUserId:     { in: studentUserIds },
+      notificationOptIn: true,
+      status:            "ACTIVE",
+    },
+  });
+  if (contacts.length === 0) {
+    return { skipped: true, reason: "No opted-in parent contacts", queueIds: [] };
+  }
+
+  // ── 3. Templates ───────────────────────────────────────────────────────────
+  const templateType = `SESSION_${event}` as AlimtalkTemplateType;
+  const templates = await prisma.alimtalkTemplate.findMany({
+    where: { academyId, type: templateType, isActive: true },
+  });
+  if (templates.length === 0) {
+    return { skipped: true, reason: `No active ${templateType} template for academy`, queueIds: [] };
+  }
+  const templateByLanguage = new Map(
+    templates.map((t) => [normalizeLanguage(t.language), t]),
+  );
+
+  const [academy, students] = await Promise.all([
+    prisma.academy.findUnique({ where: { id: academyId }, select: { name: true } }),
+    prisma.user.findMany({
+      where:  { id: { in: studentUserIds } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const studentName = new Map(students.map((s) => [s.id, s.name]));
+
+  // ── 4. Quiet hours ─────────────────────────────────────────────────────────
+  const now = new Date();
+  const scheduledAt =
+    settings.quietHoursEnabled &&
+    isInQuietHours(settings.quietHoursStart, settings.quietHoursEnd, now)
+      ? nextQuietHoursEnd(settings.quietHoursEnd, now)
+      : now;
+
+  // ── 5. Queue rows ──────────────────────────────────────────────────────────
+  const queueIds: string[] = [];
+  for (const contact of contacts) {
+    const template =
+      templateByLanguage.get(normalizeLanguage(contact.preferredLanguage)) ??
+      templateByLanguage.get(DEFAULT_LANGUAGE);
+    if (!template) continue;
+
+    const templateVars = buildScheduleVars({
+      academyName:  academy?.name ?? "",
+      studentName:  studentName.get(contact.studentUserId) ?? "",
+      className:    session.class.name,
+      sessionDate:  toKSTDateString(session.startsAt),
+      sessionTime:  toKSTTimeString(session.startsAt),
+      teacherName:  session.class.teacher?.name ?? "선생님",
+      previousDate: previousStartsAt ? toKSTDateString(previousStartsAt) : undefined,
+      previousTime: previousStartsAt ? toKSTTimeString(previousStartsAt) : undefined,
+    });
+
+    const row = await enqueueOutbox({
+      academyId,
+      channel:          "KAKAO_ALIMTALK",
+      eventType:        "SCHEDULE",
+      sessionId,
+      scheduleEvent:    event,
+      studentUserId:    contact.studentUserId,
+      parentContactId:  contact.id,
+      recipientPhone:   contact.phone,
+      templateCode:     template.templateCode,
+      senderKey:        template.senderKey,
+      templateVarsJson: await withContactVars(templateVars, contact.id),
+      scheduledAt,
+    }, now);
+    queueIds.push(row.id);
+  }
+
+  if (queueIds.length === 0) {
+    return {
+      skipped: true,
+      reason:  `No active ${templateType} template in the contacts' languages or Korean`,
+      queueIds: [],
+    };
+  }
+
+  await audit({
+    actorUserId: actorUserId ?? null,
+    academyId,
+    action:      "session.notification.queued",
+    targetType:  "ClassSession",
+    targetId:    sessionId,
+    metaJson:    { event, templateType, queueIds, contactCount: contacts.length },
+  });
+
+  return { skipped: false, queueIds };
+}
@@ -0,0 +1,166 @@
+/**
+ * src/lib/alimtalk/sms-client.ts
+ *
+ * Low-level SMS/LMS client, used as the fallback channel when an AlimTalk
+ * message cannot be delivered (see queue-worker.ts).
+ *
+ * Provider: Aligo SMS REST API (https://apis.aligo.in)
+ *   POST /send/
+ *   POST /sms_list/   – per-recipient delivery state by message id (mid)
+ *
+ * Uses the same KAKAO_API_KEY / KAKAO_USER_ID account as AlimTalk. The
+ * sender number must be pre-registered with the provider (발신번호 사전등록).
+ */
+
+import {
+  parseProviderTime,
+  type AlimtalkSendResult,
+  type DeliveryReport,
+} from "@/lib/alimtalk/client";
+
+export type SmsMessageType = "SMS" | "LMS";
+
+export interface SmsSendParams {
+  /** Registered caller ID: 0212345678 / 01012345678 (digits only) */
+  sender: string;
+  /** Recipient phone: 01012345678 */
+  phone:  string;
+  text:   string;
+  /** LMS subject line; ignored for SMS */
+  title?: string;
+}
+
+export interface SmsSendResult extends AlimtalkSendResult {
+  messageType: SmsMessageType;
+}
+
+const BASE_URL = "https://apis.aligo.in";
+
+/** SMS carries up to 90 bytes (EUC-KR: Hangul 2 bytes); longer texts go as LMS. */
+export const SMS_MAX_BYTES = 90;
+
+export function smsByteLength(text: string): number {
+  let bytes = 0;
+  for (const ch of text) bytes += ch.charCodeAt(0) <= 0x7f ? 1 : 2;
+  return bytes;
+}
+
+export function smsMessageType(text: string): SmsMessageType {
+  return smsByteLength(text) > SMS_MAX_BYTES ? "LMS" : "SMS";
+}
+
+/**
+ * Send one SMS, or LMS when the text is too long for SMS.
+ * Safe to call server-side only.
+ */
+export async function sendSms(params: SmsSendParams): Promise<SmsSendResult> {
+  const messageType = smsMessageType(params.text);
+  const apiKey = process.env.KAKAO_API_KEY;
+  const userId = process.env.KAKAO_USER_ID;
+
+  if (!apiKey || !userId) {
+    console.warn("[SMS] KAKAO_API_KEY or KAKAO_USER_ID not set – message not sent");
+    return {
+      success:      false,
+      messageType,
+      errorCode:    "CONFIG_MISSING",
+      errorMessage: "SMS credentials not configured",
+    };
+  }
+
+  const body = new URLSearchParams({
+    key:      apiKey,
+    user_id:  userId,
+    sender:   params.sender,
+    receiver: params.phone,
+    msg:      params.text,
+    msg_type: messageType,
+    ...(messageType === "LMS" && params.title ? { title: params.title } : {}),
+  });
+
+  try {
+    const res = await fetch(`${BASE_URL}/send/`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body:    body.toString(),
+      signal:  AbortSignal.timeout(10_000),
+    });
+
+    if (!res.ok) {
+      return {
+        success:      false,
+        messageType,
+        errorCode:    `HTTP_${res.status}`,
+        errorMessage: `HTTP error ${res.status}`,
+      };
+    }
+
+    const data = (await res.json()) as {
+      result_code: number | string;
+      message:     string;
+      msg_id?:     number | string;
+    };
+
+    // Aligo: result_code 1 = accepted, negative = error
+    if (Number(data.result_code) !== 1) {
+      return {
+        success:      false,
+        messageType,
+        errorCode:    String(data.result_code),
+        errorMessage: data.message,
+      };
+    }
+
+    return {
+      success: true,
+      messageType,
+      msgKey:  data.msg_id != null ? String(data.msg_id) : undefined,
+    };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { success: false, messageType, errorCode: "FETCH_ERROR", errorMessage: msg };
+  }
+}
+
+/** sms_state values that are not final yet */
+const SMS_PENDING_STATES = ["대기", "전송중", "접수"];
+
+/**
+ * Fetch the delivery state of one SMS/LMS. "발송완료" means delivered; a
+ * pending state or a lookup error reports PENDING; anything else is a
+ * delivery failure (invalid number, handset off past the retry window, ...).
+ */
+export async function fetchSmsReport(msgKey: string): Promise<DeliveryReport> {
+  const apiKey = process.env.KAKAO_API_KEY;
+  const userId = process.env.KAKAO_USER_ID;
+  if (!apiKey || !userId) return { state: "PENDING", code: "CONFIG_MISSING" };
+
+  const body = new URLSearchParams({ key: apiKey, user_id: userId, mid: msgKey, page: "1", page_size: "1" });
+
+  try {
+    const res = await fetch(`${BASE_URL}/sms_list/`, {
+      method:  "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body:    body.toString(),
+      signal:  AbortSignal.timeout(10_000),
+    });
+    if (!res.ok) return { state: "PENDING", code: `HTTP_${res.status}` };
+
+    const data = (await res.json()) as {
+      result_code: number | string;
+      list?:       Array<{ sms_state?: string; send_date?: string }>;
+    };
+    const item = Number(data.result_code) === 1 ? data.list?.[0] : undefined;
+    const state = item?.sms_state?.trim();
+    if (!state || SMS_PENDING_STATES.includes(state)) return { state: "PENDING" };
+
+    return {
+      state:   state === "발송완료" ? "DELIVERED" : "FAILED",
+      code:    state,
+      message: state,
+      at:      parseProviderTime(item?.send_date),
+    };
+  } catch {
+    return { state: "PENDING", code: "FETCH_ERROR" };
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * src/lib/alimtalk/sms-fallback.ts
+ *
+ * SMS/LMS fallback for AlimTalk rows that cannot be delivered – the parent
+ * has no KakaoTalk, blocked the channel, or Kakao keeps failing.
+ *
+ * When the queue worker gives up on a KAKAO_ALIMTALK row (rejected by Kakao
+ * or out of retries), or a delivery report says a SENT row never reached
+ * the handset (delivery-reports.ts), enqueueSmsFallback() is called. If the
+ * academy enabled fallback, has a sender number and a fallback text for the
+ * row's template type, a new channel=SMS row is queued pointing back at the
+ * failed one (fallbackOfId, unique – a row falls back at most once). The
+ * AlimTalk row keeps its own status and error, so both outcomes stay on
+ * record. Like every other row, the SMS goes through enqueueOutbox() and is
+ * held until the academy's quiet hours end.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { enqueueOutbox } from "@/lib/alimtalk/outbox";
+import { renderTemplateText } from "@/lib/alimtalk/templates";
+import { isInQuietHours, nextQuietHoursEnd } from "@/lib/alimtalk/quiet-hours";
+import { Prisma, type AlimtalkTemplateType, type NotificationQueue } from "@prisma/client";
+
+/**
+ * True when Kakao processed the request and refused it (provider result
+ * code). Retrying will not help, so the row goes straight to fallback.
+ * Transport errors (HTTP_*, FETCH_ERROR) and CONFIG_MISSING are retried.
+ */
+export function isKakaoRejection(errorCode: string | null | undefined): boolean {
+  return !!errorCode && /^-?\d+$/.test(errorCode);
+}
+
+/** Template type a queue row was built from (key into smsFallbackTexts). */
+export function queueTemplateType(
+  row: Pick<NotificationQueue, "eventType" | "attendanceStatus" | "billingEvent" | "scheduleEvent">,
+): AlimtalkTemplateType | null {
+  if (row.eventType === "BILLING") {
+    return row.billingEvent ? (`BILLING_${row.billingEvent}` as AlimtalkTemplateType) : null;
+  }
+  if (row.eventType === "SCHEDULE") {
+    return row.scheduleEvent ? (`SESSION_${row.scheduleEvent}` as AlimtalkTemplateType) : null;
+  }
+  if (row.eventType === "ENROLLMENT") return "WAITLIST_PROMOTED";
+  return (row.attendanceStatus as AlimtalkTemplateType | null) ?? null;
+}
+
+/**
+ * Queue the SMS replacement for a failed AlimTalk row.
+ * Returns the new row id, or null when fallback does not apply.
+ */
+export async function enqueueSmsFallback(
+  row: NotificationQueue,
+  now: Date = new Date(),
+): Promise<string | null> {
+  if (row.channel !== "KAKAO_ALIMTALK") return null;
+
+  const settings = await prisma.academyNotificationSettings.findUnique({
+    where:  { academyId: row.academyId },
+    select: {
+      smsFallbackEnabled: true,
+      smsSenderNumber:    true,
+      smsFallbackTexts:   true,
+      quietHoursEnabled:  true,
+      quietHoursStart:    true,
+      quietHoursEnd:      true,
+    },
+  });
+  if (!settings?.smsFallbackEnabled || !settings.smsSenderNumber) return null;
+
+  const type  = queueTemplateType(row);
+  const texts = (settings.smsFallbackTexts ?? {}) as Record<string, string>;
+  const text  = type ? texts[type]?.trim() : undefined;
+  if (!text) return null;
+
+  const messageText = renderTemplateText(text, row.templateVarsJson as Record<string, string>);
+  const scheduledAt =
+    settings.quietHoursEnabled &&
+    isInQuietHours(settings.quietHoursStart, settings.quietHoursEnd, now)
+      ? nextQuietHoursEnd(settings.quietHoursEnd, now)
+      : now;
+
+  let fallback: NotificationQueue;
+  try {
+    fallback = await enqueueOutbox({
+      academyId:        row.academyId,
+      channel:          "SMS",
+      eventType:        row.eventType,
+      attendanceId:     row.attendanceId,
+      attendanceStatus: row.attendanceStatus,
+      invoiceId:        row.invoiceId,
+      billingEvent:     row.billingEvent,
+      attemptNo:        row.attemptNo,
+      sessionId:        row.sessionId,
+      scheduleEvent:    row.scheduleEvent,
+      enrollmentId:     row.enrollmentId,
+      studentUserId:    row.studentUserId,
+      parentContactId:  row.parentContactId,
+      recipientPhone:   row.recipientPhone,
+      templateCode:     row.templateCode,
+      senderKey:        row.senderKey,
+      templateVarsJson: row.templateVarsJson ?? {},
+      fallbackOfId:     row.id,
+      messageText,
+      senderNumber:     settings.smsSenderNumber,
+      scheduledAt,
+    }, now);
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002")) throw e;
+    // Queued by an earlier call for the same row
+    const existing = await prisma.notificationQueue.findUniqueOrThrow({
+      where:  { fallbackOfId: row.id },
+      select: { id: true },
+    });
+    return existing.id;
+  }
+
+  await audit({
+    academyId:  row.academyId,
+    action:     "alimtalk.smsFallback",
+    targetType: "NotificationQueue",
+    targetId:   fallback.id,
+    metaJson:   { fallbackOfId: row.id, kakaoError: row.errorCode ?? null },
+  });
+
+  return fallback.id;
+}
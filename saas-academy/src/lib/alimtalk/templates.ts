@@ -1,7 +1,8 @@
 /**
  * src/lib/alimtalk/templates.ts
  *
- * Template variable builder for attendance-triggered AlimTalk messages.
+ * Template variable builders for attendance-, billing-, schedule- and
+ * waitlist-triggered AlimTalk messages.
  *
  * Kakao template variables use #{varName} syntax.
  * This module normalises the variable map expected by our templates.
@@ -14,8 +15,48 @@
  *   #{sessionTime}   – 수업 시간  (HH:mm)
  *   #{statusText}    – 출결 상태  (예: 결석, 지각)
  *   #{teacherName}   – 선생님 이름
+ *
+ * Billing variables (BILLING_* templates):
+ *   #{academyName}   – 학원 이름
+ *   #{studentName}   – 학생 이름
+ *   #{planName}      – 수강 플랜
+ *   #{amount}        – 청구 금액  (예: 150,000원)
+ *   #{dueDate}       – 결제 예정일 (YYYY-MM-DD)
+ *   #{attemptNo}     – 결제 시도 회차 (예: 2/3)
+ *   #{failureReason} – 실패 사유 (실패 알림에만 값이 있음)
+ *
+ * Schedule variables (SESSION_* templates):
+ *   #{academyName}   – 학원 이름
+ *   #{studentName}   – 학생 이름
+ *   #{className}     – 수업 이름
+ *   #{sessionDate}   – 변경·추가된 수업 날짜 (YYYY-MM-DD)
+ *   #{sessionTime}   – 변경·추가된 수업 시간 (HH:mm)
+ *   #{teacherName}   – 선생님 이름
+ *   #{previousDate}  – 원래 수업 날짜 (변경: 옮기기 전, 보강: 결석한 수업)
+ *   #{previousTime}  – 원래 수업 시간 (추가 수업에는 빈 값)
+ *
+ * Waitlist variables (WAITLIST_PROMOTED):
+ *   #{academyName}   – 학원 이름
+ *   #{studentName}   – 학생 이름
+ *   #{className}     – 수업 이름
+ *   #{teacherName}   – 선생님 이름
+ *   #{sessionDate}   – 첫 수업 날짜 (YYYY-MM-DD, 예정된 수업이 없으면 빈 값)
+ *   #{sessionTime}   – 첫 수업 시간 (HH:mm)
+ *
+ * Per-contact variable (every template, added when the row is queued):
+ *   #{preferenceUrl} – 알림 수신 설정/거부 링크 (preference-link.ts)
+ *
+ * Each AlimtalkTemplate stores its approved body. A body may only use the
+ * variables its builder supplies (missingTemplateVars); renderTemplateText()
+ * produces what the parent reads, for previews and SMS fallback texts.
+ *
+ * Templates are registered per type and language. Attendance messages use
+ * the template in the parent's preferredLanguage, falling back to Korean,
+ * and #{statusText} follows the language of the template actually used.
  */
 
+import type { AlimtalkTemplateType } from "@prisma/client";
+
 export interface AttendanceTemplateVars {
   academyName:  string;
   studentName:  string;
@@ -26,14 +67,45 @@ export interface AttendanceTemplateVars {
   teacherName:  string;
 }
 
-/** Human-readable Korean label for each attendance status */
-export const STATUS_LABEL: Record<string, string> = {
-  ABSENT:  "결석",
-  LATE:    "지각",
-  EXCUSED: "공결",
-  PRESENT: "출석",
+// ── Languages ───────────────────────────────────────────────────────────────
+
+/** Languages a template can be registered in (ParentContact.preferredLanguage) */
+export const NOTIFICATION_LANGUAGES = ["KO", "EN", "ZH", "VI"] as const;
+export type NotificationLanguage = (typeof NOTIFICATION_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: NotificationLanguage = "KO";
+
+export const LANGUAGE_LABEL: Record<NotificationLanguage, string> = {
+  KO: "한국어",
+  EN: "English",
+  ZH: "中文",
+  VI: "Tiếng Việt",
 };
 
+/** Map a stored preferredLanguage to a supported language (Korean if unknown). */
+export function normalizeLanguage(raw: string | null | undefined): NotificationLanguage {
+  const code = (raw ?? "").trim().toUpperCase();
+  return (NOTIFICATION_LANGUAGES as readonly string[]).includes(code)
+    ? (code as NotificationLanguage)
+    : DEFAULT_LANGUAGE;
+}
+
+/** Attendance status labels per language */
+export const STATUS_LABELS: Record<NotificationLanguage, Record<string, string>> = {
+  KO: { ABSENT: "결석",      LATE: "지각",     EXCUSED: "공결",         PRESENT: "출석" },
+  EN: { ABSENT: "Absent",    LATE: "Late",     EXCUSED: "Excused",      PRESENT: "Present" },
+  ZH: { ABSENT: "缺席",      LATE: "迟到",     EXCUSED: "请假",         PRESENT: "出勤" },
+  VI: { ABSENT: "Vắng mặt",  LATE: "Đi muộn",  EXCUSED: "Vắng có phép", PRESENT: "Có mặt" },
+};
+
+/** Human-readable Korean label for each attendance status */
+export const STATUS_LABEL: Record<string, string> = STATUS_LABELS.KO;
+
+/** Status label in the given language, falling back to Korean. */
+export function statusLabel(status: string, language?: string | null): string {
+  return STATUS_LABELS[normalizeLanguage(language)][status] ?? STATUS_LABEL[status] ?? status;
+}
+
 /**
  * Build the template variable map for Kakao from typed inputs.
  * Returns Record<string, string> ready to JSON-stringify into tpl_vars.
@@ -75,3 +147,181 @@ export function toKSTTimeString(utcDate: Date): string {
     hour12:   false,
   });
 }
+
+export interface BillingTemplateVars {
+  academyName:    string;
+  studentName:    string;
+  planName:       string;
+  amount:         number;  // KRW
+  dueDate:        string;  // YYYY-MM-DD
+  attemptNo?:     number;
+  maxAttempts?:   number;
+  failureReason?: string;
+}
+
+/**
+ * Build the template variable map for billing (dunning) messages.
+ * Every variable is always present so one template body works for all events.
+ */
+export function buildBillingVars(vars: BillingTemplateVars): Record<string, string> {
+  return {
+    academyName:   vars.academyName,
+    studentName:   vars.studentName,
+    planName:      vars.planName,
+    amount:        `${vars.amount.toLocaleString("ko-KR")}원`,
+    dueDate:       vars.dueDate,
+    attemptNo:     vars.attemptNo
+      ? `${vars.attemptNo}/${vars.maxAttempts ?? vars.attemptNo}`
+      : "",
+    failureReason: vars.failureReason ?? "",
+  };
+}
+
+/**
+ * Fill #{varName} placeholders in a message text (template previews,
+ * SMS fallback bodies).
+ * Unknown variables render as an empty string.
+ */
+export function renderTemplateText(text: string, vars: Record<string, string>): string {
+  return text.replace(/#\{(\w+)\}/g, (_, name: string) => vars[name] ?? "");
+}
+
+/** Variable names used in a template body, in order of first use. */
+export function templateVarNames(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(/#\{(\w+)\}/g), (m) => m[1]))];
+}
+
+// ── Samples & validation ────────────────────────────────────────────────────
+
+export const SAMPLE_ATTENDANCE_VARS: AttendanceTemplateVars = {
+  academyName: "한빛학원",
+  studentName: "홍길동",
+  className:   "중2 수학",
+  sessionDate: "2026-03-02",
+  sessionTime: "18:00",
+  statusText:  STATUS_LABEL.ABSENT,
+  teacherName: "김선생",
+};
+
+export const SAMPLE_BILLING_VARS: BillingTemplateVars = {
+  academyName:   "한빛학원",
+  studentName:   "홍길동",
+  planName:      "중등 수학 주 3회",
+  amount:        150000,
+  dueDate:       "2026-03-05",
+  attemptNo:     2,
+  maxAttempts:   3,
+  failureReason: "잔액 부족",
+};
+
+export interface ScheduleTemplateVars {
+  academyName:   string;
+  studentName:   string;
+  className:     string;
+  sessionDate:   string; // YYYY-MM-DD
+  sessionTime:   string; // HH:mm
+  teacherName:   string;
+  previousDate?: string;
+  previousTime?: string;
+}
+
+/**
+ * Build the template variable map for schedule-change messages.
+ * Every variable is always present so one template body works for all events.
+ */
+export function buildScheduleVars(vars: ScheduleTemplateVars): Record<string, string> {
+  return {
+    academyName:  vars.academyName,
+    studentName:  vars.studentName,
+    className:    vars.className,
+    sessionDate:  vars.sessionDate,
+    sessionTime:  vars.sessionTime,
+    teacherName:  vars.teacherName,
+    previousDate: vars.previousDate ?? "",
+    previousTime: vars.previousTime ?? "",
+  };
+}
+
+export const SAMPLE_SCHEDULE_VARS: ScheduleTemplateVars = {
+  academyName:  "한빛학원",
+  studentName:  "홍길동",
+  className:    "중2 수학",
+  sessionDate:  "2026-03-05",
+  sessionTime:  "19:00",
+  teacherName:  "김선생",
+  previousDate: "2026-03-02",
+  previousTime: "18:00",
+};
+
+export interface WaitlistTemplateVars {
+  academyName:  string;
+  studentName:  string;
+  className:    string;
+  teacherName:  string;
+  sessionDate?: string; // YYYY-MM-DD, the first upcoming session
+  sessionTime?: string; // HH:mm
+}
+
+/** Build the template variable map for waitlist promotion messages. */
+export function buildWaitlistVars(vars: WaitlistTemplateVars): Record<string, string> {
+  return {
+    academyName: vars.academyName,
+    studentName: vars.studentName,
+    className:   vars.className,
+    teacherName: vars.teacherName,
+    sessionDate: vars.sessionDate ?? "",
+    sessionTime: vars.sessionTime ?? "",
+  };
+}
+
+export const SAMPLE_WAITLIST_VARS: WaitlistTemplateVars = {
+  academyName: "한빛학원",
+  studentName: "홍길동",
+  className:   "중2 수학",
+  teacherName: "김선생",
+  sessionDate: "2026-03-05",
+  sessionTime: "19:00",
+};
+
+export function isBillingType(type: AlimtalkTemplateType): boolean {
+  return type.startsWith("BILLING_");
+}
+
+export function isScheduleType(type: AlimtalkTemplateType): boolean {
+  return type.startsWith("SESSION_");
+}
+
+export function isWaitlistType(type: AlimtalkTemplateType): boolean {
+  return type.startsWith("WAITLIST_");
+}
+
+/** ABSENT / LATE / EXCUSED – the types built from an attendance row */
+export function isAttendanceType(type: AlimtalkTemplateType): boolean {
+  return !isBillingType(type) && !isScheduleType(type) && !isWaitlistType(type);
+}
+
+export const SAMPLE_PREFERENCE_URL = "https://academy.example.com/notification-preferences/…";
+
+/** Sample variable map for a template type, built by the real builder. */
+export function sampleTemplateVars(
+  type: AlimtalkTemplateType,
+  language: NotificationLanguage = DEFAULT_LANGUAGE,
+): Record<string, string> {
+  const vars = isBillingType(type)
+    ? buildBillingVars(SAMPLE_BILLING_VARS)
+    : isScheduleType(type)
+      ? buildScheduleVars(SAMPLE_SCHEDULE_VARS)
+      : isWaitlistType(type)
+        ? buildWaitlistVars(SAMPLE_WAITLIST_VARS)
+        : buildAttendanceVars({ ...SAMPLE_ATTENDANCE_VARS, statusText: statusLabel(type, language) });
+  return { ...vars, preferenceUrl: SAMPLE_PREFERENCE_URL };
+}
+
+/**
+ * Variables a template body uses that the builder for its type never
+ * supplies. Such a body would render with blanks, so saving it is refused.
+ */
+export function missingTemplateVars(type: AlimtalkTemplateType, body: string): string[] {
+  const supplied = sampleTemplateVars(type);
+  return templateVarNames(body).filter((name) => !(name in supplied));
+}
@@ -0,0 +1,189 @@
+/**
+ * src/lib/alimtalk/throttle.ts
+ *
+ * Per-academy sending limits for the notification outbox, so one academy
+ * marking a whole school absent cannot starve the others or run up the
+ * AlimTalk bill.
+ *
+ * AcademyNotificationSettings carries two limits:
+ *  - sendRatePerMinute  – rows handed to the provider per rolling minute
+ *  - monthlyMessageCap  – SENT rows per KST calendar month (null = no cap)
+ *
+ * selectDueRows() picks the worker's batch: each academy gets at most what
+ * its rate leaves for this minute and its cap leaves for this month, and
+ * the batch is filled round-robin across academies (oldest due first within
+ * each), so a large backlog in one academy only slows that academy down. Due rows of an academy that has
+ * used up its monthly cap are marked SKIPPED with errorCode MONTHLY_CAP.
+ *
+ * The admin UI warns from CAP_WARNING_RATIO of the cap (getMessageUsage).
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import type { NotificationQueue, Prisma } from "@prisma/client";
+
+export const DEFAULT_SEND_RATE_PER_MINUTE = 60;
+
+/** Share of the monthly cap from which the admin UI shows a warning */
+export const CAP_WARNING_RATIO = 0.8;
+
+/** errorCode of rows skipped because the academy reached its monthly cap */
+export const MONTHLY_CAP_CODE = "MONTHLY_CAP";
+
+export interface SendLimits {
+  ratePerMinute: number;
+  monthlyCap:    number | null;
+}
+
+export interface MessageUsage {
+  /** Messages sent this KST month */
+  sent:      number;
+  cap:       number | null;
+  /** sent / cap, null without a cap */
+  ratio:     number | null;
+  /** At or above CAP_WARNING_RATIO of the cap */
+  warning:   boolean;
+  /** Cap reached – further messages are skipped */
+  exhausted: boolean;
+}
+
+/** Start of the current calendar month in KST. */
+export function kstMonthStart(now: Date = new Date()): Date {
+  const [year, month] = now.toLocaleDateString("en-CA", { timeZone: "Asia/Seoul" }).split("-");
+  return new Date(`${year}-${month}-01T00:00:00+09:00`);
+}
+
+function toLimits(settings: { sendRatePerMinute: number; monthlyMessageCap: number | null } | null): SendLimits {
+  return {
+    ratePerMinute: settings?.sendRatePerMinute ?? DEFAULT_SEND_RATE_PER_MINUTE,
+    monthlyCap:    settings?.monthlyMessageCap ?? null,
+  };
+}
+
+async function sentSince(academyId: string, since: Date): Promise<number> {
+  return prisma.notificationQueue.count({
+    where: { academyId, status: "SENT", processedAt: { gte: since } },
+  });
+}
+
+/** This month's message count against the academy's cap. */
+export async function getMessageUsage(academyId: string, now: Date = new Date()): Promise<MessageUsage> {
+  const settings = await prisma.academyNotificationSettings.findUnique({
+    where:  { academyId },
+    select: { sendRatePerMinute: true, monthlyMessageCap: true },
+  });
+  const { monthlyCap } = toLimits(settings);
+  const sent  = await sentSince(academyId, kstMonthStart(now));
+  const ratio = monthlyCap ? sent / monthlyCap : null;
+
+  return {
+    sent,
+    cap:       monthlyCap,
+    ratio,
+    warning:   ratio !== null && ratio >= CAP_WARNING_RATIO,
+    exhausted: monthlyCap !== null && sent >= monthlyCap,
+  };
+}
+
+export interface DueSelection {
+  rows:    NotificationQueue[];
+  /** Rows marked SKIPPED because their academy reached its monthly cap */
+  overCap: number;
+}
+
+/**
+ * Pick up to `batchSize` due PENDING rows, fairly across academies and
+ * within each academy's limits.
+ */
+export async function selectDueRows(
+  batchSize: number,
+  now: Date = new Date(),
+): Promise<DueSelection> {
+  const due: Prisma.NotificationQueueWhereInput = {
+    status:      "PENDING",
+    nextRetryAt: { lte: now },
+  };
+
+  const groups = await prisma.notificationQueue.groupBy({
+    by:      ["academyId"],
+    where:   due,
+    _min:    { nextRetryAt: true },
+    orderBy: { _min: { nextRetryAt: "asc" } },
+  });
+  if (groups.length === 0) return { rows: [], overCap: 0 };
+
+  const settings = await prisma.academyNotificationSettings.findMany({
+    where:  { academyId: { in: groups.map((g) => g.academyId) } },
+    select: { academyId: true, sendRatePerMinute: true, monthlyMessageCap: true },
+  });
+  const limitsByAcademy = new Map(settings.map((s) => [s.academyId, toLimits(s)]));
+
+  const monthStart = kstMonthStart(now);
+  const minuteAgo  = new Date(now.getTime() - 60_000);
+  const perAcademy: NotificationQueue[][] = [];
+  let overCap = 0;
+
+  for (const { academyId } of groups) {
+    const limits = limitsByAcademy.get(academyId) ?? toLimits(null);
+
+    let capLeft = Infinity;
+    if (limits.monthlyCap !== null) {
+      capLeft = limits.monthlyCap - await sentSince(academyId, monthStart);
+      if (capLeft <= 0) {
+        overCap += await skipOverCap(academyId, due, limits.monthlyCap, now);
+        continue;
+      }
+    }
+
+    const allowance = Math.min(
+      batchSize,
+      capLeft,
+      limits.ratePerMinute - await sentSince(academyId, minuteAgo),
+    );
+    if (allowance <= 0) continue;
+
+    perAcademy.push(await prisma.notificationQueue.findMany({
+      where:   { ...due, academyId },
+      orderBy: { nextRetryAt: "asc" },
+      take:    allowance,
+    }));
+  }
+
+  // Round-robin: one row per academy per turn until the batch is full
+  const rows: NotificationQueue[] = [];
+  for (let i = 0; rows.length < batchSize && perAcademy.some((list) => i < list.length); i++) {
+    for (const list of perAcademy) {
+      if (i < list.length && rows.length < batchSize) rows.push(list[i]);
+    }
+  }
+
+  return { rows, overCap };
+}
+
+async function skipOverCap(
+  academyId: string,
+  due: Prisma.NotificationQueueWhereInput,
+  cap: number,
+  now: Date,
+): Promise<number> {
+  const skipped = await prisma.notificationQueue.updateMany({
+    where: { ...due, academyId },
+    data:  {
+      status:       "SKIPPED",
+      nextRetryAt:  null,
+      processedAt:  now,
+      errorCode:    MONTHLY_CAP_CODE,
+      errorMessage: `Monthly message cap of ${cap} reached`,
+    },
+  });
+
+  if (skipped.count > 0) {
+    await audit({
+      academyId,
+      action:     "notification.capReached",
+      targetType: "AcademyNotificationSettings",
+      metaJson:   { cap, skipped: skipped.count },
+    });
+  }
+  return skipped.count;
+}
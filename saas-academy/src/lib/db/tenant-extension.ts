@@ -31,7 +31,12 @@ const TENANT_MODELS = new Set([
   "studentsubscription",
   "paymentmethod",
   "invoice",
+  "invoicelineitem",
+  "discountrule",
+  "subscriptioncoupon",
   "paymentattempt",
+  "refund",
+  "virtualaccount",
   "notification",
 ] as const);
 
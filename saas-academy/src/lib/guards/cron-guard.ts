@@ -0,0 +1,48 @@
+/**
+ * src/lib/guards/cron-guard.ts
+ *
+ * Guard for the internal job endpoints (/api/internal/*), called by the
+ * scheduler rather than a signed-in user.
+ *
+ * Usage in route handler:
+ *
+ *   export async function POST(req: NextRequest) {
+ *     const denied = guardCron(req);
+ *     if (denied) return denied;
+ *     return jobRunResponse(await runJob("billing"));
+ *   }
+ *
+ * The caller sends CRON_SECRET in the `x-cron-secret` header. Without
+ * CRON_SECRET configured the endpoints are disabled.
+ */
+import crypto from "crypto";
+import { type NextRequest, NextResponse } from "next/server";
+import type { JobRun } from "@prisma/client";
+import { ok, err } from "@/lib/guards/route-guard";
+
+export const CRON_SECRET_HEADER = "x-cron-secret";
+
+/** Returns a 401/503 response when the request may not run jobs, else null. */
+export function guardCron(req: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Internal job endpoints are disabled (CRON_SECRET not set)" }, { status: 503 });
+  }
+
+  const given = req.headers.get(CRON_SECRET_HEADER) ?? "";
+  const a = Buffer.from(given);
+  const b = Buffer.from(secret);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+/** 200 for a finished run, 409 when skipped for the lock, 500 when it failed. */
+export function jobRunResponse(run: JobRun) {
+  switch (run.status) {
+    case "SKIPPED": return err("Job is already running", 409, run);
+    case "FAILED":  return err(run.errorMessage ?? "Job failed", 500, run);
+    default:        return ok(run);
+  }
+}
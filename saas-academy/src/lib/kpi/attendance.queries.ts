@@ -16,6 +16,8 @@
  * Teacher KPIs:
  *   Sessions per teacher (top N)
  *   Attendance rate per teacher (top N)
+ *   A session counts for the teacher who taught it: its substitute, or else
+ *   the class teacher.
  */
 
 import { prisma } from "@/lib/db/client";
@@ -82,9 +84,9 @@ export async function getAttendanceKPI(
     ? late / (present + late + absent)
     : 0;
 
-  // Active teachers: distinct teacherUserId on non-archived classes with sessions in range
+  // Active teachers: distinct teachers (substitute or class teacher) of sessions in range
   const teacherRows = await prisma.$queryRaw<Array<{ cnt: bigint }>>`
-    SELECT COUNT(DISTINCT c."teacherUserId")::bigint AS cnt
+    SELECT COUNT(DISTINCT COALESCE(s."substituteTeacherUserId", c."teacherUserId"))::bigint AS cnt
     FROM class_sessions s
     JOIN classes c ON c.id = s."classId"
     WHERE
@@ -92,7 +94,7 @@ export async function getAttendanceKPI(
       AND s.status  != 'CANCELED'
       AND s."localDate" >= ${from}
       AND s."localDate" <= ${to}
-      AND c."teacherUserId" IS NOT NULL
+      AND COALESCE(s."substituteTeacherUserId", c."teacherUserId") IS NOT NULL
   `;
   const activeTeachers = Number(teacherRows[0]?.cnt ?? BigInt(0));
 
@@ -136,7 +138,7 @@ export async function getTopTeachersBySessions(
       COUNT(s.id)::bigint AS sessions
     FROM class_sessions s
     JOIN classes c       ON c.id      = s."classId"
-    JOIN users   u       ON u.id      = c."teacherUserId"
+    JOIN users   u       ON u.id      = COALESCE(s."substituteTeacherUserId", c."teacherUserId")
     WHERE
       s."academyId" = ${academyId}
       AND s.status  != 'CANCELED'
@@ -177,7 +179,7 @@ export async function getTopTeachersByAttendanceRate(
     FROM attendances a
     JOIN class_sessions s ON s.id      = a."sessionId"
     JOIN classes c        ON c.id      = s."classId"
-    JOIN users   u        ON u.id      = c."teacherUserId"
+    JOIN users   u        ON u.id      = COALESCE(s."substituteTeacherUserId", c."teacherUserId")
     WHERE
       a."academyId" = ${academyId}
       AND s."localDate" >= ${from}
@@ -4,7 +4,8 @@
  * Revenue KPI queries scoped to academyId + KST date range.
  *
  * Recognition rule:
- *   PAID  → invoices where status='PAID'  and paidAt IN [fromUTC, toUTC]
+ *   PAID  → invoices where status IN ('PAID','REFUNDED') and paidAt IN [fromUTC, toUTC]
+ *   REFUNDED → refunds where status='SUCCEEDED' and completedAt IN [fromUTC, toUTC]
  *   OUTSTANDING → status='PENDING' and dueDate (KST) IN [from, to]
  *   FAILED → status='FAILED' and updatedAt IN [fromUTC, toUTC]
  *
@@ -15,8 +16,10 @@ import { prisma } from "@/lib/db/client";
 import { kstDayStartUTC, kstDayEndUTC } from "@/lib/kpi/date-utils";
 
 export interface RevenueKPI {
-  totalPaidAmount:    number;
+  totalPaidAmount:    number; // gross, before refunds
   paidCount:          number;
+  refundedAmount:     number;
+  netPaidAmount:      number; // totalPaidAmount - refundedAmount
   outstandingAmount:  number;
   outstandingCount:   number;
   failedCount:        number;
@@ -31,11 +34,11 @@ export async function getRevenueKPI(
   const fromUTC = kstDayStartUTC(from);
   const toUTC   = kstDayEndUTC(to);
 
-  // PAID invoices: paidAt within range
+  // PAID invoices: paidAt within range (refunded invoices were paid too)
   const paidResult = await prisma.invoice.aggregate({
     where: {
       academyId,
-      status: "PAID",
+      status: { in: ["PAID", "REFUNDED"] },
       paidAt: { gte: fromUTC, lte: toUTC },
     },
     _sum:   { amount: true },
@@ -53,6 +56,16 @@ export async function getRevenueKPI(
     _count: { id: true },
   });
 
+  // Refunds completed within range
+  const refundResult = await prisma.refund.aggregate({
+    where: {
+      academyId,
+      status:      "SUCCEEDED",
+      completedAt: { gte: fromUTC, lte: toUTC },
+    },
+    _sum: { amount: true },
+  });
+
   // FAILED invoices updated within range
   const failedCount = await prisma.invoice.count({
     where: {
@@ -64,6 +77,7 @@ export async function getRevenueKPI(
 
   const totalPaidAmount   = paidResult._sum.amount    ?? 0;
   const paidCount         = paidResult._count.id      ?? 0;
+  const refundedAmount    = refundResult._sum.amount  ?? 0;
   const outstandingAmount = pendingResult._sum.amount  ?? 0;
   const outstandingCount  = pendingResult._count.id   ?? 0;
 
@@ -73,6 +87,8 @@ export async function getRevenueKPI(
   return {
     totalPaidAmount,
     paidCount,
+    refundedAmount,
+    netPaidAmount: totalPaidAmount - refundedAmount,
     outstandingAmount,
     outstandingCount,
     failedCount,
@@ -88,7 +104,7 @@ export interface RevenueTimePoint {
 }
 
 /**
- * Returns daily sum of paid invoice amounts.
+ * Returns daily sum of paid invoice amounts (gross, refunds not deducted).
  * Uses $queryRaw for efficient date_trunc grouping.
  */
 export async function getRevenueDailyTimeseries(
@@ -106,7 +122,7 @@ export async function getRevenueDailyTimeseries(
     FROM invoices
     WHERE
       "academyId" = ${academyId}
-      AND status  = 'PAID'
+      AND status IN ('PAID', 'REFUNDED')
       AND "paidAt" >= ${fromUTC}
       AND "paidAt" <= ${toUTC}
     GROUP BY 1
@@ -137,7 +153,7 @@ export async function getRevenueWeeklyTimeseries(
     FROM invoices
     WHERE
       "academyId" = ${academyId}
-      AND status  = 'PAID'
+      AND status IN ('PAID', 'REFUNDED')
       AND "paidAt" >= ${fromUTC}
       AND "paidAt" <= ${toUTC}
     GROUP BY 1
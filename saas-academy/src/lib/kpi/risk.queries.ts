@@ -6,7 +6,9 @@
  * Definitions (see /docs/kpi-definitions.md):
  *   atRisk student    – ABSENT >= 3 in the last 30 days (rolling, not range param)
  *   delinquent student – has PENDING invoice with dueDate < today - delinquencyDays
- *   notifications     – NotificationQueue counts in range
+ *   notifications     – NotificationQueue delivery outcomes in range, from the
+ *                       provider's delivery reports. An SMS fallback row
+ *                       counts towards its AlimTalk row, not on its own.
  */
 
 import { prisma }          from "@/lib/db/client";
@@ -18,8 +20,14 @@ export interface RiskKPI {
 }
 
 export interface NotifKPI {
-  queuedCount: number;
-  failedCount: number;
+  queuedCount:      number;
+  deliveredCount:   number;
+  failedCount:      number;
+  /** Neither delivered nor failed yet (queued, sent awaiting report, ...) */
+  pendingCount:     number;
+  smsFallbackCount: number;
+  /** deliveredCount / (deliveredCount + failedCount) in %, null if none resolved */
+  deliveryRate:     number | null;
 }
 
 // ── Summary counts ────────────────────────────────────────────────────────────
@@ -47,23 +55,56 @@ export async function getNotifKPI(
   const fromUTC = kstDayStartUTC(from);
   const toUTC   = kstDayEndUTC(to);
 
-  const [queuedCount, failedCount] = await Promise.all([
+  // One row per intended delivery; SMS fallbacks are judged through it
+  const base = {
+    academyId,
+    fallbackOfId: null,
+    createdAt:    { gte: fromUTC, lte: toUTC },
+  };
+
+  const [queuedCount, deliveredCount, failedCount, smsFallbackCount] = await Promise.all([
+    prisma.notificationQueue.count({ where: base }),
     prisma.notificationQueue.count({
       where: {
-        academyId,
-        createdAt: { gte: fromUTC, lte: toUTC },
+        ...base,
+        OR: [
+          { deliveryStatus: "DELIVERED" },
+          { fallback: { is: { deliveryStatus: "DELIVERED" } } },
+        ],
+      },
+    }),
+    prisma.notificationQueue.count({
+      where: {
+        ...base,
+        OR: [
+          // could not be sent, and no SMS fallback took over
+          { status: "FAILED", fallback: { is: null } },
+          // sent but not delivered, no fallback
+          { deliveryStatus: "FAILED" },
+          // the SMS fallback failed as well
+          { fallback: { is: { OR: [{ status: "FAILED" }, { deliveryStatus: "FAILED" }] } } },
+        ],
       },
     }),
     prisma.notificationQueue.count({
       where: {
         academyId,
-        status:    "FAILED",
+        channel:   "SMS",
         createdAt: { gte: fromUTC, lte: toUTC },
       },
     }),
   ]);
 
-  return { queuedCount, failedCount };
+  const resolved = deliveredCount + failedCount;
+
+  return {
+    queuedCount,
+    deliveredCount,
+    failedCount,
+    pendingCount:     Math.max(0, queuedCount - resolved),
+    smsFallbackCount,
+    deliveryRate:     resolved > 0 ? Math.round((deliveredCount / resolved) * 1000) / 10 : null,
+  };
 }
 
 // ── Detailed at-risk student list ─────────────────────────────────────────────
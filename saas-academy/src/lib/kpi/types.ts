@@ -15,6 +15,8 @@ export interface TimePoint {
 export interface RevenueKPI {
   totalPaidAmount:   number;
   paidCount:         number;
+  refundedAmount:    number;
+  netPaidAmount:     number;
   outstandingAmount: number;
   outstandingCount:  number;
   failedCount:       number;
@@ -45,8 +47,12 @@ export interface RiskKPI {
 }
 
 export interface NotifKPI {
-  queuedCount: number;
-  failedCount: number;
+  queuedCount:      number;
+  deliveredCount:   number;
+  failedCount:      number;
+  pendingCount:     number;
+  smsFallbackCount: number;
+  deliveryRate:     number | null; // %
 }
 
 export interface KpiSummaryResponse {
@@ -0,0 +1,332 @@
+/**
+ * src/lib/payments/fake.ts
+ *
+ * In-process PaymentProvider for local development and tests
+ * (PAYMENT_PROVIDER=fake). Nothing leaves the process.
+ *
+ * Every call succeeds unless scripted otherwise:
+ *
+ *   fake.script("charge",
+ *     { type: "decline", code: "REJECT_CARD_COMPANY" },
+ *     { type: "timeout" },
+ *     { type: "approve", webhook: { delayMs: 60_000 } },
+ *   );
+ *
+ * Outcomes are consumed in order, one per call of that operation. Webhooks
+ * (approval webhooks, deposits via deposit()) wait in an outbox until their
+ * delay has passed and flushWebhooks() runs – automatically on a timer when
+ * autoDeliver is on, explicitly in tests. Delivered payloads go to `sink`.
+ */
+
+import crypto from "crypto";
+import { TossError } from "@/lib/toss/tossClient";
+import type { IssueBillingKeyResponse, DeleteBillingKeyResponse } from "@/lib/toss/billing";
+import type { ChargeParams, ChargeResponse } from "@/lib/toss/charge";
+import type { CancelParams, CancelResponse, TossCancel } from "@/lib/toss/cancel";
+import type { VirtualAccountParams, VirtualAccountPayment } from "@/lib/toss/virtual-account";
+import type { TossWebhookEventType, TossWebhookPayload } from "@/lib/toss/webhooks";
+import type { PaymentProvider } from "./types";
+
+export type FakeOperation =
+  | "issueBillingKey"
+  | "revokeBillingKey"
+  | "charge"
+  | "cancel"
+  | "issueVirtualAccount"
+  | "getPayment";
+
+export interface FakeWebhookOptions {
+  /** Delivery delay after the call (ms). Default 0. */
+  delayMs?:   number;
+  /** Defaults to PAYMENT_STATUS_CHANGED. */
+  eventType?: TossWebhookEventType;
+  /** Merged over the default payload data. */
+  data?:      Record<string, unknown>;
+}
+
+export type FakeOutcome =
+  | { type: "approve"; webhook?: FakeWebhookOptions }
+  | { type: "decline"; code: string; message?: string; status?: number }
+  | { type: "timeout"; delayMs?: number };
+
+export interface FakeCall {
+  op:   FakeOperation;
+  args: unknown[];
+  at:   Date;
+}
+
+interface FakePayment extends VirtualAccountPayment {
+  balanceAmount: number;
+  cancels:       TossCancel[];
+}
+
+interface OutboxEntry {
+  payload: TossWebhookPayload;
+  dueAt:   number;
+}
+
+export interface FakePaymentProviderOptions {
+  /** Receives delivered webhooks (the app wires this to ingestWebhookEvent). */
+  sink?:        (payload: TossWebhookPayload) => Promise<unknown>;
+  /** Deliver webhooks on a timer instead of waiting for flushWebhooks(). */
+  autoDeliver?: boolean;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake" as const;
+
+  /** Every call made, in order – for assertions. */
+  readonly calls: FakeCall[] = [];
+  /** Webhooks handed to the sink, in order. */
+  readonly delivered: TossWebhookPayload[] = [];
+
+  private scripts  = new Map<FakeOperation, FakeOutcome[]>();
+  private payments = new Map<string, FakePayment>();   // by orderId
+  private replays  = new Map<string, Promise<unknown>>(); // by idempotency key
+  private outbox: OutboxEntry[] = [];
+  private seq = 0;
+
+  constructor(private readonly options: FakePaymentProviderOptions = {}) {}
+
+  // ── Scripting ──────────────────────────────────────────────────────────────
+
+  /** Queue outcomes for the next calls of `op`. */
+  script(op: FakeOperation, ...outcomes: FakeOutcome[]): this {
+    this.scripts.set(op, [...(this.scripts.get(op) ?? []), ...outcomes]);
+    return this;
+  }
+
+  /** Clear scripts, payments, calls and undelivered webhooks. */
+  reset(): void {
+    this.scripts.clear();
+    this.payments.clear();
+    this.replays.clear();
+    this.outbox = [];
+    this.calls.length = 0;
+    this.delivered.length = 0;
+  }
+
+  /** Payment recorded for an orderId, if any. */
+  payment(orderId: string): VirtualAccountPayment | undefined {
+    return this.payments.get(orderId);
+  }
+
+  /** Webhooks not delivered yet. */
+  get pendingWebhooks(): TossWebhookPayload[] {
+    return this.outbox.map((e) => e.payload);
+  }
+
+  /**
+   * Simulate a bank deposit into a virtual account. `amount` defaults to the
+   * issued amount; pass another value to test a wrong-amount deposit.
+   */
+  deposit(orderId: string, opts: { amount?: number; delayMs?: number } = {}): void {
+    const p = this.payments.get(orderId);
+    if (!p?.virtualAccount) throw new Error(`[fake] No virtual account for ${orderId}`);
+
+    p.status        = "DONE";
+    p.totalAmount   = opts.amount ?? p.totalAmount;
+    p.balanceAmount = p.totalAmount;
+    p.approvedAt    = new Date().toISOString();
+
+    this.emitWebhook(
+      {
+        eventType: "DEPOSIT_CALLBACK",
+        createdAt: new Date().toISOString(),
+        data: {
+          orderId,
+          status:         "DONE",
+          secret:         p.secret,
+          transactionKey: this.id("tx"),
+          createdAt:      new Date().toISOString(),
+        },
+      },
+      opts.delayMs,
+    );
+  }
+
+  /** Put a webhook in the outbox. */
+  emitWebhook(payload: TossWebhookPayload, delayMs = 0): void {
+    this.outbox.push({ payload, dueAt: Date.now() + delayMs });
+    if (this.options.autoDeliver) {
+      const timer = setTimeout(() => void this.flushWebhooks(), delayMs);
+      timer.unref?.();
+    }
+  }
+
+  /** Deliver every webhook due by `now`, oldest first. Returns how many. */
+  async flushWebhooks(now: number = Date.now()): Promise<number> {
+    const due = this.outbox.filter((e) => e.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+    this.outbox = this.outbox.filter((e) => e.dueAt > now);
+
+    for (const { payload } of due) {
+      this.delivered.push(payload);
+      await this.options.sink?.(payload);
+    }
+    return due.length;
+  }
+
+  // ── PaymentProvider ────────────────────────────────────────────────────────
+
+  async issueBillingKey(authKey: string, customerKey: string): Promise<IssueBillingKeyResponse> {
+    await this.outcome("issueBillingKey", [authKey, customerKey]);
+    return {
+      billingKey:      this.id("bk"),
+      cardCompany:     "신한",
+      cardNumber:      "43XX-XXXX-XXXX-1234",
+      customerKey,
+      authenticatedAt: new Date().toISOString(),
+    };
+  }
+
+  async revokeBillingKey(billingKey: string): Promise<DeleteBillingKeyResponse> {
+    await this.outcome("revokeBillingKey", [billingKey]);
+    return { result: "SUCCESS" };
+  }
+
+  chargeWithBillingKey(params: ChargeParams, idempotencyKey?: string): Promise<ChargeResponse> {
+    return this.replayable(idempotencyKey ?? params.orderId, async () => {
+      const outcome = await this.outcome("charge", [params, idempotencyKey]);
+      const payment = this.record({
+        paymentKey:     this.id("pk"),
+        orderId:        params.orderId,
+        status:         "DONE",
+        totalAmount:    params.amount,
+        balanceAmount:  params.amount,
+        approvedAt:     new Date().toISOString(),
+        virtualAccount: null,
+        cancels:        [],
+      });
+      this.approvalWebhook(outcome, { paymentKey: payment.paymentKey, orderId: payment.orderId, status: "DONE" });
+
+      return {
+        paymentKey:  payment.paymentKey,
+        orderId:     payment.orderId,
+        orderName:   params.orderName,
+        status:      "DONE",
+        approvedAt:  payment.approvedAt!,
+        totalAmount: payment.totalAmount,
+        currency:    "KRW",
+        card:        { company: "신한", number: "43XX-XXXX-XXXX-1234", installmentPlanMonths: 0 },
+      };
+    });
+  }
+
+  cancelPayment(paymentKey: string, params: CancelParams, idempotencyKey: string): Promise<CancelResponse> {
+    return this.replayable(idempotencyKey, async () => {
+      const outcome = await this.outcome("cancel", [paymentKey, params, idempotencyKey]);
+      const payment = [...this.payments.values()].find((p) => p.paymentKey === paymentKey);
+      if (!payment) throw new TossError("NOT_FOUND_PAYMENT", "존재하지 않는 결제 정보 입니다.", 404);
+
+      const amount = params.cancelAmount ?? payment.balanceAmount;
+      if (amount > payment.balanceAmount) {
+        throw new TossError("NOT_CANCELABLE_AMOUNT", "취소 할 수 없는 금액 입니다.", 403);
+      }
+      payment.balanceAmount -= amount;
+      payment.cancels.push({
+        transactionKey: this.id("tx"),
+        cancelAmount:   amount,
+        cancelReason:   params.cancelReason,
+        canceledAt:     new Date().toISOString(),
+        cancelStatus:   "DONE",
+      });
+      const status = payment.balanceAmount === 0 ? "CANCELED" as const : "PARTIAL_CANCELED" as const;
+      payment.status = status;
+
+      this.approvalWebhook(outcome, { paymentKey, orderId: payment.orderId, status, cancels: payment.cancels });
+
+      return {
+        paymentKey,
+        orderId:       payment.orderId,
+        status,
+        totalAmount:   payment.totalAmount,
+        balanceAmount: payment.balanceAmount,
+        cancels:       [...payment.cancels],
+      };
+    });
+  }
+
+  issueVirtualAccount(params: VirtualAccountParams): Promise<VirtualAccountPayment> {
+    return this.replayable(params.orderId, async () => {
+      await this.outcome("issueVirtualAccount", [params]);
+      const payment = this.record({
+        paymentKey:    this.id("pk"),
+        orderId:       params.orderId,
+        status:        "WAITING_FOR_DEPOSIT",
+        totalAmount:   params.amount,
+        balanceAmount: params.amount,
+        secret:        crypto.randomBytes(12).toString("hex"),
+        approvedAt:    null,
+        cancels:       [],
+        virtualAccount: {
+          accountNumber: `X${String(++this.seq).padStart(11, "0")}`,
+          bankCode:      params.bank,
+          customerName:  params.customerName,
+          dueDate:       new Date(Date.now() + params.validHours * 3_600_000).toISOString(),
+          expired:       false,
+        },
+      });
+      return { ...payment };
+    });
+  }
+
+  async getPaymentByOrderId(orderId: string): Promise<VirtualAccountPayment> {
+    await this.outcome("getPayment", [orderId]);
+    const payment = this.payments.get(orderId);
+    if (!payment) throw new TossError("NOT_FOUND_PAYMENT", "존재하지 않는 결제 정보 입니다.", 404);
+    return { ...payment };
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────────
+
+  private id(prefix: string): string {
+    return `fake_${prefix}_${++this.seq}`;
+  }
+
+  private record(payment: FakePayment): FakePayment {
+    this.payments.set(payment.orderId, payment);
+    return payment;
+  }
+
+  /** Log the call and apply the next scripted outcome (approve by default). */
+  private async outcome(op: FakeOperation, args: unknown[]): Promise<FakeOutcome> {
+    this.calls.push({ op, args, at: new Date() });
+    const outcome = this.scripts.get(op)?.shift() ?? { type: "approve" };
+
+    switch (outcome.type) {
+      case "decline":
+        throw new TossError(outcome.code, outcome.message ?? `Declined (${outcome.code})`, outcome.status ?? 400);
+      case "timeout":
+        if (outcome.delayMs) await new Promise((r) => setTimeout(r, outcome.delayMs));
+        throw new TossError("TIMEOUT", "No response from Toss (fake timeout)", 504);
+      case "approve":
+        return outcome;
+    }
+  }
+
+  private approvalWebhook(outcome: FakeOutcome, data: Record<string, unknown>): void {
+    if (outcome.type !== "approve" || !outcome.webhook) return;
+    const { delayMs, eventType = "PAYMENT_STATUS_CHANGED", data: extra } = outcome.webhook;
+    this.emitWebhook(
+      { eventType, createdAt: new Date().toISOString(), data: { ...data, ...extra } },
+      delayMs,
+    );
+  }
+
+  /**
+   * Like Toss, a repeated idempotency key returns the first result (or error)
+   * instead of running the operation again. Timeouts are not remembered so a
+   * retry after a timeout goes through.
+   */
+  private replayable<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const previous = this.replays.get(key);
+    if (previous) return previous as Promise<T>;
+
+    const result = run();
+    this.replays.set(key, result);
+    result.catch((e) => {
+      if (e instanceof TossError && e.code === "TIMEOUT") this.replays.delete(key);
+    });
+    return result;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * src/lib/payments/index.ts
+ *
+ * Active payment provider, chosen by env var:
+ *
+ *   PAYMENT_PROVIDER=toss   – real Toss Payments API (default)
+ *   PAYMENT_PROVIDER=fake   – in-process FakePaymentProvider; webhooks it
+ *                             emits are stored through ingestWebhookEvent()
+ *                             and applied by the webhook worker
+ *
+ * Tests can swap providers with setPaymentProvider().
+ */
+
+import type { TossWebhookPayload } from "@/lib/toss/webhooks";
+import { FakePaymentProvider } from "./fake";
+import { tossProvider } from "./toss";
+import type { PaymentProvider } from "./types";
+
+export * from "./types";
+export { FakePaymentProvider } from "./fake";
+export type { FakeOperation, FakeOutcome, FakeWebhookOptions } from "./fake";
+
+let active: PaymentProvider | null = null;
+
+async function ingestFakeWebhook(payload: TossWebhookPayload): Promise<void> {
+  // Imported lazily: the webhook service depends on the payment services
+  const { ingestWebhookEvent } = await import("@/lib/services/webhook.service");
+  await ingestWebhookEvent(payload);
+}
+
+function createProvider(name: string | undefined): PaymentProvider {
+  switch (name ?? "toss") {
+    case "toss":
+      return tossProvider;
+    case "fake":
+      return new FakePaymentProvider({
+        sink:        ingestFakeWebhook,
+        autoDeliver: process.env.NODE_ENV !== "test",
+      });
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}" (expected "toss" or "fake")`);
+  }
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  active ??= createProvider(process.env.PAYMENT_PROVIDER);
+  return active;
+}
+
+/** Replace the active provider; null goes back to PAYMENT_PROVIDER. */
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  active = provider;
+}
+
+/** The active provider as a FakePaymentProvider; throws under PAYMENT_PROVIDER=toss. */
+export function getFakePaymentProvider(): FakePaymentProvider {
+  const provider = getPaymentProvider();
+  if (!(provider instanceof FakePaymentProvider)) {
+    throw new Error(`Active payment provider is "${provider.name}", not "fake"`);
+  }
+  return provider;
+}
@@ -0,0 +1,21 @@
+/**
+ * src/lib/payments/toss.ts
+ *
+ * PaymentProvider backed by the real Toss Payments API (src/lib/toss).
+ */
+
+import { issueBillingKey, revokeBillingKey } from "@/lib/toss/billing";
+import { chargeWithBillingKey } from "@/lib/toss/charge";
+import { cancelPayment } from "@/lib/toss/cancel";
+import { issueVirtualAccount, getPaymentByOrderId } from "@/lib/toss/virtual-account";
+import type { PaymentProvider } from "./types";
+
+export const tossProvider: PaymentProvider = {
+  name: "toss",
+  issueBillingKey,
+  revokeBillingKey,
+  chargeWithBillingKey,
+  cancelPayment,
+  issueVirtualAccount,
+  getPaymentByOrderId,
+};
@@ -0,0 +1,31 @@
+/**
+ * src/lib/payments/types.ts
+ *
+ * The payment-provider interface the billing services talk to. Request and
+ * response shapes are Toss's; providers report failures as TossError so
+ * callers handle a decline the same way whichever provider is active.
+ */
+
+import type { IssueBillingKeyResponse, DeleteBillingKeyResponse } from "@/lib/toss/billing";
+import type { ChargeParams, ChargeResponse } from "@/lib/toss/charge";
+import type { CancelParams, CancelResponse } from "@/lib/toss/cancel";
+import type { VirtualAccountParams, VirtualAccountPayment } from "@/lib/toss/virtual-account";
+
+export type PaymentProviderName = "toss" | "fake";
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /** Exchange the authKey from the card-registration redirect for a billingKey. */
+  issueBillingKey(authKey: string, customerKey: string): Promise<IssueBillingKeyResponse>;
+  revokeBillingKey(billingKey: string): Promise<DeleteBillingKeyResponse>;
+
+  /** Charge a stored billingKey. idempotencyKey defaults to the orderId. */
+  chargeWithBillingKey(params: ChargeParams, idempotencyKey?: string): Promise<ChargeResponse>;
+
+  /** Full (no cancelAmount) or partial cancel of an approved payment. */
+  cancelPayment(paymentKey: string, params: CancelParams, idempotencyKey: string): Promise<CancelResponse>;
+
+  issueVirtualAccount(params: VirtualAccountParams): Promise<VirtualAccountPayment>;
+  getPaymentByOrderId(orderId: string): Promise<VirtualAccountPayment>;
+}
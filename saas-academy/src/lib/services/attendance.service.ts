@@ -0,0 +1,201 @@
+/**
+ * src/lib/services/attendance.service.ts
+ *
+ * Marking attendance for one session. Shared by the teacher / admin bulk
+ * edit (PUT /api/academy/sessions/[sessionId]/attendance) and student self
+ * check-in (check-in.service.ts), so both leave the same trail:
+ *  - rows are upserted and AttendanceHistory is logged for edits that change
+ *    the status or memo, with the marking user as editor;
+ *  - a self check-in (source SELF_CHECK_IN) only creates rows – an existing
+ *    mark, even one a teacher saved a moment earlier, fails the insert with
+ *    P2002 – and is always logged to AttendanceHistory;
+ *  - a SCHEDULED session is completed once everyone on it is marked;
+ *  - make-up credits are granted / voided for EXCUSED (makeup.service.ts);
+ *  - AlimTalk notifications are queued for new or changed ABSENT / LATE /
+ *    EXCUSED marks.
+ *
+ * Callers check that the students are on the session.
+ */
+import { prisma } from "@/lib/db/client";
+import { enqueueAttendanceNotification } from "@/lib/alimtalk/attendance-notifier";
+import { syncMakeupCredit } from "@/lib/services/makeup.service";
+import type { AttendanceStatus, ClassSession } from "@prisma/client";
+
+export interface AttendanceMark {
+  studentUserId: string;
+  status:        AttendanceStatus;
+  /** Replaces the memo; omitted or null clears it */
+  memo?:         string | null;
+  reason?:       string | null;
+}
+
+export type MarkSource = "STAFF" | "SELF_CHECK_IN";
+
+export interface MarkedAttendance {
+  id:            string;
+  studentUserId: string;
+  status:        AttendanceStatus;
+  isNew:         boolean;
+  statusChanged: boolean;
+}
+
+const NOTIFY_STATUSES = new Set<AttendanceStatus>(["ABSENT", "LATE", "EXCUSED"]);
+
+export async function markAttendance(p: {
+  academyId:    string;
+  session:      Pick<ClassSession, "id" | "classId" | "status">;
+  entries:      AttendanceMark[];
+  editorUserId: string;
+  source?:      MarkSource;
+}): Promise<{
+  marked:        MarkedAttendance[];
+  historyLogged: number;
+  notifQueued:   number;
+}> {
+  const { academyId, session, editorUserId } = p;
+  const selfCheckIn = p.source === "SELF_CHECK_IN";
+  const sessionId = session.id;
+
+  // Fetch existing attendance for history logging + dedup
+  const existing = await prisma.attendance.findMany({
+    where: { sessionId, academyId, studentUserId: { in: p.entries.map((e) => e.studentUserId) } },
+  });
+  const existingMap = new Map(existing.map((a) => [a.studentUserId, a]));
+
+  const now    = new Date();
+  const marked: MarkedAttendance[] = [];
+
+  const historyRows: Array<{
+    academyId:    string;
+    attendanceId: string;
+    editorUserId: string;
+    beforeJson:   object;
+    afterJson:    object;
+    reason:       string | null;
+  }> = [];
+
+  await prisma.$transaction(async (tx) => {
+    for (const entry of p.entries) {
+      const prev = existingMap.get(entry.studentUserId);
+      const memo = entry.memo ?? null;
+
+      const create = {
+        academyId,
+        sessionId,
+        classId:       session.classId,
+        studentUserId: entry.studentUserId,
+        status:        entry.status,
+        memo,
+        markedAt:      now,
+        markedByUserId: editorUserId,
+      };
+      const record = selfCheckIn
+        ? await tx.attendance.create({ data: create })
+        : await tx.attendance.upsert({
+            where: {
+              academyId_sessionId_studentUserId: {
+                academyId,
+                sessionId,
+                studentUserId: entry.studentUserId,
+              },
+            },
+            update: {
+              status:        entry.status,
+              memo,
+              markedAt:      now,
+              markedByUserId: editorUserId,
+              updatedReason: entry.reason ?? null,
+            },
+            create,
+          });
+
+      const isNew          = !prev;
+      const statusChanged  = !!prev && prev.status !== entry.status;
+
+      marked.push({
+        id:            record.id,
+        studentUserId: entry.studentUserId,
+        status:        entry.status,
+        isNew,
+        statusChanged,
+      });
+
+      if (selfCheckIn) {
+        historyRows.push({
+          academyId,
+          attendanceId:  record.id,
+          editorUserId,
+          beforeJson:    { status: null, memo: null },
+          afterJson:     { status: entry.status, memo, source: p.source },
+          reason:        entry.reason ?? null,
+        });
+      } else if (prev && (statusChanged || prev.memo !== memo)) {
+        // Staff edits are logged only where something changed
+        historyRows.push({
+          academyId,
+          attendanceId:  record.id,
+          editorUserId,
+          beforeJson:    { status: prev.status, memo: prev.memo },
+          afterJson:     { status: entry.status, memo },
+          reason:        entry.reason ?? null,
+        });
+      }
+    }
+
+    if (historyRows.length > 0) {
+      await tx.attendanceHistory.createMany({ data: historyRows });
+    }
+
+    // Auto-complete the session if it was SCHEDULED and all enrolled and
+    // make-up students are marked
+    if (session.status === "SCHEDULED") {
+      const totalEnrolled = await tx.classEnrollment.count({
+        where: { classId: session.classId, academyId, status: "ACTIVE" },
+      });
+      const makeups = await tx.makeupCredit.count({
+        where: { redeemedSessionId: sessionId, status: "REDEEMED" },
+      });
+      const markedCount = await tx.attendance.count({
+        where: { sessionId, academyId },
+      });
+      if (markedCount >= totalEnrolled + makeups) {
+        await tx.classSession.update({
+          where: { id: sessionId },
+          data:  { status: "COMPLETED" },
+        });
+      }
+    }
+  });
+
+  // ── Make-up credits for EXCUSED (granted, voided or restored) ──────────────
+  for (const r of marked.filter((r) => r.isNew || r.statusChanged)) {
+    await syncMakeupCredit({
+      id:            r.id,
+      academyId,
+      studentUserId: r.studentUserId,
+      classId:       session.classId,
+      status:        r.status,
+    });
+  }
+
+  // ── Fire AlimTalk notifications (outside transaction, fire-and-forget) ─────
+  // Only trigger for statuses that warrant a notification, and only when:
+  //   - The record is new, OR
+  //   - The status changed (allowResendOnStatusChange handled inside notifier)
+  const notificationResults = await Promise.allSettled(
+    marked
+      .filter((r) => NOTIFY_STATUSES.has(r.status) && (r.isNew || r.statusChanged))
+      .map((r) =>
+        enqueueAttendanceNotification({
+          attendanceId: r.id,
+          actorUserId:  editorUserId,
+        }),
+      ),
+  );
+
+  const notifQueued = notificationResults.filter(
+    (r) => r.status === "fulfilled" && !r.value.skipped,
+  ).length;
+
+  return { marked, historyLogged: historyRows.length, notifQueued };
+}
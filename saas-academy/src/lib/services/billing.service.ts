@@ -1,16 +1,28 @@
 /**
  * src/lib/services/billing.service.ts
  *
- * Core billing logic for the daily scheduler.
+ * Core billing logic for the daily scheduler
+ * (job "billing", POST /api/internal/billing/run – see job.service.ts).
  */
 
 import { prisma } from "@/lib/db/client";
-import { chargeWithBillingKey } from "@/lib/toss/charge";
+import { audit } from "@/lib/auth/audit";
+import { getPaymentProvider } from "@/lib/payments";
 import { TossError } from "@/lib/toss/tossClient";
-import { addMonths, setDate, startOfDay } from "date-fns";
-import { toZonedTime, fromZonedTime } from "date-fns-tz";
+import { applyLateFee, tuitionLineItem } from "@/lib/services/invoice.service";
+import { billingPeriodFor } from "@/lib/services/proration.service";
+import { evaluateDiscounts } from "@/lib/services/discount.service";
+import { expireVirtualAccounts } from "@/lib/services/virtual-account.service";
+import {
+  enqueueBillingNotification,
+  enqueueUpcomingChargeReminders,
+  type EnqueueBillingNotificationParams,
+} from "@/lib/alimtalk/billing-notifier";
+import { addDays, addMonths, setDate, startOfDay } from "date-fns";
+import { Prisma, type Invoice, type TuitionPlan } from "@prisma/client";
+import { toZonedTime, fromZonedTime, formatInTimeZone } from "date-fns-tz";
 
-const MAX_ATTEMPTS = 3;
+export const MAX_ATTEMPTS = 3;
 const KST_TZ       = "Asia/Seoul";
 
 export interface BillingRunResult {
@@ -18,6 +30,8 @@ export interface BillingRunResult {
   succeeded: number;
   failed:    number;
   skipped:   number;
+  remindersQueued: number;
+  virtualAccountsExpired: number;
   errors:    string[];
 }
 
@@ -28,28 +42,75 @@ export function todayKST(): Date {
   return fromZonedTime(midKST, KST_TZ);
 }
 
-export async function runDailyBilling(): Promise<BillingRunResult> {
+/**
+ * True once the plan's grace period after dueDate is over
+ * (i.e. today is later than dueDate + graceDays).
+ */
+export function isPastGrace(dueDate: Date, graceDays: number, today: Date = todayKST()): boolean {
+  return today.getTime() > addDays(dueDate, graceDays).getTime();
+}
+
+/**
+ * Queue a dunning notification. Enqueue problems are logged and never fail
+ * the charge that triggered them.
+ */
+export async function notifyBilling(params: EnqueueBillingNotificationParams): Promise<void> {
+  try {
+    await enqueueBillingNotification({ maxAttempts: MAX_ATTEMPTS, ...params });
+  } catch (e) {
+    console.error(`[billing] Could not queue ${params.event} notification for ${params.invoiceId}:`, e);
+  }
+}
+
+/** Unique charge-group id stored in Invoice.orderId (also the Toss orderId). */
+export function generateOrderId(): string {
+  return `INV-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * @param opts.assertLease – called before each charge; throws once the
+ *                           billing job's lease is lost (job.service.ts), so
+ *                           two runs never charge the same invoices
+ */
+export async function runDailyBilling(
+  opts: { assertLease?: () => Promise<void> } = {},
+): Promise<BillingRunResult> {
   const result: BillingRunResult = {
     processed: 0,
     succeeded: 0,
     failed:    0,
     skipped:   0,
+    remindersQueued: 0,
+    virtualAccountsExpired: 0,
     errors:    [],
   };
 
   const today = todayKST();
 
-  // Load invoices with plan and attempts (no direct student relation on Invoice)
+  // Upcoming-charge reminders go out before today's charges
+  try {
+    result.remindersQueued = await enqueueUpcomingChargeReminders(
+      formatInTimeZone(today, KST_TZ, "yyyy-MM-dd"),
+    );
+  } catch (e) {
+    result.errors.push(`Upcoming reminders: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  // Close bank-transfer accounts past their deadline so those invoices are
+  // charged again below
+  result.virtualAccountsExpired = await expireVirtualAccounts();
+
+  // Load invoices with plan and attempts (no direct student relation on Invoice).
+  // Invoices of PAUSED / CANCELED subscriptions are left untouched, as are
+  // invoices waiting for a virtual-account deposit.
   const invoices = await prisma.invoice.findMany({
     where: {
-      status:  "PENDING",
-      dueDate: { lte: today },
-    },
-    include: {
-      plan:         true,
-      attempts:     { orderBy: { attemptNo: "asc" } },
-      subscription: true,
+      status:          "PENDING",
+      dueDate:         { lte: today },
+      subscription:    { status: "ACTIVE" },
+      virtualAccounts: { none: { status: "WAITING_FOR_DEPOSIT" } },
     },
+    include: BILLABLE_INVOICE_INCLUDE,
   });
 
   // Pre-fetch students in bulk
@@ -61,39 +122,157 @@ export async function runDailyBilling(): Promise<BillingRunResult> {
   const studentMap = Object.fromEntries(studentsRaw.map((s) => [s.id, s]));
 
   for (const invoice of invoices) {
+    await opts.assertLease?.();
     result.processed++;
 
-    const student = studentMap[invoice.studentUserId];
+    const outcome = await chargeInvoice(invoice, studentMap[invoice.studentUserId]);
 
-    if (invoice.attempts.length >= MAX_ATTEMPTS) {
-      await prisma.invoice.update({
-        where: { id: invoice.id },
-        data:  { status: "FAILED" },
-      });
-      result.failed++;
-      continue;
+    switch (outcome.status) {
+      case "SUCCEEDED":
+      case "NOTHING_DUE":
+        result.succeeded++;
+        break;
+      case "EXHAUSTED":
+        result.failed++;
+        break;
+      case "IN_GRACE":
+      case "IN_PROGRESS":
+      case "ALREADY_SETTLED":
+        result.skipped++;
+        break;
+      case "SKIPPED":
+        result.skipped++;
+        result.errors.push(`Invoice ${invoice.id}: ${outcome.reason}`);
+        break;
+      case "FAILED":
+        result.failed++;
+        result.errors.push(
+          `Invoice ${invoice.id} attempt ${outcome.attemptNo}: ${outcome.errorMessage}`,
+        );
+        break;
     }
+  }
 
-    const pm = await prisma.paymentMethod.findFirst({
-      where: {
-        studentUserId: invoice.studentUserId,
-        academyId:     invoice.academyId,
-        status:        "ACTIVE",
-      },
-      orderBy: { createdAt: "desc" },
-    });
+  return result;
+}
+
+// ─── Single-invoice charge ────────────────────────────────────────────────────
+
+/** Relations chargeInvoice() needs; use with prisma.invoice.find*. */
+export const BILLABLE_INVOICE_INCLUDE = {
+  plan:         true,
+  attempts:     { orderBy: { attemptNo: "asc" } },
+  lineItems:    { orderBy: { createdAt: "asc" } },
+  subscription: true,
+} satisfies Prisma.InvoiceInclude;
+
+export type BillableInvoice = Prisma.InvoiceGetPayload<{
+  include: typeof BILLABLE_INVOICE_INCLUDE;
+}>;
+
+export type ChargeOutcome =
+  | { status: "SUCCEEDED"; attemptNo: number; paymentKey: string }
+  | { status: "NOTHING_DUE" }
+  | { status: "FAILED";    attemptNo: number; errorCode: string; errorMessage: string; final: boolean }
+  | { status: "SKIPPED";   reason: string }
+  | { status: "IN_PROGRESS"; attemptNo: number }
+  | { status: "ALREADY_SETTLED"; paymentKey?: string }
+  | { status: "IN_GRACE";  graceEndsOn: Date }
+  | { status: "EXHAUSTED" };
+
+/**
+ * Charge one invoice with the student's active billingKey.
+ *
+ * Shared by runDailyBilling() and the admin manual retry so both follow the
+ * same attempt bookkeeping: one PaymentAttempt per call, up to MAX_ATTEMPTS
+ * (an admin may retry past it with ignoreAttemptLimit). Creating the
+ * attempt claims its attemptNo, so when the daily run and a manual retry
+ * race only one of them charges; the other gets IN_PROGRESS. The Toss
+ * idempotency key is derived from the orderId and attemptNo for the same
+ * reason.
+ *
+ * The invoice may be settled elsewhere meanwhile (marked paid offline, a
+ * deposit callback): its status is checked again once the attempt is
+ * claimed, and ALREADY_SETTLED is returned instead of charging. When the
+ * settlement lands while the provider call is in flight the charge cannot
+ * be undone here; the outcome carries its paymentKey and an audit entry
+ * flags it for a refund.
+ *
+ * Grace period (plan.graceDays after dueDate):
+ *  - once it has passed, plan.lateFee is added as a LATE_FEE line item (once)
+ *    and the charge uses the new invoice total – even when attempts ran out
+ *    during grace, the new total is charged once before giving up;
+ *  - the invoice is only marked FAILED when attempts are exhausted AND the
+ *    grace period is over. Until then it stays PENDING (IN_GRACE) so the
+ *    family can still pay offline or via a new card.
+ *
+ * An invoice whose total is zero (fully offset by proration credits) is
+ * settled without calling the payment provider.
+ *
+ * Parents are notified (AlimTalk, see billing-notifier.ts) of every failed
+ * attempt, the final failure and a successful charge.
+ */
+export async function chargeInvoice(
+  invoice: BillableInvoice,
+  student?: { name: string; email: string },
+  opts: { ignoreAttemptLimit?: boolean } = {},
+): Promise<ChargeOutcome> {
+  const plan      = invoice.plan;
+  const graceDays = plan?.graceDays ?? 0;
+  const pastGrace = isPastGrace(invoice.dueDate, graceDays);
 
-    if (!pm) {
-      result.skipped++;
-      result.errors.push(
-        `Invoice ${invoice.id}: no active payment method for student ${invoice.studentUserId}`,
-      );
-      continue;
+  let amount = invoice.amount;
+  let lateFeeAdded = false;
+  if (pastGrace && plan && plan.lateFee > 0) {
+    const total = await prisma.$transaction((tx) => applyLateFee(tx, invoice, plan));
+    if (total !== null) {
+      amount = total;
+      lateFeeAdded = true;
     }
+  }
+
+  if (amount <= 0) {
+    const settled = await prisma.$transaction((tx) => settleInvoice(tx, invoice, null));
+    return settled ? { status: "NOTHING_DUE" } : { status: "ALREADY_SETTLED" };
+  }
+
+  if (invoice.attempts.length >= MAX_ATTEMPTS && !lateFeeAdded && !opts.ignoreAttemptLimit) {
+    if (!pastGrace) {
+      return { status: "IN_GRACE", graceEndsOn: addDays(invoice.dueDate, graceDays) };
+    }
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data:  { status: "FAILED" },
+    });
+    await notifyBilling({
+      invoiceId: invoice.id,
+      event:     "FINAL_FAILED",
+      attemptNo: invoice.attempts.length,
+    });
+    return { status: "EXHAUSTED" };
+  }
+
+  const pm = await prisma.paymentMethod.findFirst({
+    where: {
+      studentUserId: invoice.studentUserId,
+      academyId:     invoice.academyId,
+      status:        "ACTIVE",
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!pm) {
+    return {
+      status: "SKIPPED",
+      reason: `no active payment method for student ${invoice.studentUserId}`,
+    };
+  }
 
-    const attemptNo = invoice.attempts.length + 1;
+  const attemptNo = invoice.attempts.length + 1;
 
-    const attempt = await prisma.paymentAttempt.create({
+  let attempt;
+  try {
+    attempt = await prisma.paymentAttempt.create({
       data: {
         academyId:   invoice.academyId,
         invoiceId:   invoice.id,
@@ -102,81 +281,167 @@ export async function runDailyBilling(): Promise<BillingRunResult> {
         status:      "REQUESTED",
       },
     });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return { status: "IN_PROGRESS", attemptNo };
+    }
+    throw e;
+  }
 
-    try {
-      const charge = await chargeWithBillingKey({
+  const current = await prisma.invoice.findUnique({
+    where:  { id: invoice.id },
+    select: { status: true },
+  });
+  if (current?.status !== "PENDING" && current?.status !== "FAILED") {
+    await prisma.paymentAttempt.update({
+      where: { id: attempt.id },
+      data:  {
+        status:       "FAILED",
+        errorCode:    "ALREADY_SETTLED",
+        errorMessage: `Invoice is already ${current?.status ?? "deleted"}`,
+      },
+    });
+    return { status: "ALREADY_SETTLED" };
+  }
+
+  try {
+    const charge = await getPaymentProvider().chargeWithBillingKey(
+      {
         billingKey:    pm.billingKey,
         customerKey:   pm.customerKey,
-        amount:        invoice.amount,
+        amount,
         orderId:       invoice.orderId,
         orderName:     `${invoice.plan?.name ?? "수강료"} (${invoice.dueDate.toISOString().slice(0, 7)})`,
         customerName:  student?.name ?? undefined,
         customerEmail: student?.email ?? undefined,
+      },
+      `${invoice.orderId}-A${attemptNo}`,
+    );
+
+    const settled = await prisma.$transaction(async (tx) => {
+      await tx.paymentAttempt.update({
+        where: { id: attempt.id },
+        data: {
+          status:                "SUCCESS",
+          providerTransactionId: charge.paymentKey,
+        },
       });
+      return settleInvoice(tx, invoice, charge.paymentKey);
+    });
 
-      await prisma.$transaction(async (tx) => {
-        await tx.paymentAttempt.update({
-          where: { id: attempt.id },
-          data: {
-            status:                "SUCCESS",
-            providerTransactionId: charge.paymentKey,
-          },
-        });
-        await tx.invoice.update({
-          where: { id: invoice.id },
-          data: {
-            status:             "PAID",
-            paidAt:             new Date(),
-            providerPaymentKey: charge.paymentKey,
-          },
-        });
-
-        if (invoice.subscriptionId && invoice.plan) {
-          const plan    = invoice.plan;
-          const nextNbd = setDate(addMonths(invoice.dueDate, 1), plan.billingDay);
-          const nextOid = `INV-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
-
-          await tx.studentSubscription.update({
-            where: { id: invoice.subscriptionId },
-            data:  { nextBillingDate: nextNbd },
-          });
-          await tx.invoice.create({
-            data: {
-              academyId:      invoice.academyId,
-              subscriptionId: invoice.subscriptionId,
-              studentUserId:  invoice.studentUserId,
-              planId:         invoice.planId,
-              amount:         plan.amount,
-              dueDate:        nextNbd,
-              orderId:        nextOid,
-              status:         "PENDING",
-            },
-          });
-        }
+    if (!settled) {
+      console.error(`[billing] Invoice ${invoice.id} was settled while charging; payment ${charge.paymentKey} needs a refund`);
+      await audit({
+        actorUserId: null,
+        academyId:   invoice.academyId,
+        action:      "invoice.chargeAfterSettle",
+        targetType:  "Invoice",
+        targetId:    invoice.id,
+        metaJson:    { attemptNo, paymentKey: charge.paymentKey, amount },
       });
+      return { status: "ALREADY_SETTLED", paymentKey: charge.paymentKey };
+    }
 
-      result.succeeded++;
-    } catch (e) {
-      const isKnown      = e instanceof TossError;
-      const errorCode    = isKnown ? e.code    : "UNKNOWN";
-      const errorMessage = isKnown ? e.message : String(e);
+    await notifyBilling({ invoiceId: invoice.id, event: "PAID", attemptNo });
 
-      await prisma.paymentAttempt.update({
-        where: { id: attempt.id },
-        data:  { status: "FAILED", errorCode, errorMessage },
-      });
+    return { status: "SUCCEEDED", attemptNo, paymentKey: charge.paymentKey };
+  } catch (e) {
+    const isKnown      = e instanceof TossError;
+    const errorCode    = isKnown ? e.code    : "UNKNOWN";
+    const errorMessage = isKnown ? e.message : String(e);
 
-      if (attemptNo >= MAX_ATTEMPTS) {
-        await prisma.invoice.update({
-          where: { id: invoice.id },
-          data:  { status: "FAILED" },
-        });
-      }
+    await prisma.paymentAttempt.update({
+      where: { id: attempt.id },
+      data:  { status: "FAILED", errorCode, errorMessage },
+    });
 
-      result.failed++;
-      result.errors.push(`Invoice ${invoice.id} attempt ${attemptNo}: ${errorMessage}`);
+    const final = attemptNo >= MAX_ATTEMPTS && pastGrace;
+    if (final) {
+      await prisma.invoice.update({
+        where: { id: invoice.id },
+        data:  { status: "FAILED" },
+      });
     }
+
+    await notifyBilling({
+      invoiceId:     invoice.id,
+      event:         final ? "FINAL_FAILED" : "FAILED",
+      attemptNo,
+      failureReason: errorMessage,
+    });
+
+    return { status: "FAILED", attemptNo, errorCode, errorMessage, final };
   }
+}
 
-  return result;
+/**
+ * Mark an invoice PAID and roll its subscription forward: advance
+ * nextBillingDate by one month and issue the next PENDING invoice.
+ * On prorated plans a mid-cycle first invoice rolls to the next billing day
+ * rather than a full month later. The academy's DiscountRules are evaluated
+ * here and added to the new invoice as DISCOUNT line items.
+ * Runs inside the caller's transaction.
+ *
+ * Only a PENDING or FAILED invoice is settled, so concurrent settlements
+ * (card charge, offline payment, deposit) roll the subscription forward
+ * once. Returns false, writing nothing, when the invoice was already closed.
+ */
+export async function settleInvoice(
+  tx: Prisma.TransactionClient,
+  invoice: Pick<Invoice, "id" | "academyId" | "subscriptionId" | "studentUserId" | "planId" | "dueDate"> & {
+    plan: TuitionPlan | null;
+  },
+  providerPaymentKey: string | null,
+): Promise<boolean> {
+  const { count } = await tx.invoice.updateMany({
+    where: { id: invoice.id, status: { in: ["PENDING", "FAILED"] } },
+    data: {
+      status:             "PAID",
+      paidAt:             new Date(),
+      providerPaymentKey,
+    },
+  });
+  if (count === 0) return false;
+
+  if (invoice.subscriptionId && invoice.plan) {
+    const plan    = invoice.plan;
+    const nextNbd = plan.prorationMode === "NONE"
+      ? setDate(addMonths(invoice.dueDate, 1), plan.billingDay)
+      : billingPeriodFor(invoice.dueDate, plan.billingDay).end;
+    const nextOid = generateOrderId();
+
+    const discounts = invoice.planId
+      ? await evaluateDiscounts(tx, {
+          academyId:      invoice.academyId,
+          subscriptionId: invoice.subscriptionId,
+          studentUserId:  invoice.studentUserId,
+          planId:         invoice.planId,
+          dueDate:        nextNbd,
+          baseAmount:     plan.amount,
+        })
+      : [];
+    const lineItems = [
+      tuitionLineItem(invoice.academyId, plan),
+      ...discounts.map((d) => ({ academyId: invoice.academyId, ...d })),
+    ];
+
+    await tx.studentSubscription.update({
+      where: { id: invoice.subscriptionId },
+      data:  { nextBillingDate: nextNbd },
+    });
+    await tx.invoice.create({
+      data: {
+        academyId:      invoice.academyId,
+        subscriptionId: invoice.subscriptionId,
+        studentUserId:  invoice.studentUserId,
+        planId:         invoice.planId,
+        amount:         lineItems.reduce((sum, li) => sum + li.amount, 0),
+        dueDate:        nextNbd,
+        orderId:        nextOid,
+        status:         "PENDING",
+        lineItems:      { create: lineItems },
+      },
+    });
+  }
+  return true;
 }
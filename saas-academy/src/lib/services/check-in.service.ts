@@ -0,0 +1,204 @@
+/**
+ * src/lib/services/check-in.service.ts
+ *
+ * Student self check-in with rotating session codes.
+ *
+ * A teacher opens self check-in for a session, which gives the session a
+ * random secret. The check-in screen shows a 6-digit code derived from the
+ * secret and the current CODE_PERIOD_SEC window (like TOTP), and a QR
+ * payload: the /me/attendance URL carrying the session and the code.
+ *
+ * A student submits the code for one session (POST /api/me/check-in limits
+ * how often). It is accepted in its own window and the one after it, from
+ * CHECK_IN_OPENS_MIN before the session starts until the session ends, for
+ * students actively enrolled in the class or booked in with a make-up
+ * credit who have not been marked yet. The student is marked PRESENT, or
+ * LATE once the class's lateAfterMin has passed, through markAttendance()
+ * as a SELF_CHECK_IN: the student is the marking user, the row is only
+ * inserted – so a mark set by staff, even concurrently, is never
+ * overwritten – and the check-in is logged to AttendanceHistory.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/db/client";
+import { markAttendance, type MarkedAttendance } from "@/lib/services/attendance.service";
+import { Prisma, type ClassSession } from "@prisma/client";
+
+/** Seconds each code stays current */
+export const CODE_PERIOD_SEC = 30;
+/** Minutes before the start at which students may check in */
+export const CHECK_IN_OPENS_MIN = 15;
+
+const MINUTE = 60_000;
+
+export class CheckInError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "CheckInError";
+  }
+}
+
+export interface CheckInCode {
+  code:      string;
+  /** When the next code replaces this one */
+  expiresAt: string;
+  periodSec: number;
+  qrPayload: string;
+}
+
+function codeWindow(at: Date): number {
+  return Math.floor(at.getTime() / 1000 / CODE_PERIOD_SEC);
+}
+
+/** The 6-digit code of a check-in secret in one window. */
+export function checkInCode(secret: string, window: number): string {
+  const digest = createHmac("sha256", secret).update(String(window)).digest();
+  return String(digest.readUInt32BE(0) % 1_000_000).padStart(6, "0");
+}
+
+/** Whether the code is the current or the previous window's code. */
+export function codeMatches(secret: string, code: string, now: Date): boolean {
+  if (!/^\d{6}$/.test(code)) return false;
+  const w = codeWindow(now);
+  return [w, w - 1].some((window) =>
+    timingSafeEqual(Buffer.from(checkInCode(secret, window)), Buffer.from(code)),
+  );
+}
+
+/** The code to show now, with the QR payload that carries it. */
+export function currentCheckInCode(
+  session: Pick<ClassSession, "id" | "checkInSecret">,
+  now: Date = new Date(),
+): CheckInCode {
+  if (!session.checkInSecret) throw new CheckInError("Self check-in is not open for this session", 409);
+  const w    = codeWindow(now);
+  const code = checkInCode(session.checkInSecret, w);
+  const baseUrl = process.env.APP_URL ?? "http://localhost:3001";
+  return {
+    code,
+    expiresAt: new Date((w + 1) * CODE_PERIOD_SEC * 1000).toISOString(),
+    periodSec: CODE_PERIOD_SEC,
+    qrPayload: `${baseUrl}/me/attendance?checkin=${session.id}&code=${code}`,
+  };
+}
+
+/** Open self check-in for a session; reopening keeps the current secret. */
+export async function openCheckIn(academyId: string, sessionId: string, now: Date = new Date()): Promise<CheckInCode> {
+  const session = await prisma.classSession.findFirst({ where: { id: sessionId, academyId } });
+  if (!session) throw new CheckInError("Session not found", 404);
+  if (session.status === "CANCELED") throw new CheckInError("The session is canceled", 409);
+  if (session.endsAt <= now) throw new CheckInError("The session has already ended", 409);
+  if (session.checkInSecret) return currentCheckInCode(session, now);
+
+  const opened = await prisma.classSession.update({
+    where: { id: session.id },
+    data:  { checkInSecret: randomBytes(20).toString("hex"), checkInOpenedAt: now },
+  });
+  return currentCheckInCode(opened, now);
+}
+
+export async function closeCheckIn(academyId: string, sessionId: string): Promise<void> {
+  const { count } = await prisma.classSession.updateMany({
+    where: { id: sessionId, academyId },
+    data:  { checkInSecret: null, checkInOpenedAt: null },
+  });
+  if (count === 0) throw new CheckInError("Session not found", 404);
+}
+
+/** Check a student in to a session with its current code. */
+export async function selfCheckIn(p: {
+  academyId:     string;
+  studentUserId: string;
+  code:          string;
+  sessionId:     string;
+  now?:          Date;
+}): Promise<{
+  attendance: MarkedAttendance;
+  session:    Pick<ClassSession, "id" | "localDate" | "startsAt">;
+  className:  string;
+}> {
+  const now = p.now ?? new Date();
+
+  // ── Code window ────────────────────────────────────────────────────────────
+  const session = await prisma.classSession.findFirst({
+    where: {
+      id:            p.sessionId,
+      academyId:     p.academyId,
+      checkInSecret: { not: null },
+      status:        { not: "CANCELED" },
+    },
+    include: { class: { select: { name: true, lateAfterMin: true } } },
+  });
+  if (!session || !codeMatches(session.checkInSecret!, p.code, now)) {
+    throw new CheckInError("The code is invalid or has expired", 422);
+  }
+
+  // ── Active enrollment (or make-up booking) ─────────────────────────────────
+  const [enrollment, makeup] = await Promise.all([
+    prisma.classEnrollment.findFirst({
+      where: {
+        academyId:     p.academyId,
+        classId:       session.classId,
+        studentUserId: p.studentUserId,
+        status:        "ACTIVE",
+      },
+      select: { id: true },
+    }),
+    prisma.makeupCredit.findFirst({
+      where: {
+        redeemedSessionId: session.id,
+        studentUserId:     p.studentUserId,
+        status:            "REDEEMED",
+      },
+      select: { id: true },
+    }),
+  ]);
+  if (!enrollment && !makeup) throw new CheckInError("You are not enrolled in this class", 403);
+
+  // ── Session time window ────────────────────────────────────────────────────
+  if (now.getTime() < session.startsAt.getTime() - CHECK_IN_OPENS_MIN * MINUTE || now >= session.endsAt) {
+    throw new CheckInError(
+      `Check-in is open from ${CHECK_IN_OPENS_MIN} minutes before the session until it ends`,
+      409,
+    );
+  }
+
+  const late = now.getTime() > session.startsAt.getTime() + session.class.lateAfterMin * MINUTE;
+  let marked: MarkedAttendance[];
+  try {
+    ({ marked } = await markAttendance({
+      academyId:    p.academyId,
+      session,
+      entries:      [{ studentUserId: p.studentUserId, status: late ? "LATE" : "PRESENT", reason: "Self check-in" }],
+      editorUserId: p.studentUserId,
+      source:       "SELF_CHECK_IN",
+    }));
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002")) throw e;
+
+    const existing = await prisma.attendance.findUnique({
+      where: {
+        academyId_sessionId_studentUserId: {
+          academyId:     p.academyId,
+          sessionId:     session.id,
+          studentUserId: p.studentUserId,
+        },
+      },
+      select: { markedByUserId: true },
+    });
+    throw new CheckInError(
+      existing?.markedByUserId === p.studentUserId
+        ? "You have already checked in"
+        : "Your attendance has already been marked by staff",
+      409,
+    );
+  }
+
+  return {
+    attendance: marked[0],
+    session:    { id: session.id, localDate: session.localDate, startsAt: session.startsAt },
+    className:  session.class.name,
+  };
+}
@@ -7,17 +7,21 @@
  * Rules:
  *  - Only creates sessions in [dateFrom, dateTo].
  *  - Skips dates that already have a session (classId + startsAt unique).
- *  - "Regenerate future" mode: deletes SCHEDULED sessions after today
- *    that have NO attendance, then re-creates from new schedule.
- *  - Never deletes COMPLETED / CANCELED sessions or sessions with attendance.
+ *  - Skips dates on which the academy is closed (AcademyClosure).
+ *  - Sessions take the room of their schedule rule.
+ *  - "Regenerate future" mode: deletes REGULAR SCHEDULED sessions after
+ *    today that have NO attendance, then re-creates from new schedule.
+ *  - Never deletes COMPLETED / CANCELED sessions, sessions with attendance
+ *    or make-up bookings, or RESCHEDULED / EXTRA sessions.
  */
 import { prisma } from "@/lib/db/client";
+import { closedDates, findClosures } from "@/lib/services/closure.service";
 import type { ClassSchedule, SessionStatus } from "@prisma/client";
 
 const KST_OFFSET_MS = 9 * 60 * 60 * 1000; // UTC+9
 
 /** Convert a UTC Date to "YYYY-MM-DD" in Asia/Seoul */
-function toKSTDateStr(utc: Date): string {
+export function toKSTDateStr(utc: Date): string {
   return utc.toLocaleDateString("sv-SE", { timeZone: "Asia/Seoul" });
 }
 
@@ -76,6 +80,42 @@ export interface GenerateOptions {
   dateTo:    Date;
 }
 
+export interface PlannedSession {
+  startsAt:  Date;
+  endsAt:    Date;
+  localDate: string;
+  roomId:    string | null;
+}
+
+/**
+ * The sessions the given schedule rules produce in [dateFrom, dateTo],
+ * without closed dates. Nothing is written; generateSessions creates them
+ * and the conflict checker vets them before a class is created.
+ */
+export async function planSessions(
+  academyId: string,
+  schedules: Array<Pick<ClassSchedule, "daysOfWeek" | "startTime" | "durationMin" | "timezone"> & { roomId?: string | null }>,
+  dateFrom: Date,
+  dateTo: Date,
+): Promise<PlannedSession[]> {
+  if (schedules.length === 0) return [];
+
+  // scheduledDates walks the UTC calendar days of [dateFrom, dateTo]
+  const closed = closedDates(await findClosures(academyId, {
+    from: dateFrom.toISOString().slice(0, 10),
+    to:   dateTo.toISOString().slice(0, 10),
+  }));
+
+  const planned: PlannedSession[] = [];
+  for (const schedule of schedules) {
+    for (const slot of scheduledDates(schedule, dateFrom, dateTo)) {
+      if (closed.has(slot.localDate)) continue;
+      planned.push({ ...slot, roomId: schedule.roomId ?? null });
+    }
+  }
+  return planned;
+}
+
 /** Create new sessions (no-op for duplicates). Returns count of created rows. */
 export async function generateSessions(opts: GenerateOptions): Promise<number> {
   const { classId, academyId, dateFrom, dateTo } = opts;
@@ -83,38 +123,37 @@ export async function generateSessions(opts: GenerateOptions): Promise<number> {
   const schedules = await prisma.classSchedule.findMany({
     where: { classId, academyId },
   });
-  if (schedules.length === 0) return 0;
 
   let created = 0;
-  for (const schedule of schedules) {
-    for (const slot of scheduledDates(schedule, dateFrom, dateTo)) {
-      // upsert – ignore if already exists
-      const existing = await prisma.classSession.findUnique({
-        where: { classId_startsAt: { classId, startsAt: slot.startsAt } },
-      });
-      if (existing) continue;
-
-      await prisma.classSession.create({
-        data: {
-          academyId,
-          classId,
-          startsAt:  slot.startsAt,
-          endsAt:    slot.endsAt,
-          localDate: slot.localDate,
-          status:    "SCHEDULED",
-        },
-      });
-      created++;
-    }
+  for (const slot of await planSessions(academyId, schedules, dateFrom, dateTo)) {
+    // upsert – ignore if already exists
+    const existing = await prisma.classSession.findUnique({
+      where: { classId_startsAt: { classId, startsAt: slot.startsAt } },
+    });
+    if (existing) continue;
+
+    await prisma.classSession.create({
+      data: {
+        academyId,
+        classId,
+        startsAt:  slot.startsAt,
+        endsAt:    slot.endsAt,
+        localDate: slot.localDate,
+        roomId:    slot.roomId,
+        status:    "SCHEDULED",
+      },
+    });
+    created++;
   }
   return created;
 }
 
 /**
  * Regenerate future sessions:
- *  1. Collect all SCHEDULED sessions after `safeAfter` (default: now) that have 0 attendance.
+ *  1. Collect all REGULAR SCHEDULED sessions after `safeAfter` (default: now)
+ *     that have 0 attendance and no make-up bookings.
  *  2. Delete those.
- *  3. Call generateSessions for the future range.
+ *  3. Call generateSessions for the future range (closed dates are skipped).
  * Returns { deleted, created }.
  */
 export async function regenerateFutureSessions(
@@ -129,13 +168,15 @@ export async function regenerateFutureSessions(
       classId,
       academyId,
       status:   "SCHEDULED",
+      kind:     "REGULAR",
       startsAt: { gt: cutoff },
     },
-    include: { _count: { select: { attendances: true } } },
+    include: { _count: { select: { attendances: true, makeupBookings: true } } },
   });
 
-  const toDelete   = candidates.filter((s) => s._count.attendances === 0);
-  const skipped    = candidates.filter((s) => s._count.attendances > 0);
+  const inUse      = (s: (typeof candidates)[number]) => s._count.attendances + s._count.makeupBookings > 0;
+  const toDelete   = candidates.filter((s) => !inUse(s));
+  const skipped    = candidates.filter(inUse);
 
   if (toDelete.length > 0) {
     await prisma.classSession.deleteMany({
@@ -0,0 +1,188 @@
+/**
+ * src/lib/services/closure.service.ts
+ *
+ * Academy closure calendar: single days, ranges (vacation weeks) and
+ * Korean public holidays imported from kr-holidays.ts.
+ *
+ * Closures are "YYYY-MM-DD" (Asia/Seoul) ranges, inclusive on both ends, so
+ * they compare directly with ClassSession.localDate.
+ *
+ * Effects:
+ *  - generateSessions / regenerateFutureSessions skip closed dates
+ *  - session counts (class list, PER_SESSION proration) leave out sessions
+ *    held on closed dates, whether or not they were canceled
+ *  - adding a closure reports the future sessions it affects; the admin can
+ *    then cancel them (cancelSessionsOnClosures). Sessions with attendance
+ *    are never canceled.
+ *
+ * Removing a closure does not restore canceled sessions – regenerate the
+ * class's sessions for that.
+ */
+import { prisma } from "@/lib/db/client";
+import { publicHolidaysOf } from "@/lib/calendar/kr-holidays";
+import type { AcademyClosure, Prisma } from "@prisma/client";
+
+export class ClosureError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "ClosureError";
+  }
+}
+
+export interface DateRange {
+  startDate: string;
+  endDate:   string;
+}
+
+/** Closures overlapping [from, to] (inclusive), or all of them. */
+export async function findClosures(
+  academyId: string,
+  range?: { from: string; to: string },
+): Promise<AcademyClosure[]> {
+  return prisma.academyClosure.findMany({
+    where: {
+      academyId,
+      ...(range ? { startDate: { lte: range.to }, endDate: { gte: range.from } } : {}),
+    },
+    orderBy: { startDate: "asc" },
+  });
+}
+
+/** Every "YYYY-MM-DD" covered by `closures`. */
+export function closedDates(closures: DateRange[]): Set<string> {
+  const dates = new Set<string>();
+  for (const c of closures) {
+    const cursor = new Date(`${c.startDate}T00:00:00Z`);
+    const end    = new Date(`${c.endDate}T00:00:00Z`);
+    while (cursor <= end) {
+      dates.add(cursor.toISOString().slice(0, 10));
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  }
+  return dates;
+}
+
+/** ClassSession filter for sessions held on one of `closures`. */
+export function onClosures(closures: DateRange[]): Prisma.ClassSessionWhereInput {
+  return {
+    OR: closures.map((c) => ({ localDate: { gte: c.startDate, lte: c.endDate } })),
+  };
+}
+
+/** ClassSession filter leaving out sessions held on one of `closures`. */
+export function notOnClosures(closures: DateRange[]): Prisma.ClassSessionWhereInput {
+  return closures.length > 0 ? { NOT: onClosures(closures) } : {};
+}
+
+/** Future SCHEDULED sessions on `closures` that nobody has attendance for. */
+function affectedWhere(
+  academyId: string,
+  closures: DateRange[],
+  now: Date,
+): Prisma.ClassSessionWhereInput {
+  return {
+    academyId,
+    status:      "SCHEDULED",
+    startsAt:    { gt: now },
+    attendances: { none: {} },
+    ...onClosures(closures),
+  };
+}
+
+export async function countAffectedSessions(
+  academyId: string,
+  closures: DateRange[],
+  now: Date = new Date(),
+): Promise<number> {
+  if (closures.length === 0) return 0;
+  return prisma.classSession.count({ where: affectedWhere(academyId, closures, now) });
+}
+
+export async function createClosure(p: {
+  academyId:       string;
+  name:            string;
+  startDate:       string;
+  endDate?:        string | null;
+  createdByUserId: string;
+  now?:            Date;
+}): Promise<{ closure: AcademyClosure; affectedSessions: number }> {
+  const endDate = p.endDate ?? p.startDate;
+  if (endDate < p.startDate) throw new ClosureError("endDate must not be before startDate", 422);
+
+  const existing = await prisma.academyClosure.findUnique({
+    where: { academyId_startDate_name: { academyId: p.academyId, startDate: p.startDate, name: p.name } },
+  });
+  if (existing) throw new ClosureError("A closure with this name already starts on that date", 409);
+
+  const closure = await prisma.academyClosure.create({
+    data: {
+      academyId:       p.academyId,
+      name:            p.name,
+      startDate:       p.startDate,
+      endDate,
+      source:          "MANUAL",
+      createdByUserId: p.createdByUserId,
+    },
+  });
+
+  const affectedSessions = await countAffectedSessions(p.academyId, [closure], p.now);
+  return { closure, affectedSessions };
+}
+
+/**
+ * Add a year of public holidays as closures. Holidays already on the
+ * calendar are left alone, so importing twice is harmless.
+ */
+export async function importPublicHolidays(p: {
+  academyId:       string;
+  year:            number;
+  createdByUserId: string;
+  now?:            Date;
+}): Promise<{ imported: number; affectedSessions: number }> {
+  const holidays = publicHolidaysOf(p.year);
+  if (holidays.length === 0) {
+    throw new ClosureError(`No public holiday data for ${p.year}`, 422);
+  }
+
+  const { count } = await prisma.academyClosure.createMany({
+    data: holidays.map((h) => ({
+      academyId:       p.academyId,
+      name:            h.name,
+      startDate:       h.date,
+      endDate:         h.date,
+      source:          "PUBLIC_HOLIDAY" as const,
+      createdByUserId: p.createdByUserId,
+    })),
+    skipDuplicates: true,
+  });
+
+  const ranges = holidays.map((h) => ({ startDate: h.date, endDate: h.date }));
+  const affectedSessions = await countAffectedSessions(p.academyId, ranges, p.now);
+  return { imported: count, affectedSessions };
+}
+
+/**
+ * Cancel future SCHEDULED sessions, without attendance, that fall on a
+ * closure overlapping [from, to]. Returns the number canceled.
+ */
+export async function cancelSessionsOnClosures(
+  academyId: string,
+  from: string,
+  to: string,
+  now: Date = new Date(),
+): Promise<number> {
+  const closures = await findClosures(academyId, { from, to });
+  if (closures.length === 0) return 0;
+
+  const { count } = await prisma.classSession.updateMany({
+    where: {
+      ...affectedWhere(academyId, closures, now),
+      localDate: { gte: from, lte: to },
+    },
+    data: { status: "CANCELED" },
+  });
+  return count;
+}
@@ -0,0 +1,145 @@
+/**
+ * src/lib/services/conflict.service.ts
+ *
+ * Teacher and room double-booking checks.
+ *
+ * A proposed time slot conflicts with an existing, non-canceled session when
+ * the two overlap (touching end-to-start is fine) and either
+ *  - TEACHER – the existing session is taught by the same teacher (its
+ *              substitute, or else its class teacher), or
+ *  - ROOM    – the existing session is held in the same room.
+ *
+ * Callers (class creation, session regeneration, rescheduling and extra
+ * sessions) refuse the change with a 409 listing the conflicts, unless an
+ * admin explicitly overrides them.
+ */
+import { prisma } from "@/lib/db/client";
+
+export type ConflictType = "TEACHER" | "ROOM";
+
+export interface ProposedSlot {
+  startsAt: Date;
+  endsAt:   Date;
+  roomId:   string | null;
+}
+
+export interface ScheduleConflict {
+  type:     ConflictType;
+  /** The proposed slot that clashes */
+  startsAt: string;
+  endsAt:   string;
+  /** The existing session it clashes with */
+  session: {
+    id:        string;
+    classId:   string;
+    className: string;
+    localDate: string;
+    startsAt:  string;
+    endsAt:    string;
+    roomId:    string | null;
+    roomName:  string | null;
+  };
+}
+
+export class ConflictError extends Error {
+  readonly status = 409;
+  constructor(public readonly conflicts: ScheduleConflict[]) {
+    super(`The schedule conflicts with ${conflicts.length} existing session(s)`);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Find existing sessions that clash with the proposed slots.
+ *
+ * teacherUserId is the teacher of the proposed slots – for an existing
+ * session, its substitute if it has one. excludeClassId skips the sessions
+ * of the class being (re)generated; excludeSessionIds skips sessions that
+ * the change replaces.
+ */
+export async function findConflicts(p: {
+  academyId:          string;
+  teacherUserId:      string | null;
+  slots:              ProposedSlot[];
+  excludeClassId?:    string;
+  excludeSessionIds?: string[];
+}): Promise<ScheduleConflict[]> {
+  const roomIds = [...new Set(p.slots.map((s) => s.roomId).filter((id): id is string => !!id))];
+  if (p.slots.length === 0 || (!p.teacherUserId && roomIds.length === 0)) return [];
+
+  const from = new Date(Math.min(...p.slots.map((s) => s.startsAt.getTime())));
+  const to   = new Date(Math.max(...p.slots.map((s) => s.endsAt.getTime())));
+
+  const existing = await prisma.classSession.findMany({
+    where: {
+      academyId: p.academyId,
+      status:    { not: "CANCELED" },
+      startsAt:  { lt: to },
+      endsAt:    { gt: from },
+      ...(p.excludeClassId    ? { classId: { not: p.excludeClassId } } : {}),
+      ...(p.excludeSessionIds ? { id: { notIn: p.excludeSessionIds } } : {}),
+      OR: [
+        ...(p.teacherUserId
+          ? [
+              { class: { teacherUserId: p.teacherUserId }, substituteTeacherUserId: null },
+              { substituteTeacherUserId: p.teacherUserId },
+            ]
+          : []),
+        ...(roomIds.length > 0 ? [{ roomId: { in: roomIds } }] : []),
+      ],
+    },
+    include: {
+      class: { select: { name: true, teacherUserId: true } },
+      room:  { select: { name: true } },
+    },
+    orderBy: { startsAt: "asc" },
+  });
+
+  const conflicts: ScheduleConflict[] = [];
+  for (const slot of p.slots) {
+    for (const s of existing) {
+      if (!(s.startsAt < slot.endsAt && slot.startsAt < s.endsAt)) continue;
+
+      const types: ConflictType[] = [];
+      const teacher = s.substituteTeacherUserId ?? s.class.teacherUserId;
+      if (p.teacherUserId && teacher === p.teacherUserId) types.push("TEACHER");
+      if (slot.roomId && s.roomId === slot.roomId) types.push("ROOM");
+
+      for (const type of types) {
+        conflicts.push({
+          type,
+          startsAt: slot.startsAt.toISOString(),
+          endsAt:   slot.endsAt.toISOString(),
+          session: {
+            id:        s.id,
+            classId:   s.classId,
+            className: s.class.name,
+            localDate: s.localDate,
+            startsAt:  s.startsAt.toISOString(),
+            endsAt:    s.endsAt.toISOString(),
+            roomId:    s.roomId,
+            roomName:  s.room?.name ?? null,
+          },
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Throw a ConflictError for conflicts that were not overridden. Returns the
+ * conflicts so callers can record an override in the audit log.
+ */
+export function assertNoConflicts(conflicts: ScheduleConflict[], override: boolean): ScheduleConflict[] {
+  if (conflicts.length > 0 && !override) throw new ConflictError(conflicts);
+  return conflicts;
+}
+
+/** Whether every given room belongs to the academy and is active. */
+export async function roomsUsable(academyId: string, roomIds: Array<string | null | undefined>): Promise<boolean> {
+  const ids = [...new Set(roomIds.filter((id): id is string => !!id))];
+  if (ids.length === 0) return true;
+  const found = await prisma.room.count({ where: { academyId, id: { in: ids }, isActive: true } });
+  return found === ids.length;
+}
@@ -0,0 +1,109 @@
+/**
+ * src/lib/services/consent.service.ts
+ *
+ * Parent notification consent: the opt-in flag plus per-event choices on
+ * ParentContact, and the ParentContactConsent history behind them.
+ *
+ * Two ways in, both recorded with source, time, IP and user agent:
+ *  - ADMIN        – contacts screen (POST/PATCH /api/academy/parent-contacts)
+ *  - PARENT_LINK  – public preference page opened from #{preferenceUrl}
+ *
+ * A history row is only written when the resulting state differs from the
+ * previous one, so re-saving an unchanged form leaves no noise.
+ */
+
+import { prisma } from "@/lib/db/client";
+import type {
+  ConsentSource,
+  ParentContact,
+  ParentContactConsent,
+  Prisma,
+} from "@prisma/client";
+
+export interface ConsentChoices {
+  optIn:         boolean;
+  notifyAbsent:  boolean;
+  notifyLate:    boolean;
+  notifyBilling: boolean;
+}
+
+export interface ConsentChangeContext {
+  source:       ConsentSource;
+  actorUserId?: string | null;
+  ip?:          string | null;
+  userAgent?:   string | null;
+}
+
+type ConsentFields = Pick<
+  ParentContact,
+  "notificationOptIn" | "notifyAbsent" | "notifyLate" | "notifyBilling"
+>;
+
+/** Current consent state of a contact. */
+export function consentChoices(contact: ConsentFields): ConsentChoices {
+  return {
+    optIn:         contact.notificationOptIn,
+    notifyAbsent:  contact.notifyAbsent,
+    notifyLate:    contact.notifyLate,
+    notifyBilling: contact.notifyBilling,
+  };
+}
+
+function sameChoices(a: ConsentChoices, b: ConsentChoices): boolean {
+  return a.optIn === b.optIn
+    && a.notifyAbsent === b.notifyAbsent
+    && a.notifyLate === b.notifyLate
+    && a.notifyBilling === b.notifyBilling;
+}
+
+/**
+ * Write a history row for a contact whose consent was just changed.
+ * `before` is null for a newly created contact. Returns null when nothing
+ * changed.
+ */
+export async function recordConsentChange(
+  before: ConsentFields | null,
+  after: ParentContact,
+  ctx: ConsentChangeContext,
+  db: Prisma.TransactionClient = prisma,
+): Promise<ParentContactConsent | null> {
+  const next = consentChoices(after);
+  if (before && sameChoices(consentChoices(before), next)) return null;
+
+  return db.parentContactConsent.create({
+    data: {
+      academyId:       after.academyId,
+      parentContactId: after.id,
+      source:          ctx.source,
+      actorUserId:     ctx.actorUserId ?? null,
+      ...next,
+      ip:              ctx.ip ?? null,
+      userAgent:       ctx.userAgent ?? null,
+    },
+  });
+}
+
+/**
+ * Set a contact's consent and record it. Opting in (again) stamps
+ * consentRecordedAt.
+ */
+export async function setContactConsent(
+  contact: ParentContact,
+  choices: ConsentChoices,
+  ctx: ConsentChangeContext,
+): Promise<ParentContact> {
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.parentContact.update({
+      where: { id: contact.id },
+      data:  {
+        notificationOptIn: choices.optIn,
+        notifyAbsent:      choices.notifyAbsent,
+        notifyLate:        choices.notifyLate,
+        notifyBilling:     choices.notifyBilling,
+        ...(choices.optIn && !contact.notificationOptIn ? { consentRecordedAt: new Date() } : {}),
+      },
+    });
+    await recordConsentChange(contact, updated, ctx, tx);
+    return updated;
+  });
+}
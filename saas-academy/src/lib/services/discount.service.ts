@@ -0,0 +1,186 @@
+/**
+ * src/lib/services/discount.service.ts
+ *
+ * Academy-level DiscountRules. They are evaluated when settleInvoice()
+ * issues a subscription's next invoice; each rule that applies becomes a
+ * DISCOUNT line item linked by discountRuleId, so the invoice records which
+ * rules were used.
+ *
+ * Rules stack in creation order. The combined discount is capped at the
+ * plan amount so an invoice never goes negative.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { addDays } from "date-fns";
+import type { DiscountRule, Prisma, StudentSubscription } from "@prisma/client";
+
+type Db = Prisma.TransactionClient;
+
+export class DiscountError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "DiscountError";
+  }
+}
+
+export interface DiscountLine {
+  type:           "DISCOUNT";
+  description:    string;
+  amount:         number; // negative
+  discountRuleId: string;
+}
+
+/** KRW taken off `baseAmount` by one rule (positive, at most baseAmount). */
+export function discountAmount(
+  rule: Pick<DiscountRule, "valueType" | "value">,
+  baseAmount: number,
+): number {
+  const raw = rule.valueType === "PERCENT"
+    ? Math.round((baseAmount * rule.value) / 100)
+    : rule.value;
+  return Math.min(Math.max(raw, 0), baseAmount);
+}
+
+/** validFrom / validUntil are inclusive calendar days; null = open-ended. */
+export function isRuleInWindow(
+  rule: Pick<DiscountRule, "validFrom" | "validUntil">,
+  date: Date,
+): boolean {
+  if (rule.validFrom  && date.getTime() < rule.validFrom.getTime())  return false;
+  if (rule.validUntil && date.getTime() > rule.validUntil.getTime()) return false;
+  return true;
+}
+
+/**
+ * Students of the same family (sharing an active ParentContact phone) who
+ * hold an ACTIVE subscription, the student included.
+ */
+export async function countSubscribedSiblings(
+  db: Db,
+  academyId: string,
+  studentUserId: string,
+): Promise<number> {
+  const own = await db.parentContact.findMany({
+    where:  { academyId, studentUserId, status: "ACTIVE" },
+    select: { phone: true },
+  });
+  if (own.length === 0) return 1;
+
+  const family = await db.parentContact.findMany({
+    where:    { academyId, phone: { in: own.map((c) => c.phone) }, status: "ACTIVE" },
+    select:   { studentUserId: true },
+    distinct: ["studentUserId"],
+  });
+
+  const subscribed = await db.studentSubscription.findMany({
+    where:    {
+      academyId,
+      studentUserId: { in: family.map((c) => c.studentUserId) },
+      status:        "ACTIVE",
+    },
+    select:   { studentUserId: true },
+    distinct: ["studentUserId"],
+  });
+  return Math.max(subscribed.length, 1);
+}
+
+export interface DiscountContext {
+  academyId:      string;
+  subscriptionId: string;
+  studentUserId:  string;
+  planId:         string;
+  dueDate:        Date;
+  /** Amount percentages are taken from (the plan amount). */
+  baseAmount:     number;
+}
+
+/** DISCOUNT lines for the invoice described by `ctx`, in rule creation order. */
+export async function evaluateDiscounts(db: Db, ctx: DiscountContext): Promise<DiscountLine[]> {
+  const rules = (await db.discountRule.findMany({
+    where:   {
+      academyId: ctx.academyId,
+      isActive:  true,
+      OR:        [{ planId: null }, { planId: ctx.planId }],
+    },
+    orderBy: { createdAt: "asc" },
+  })).filter((r) => isRuleInWindow(r, ctx.dueDate));
+  if (rules.length === 0) return [];
+
+  // Looked up only when a rule of that type is in play
+  let siblings: number | undefined;
+  let classes:  number | undefined;
+  let coupons:  Set<string> | undefined;
+
+  const lines: DiscountLine[] = [];
+  let remaining = ctx.baseAmount;
+
+  for (const rule of rules) {
+    let applies = false;
+    switch (rule.type) {
+      case "SIBLING":
+        siblings ??= await countSubscribedSiblings(db, ctx.academyId, ctx.studentUserId);
+        applies = siblings >= rule.minCount;
+        break;
+      case "MULTI_CLASS":
+        classes ??= await db.classEnrollment.count({
+          where: { academyId: ctx.academyId, studentUserId: ctx.studentUserId, status: "ACTIVE" },
+        });
+        applies = classes >= rule.minCount;
+        break;
+      case "COUPON":
+        coupons ??= new Set((await db.subscriptionCoupon.findMany({
+          where:  { subscriptionId: ctx.subscriptionId },
+          select: { ruleId: true },
+        })).map((c) => c.ruleId));
+        applies = coupons.has(rule.id);
+        break;
+      case "PROMOTION":
+        applies = true;
+        break;
+    }
+    if (!applies) continue;
+
+    const amount = Math.min(discountAmount(rule, ctx.baseAmount), remaining);
+    if (amount <= 0) continue;
+    remaining -= amount;
+    lines.push({
+      type:           "DISCOUNT",
+      description:    rule.name,
+      amount:         -amount,
+      discountRuleId: rule.id,
+    });
+  }
+
+  return lines;
+}
+
+/** Attach a COUPON rule to a subscription by its (case-insensitive) code. */
+export async function applyCoupon(sub: StudentSubscription, code: string) {
+  if (sub.status === "CANCELED") {
+    throw new DiscountError("Cannot apply a coupon to a canceled subscription", 409);
+  }
+
+  const rule = await prisma.discountRule.findFirst({
+    where: { academyId: sub.academyId, type: "COUPON", code: code.toUpperCase(), isActive: true },
+  });
+  if (!rule) throw new DiscountError("Coupon not found", 404);
+  if (rule.validUntil && addDays(rule.validUntil, 1).getTime() <= Date.now()) {
+    throw new DiscountError("Coupon has expired", 422);
+  }
+  if (rule.planId && rule.planId !== sub.planId) {
+    throw new DiscountError("Coupon does not apply to this plan", 422);
+  }
+
+  const existing = await prisma.subscriptionCoupon.findUnique({
+    where: { subscriptionId_ruleId: { subscriptionId: sub.id, ruleId: rule.id } },
+  });
+  if (existing) throw new DiscountError("Coupon already applied", 409);
+
+  return prisma.subscriptionCoupon.create({
+    data:    { academyId: sub.academyId, subscriptionId: sub.id, ruleId: rule.id },
+    include: { rule: true },
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * src/lib/services/invoice.service.ts
+ *
+ * Invoice line-item helpers. Invoice.amount is always the sum of the
+ * invoice's line items; every function here that touches items recomputes it.
+ */
+
+import type { Prisma, TuitionPlan } from "@prisma/client";
+import { discountAmount } from "./discount.service";
+
+type Tx = Prisma.TransactionClient;
+
+/** Nested-create payload for the base tuition item of a new invoice. */
+export function tuitionLineItem(
+  academyId: string,
+  plan: Pick<TuitionPlan, "name" | "amount">,
+): Prisma.InvoiceLineItemUncheckedCreateWithoutInvoiceInput {
+  return {
+    academyId,
+    type:        "TUITION",
+    description: plan.name,
+    amount:      plan.amount,
+  };
+}
+
+/** Set Invoice.amount to the sum of its line items and return the new total. */
+export async function recalculateInvoiceAmount(tx: Tx, invoiceId: string): Promise<number> {
+  const agg = await tx.invoiceLineItem.aggregate({
+    where: { invoiceId },
+    _sum:  { amount: true },
+  });
+  const total = agg._sum.amount ?? 0;
+  await tx.invoice.update({
+    where: { id: invoiceId },
+    data:  { amount: total },
+  });
+  return total;
+}
+
+/**
+ * Invoices created before line items existed carry only Invoice.amount.
+ * Back-fill a single TUITION item so later adjustments add up correctly.
+ */
+async function ensureBaseLineItem(
+  tx: Tx,
+  invoice: { id: string; academyId: string; amount: number },
+  description: string,
+): Promise<void> {
+  const count = await tx.invoiceLineItem.count({ where: { invoiceId: invoice.id } });
+  if (count > 0) return;
+  await tx.invoiceLineItem.create({
+    data: {
+      academyId:   invoice.academyId,
+      invoiceId:   invoice.id,
+      type:        "TUITION",
+      description,
+      amount:      invoice.amount,
+    },
+  });
+}
+
+/**
+ * Add the plan's late fee to an invoice once. Returns the new total, or
+ * null when the fee was already applied.
+ */
+export async function applyLateFee(
+  tx: Tx,
+  invoice: { id: string; academyId: string; amount: number },
+  plan: Pick<TuitionPlan, "name" | "lateFee">,
+): Promise<number | null> {
+  const existing = await tx.invoiceLineItem.findFirst({
+    where: { invoiceId: invoice.id, type: "LATE_FEE" },
+  });
+  if (existing) return null;
+
+  await ensureBaseLineItem(tx, invoice, plan.name);
+  await tx.invoiceLineItem.create({
+    data: {
+      academyId:   invoice.academyId,
+      invoiceId:   invoice.id,
+      type:        "LATE_FEE",
+      description: "연체료",
+      amount:      plan.lateFee,
+    },
+  });
+  return recalculateInvoiceAmount(tx, invoice.id);
+}
+
+/**
+ * Re-take DISCOUNT items from a new base amount: PERCENT rules follow the
+ * base, and the combined discount stays within it (in the order added).
+ * Items whose rule was deleted keep their amount.
+ */
+async function repriceDiscountLineItems(tx: Tx, invoiceId: string, baseAmount: number): Promise<void> {
+  const discounts = await tx.invoiceLineItem.findMany({
+    where:   { invoiceId, type: "DISCOUNT" },
+    include: { discountRule: { select: { valueType: true, value: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let remaining = baseAmount;
+  for (const line of discounts) {
+    const wanted = line.discountRule?.valueType === "PERCENT"
+      ? discountAmount(line.discountRule, baseAmount)
+      : -line.amount;
+    const amount = Math.min(wanted, remaining);
+    remaining -= amount;
+    if (-amount === line.amount) continue;
+    await tx.invoiceLineItem.update({
+      where: { id: line.id },
+      data:  { amount: -amount },
+    });
+  }
+}
+
+/** Re-price the TUITION and DISCOUNT items of an unpaid invoice (plan change). */
+export async function replaceTuitionLineItem(
+  tx: Tx,
+  invoice: { id: string; academyId: string; amount: number },
+  plan: Pick<TuitionPlan, "id" | "name" | "amount">,
+): Promise<number> {
+  const tuition = await tx.invoiceLineItem.findFirst({
+    where: { invoiceId: invoice.id, type: "TUITION" },
+  });
+  if (tuition) {
+    await tx.invoiceLineItem.update({
+      where: { id: tuition.id },
+      data:  { description: plan.name, amount: plan.amount },
+    });
+  } else {
+    await tx.invoiceLineItem.create({
+      data: {
+        academyId:   invoice.academyId,
+        invoiceId:   invoice.id,
+        type:        "TUITION",
+        description: plan.name,
+        amount:      plan.amount,
+      },
+    });
+  }
+  await repriceDiscountLineItems(tx, invoice.id, plan.amount);
+  await tx.invoice.update({
+    where: { id: invoice.id },
+    data:  { planId: plan.id },
+  });
+  return recalculateInvoiceAmount(tx, invoice.id);
+}
+
+type ProrationItem = {
+  type:        "PRORATION_CREDIT" | "PRORATION_DEBIT";
+  description: string;
+  amount:      number;
+};
+
+/**
+ * Replace the PRORATION_* items of an unpaid invoice (first invoice re-priced
+ * after a plan change).
+ */
+export async function replaceProrationLineItems(
+  tx: Tx,
+  invoice: { id: string; academyId: string },
+  lines: ProrationItem[],
+): Promise<number> {
+  await tx.invoiceLineItem.deleteMany({
+    where: { invoiceId: invoice.id, type: { in: ["PRORATION_CREDIT", "PRORATION_DEBIT"] } },
+  });
+  if (lines.length > 0) {
+    await tx.invoiceLineItem.createMany({
+      data: lines.map((l) => ({ academyId: invoice.academyId, invoiceId: invoice.id, ...l })),
+    });
+  }
+  return recalculateInvoiceAmount(tx, invoice.id);
+}
+
+/**
+ * Add plan-change credit/debit items to an unpaid invoice. A credit larger
+ * than the invoice is capped so the total never drops below zero; the rest
+ * is not carried over.
+ */
+export async function addProrationLineItems(
+  tx: Tx,
+  invoice: { id: string; academyId: string; amount: number; planId: string },
+  lines: ProrationItem[],
+): Promise<number> {
+  if (lines.length === 0) return invoice.amount;
+
+  const plan = await tx.tuitionPlan.findUniqueOrThrow({
+    where:  { id: invoice.planId },
+    select: { name: true },
+  });
+  await ensureBaseLineItem(tx, invoice, plan.name);
+
+  const agg = await tx.invoiceLineItem.aggregate({
+    where: { invoiceId: invoice.id },
+    _sum:  { amount: true },
+  });
+  let running = (agg._sum.amount ?? 0) + lines
+    .filter((l) => l.type === "PRORATION_DEBIT")
+    .reduce((sum, l) => sum + l.amount, 0);
+
+  const data = lines.map((l) => {
+    let amount = l.amount;
+    if (l.type === "PRORATION_CREDIT") {
+      amount  = Math.max(amount, -running);
+      running += amount;
+    }
+    return { academyId: invoice.academyId, invoiceId: invoice.id, type: l.type, description: l.description, amount };
+  });
+
+  await tx.invoiceLineItem.createMany({ data });
+  return recalculateInvoiceAmount(tx, invoice.id);
+}
@@ -0,0 +1,223 @@
+/**
+ * src/lib/services/job.service.ts
+ *
+ * Internal scheduled jobs, run by the cron endpoints under /api/internal
+ * (shared-secret header, see cron-guard.ts) or manually by a super admin.
+ *
+ *  - notifications – processNotificationQueue(), every minute
+ *  - deliveryReports – pollDeliveryReports(), every 5 minutes
+ *  - webhooks      – processWebhookEvents(), every minute
+ *  - billing       – runDailyBilling(), once a day
+ *
+ * Every invocation is recorded as a JobRun. A run first takes the job's
+ * JobLock lease; if another run holds it the new one is recorded as SKIPPED
+ * and does nothing, so overlapping invocations never run a job twice at
+ * once. While the job runs the lease is renewed every leaseMs / 3, so a long
+ * run keeps it; jobs with side effects per item (billing) also check it is
+ * still held before each one. A lease that outlives its holder (crashed
+ * process) expires after the job's leaseMs and is taken over; the abandoned
+ * run is marked FAILED.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { processNotificationQueue } from "@/lib/alimtalk/queue-worker";
+import { pollDeliveryReports } from "@/lib/alimtalk/delivery-reports";
+import { processWebhookEvents } from "@/lib/services/webhook.service";
+import { runDailyBilling } from "@/lib/services/billing.service";
+import { Prisma, type JobRun, type JobTrigger } from "@prisma/client";
+
+export class JobLeaseLostError extends Error {
+  constructor(jobName: string) {
+    super(`Lease of job ${jobName} was lost to another run`);
+    this.name = "JobLeaseLostError";
+  }
+}
+
+/** Handed to a running job. */
+export interface JobLease {
+  /** Renews the lease; throws JobLeaseLostError once another run has taken it. */
+  assertHeld: () => Promise<void>;
+}
+
+export interface JobDefinition {
+  label:    string;
+  /** Suggested schedule (KST), shown in the admin view. */
+  schedule: string;
+  /** Lease length; renewed on a heartbeat while the job runs. */
+  leaseMs:  number;
+  run:      (lease: JobLease) => Promise<unknown>;
+}
+
+export const JOBS = {
+  notifications: {
+    label:    "AlimTalk queue",
+    schedule: "every minute",
+    leaseMs:  5 * 60_000,
+    run:      () => processNotificationQueue(),
+  },
+  deliveryReports: {
+    label:    "AlimTalk delivery reports",
+    schedule: "every 5 minutes",
+    leaseMs:  10 * 60_000,
+    run:      () => pollDeliveryReports(),
+  },
+  webhooks: {
+    label:    "Toss webhooks",
+    schedule: "every minute",
+    leaseMs:  5 * 60_000,
+    run:      () => processWebhookEvents(),
+  },
+  billing: {
+    label:    "Daily billing run",
+    schedule: "daily 09:00",
+    leaseMs:  30 * 60_000,
+    run:      (lease) => runDailyBilling({ assertLease: lease.assertHeld }),
+  },
+} satisfies Record<string, JobDefinition>;
+
+export type JobName = keyof typeof JOBS;
+
+export function isJobName(name: string): name is JobName {
+  return Object.prototype.hasOwnProperty.call(JOBS, name);
+}
+
+// ─── Lease ────────────────────────────────────────────────────────────────────
+
+/**
+ * Take the job's lease for `holder`. Succeeds when no lock row exists or the
+ * existing lease has expired; false while another holder's lease is live.
+ */
+export async function acquireJobLock(
+  jobName: string,
+  holder: string,
+  leaseMs: number,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const lockedUntil = new Date(now.getTime() + leaseMs);
+
+  try {
+    await prisma.jobLock.create({ data: { jobName, holder, acquiredAt: now, lockedUntil } });
+    return true;
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002")) throw e;
+  }
+
+  // Lock row exists – take it over only if the lease has run out
+  const { count } = await prisma.jobLock.updateMany({
+    where: { jobName, lockedUntil: { lt: now } },
+    data:  { holder, acquiredAt: now, lockedUntil },
+  });
+  return count === 1;
+}
+
+/** Extend a lease `holder` still holds; false once it has been taken over. */
+export async function renewJobLock(
+  jobName: string,
+  holder: string,
+  leaseMs: number,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const { count } = await prisma.jobLock.updateMany({
+    where: { jobName, holder },
+    data:  { lockedUntil: new Date(now.getTime() + leaseMs) },
+  });
+  return count === 1;
+}
+
+export async function releaseJobLock(jobName: string, holder: string): Promise<void> {
+  await prisma.jobLock.deleteMany({ where: { jobName, holder } });
+}
+
+// ─── Runs ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Run a job under its lease and record the outcome. Never throws for a job
+ * failure – the error is stored on the returned FAILED run.
+ */
+export async function runJob(
+  jobName: JobName,
+  opts: { trigger?: JobTrigger; actorUserId?: string } = {},
+): Promise<JobRun> {
+  const job = JOBS[jobName];
+  const run = await prisma.jobRun.create({
+    data: {
+      jobName,
+      trigger:           opts.trigger ?? "CRON",
+      triggeredByUserId: opts.actorUserId ?? null,
+      status:            "RUNNING",
+    },
+  });
+
+  if (opts.actorUserId) {
+    await audit({
+      actorUserId: opts.actorUserId,
+      action:      "job.run",
+      targetType:  "JobRun",
+      targetId:    run.id,
+      metaJson:    { jobName },
+    });
+  }
+
+  const startedAt = run.startedAt;
+  if (!(await acquireJobLock(jobName, run.id, job.leaseMs, startedAt))) {
+    return prisma.jobRun.update({
+      where: { id: run.id },
+      data:  {
+        status:       "SKIPPED",
+        finishedAt:   new Date(),
+        durationMs:   0,
+        errorMessage: "Another run of this job is in progress",
+      },
+    });
+  }
+
+  // Runs left RUNNING by an expired lease will never finish
+  await prisma.jobRun.updateMany({
+    where: { jobName, status: "RUNNING", startedAt: { lt: startedAt } },
+    data:  { status: "FAILED", finishedAt: startedAt, errorMessage: "Abandoned: lease expired before the run finished" },
+  });
+
+  let leaseLost = false;
+  const renew = async () => {
+    if (!(await renewJobLock(jobName, run.id, job.leaseMs))) leaseLost = true;
+  };
+  const lease: JobLease = {
+    assertHeld: async () => {
+      if (!leaseLost) await renew();
+      if (leaseLost) throw new JobLeaseLostError(jobName);
+    },
+  };
+  const heartbeat = setInterval(() => {
+    renew().catch((e) => console.error(`[job] ${jobName} lease renewal failed:`, e));
+  }, job.leaseMs / 3);
+
+  try {
+    const result: unknown = await job.run(lease);
+    const finishedAt = new Date();
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data:  {
+        status:     "SUCCEEDED",
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        resultJson: result == null ? Prisma.JsonNull : (result as Prisma.InputJsonValue),
+      },
+    });
+  } catch (e) {
+    const finishedAt = new Date();
+    console.error(`[job] ${jobName} failed:`, e);
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data:  {
+        status:       "FAILED",
+        finishedAt,
+        durationMs:   finishedAt.getTime() - startedAt.getTime(),
+        errorMessage: e instanceof Error ? e.message : String(e),
+      },
+    });
+  } finally {
+    clearInterval(heartbeat);
+    await releaseJobLock(jobName, run.id);
+  }
+}
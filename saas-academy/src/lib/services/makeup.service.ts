@@ -0,0 +1,171 @@
+/**
+ * src/lib/services/makeup.service.ts
+ *
+ * Make-up credits for EXCUSED absences.
+ *
+ * Marking a student EXCUSED grants one AVAILABLE credit for that attendance;
+ * changing the mark to anything else voids an unused credit, and marking
+ * EXCUSED again restores it (syncMakeupCredit).
+ *
+ * An admin redeems a credit by booking the student into an upcoming session
+ * of another class. The student then appears on that session's attendance
+ * roster next to the enrolled students and counts against the class
+ * capacity. A booking can be undone until attendance is marked for it, and
+ * is released automatically when the booked session is canceled.
+ */
+import { prisma } from "@/lib/db/client";
+import { notifySchedule } from "@/lib/services/session.service";
+import type { Attendance, MakeupCredit } from "@prisma/client";
+
+export class MakeupError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "MakeupError";
+  }
+}
+
+const RELEASED = {
+  status:            "AVAILABLE" as const,
+  redeemedSessionId: null,
+  redeemedAt:        null,
+  redeemedByUserId:  null,
+};
+
+/** Keep an attendance's credit in step with its status. Call after marking. */
+export async function syncMakeupCredit(
+  attendance: Pick<Attendance, "id" | "academyId" | "studentUserId" | "classId" | "status">,
+): Promise<void> {
+  if (attendance.status !== "EXCUSED") {
+    await prisma.makeupCredit.updateMany({
+      where: { attendanceId: attendance.id, status: "AVAILABLE" },
+      data:  { status: "VOID" },
+    });
+    return;
+  }
+
+  const existing = await prisma.makeupCredit.findUnique({ where: { attendanceId: attendance.id } });
+  if (!existing) {
+    await prisma.makeupCredit.create({
+      data: {
+        academyId:     attendance.academyId,
+        studentUserId: attendance.studentUserId,
+        attendanceId:  attendance.id,
+        classId:       attendance.classId,
+      },
+    });
+  } else if (existing.status === "VOID") {
+    await prisma.makeupCredit.update({ where: { id: existing.id }, data: { status: "AVAILABLE" } });
+  }
+}
+
+/** Book the student of an AVAILABLE credit into an upcoming session of another class. */
+export async function redeemMakeupCredit(p: {
+  academyId:   string;
+  creditId:    string;
+  sessionId:   string;
+  actorUserId: string;
+  now?:        Date;
+}): Promise<{ credit: MakeupCredit; notifQueued: number }> {
+  const now = p.now ?? new Date();
+
+  const credit = await prisma.makeupCredit.findFirst({
+    where:   { id: p.creditId, academyId: p.academyId },
+    include: { attendance: { include: { session: { select: { startsAt: true } } } } },
+  });
+  if (!credit) throw new MakeupError("Make-up credit not found", 404);
+  if (credit.status !== "AVAILABLE") throw new MakeupError("This credit is not available", 409);
+
+  const session = await prisma.classSession.findFirst({
+    where:   { id: p.sessionId, academyId: p.academyId },
+    include: { class: { select: { capacity: true } } },
+  });
+  if (!session) throw new MakeupError("Session not found", 404);
+  if (session.status !== "SCHEDULED" || session.startsAt <= now) {
+    throw new MakeupError("Only upcoming scheduled sessions can be booked", 409);
+  }
+  if (session.classId === credit.classId) {
+    throw new MakeupError("Book the make-up into a session of another class", 422);
+  }
+
+  const [enrolled, booked] = await Promise.all([
+    prisma.classEnrollment.count({
+      where: { academyId: p.academyId, classId: session.classId, status: "ACTIVE" },
+    }),
+    prisma.makeupCredit.findMany({
+      where:  { redeemedSessionId: session.id, status: "REDEEMED" },
+      select: { studentUserId: true },
+    }),
+  ]);
+  const isEnrolled = await prisma.classEnrollment.findFirst({
+    where: {
+      academyId:     p.academyId,
+      classId:       session.classId,
+      studentUserId: credit.studentUserId,
+      status:        "ACTIVE",
+    },
+  });
+  if (isEnrolled || booked.some((b) => b.studentUserId === credit.studentUserId)) {
+    throw new MakeupError("The student is already on this session", 409);
+  }
+  if (session.class.capacity !== null && enrolled + booked.length >= session.class.capacity) {
+    throw new MakeupError("The session is full", 409);
+  }
+
+  const claimed = await prisma.makeupCredit.updateMany({
+    where: { id: credit.id, status: "AVAILABLE" },
+    data:  {
+      status:            "REDEEMED",
+      redeemedSessionId: session.id,
+      redeemedAt:        now,
+      redeemedByUserId:  p.actorUserId,
+    },
+  });
+  if (claimed.count === 0) throw new MakeupError("This credit is not available", 409);
+
+  const notifQueued = await notifySchedule({
+    sessionId:        session.id,
+    event:            "MAKEUP",
+    studentUserIds:   [credit.studentUserId],
+    previousStartsAt: credit.attendance.session.startsAt,
+    actorUserId:      p.actorUserId,
+  });
+
+  const redeemed = await prisma.makeupCredit.findUniqueOrThrow({ where: { id: credit.id } });
+  return { credit: redeemed, notifQueued };
+}
+
+/** Undo a booking before attendance is marked for it. */
+export async function cancelMakeupBooking(academyId: string, creditId: string): Promise<MakeupCredit> {
+  const credit = await prisma.makeupCredit.findFirst({ where: { id: creditId, academyId } });
+  if (!credit) throw new MakeupError("Make-up credit not found", 404);
+  if (credit.status !== "REDEEMED") throw new MakeupError("This credit is not booked", 409);
+
+  if (credit.redeemedSessionId) {
+    const marked = await prisma.attendance.findFirst({
+      where:  { sessionId: credit.redeemedSessionId, studentUserId: credit.studentUserId },
+      select: { id: true },
+    });
+    if (marked) throw new MakeupError("Attendance is already marked for the make-up session", 409);
+  }
+
+  return prisma.makeupCredit.update({ where: { id: credit.id }, data: RELEASED });
+}
+
+/**
+ * Return bookings on canceled (or deleted) sessions to AVAILABLE.
+ * Returns the number released.
+ */
+export async function releaseCanceledBookings(academyId: string): Promise<number> {
+  const { count } = await prisma.makeupCredit.updateMany({
+    where: {
+      academyId,
+      status: "REDEEMED",
+      OR:     [{ redeemedSession: { status: "CANCELED" } }, { redeemedSessionId: null }],
+    },
+    data:  RELEASED,
+  });
+  return count;
+}
@@ -1,118 +1,208 @@
 /**
  * src/lib/services/notification.service.ts
  *
- * NotificationService:
- * - Persists a Notification row before attempting delivery
- * - Calls sendKakaoAlimTalk
- * - On failure: retries up to MAX_ATTEMPTS (3) with exponential back-off
- *   (back-off is implemented at the caller level; this method handles one attempt)
- * - Updates status / lastError / sentAt
+ * Admin actions on the notification outbox:
+ *  - send   – one AlimTalk message by template code (POST /api/notifications)
+ *  - resend – a FAILED row, as a new row linked by resendOfId
+ *  - cancel – a PENDING row still waiting (quiet hours or back-off) → SKIPPED
  *
- * Public API:
- *   enqueue()      – create PENDING row, then attempt immediately
- *   processRetry() – re-attempt FAILED rows (called from a cron/route)
+ * A manual message goes through the outbox like attendance and billing
+ * messages: it is queued as a MANUAL NotificationQueue row and delivered
+ * right away. A failed first attempt is retried by the queue worker under
+ * the shared back-off policy, and the row shows up in the outbox log with
+ * everything else.
+ *
+ * Sender key: the academy's AlimTalk template with the same template code,
+ * else KAKAO_SENDER_KEY.
+ *
+ * Sends and resends are refused once the academy has used up its monthly
+ * message cap; they are not subject to the per-minute rate.
  */
 import { prisma } from "@/lib/db/client";
-import { sendKakaoAlimTalk } from "@/lib/kakao";
-import type { NotificationChannel } from "@prisma/client";
+import { enqueueOutbox } from "@/lib/alimtalk/outbox";
+import { deliverQueueRow, type DeliveryOutcome } from "@/lib/alimtalk/queue-worker";
+import { renderTemplateText } from "@/lib/alimtalk/templates";
+import { getMessageUsage } from "@/lib/alimtalk/throttle";
+import type { NotificationQueue } from "@prisma/client";
 
-const MAX_ATTEMPTS = 3;
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
 
 export interface EnqueueParams {
   academyId:    string;
   recipientId?: string;
   phone:        string;
-  channel?:     NotificationChannel;
   templateCode: string;
   params:       Record<string, string>;
+  senderKey?:   string;
 }
 
-export async function enqueueNotification(p: EnqueueParams) {
-  // Persist first so we have an ID regardless of delivery outcome
-  const notif = await prisma.notification.create({
-    data: {
-      academyId:    p.academyId,
-      recipientId:  p.recipientId ?? null,
-      channel:      p.channel ?? "KAKAO_ALIM",
-      templateCode: p.templateCode,
-      params:       p.params,
-      phone:        p.phone,
-      status:       "PENDING",
-      attempts:     0,
-    },
-  });
+export interface SendResult {
+  row:     NotificationQueue;
+  outcome: DeliveryOutcome;
+}
 
-  return attemptDelivery(notif.id);
+async function assertUnderCap(academyId: string): Promise<void> {
+  const usage = await getMessageUsage(academyId);
+  if (usage.exhausted) {
+    throw new NotificationError(`Monthly message cap of ${usage.cap} reached`, 409);
+  }
 }
 
-/** Called immediately after creation or during retry sweep */
-export async function attemptDelivery(notificationId: string) {
-  const notif = await prisma.notification.findUnique({
-    where: { id: notificationId },
+async function resolveSenderKey(academyId: string, templateCode: string): Promise<string | null> {
+  const template = await prisma.alimtalkTemplate.findFirst({
+    where:  { academyId, templateCode },
+    select: { senderKey: true },
   });
-  if (!notif) return;
-  if (notif.attempts >= MAX_ATTEMPTS) {
-    await prisma.notification.update({
-      where: { id: notificationId },
-      data: { status: "FAILED" },
+  return template?.senderKey ?? process.env.KAKAO_SENDER_KEY ?? null;
+}
+
+/** Queue a manual message and make the first delivery attempt. */
+export async function enqueueNotification(p: EnqueueParams): Promise<SendResult> {
+  const senderKey = p.senderKey ?? await resolveSenderKey(p.academyId, p.templateCode);
+  if (!senderKey) {
+    throw new NotificationError(
+      `No sender key for template ${p.templateCode}: register the template or set KAKAO_SENDER_KEY`,
+      422,
+    );
+  }
+
+  await assertUnderCap(p.academyId);
+
+  if (p.recipientId) {
+    const recipient = await prisma.user.findFirst({
+      where:  { id: p.recipientId, academyId: p.academyId },
+      select: { id: true },
     });
-    return;
+    if (!recipient) throw new NotificationError("Recipient not found in this academy", 404);
   }
 
-  // Increment attempt count & mark RETRYING (or PENDING for first attempt)
-  await prisma.notification.update({
-    where: { id: notificationId },
-    data: {
-      attempts: { increment: 1 },
-      status:   notif.attempts > 0 ? "RETRYING" : "PENDING",
-    },
-  });
+  const now = new Date();
+  const row = await enqueueOutbox({
+    academyId:        p.academyId,
+    channel:          "KAKAO_ALIMTALK",
+    eventType:        "MANUAL",
+    studentUserId:    p.recipientId ?? null,
+    recipientPhone:   p.phone,
+    templateCode:     p.templateCode,
+    senderKey,
+    templateVarsJson: p.params,
+  }, now);
+
+  const outcome = await deliverQueueRow(row, now);
+  return { row, outcome };
+}
+
+async function findRow(academyId: string, id: string): Promise<NotificationQueue> {
+  const row = await prisma.notificationQueue.findFirst({ where: { id, academyId } });
+  if (!row) throw new NotificationError("Notification not found", 404);
+  return row;
+}
 
-  const result = await sendKakaoAlimTalk({
-    templateCode: notif.templateCode,
-    phone:        notif.phone,
-    variables:    notif.params as Record<string, string>,
+/**
+ * Queue a FAILED row again and make the first delivery attempt. The failed
+ * row stays as it is; the copy goes to the contact's current phone number
+ * and is refused when the parent has since withdrawn consent.
+ */
+export async function resendNotification(academyId: string, id: string): Promise<SendResult> {
+  const failed = await findRow(academyId, id);
+  if (failed.status !== "FAILED") {
+    throw new NotificationError("Only failed notifications can be resent", 409);
+  }
+  const existing = await prisma.notificationQueue.findUnique({
+    where:  { resendOfId: failed.id },
+    select: { id: true },
   });
+  if (existing) throw new NotificationError("This notification was already resent", 409);
+  await assertUnderCap(academyId);
 
-  if (result.success) {
-    await prisma.notification.update({
-      where: { id: notificationId },
-      data: { status: "SENT", sentAt: new Date(), lastError: null },
+  let recipientPhone = failed.recipientPhone;
+  if (failed.parentContactId) {
+    const contact = await prisma.parentContact.findFirst({
+      where: { id: failed.parentContactId, academyId },
     });
-  } else {
-    const newAttempts = notif.attempts + 1;
-    await prisma.notification.update({
-      where: { id: notificationId },
-      data: {
-        status:    newAttempts >= MAX_ATTEMPTS ? "FAILED" : "RETRYING",
-        lastError: result.error ?? "Unknown error",
-      },
-    });
-    console.error(
-      `[Notification] id=${notificationId} attempt=${newAttempts} error=${result.error}`,
-    );
+    if (!contact || contact.status !== "ACTIVE" || !contact.notificationOptIn) {
+      throw new NotificationError("The parent contact no longer accepts notifications", 409);
+    }
+    recipientPhone = contact.phone;
   }
 
-  return result;
+  const now = new Date();
+  const row = await enqueueOutbox({
+    academyId,
+    channel:          failed.channel,
+    eventType:        failed.eventType,
+    attendanceId:     failed.attendanceId,
+    attendanceStatus: failed.attendanceStatus,
+    invoiceId:        failed.invoiceId,
+    billingEvent:     failed.billingEvent,
+    attemptNo:        failed.attemptNo,
+    sessionId:        failed.sessionId,
+    scheduleEvent:    failed.scheduleEvent,
+    enrollmentId:     failed.enrollmentId,
+    studentUserId:    failed.studentUserId,
+    parentContactId:  failed.parentContactId,
+    recipientPhone,
+    templateCode:     failed.templateCode,
+    senderKey:        failed.senderKey,
+    templateVarsJson: failed.templateVarsJson ?? {},
+    messageText:      failed.messageText,
+    senderNumber:     failed.senderNumber,
+    resendOfId:       failed.id,
+  }, now);
+
+  const outcome = await deliverQueueRow(row, now);
+  return { row, outcome };
 }
 
-/** Sweep PENDING + RETRYING notifications that haven't exceeded MAX_ATTEMPTS */
-export async function processRetries() {
-  const due = await prisma.notification.findMany({
-    where: {
-      status:   { in: ["PENDING", "RETRYING"] },
-      attempts: { lt: MAX_ATTEMPTS },
-    },
-    take: 50,
-    orderBy: { createdAt: "asc" },
+/**
+ * Cancel a PENDING row that is not due yet – held for quiet hours or
+ * waiting out a retry back-off. Due rows may already be with the worker.
+ */
+export async function cancelNotification(
+  academyId: string,
+  id: string,
+  now: Date = new Date(),
+): Promise<NotificationQueue> {
+  const row  = await findRow(academyId, id);
+  const data = {
+    status:       "SKIPPED" as const,
+    nextRetryAt:  null,
+    processedAt:  now,
+    errorCode:    "CANCELED",
+    errorMessage: "Canceled by admin",
+  };
+
+  const canceled = await prisma.notificationQueue.updateMany({
+    where: { id: row.id, status: "PENDING", nextRetryAt: { gt: now } },
+    data,
   });
+  if (canceled.count === 0) {
+    throw new NotificationError("Only notifications still waiting to be sent can be canceled", 409);
+  }
 
-  const results = await Promise.allSettled(
-    due.map((n) => attemptDelivery(n.id)),
-  );
+  return { ...row, ...data };
+}
 
-  return {
-    processed: due.length,
-    settled:   results.length,
-  };
+/**
+ * The text the parent reads: the SMS body, or the academy's registered
+ * AlimTalk body rendered with the row's variables. Null when no body is
+ * on file for the template code.
+ */
+export async function renderedNotificationText(row: NotificationQueue): Promise<string | null> {
+  if (row.messageText) return row.messageText;
+
+  const template = await prisma.alimtalkTemplate.findFirst({
+    where:  { academyId: row.academyId, templateCode: row.templateCode, body: { not: "" } },
+    select: { body: true },
+  });
+  if (!template) return null;
+  return renderTemplateText(template.body, row.templateVarsJson as Record<string, string>);
 }
@@ -0,0 +1,219 @@
+/**
+ * src/lib/services/proration.service.ts
+ *
+ * Partial-period pricing driven by TuitionPlan.prorationMode:
+ *  - mid-cycle subscription start → PRORATION_CREDIT on the first invoice
+ *  - plan change mid-period      → PRORATION_CREDIT (old plan) and
+ *                                  PRORATION_DEBIT (new plan) on the next
+ *                                  PENDING invoice
+ *
+ * Dates are calendar days held as UTC-midnight Dates (like the @db.Date
+ * columns). Billing periods are half-open: [start, end).
+ */
+
+import { prisma } from "@/lib/db/client";
+import { findClosures, notOnClosures } from "@/lib/services/closure.service";
+import type { ProrationMode, TuitionPlan } from "@prisma/client";
+
+const DAY_MS = 86_400_000;
+
+export interface BillingPeriod {
+  start: Date;
+  end:   Date;
+}
+
+/** Portion of a period being priced. */
+export interface ProrationUnits {
+  used:  number;
+  total: number;
+  basis: "DAILY" | "PER_SESSION";
+}
+
+export interface ProrationLine {
+  type:        "PRORATION_CREDIT" | "PRORATION_DEBIT";
+  description: string;
+  amount:      number;
+}
+
+type PricedPlan = Pick<TuitionPlan, "name" | "amount" | "billingDay" | "prorationMode">;
+
+function dateKey(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** "YYYY-MM-DD" or Date → UTC-midnight Date of that calendar day. */
+export function calendarDay(d: Date | string): Date {
+  return new Date(typeof d === "string" ? d : dateKey(d));
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((calendarDay(to).getTime() - calendarDay(from).getTime()) / DAY_MS);
+}
+
+/** The billing period containing `date` for a plan charged on `billingDay` (1-28). */
+export function billingPeriodFor(date: Date, billingDay: number): BillingPeriod {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  const start = date.getUTCDate() >= billingDay
+    ? new Date(Date.UTC(y, m, billingDay))
+    : new Date(Date.UTC(y, m - 1, billingDay));
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, billingDay));
+  return { start, end };
+}
+
+/** Share of `amount` for `used` out of `total` units, rounded to whole KRW. */
+export function prorate(amount: number, used: number, total: number): number {
+  if (total <= 0) return amount;
+  const clamped = Math.min(Math.max(used, 0), total);
+  return Math.round((amount * clamped) / total);
+}
+
+/** Daily units from `from` to the end of `period`. */
+export function dailyUnits(period: BillingPeriod, from: Date): ProrationUnits {
+  return {
+    used:  daysBetween(from, period.end),
+    total: daysBetween(period.start, period.end),
+    basis: "DAILY",
+  };
+}
+
+/**
+ * Credit for the days (or sessions) of the first period before the
+ * subscription started. Null when nothing was missed.
+ */
+export function enrollmentCredit(
+  plan: Pick<TuitionPlan, "amount">,
+  units: ProrationUnits,
+  startDate: Date,
+  period: BillingPeriod,
+): ProrationLine | null {
+  if (units.used >= units.total) return null;
+  const charged = prorate(plan.amount, units.used, units.total);
+  const lastDay = new Date(period.end.getTime() - DAY_MS);
+  return {
+    type:        "PRORATION_CREDIT",
+    description: `일할 계산 (${dateKey(startDate)} ~ ${dateKey(lastDay)})`,
+    amount:      charged - plan.amount,
+  };
+}
+
+/**
+ * Credit for the unused part of the old plan and debit for the same part on
+ * the new plan. An upgrade nets out positive, a downgrade negative.
+ */
+export function planChangeLines(
+  oldPlan: Pick<TuitionPlan, "name" | "amount">,
+  newPlan: Pick<TuitionPlan, "name" | "amount">,
+  units: ProrationUnits,
+): ProrationLine[] {
+  if (units.used <= 0 || units.total <= 0) return [];
+  const lines: ProrationLine[] = [
+    {
+      type:        "PRORATION_CREDIT",
+      description: `플랜 변경 차감: ${oldPlan.name}`,
+      amount:      -prorate(oldPlan.amount, units.used, units.total),
+    },
+    {
+      type:        "PRORATION_DEBIT",
+      description: `플랜 변경 추가: ${newPlan.name}`,
+      amount:      prorate(newPlan.amount, units.used, units.total),
+    },
+  ];
+  return lines.filter((l) => l.amount !== 0);
+}
+
+/**
+ * Non-canceled sessions in [from, to) across the classes the student is
+ * actively enrolled in. Sessions on academy closure dates do not count.
+ */
+export async function countStudentSessions(
+  academyId: string,
+  studentUserId: string,
+  from: Date,
+  to: Date,
+): Promise<number> {
+  const enrollments = await prisma.classEnrollment.findMany({
+    where:  { academyId, studentUserId, status: "ACTIVE" },
+    select: { classId: true },
+  });
+  if (enrollments.length === 0) return 0;
+
+  const closures = await findClosures(academyId, { from: dateKey(from), to: dateKey(to) });
+  return prisma.classSession.count({
+    where: {
+      academyId,
+      classId:   { in: enrollments.map((e) => e.classId) },
+      status:    { not: "CANCELED" },
+      localDate: { gte: dateKey(from), lt: dateKey(to) },
+      ...notOnClosures(closures),
+    },
+  });
+}
+
+/**
+ * Units remaining from `from` to the end of `period` under `mode`.
+ * PER_SESSION falls back to DAILY when the period has no sessions.
+ */
+export async function remainingUnits(
+  mode: Exclude<ProrationMode, "NONE">,
+  period: BillingPeriod,
+  from: Date,
+  student: { academyId: string; studentUserId: string },
+): Promise<ProrationUnits> {
+  if (mode === "PER_SESSION") {
+    const total = await countStudentSessions(student.academyId, student.studentUserId, period.start, period.end);
+    if (total > 0) {
+      const used = await countStudentSessions(student.academyId, student.studentUserId, from, period.end);
+      return { used, total, basis: "PER_SESSION" };
+    }
+  }
+  return dailyUnits(period, from);
+}
+
+/** Credit line for a first invoice due mid-period, or null. */
+export async function enrollmentProration(p: {
+  academyId:     string;
+  studentUserId: string;
+  plan:          PricedPlan;
+  startDate:     Date;
+}): Promise<ProrationLine | null> {
+  if (p.plan.prorationMode === "NONE") return null;
+
+  const startDate = calendarDay(p.startDate);
+  const period    = billingPeriodFor(startDate, p.plan.billingDay);
+  if (startDate.getTime() === period.start.getTime()) return null;
+
+  const units = await remainingUnits(p.plan.prorationMode, period, startDate, p);
+  return enrollmentCredit(p.plan, units, startDate, period);
+}
+
+/**
+ * Credit/debit lines for switching plans on `today`. Applies only when the
+ * current period was already paid; an unpaid current invoice is simply
+ * re-priced to the new plan.
+ */
+export async function planChangeProration(p: {
+  subscriptionId: string;
+  academyId:      string;
+  studentUserId:  string;
+  oldPlan:        PricedPlan;
+  newPlan:        PricedPlan;
+  today:          Date;
+}): Promise<ProrationLine[]> {
+  if (p.newPlan.prorationMode === "NONE") return [];
+
+  const today  = calendarDay(p.today);
+  const period = billingPeriodFor(today, p.oldPlan.billingDay);
+
+  const paid = await prisma.invoice.findFirst({
+    where: {
+      subscriptionId: p.subscriptionId,
+      status:         "PAID",
+      dueDate:        { gte: period.start, lte: today },
+    },
+  });
+  if (!paid) return [];
+
+  const units = await remainingUnits(p.newPlan.prorationMode, period, today, p);
+  return planChangeLines(p.oldPlan, p.newPlan, units);
+}
@@ -0,0 +1,225 @@
+/**
+ * src/lib/services/refund.service.ts
+ *
+ * Full and partial refunds of paid invoices through Toss.
+ *
+ * Two entry points keep Refund rows and Invoice.refundedAmount in sync:
+ *  - refundInvoice()            – admin-issued refund from the invoice screen
+ *  - syncRefundsFromProvider()  – PAYMENT_STATUS_CHANGED webhook with status
+ *                                 CANCELED / PARTIAL_CANCELED (also covers
+ *                                 cancels made directly in the Toss console)
+ *
+ * Virtual-account (bank transfer) payments are not refunded here: Toss needs
+ * the family's own bank account to return the money, which the academy
+ * collects and pays back outside the app.
+ */
+
+import { prisma } from "@/lib/db/client";
+import { getPaymentProvider } from "@/lib/payments";
+import type { CancelResponse, TossCancel } from "@/lib/toss/cancel";
+import { TossError } from "@/lib/toss/tossClient";
+import type { Invoice, Prisma, Refund } from "@prisma/client";
+
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+/** Amount still refundable on an invoice. */
+export function refundableAmount(invoice: Pick<Invoice, "amount" | "refundedAmount">): number {
+  return Math.max(0, invoice.amount - invoice.refundedAmount);
+}
+
+/** Add a succeeded refund to the invoice totals; fully refunded → REFUNDED. */
+async function applyRefundToInvoice(
+  tx: Prisma.TransactionClient,
+  invoice: Pick<Invoice, "id" | "amount" | "refundedAmount">,
+  amount: number,
+): Promise<void> {
+  const refundedAmount = Math.min(invoice.amount, invoice.refundedAmount + amount);
+  await tx.invoice.update({
+    where: { id: invoice.id },
+    data:  {
+      refundedAmount,
+      ...(refundedAmount >= invoice.amount ? { status: "REFUNDED" as const } : {}),
+    },
+  });
+}
+
+export interface RefundInvoiceParams {
+  invoice:      Invoice;
+  /** Omit for a full refund of the remaining balance. */
+  amount?:      number;
+  reason:       string;
+  actorUserId:  string;
+}
+
+/**
+ * Refund all or part of a PAID invoice via Toss cancelPayment.
+ * The Refund row is written before the provider call so a crash mid-request
+ * leaves a REQUESTED row that the webhook can complete.
+ */
+export async function refundInvoice(p: RefundInvoiceParams): Promise<Refund> {
+  const { invoice } = p;
+
+  if (invoice.status !== "PAID") {
+    throw new RefundError(`Cannot refund a ${invoice.status} invoice`, 409);
+  }
+  if (!invoice.providerPaymentKey) {
+    throw new RefundError("Invoice was paid offline; refund it outside Toss", 422);
+  }
+  const va = await prisma.virtualAccount.findUnique({
+    where:  { paymentKey: invoice.providerPaymentKey },
+    select: { id: true },
+  });
+  if (va) {
+    throw new RefundError("Invoice was paid by bank transfer; refund it to the family's account outside Toss", 422);
+  }
+
+  const remaining = refundableAmount(invoice);
+  const amount    = p.amount ?? remaining;
+  if (amount <= 0 || amount > remaining) {
+    throw new RefundError(`Refund amount must be between 1 and ${remaining}`, 422);
+  }
+
+  const attempt = await prisma.paymentAttempt.findFirst({
+    where: {
+      invoiceId:             invoice.id,
+      status:                "SUCCESS",
+      providerTransactionId: invoice.providerPaymentKey,
+    },
+    orderBy: { attemptNo: "desc" },
+  });
+
+  const refund = await prisma.refund.create({
+    data: {
+      academyId:         invoice.academyId,
+      invoiceId:         invoice.id,
+      paymentAttemptId:  attempt?.id ?? null,
+      amount,
+      reason:            p.reason,
+      status:            "REQUESTED",
+      source:            "ADMIN",
+      requestedByUserId: p.actorUserId,
+    },
+  });
+
+  let res: CancelResponse;
+  try {
+    res = await getPaymentProvider().cancelPayment(
+      invoice.providerPaymentKey,
+      { cancelReason: p.reason, cancelAmount: amount },
+      refund.id,
+    );
+  } catch (e) {
+    const isKnown      = e instanceof TossError;
+    const errorCode    = isKnown ? e.code    : "UNKNOWN";
+    const errorMessage = isKnown ? e.message : String(e);
+
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data:  { status: "FAILED", errorCode, errorMessage },
+    });
+    throw new RefundError(`Refund failed: ${errorMessage}`, 502);
+  }
+
+  const cancel = res.cancels?.[res.cancels.length - 1];
+
+  return prisma.$transaction(async (tx) => {
+    // The webhook may have completed this row already
+    const current = await tx.refund.findUniqueOrThrow({ where: { id: refund.id } });
+    if (current.status === "SUCCEEDED") return current;
+
+    const fresh = await tx.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+    await applyRefundToInvoice(tx, fresh, amount);
+    return tx.refund.update({
+      where: { id: refund.id },
+      data:  {
+        status:                 "SUCCEEDED",
+        providerTransactionKey: cancel?.transactionKey ?? null,
+        completedAt:            cancel?.canceledAt ? new Date(cancel.canceledAt) : new Date(),
+      },
+    });
+  });
+}
+
+/**
+ * Reconcile Refund rows with the cancels Toss reports for a payment.
+ *
+ * Each cancel transactionKey is recorded once. A cancel we issued ourselves
+ * may arrive before refundInvoice() stored its transactionKey; such cancels
+ * complete the matching REQUESTED row instead of creating a new one.
+ *
+ * @returns number of newly recorded cancels
+ */
+export async function syncRefundsFromProvider(
+  paymentKey: string,
+  cancels: TossCancel[],
+): Promise<number> {
+  const invoice = await prisma.invoice.findFirst({
+    where: { providerPaymentKey: paymentKey },
+  });
+  if (!invoice) return 0;
+
+  let recorded = 0;
+
+  for (const cancel of cancels) {
+    if (!cancel.transactionKey || cancel.cancelStatus === "ABORTED") continue;
+
+    const known = await prisma.refund.findUnique({
+      where: { providerTransactionKey: cancel.transactionKey },
+    });
+    if (known) continue;
+
+    await prisma.$transaction(async (tx) => {
+      // Re-read inside the transaction; earlier cancels in this loop changed it
+      const current = await tx.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+
+      const pending = await tx.refund.findFirst({
+        where: {
+          invoiceId:              invoice.id,
+          status:                 "REQUESTED",
+          amount:                 cancel.cancelAmount,
+          providerTransactionKey: null,
+        },
+        orderBy: { requestedAt: "asc" },
+      });
+
+      const completedAt = cancel.canceledAt ? new Date(cancel.canceledAt) : new Date();
+
+      if (pending) {
+        await tx.refund.update({
+          where: { id: pending.id },
+          data:  {
+            status:                 "SUCCEEDED",
+            providerTransactionKey: cancel.transactionKey,
+            completedAt,
+          },
+        });
+      } else {
+        await tx.refund.create({
+          data: {
+            academyId:              invoice.academyId,
+            invoiceId:              invoice.id,
+            amount:                 cancel.cancelAmount,
+            reason:                 cancel.cancelReason ?? "",
+            status:                 "SUCCEEDED",
+            source:                 "PROVIDER",
+            providerTransactionKey: cancel.transactionKey,
+            completedAt,
+          },
+        });
+      }
+
+      await applyRefundToInvoice(tx, current, cancel.cancelAmount);
+    });
+    recorded++;
+  }
+
+  return recorded;
+}
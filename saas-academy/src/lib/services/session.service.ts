@@ -0,0 +1,286 @@
+/**
+ * src/lib/services/session.service.ts
+ *
+ * Session changes outside the ClassSchedule rule:
+ *  - reschedule – move a SCHEDULED session to a new time. The original is
+ *                 CANCELED and a RESCHEDULED session replaces it, linked by
+ *                 rescheduledFromId; make-up bookings and the substitute
+ *                 move along.
+ *  - extra      – add an ad-hoc EXTRA session to a class.
+ *  - substitute – have another teacher teach one session. The substitute
+ *                 may see the class and mark attendance for that session
+ *                 (teachesSession / teacherSessionFilter); the class teacher
+ *                 keeps access.
+ *
+ * The new time must be in the future, outside academy closures and not
+ * taken by another session of the class. Teacher and room double-bookings
+ * are refused with a ConflictError unless overridden (conflict.service.ts).
+ * regenerateFutureSessions leaves RESCHEDULED and EXTRA sessions alone.
+ *
+ * Parents of the affected students are notified through the outbox
+ * (schedule-notifier.ts).
+ */
+import { prisma } from "@/lib/db/client";
+import { findClosures } from "@/lib/services/closure.service";
+import { toKSTDateStr } from "@/lib/services/classSessionGenerator";
+import {
+  assertNoConflicts,
+  findConflicts,
+  type ScheduleConflict,
+} from "@/lib/services/conflict.service";
+import {
+  enqueueScheduleNotification,
+  type EnqueueScheduleNotificationParams,
+} from "@/lib/alimtalk/schedule-notifier";
+import type { ClassSession, Prisma } from "@prisma/client";
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export interface SessionTimes {
+  startsAt: Date;
+  endsAt:   Date;
+  /** Omit to keep the room (reschedule) or use none (extra); validated by the caller */
+  roomId?:   string | null;
+  /** Go ahead despite teacher / room conflicts (admins only) */
+  override?: boolean;
+}
+
+/**
+ * Queue a schedule notification. Enqueue problems are logged and never fail
+ * the change that triggered them. Returns the number of rows queued.
+ */
+export async function notifySchedule(params: EnqueueScheduleNotificationParams): Promise<number> {
+  try {
+    const result = await enqueueScheduleNotification(params);
+    return result.queueIds.length;
+  } catch (e) {
+    console.error(`[session] Could not queue ${params.event} notification for ${params.sessionId}:`, e);
+    return 0;
+  }
+}
+
+/** Whether the user teaches the session: as its substitute or as the class teacher. */
+export function teachesSession(
+  session: Pick<ClassSession, "substituteTeacherUserId"> & { class: { teacherUserId: string | null } },
+  userId: string,
+): boolean {
+  return session.substituteTeacherUserId === userId || session.class.teacherUserId === userId;
+}
+
+/** ClassSession filter for the sessions a TEACHER may see. */
+export function teacherSessionFilter(userId: string): Prisma.ClassSessionWhereInput {
+  return { OR: [{ class: { teacherUserId: userId } }, { substituteTeacherUserId: userId }] };
+}
+
+async function assertSlotFree(
+  academyId: string,
+  classId: string,
+  times: SessionTimes,
+  now: Date,
+): Promise<string> {
+  if (times.endsAt <= times.startsAt) throw new SessionError("endsAt must be after startsAt", 422);
+  if (times.startsAt <= now) throw new SessionError("The new time must be in the future", 422);
+
+  const localDate = toKSTDateStr(times.startsAt);
+  const [closure] = await findClosures(academyId, { from: localDate, to: localDate });
+  if (closure) throw new SessionError(`The academy is closed on ${localDate} (${closure.name})`, 409);
+
+  const taken = await prisma.classSession.findUnique({
+    where:  { classId_startsAt: { classId, startsAt: times.startsAt } },
+    select: { id: true },
+  });
+  if (taken) throw new SessionError("The class already has a session at that time", 409);
+
+  return localDate;
+}
+
+async function activeStudentIds(academyId: string, classId: string): Promise<string[]> {
+  const enrollments = await prisma.classEnrollment.findMany({
+    where:  { academyId, classId, status: "ACTIVE" },
+    select: { studentUserId: true },
+  });
+  return enrollments.map((e) => e.studentUserId);
+}
+
+export async function rescheduleSession(p: SessionTimes & {
+  academyId:    string;
+  sessionId:    string;
+  actorUserId:  string;
+  now?:         Date;
+}): Promise<{
+  session:     ClassSession;
+  previous:    ClassSession;
+  notifQueued: number;
+  /** Conflicts the change went ahead with (override) */
+  conflicts:   ScheduleConflict[];
+}> {
+  const now = p.now ?? new Date();
+
+  const original = await prisma.classSession.findFirst({
+    where:   { id: p.sessionId, academyId: p.academyId },
+    include: {
+      class:  { select: { teacherUserId: true } },
+      _count: { select: { attendances: true } },
+    },
+  });
+  if (!original) throw new SessionError("Session not found", 404);
+  if (original.status !== "SCHEDULED") {
+    throw new SessionError("Only scheduled sessions can be rescheduled", 409);
+  }
+  if (original._count.attendances > 0) {
+    throw new SessionError("Attendance has already been marked for this session", 409);
+  }
+
+  const localDate = await assertSlotFree(p.academyId, original.classId, p, now);
+  const roomId    = p.roomId === undefined ? original.roomId : p.roomId;
+  const conflicts = assertNoConflicts(await findConflicts({
+    academyId:         p.academyId,
+    teacherUserId:     original.substituteTeacherUserId ?? original.class.teacherUserId,
+    slots:             [{ startsAt: p.startsAt, endsAt: p.endsAt, roomId }],
+    excludeSessionIds: [original.id],
+  }), p.override ?? false);
+
+  const [previous, session] = await prisma.$transaction(async (tx) => {
+    const canceled = await tx.classSession.update({
+      where: { id: original.id },
+      data:  { status: "CANCELED" },
+    });
+    const moved = await tx.classSession.create({
+      data: {
+        academyId:               p.academyId,
+        classId:                 original.classId,
+        startsAt:                p.startsAt,
+        endsAt:                  p.endsAt,
+        localDate,
+        roomId,
+        substituteTeacherUserId: original.substituteTeacherUserId,
+        status:                  "SCHEDULED",
+        kind:                    "RESCHEDULED",
+        rescheduledFromId:       original.id,
+      },
+    });
+    await tx.makeupCredit.updateMany({
+      where: { redeemedSessionId: original.id, status: "REDEEMED" },
+      data:  { redeemedSessionId: moved.id },
+    });
+    return [canceled, moved] as const;
+  });
+
+  const guests = await prisma.makeupCredit.findMany({
+    where:  { redeemedSessionId: session.id, status: "REDEEMED" },
+    select: { studentUserId: true },
+  });
+  const notifQueued = await notifySchedule({
+    sessionId:        session.id,
+    event:            "RESCHEDULED",
+    studentUserIds:   [
+      ...await activeStudentIds(p.academyId, session.classId),
+      ...guests.map((g) => g.studentUserId),
+    ],
+    previousStartsAt: original.startsAt,
+    actorUserId:      p.actorUserId,
+  });
+
+  return { session, previous, notifQueued, conflicts };
+}
+
+export async function createExtraSession(p: SessionTimes & {
+  academyId:   string;
+  classId:     string;
+  actorUserId: string;
+  now?:        Date;
+}): Promise<{ session: ClassSession; notifQueued: number; conflicts: ScheduleConflict[] }> {
+  const now = p.now ?? new Date();
+
+  const cls = await prisma.class.findFirst({
+    where:  { id: p.classId, academyId: p.academyId },
+    select: { status: true, teacherUserId: true },
+  });
+  if (!cls) throw new SessionError("Class not found", 404);
+  if (cls.status !== "ACTIVE") throw new SessionError("Class is archived", 409);
+
+  const localDate = await assertSlotFree(p.academyId, p.classId, p, now);
+  const roomId    = p.roomId ?? null;
+  const conflicts = assertNoConflicts(await findConflicts({
+    academyId:     p.academyId,
+    teacherUserId: cls.teacherUserId,
+    slots:         [{ startsAt: p.startsAt, endsAt: p.endsAt, roomId }],
+  }), p.override ?? false);
+
+  const session = await prisma.classSession.create({
+    data: {
+      academyId: p.academyId,
+      classId:   p.classId,
+      startsAt:  p.startsAt,
+      endsAt:    p.endsAt,
+      localDate,
+      roomId,
+      status:    "SCHEDULED",
+      kind:      "EXTRA",
+    },
+  });
+
+  const notifQueued = await notifySchedule({
+    sessionId:      session.id,
+    event:          "EXTRA",
+    studentUserIds: await activeStudentIds(p.academyId, p.classId),
+    actorUserId:    p.actorUserId,
+  });
+
+  return { session, notifQueued, conflicts };
+}
+
+/**
+ * Assign (or with null, remove) the substitute teacher of a session.
+ * The substitute must be a TEACHER of the academy other than the class
+ * teacher, and free at the session's time unless overridden.
+ */
+export async function assignSubstitute(p: {
+  academyId:     string;
+  sessionId:     string;
+  teacherUserId: string | null;
+  override?:     boolean;
+}): Promise<{ session: ClassSession; conflicts: ScheduleConflict[] }> {
+  const session = await prisma.classSession.findFirst({
+    where:   { id: p.sessionId, academyId: p.academyId },
+    include: { class: { select: { teacherUserId: true } } },
+  });
+  if (!session) throw new SessionError("Session not found", 404);
+  if (session.status === "CANCELED") throw new SessionError("The session is canceled", 409);
+
+  let conflicts: ScheduleConflict[] = [];
+  if (p.teacherUserId) {
+    const teacher = await prisma.user.findUnique({
+      where:  { id: p.teacherUserId },
+      select: { academyId: true, role: true },
+    });
+    if (!teacher || teacher.academyId !== p.academyId) {
+      throw new SessionError("Teacher not found in this academy", 422);
+    }
+    if (teacher.role !== "TEACHER") throw new SessionError("User is not a TEACHER", 422);
+    if (p.teacherUserId === session.class.teacherUserId) {
+      throw new SessionError("The substitute must not be the class teacher", 422);
+    }
+
+    conflicts = assertNoConflicts(await findConflicts({
+      academyId:         p.academyId,
+      teacherUserId:     p.teacherUserId,
+      slots:             [{ startsAt: session.startsAt, endsAt: session.endsAt, roomId: null }],
+      excludeSessionIds: [session.id],
+    }), p.override ?? false);
+  }
+
+  const updated = await prisma.classSession.update({
+    where: { id: session.id },
+    data:  { substituteTeacherUserId: p.teacherUserId },
+  });
+  return { session: updated, conflicts };
+}
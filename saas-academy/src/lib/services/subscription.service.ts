@@ -0,0 +1,247 @@
+/**
+ * src/lib/services/subscription.service.ts
+ *
+ * Lifecycle of a StudentSubscription: subscribe, pause/resume, cancel and
+ * change-plan. Each mutation keeps the subscription's PENDING invoices in
+ * step so runDailyBilling() always charges the right plan.
+ *
+ * Plans with a prorationMode other than NONE are prorated on a mid-cycle
+ * start and on plan changes (see proration.service.ts).
+ */
+
+import { prisma } from "@/lib/db/client";
+import { generateOrderId, todayKST } from "@/lib/services/billing.service";
+import {
+  addProrationLineItems,
+  replaceProrationLineItems,
+  replaceTuitionLineItem,
+  tuitionLineItem,
+} from "@/lib/services/invoice.service";
+import {
+  calendarDay,
+  enrollmentProration,
+  planChangeProration,
+} from "@/lib/services/proration.service";
+import { formatInTimeZone } from "date-fns-tz";
+import type { StudentSubscription, TuitionPlan } from "@prisma/client";
+
+export class SubscriptionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "SubscriptionError";
+  }
+}
+
+export interface CreateSubscriptionParams {
+  academyId:     string;
+  studentUserId: string;
+  planId:        string;
+  /** "YYYY-MM-DD" – first invoice is due on this date */
+  startDate:     string;
+}
+
+async function loadActivePlan(academyId: string, planId: string): Promise<TuitionPlan> {
+  const plan = await prisma.tuitionPlan.findFirst({ where: { id: planId, academyId } });
+  if (!plan) throw new SubscriptionError("Tuition plan not found", 404);
+  if (!plan.isActive) throw new SubscriptionError("Tuition plan is archived", 422);
+  return plan;
+}
+
+/**
+ * Subscribe a student to a plan and create the first PENDING invoice.
+ * A student may hold only one non-canceled subscription per plan.
+ * Starting mid-period on a prorated plan adds a PRORATION_CREDIT item.
+ */
+export async function createSubscription(p: CreateSubscriptionParams) {
+  const student = await prisma.user.findFirst({
+    where:  { id: p.studentUserId, academyId: p.academyId },
+    select: { role: true },
+  });
+  if (!student) throw new SubscriptionError("Student not found in this academy", 422);
+  if (student.role !== "STUDENT") throw new SubscriptionError("User is not a STUDENT", 422);
+
+  const plan = await loadActivePlan(p.academyId, p.planId);
+
+  const existing = await prisma.studentSubscription.findFirst({
+    where: {
+      academyId:     p.academyId,
+      studentUserId: p.studentUserId,
+      planId:        p.planId,
+      status:        { in: ["ACTIVE", "PAUSED"] },
+    },
+  });
+  if (existing) {
+    throw new SubscriptionError("Student already has a subscription on this plan", 409);
+  }
+
+  const startDate = new Date(p.startDate);
+  const credit    = await enrollmentProration({
+    academyId:     p.academyId,
+    studentUserId: p.studentUserId,
+    plan,
+    startDate,
+  });
+  const lineItems = [
+    tuitionLineItem(p.academyId, plan),
+    ...(credit ? [{ academyId: p.academyId, ...credit }] : []),
+  ];
+
+  return prisma.$transaction(async (tx) => {
+    const sub = await tx.studentSubscription.create({
+      data: {
+        academyId:       p.academyId,
+        studentUserId:   p.studentUserId,
+        planId:          plan.id,
+        status:          "ACTIVE",
+        startDate,
+        nextBillingDate: startDate,
+      },
+    });
+
+    const invoice = await tx.invoice.create({
+      data: {
+        academyId:      p.academyId,
+        subscriptionId: sub.id,
+        studentUserId:  p.studentUserId,
+        planId:         plan.id,
+        amount:         lineItems.reduce((sum, li) => sum + li.amount, 0),
+        dueDate:        startDate,
+        orderId:        generateOrderId(),
+        status:         "PENDING",
+        lineItems:      { create: lineItems },
+      },
+      include: { lineItems: true },
+    });
+
+    return { subscription: sub, invoice };
+  });
+}
+
+/** Pause billing. PENDING invoices are kept but skipped by the billing run. */
+export async function pauseSubscription(sub: StudentSubscription) {
+  if (sub.status !== "ACTIVE") {
+    throw new SubscriptionError(`Cannot pause a ${sub.status} subscription`, 409);
+  }
+  return prisma.studentSubscription.update({
+    where: { id: sub.id },
+    data:  { status: "PAUSED" },
+  });
+}
+
+export async function resumeSubscription(sub: StudentSubscription) {
+  if (sub.status !== "PAUSED") {
+    throw new SubscriptionError(`Cannot resume a ${sub.status} subscription`, 409);
+  }
+  return prisma.studentSubscription.update({
+    where: { id: sub.id },
+    data:  { status: "ACTIVE" },
+  });
+}
+
+/** Move the next charge date; the upcoming PENDING invoice follows it. */
+export async function rescheduleNextBilling(sub: StudentSubscription, nextBillingDate: string) {
+  if (sub.status === "CANCELED") {
+    throw new SubscriptionError("Cannot reschedule a canceled subscription", 409);
+  }
+
+  const date = new Date(nextBillingDate);
+  return prisma.$transaction(async (tx) => {
+    await tx.invoice.updateMany({
+      where: { subscriptionId: sub.id, status: "PENDING" },
+      data:  { dueDate: date },
+    });
+    return tx.studentSubscription.update({
+      where: { id: sub.id },
+      data:  { nextBillingDate: date },
+    });
+  });
+}
+
+/** Cancel the subscription and every invoice that has not been paid yet. */
+export async function cancelSubscription(sub: StudentSubscription, endDate?: string) {
+  if (sub.status === "CANCELED") {
+    throw new SubscriptionError("Subscription is already canceled", 409);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.invoice.updateMany({
+      where: { subscriptionId: sub.id, status: "PENDING" },
+      data:  { status: "CANCELED" },
+    });
+    return tx.studentSubscription.update({
+      where: { id: sub.id },
+      data:  {
+        status:  "CANCELED",
+        endDate: endDate ? new Date(endDate) : new Date(),
+      },
+    });
+  });
+}
+
+/**
+ * Move the subscription to another plan. The TUITION line item of each
+ * PENDING invoice is re-priced; already-paid invoices are untouched.
+ *
+ * On a prorated plan, a PENDING first invoice has its mid-cycle credit
+ * recomputed, and when the current period is already paid the next PENDING
+ * invoice gets a credit for the old plan's unused days (or sessions) and a
+ * debit for the same share of the new plan.
+ */
+export async function changeSubscriptionPlan(sub: StudentSubscription, planId: string) {
+  if (sub.status === "CANCELED") {
+    throw new SubscriptionError("Cannot change plan of a canceled subscription", 409);
+  }
+  if (sub.planId === planId) {
+    throw new SubscriptionError("Subscription is already on this plan", 409);
+  }
+
+  const plan    = await loadActivePlan(sub.academyId, planId);
+  const oldPlan = await prisma.tuitionPlan.findUniqueOrThrow({ where: { id: sub.planId } });
+  const today   = calendarDay(formatInTimeZone(todayKST(), "Asia/Seoul", "yyyy-MM-dd"));
+
+  const changeLines = await planChangeProration({
+    subscriptionId: sub.id,
+    academyId:      sub.academyId,
+    studentUserId:  sub.studentUserId,
+    oldPlan,
+    newPlan:        plan,
+    today,
+  });
+
+  const pending = await prisma.invoice.findMany({
+    where:   { subscriptionId: sub.id, status: "PENDING" },
+    orderBy: { dueDate: "asc" },
+  });
+  // Nothing paid yet: the first invoice's mid-cycle credit follows the new plan
+  const paidCount = await prisma.invoice.count({
+    where: { subscriptionId: sub.id, status: { in: ["PAID", "REFUNDED"] } },
+  });
+  const firstInvoice = paidCount === 0 ? pending[0] : undefined;
+  const firstCredit  = firstInvoice
+    ? await enrollmentProration({
+        academyId:     sub.academyId,
+        studentUserId: sub.studentUserId,
+        plan,
+        startDate:     firstInvoice.dueDate,
+      })
+    : null;
+
+  return prisma.$transaction(async (tx) => {
+    for (const [i, invoice] of pending.entries()) {
+      await replaceTuitionLineItem(tx, invoice, plan);
+      if (invoice === firstInvoice) {
+        await replaceProrationLineItems(tx, invoice, firstCredit ? [firstCredit] : []);
+      } else if (i === 0) {
+        await addProrationLineItems(tx, invoice, changeLines);
+      }
+    }
+    return tx.studentSubscription.update({
+      where:   { id: sub.id },
+      data:    { planId: plan.id },
+      include: { plan: true },
+    });
+  });
+}
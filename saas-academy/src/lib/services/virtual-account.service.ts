@@ -0,0 +1,259 @@
+/**
+ * src/lib/services/virtual-account.service.ts
+ *
+ * Bank-transfer payment of an invoice through a Toss virtual account.
+ *
+ *  - issueInvoiceVirtualAccount() – student asks for an account on a PENDING
+ *                                   invoice (reuses a live one if present)
+ *  - handleDepositCallback()      – DEPOSIT_CALLBACK webhook, matched by
+ *                                   orderId and verified with the stored secret
+ *  - expireVirtualAccounts()      – daily sweep of accounts past their deadline
+ *
+ * While an account is WAITING_FOR_DEPOSIT the daily run does not charge the
+ * card on file, so a family is never billed twice for the same invoice.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { getPaymentProvider } from "@/lib/payments";
+import type { DepositCallback } from "@/lib/toss/virtual-account";
+import { TossError } from "@/lib/toss/tossClient";
+import { notifyBilling, settleInvoice } from "@/lib/services/billing.service";
+import type { Invoice, TuitionPlan, VirtualAccount } from "@prisma/client";
+
+/** Deposit deadline for a newly issued account. */
+export const VIRTUAL_ACCOUNT_VALID_HOURS = 72;
+
+export class VirtualAccountError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "VirtualAccountError";
+  }
+}
+
+/** Toss orderId of the n-th account issued for an invoice. */
+export function virtualAccountOrderId(invoiceOrderId: string, n: number): string {
+  return `${invoiceOrderId}-VA${n}`;
+}
+
+function secretMatches(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export interface IssueVirtualAccountParams {
+  invoice: Invoice & { plan: Pick<TuitionPlan, "name"> | null };
+  student: { name: string; email?: string | null };
+  /** Toss bank code, e.g. "88" (신한). */
+  bank:    string;
+}
+
+/**
+ * Issue a virtual account for a PENDING invoice. A live account for the
+ * current invoice amount is returned as-is; an outdated one (expired, or
+ * issued before a late fee changed the total) is closed first.
+ */
+export async function issueInvoiceVirtualAccount(
+  p: IssueVirtualAccountParams,
+): Promise<VirtualAccount> {
+  const { invoice } = p;
+  if (invoice.status !== "PENDING") {
+    throw new VirtualAccountError(`Cannot pay a ${invoice.status} invoice`, 409);
+  }
+  if (invoice.amount <= 0) {
+    throw new VirtualAccountError("Nothing is due on this invoice", 409);
+  }
+
+  const now = new Date();
+  const live = await prisma.virtualAccount.findFirst({
+    where:   { invoiceId: invoice.id, status: "WAITING_FOR_DEPOSIT" },
+    orderBy: { createdAt: "desc" },
+  });
+  if (live) {
+    if (live.dueDate > now && live.amount === invoice.amount) return live;
+    await prisma.virtualAccount.update({
+      where: { id: live.id },
+      data:  live.dueDate > now
+        ? { status: "CANCELED", errorMessage: "Invoice amount changed; account reissued" }
+        : { status: "EXPIRED" },
+    });
+  }
+
+  const issued  = await prisma.virtualAccount.count({ where: { invoiceId: invoice.id } });
+  const orderId = virtualAccountOrderId(invoice.orderId, issued + 1);
+
+  let payment;
+  try {
+    payment = await getPaymentProvider().issueVirtualAccount({
+      amount:        invoice.amount,
+      orderId,
+      orderName:     `${invoice.plan?.name ?? "수강료"} (${invoice.dueDate.toISOString().slice(0, 7)})`,
+      customerName:  p.student.name,
+      customerEmail: p.student.email ?? undefined,
+      bank:          p.bank,
+      validHours:    VIRTUAL_ACCOUNT_VALID_HOURS,
+    });
+  } catch (e) {
+    if (e instanceof TossError) throw new VirtualAccountError(e.message, 502);
+    throw e;
+  }
+
+  if (!payment.virtualAccount || !payment.secret) {
+    throw new VirtualAccountError("Toss did not return a virtual account", 502);
+  }
+
+  return prisma.virtualAccount.create({
+    data: {
+      academyId:     invoice.academyId,
+      invoiceId:     invoice.id,
+      orderId,
+      paymentKey:    payment.paymentKey,
+      bankCode:      payment.virtualAccount.bankCode,
+      accountNumber: payment.virtualAccount.accountNumber,
+      customerName:  payment.virtualAccount.customerName,
+      amount:        invoice.amount,
+      dueDate:       new Date(payment.virtualAccount.dueDate),
+      secret:        payment.secret,
+    },
+  });
+}
+
+/** Mark accounts past their deadline EXPIRED. Returns how many changed. */
+export async function expireVirtualAccounts(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.virtualAccount.updateMany({
+    where: { status: "WAITING_FOR_DEPOSIT", dueDate: { lt: now } },
+    data:  { status: "EXPIRED" },
+  });
+  return count;
+}
+
+export type DepositOutcome =
+  | { status: "SETTLED";         invoiceId: string }
+  | { status: "AMOUNT_MISMATCH"; invoiceId: string; expected: number; deposited: number }
+  | { status: "ALREADY_CLOSED";  invoiceId: string }
+  | { status: "CANCELED";        invoiceId: string }
+  | { status: "IGNORED";         invoiceId: string };
+
+/**
+ * Apply a DEPOSIT_CALLBACK. Throws (→ webhook ERROR, replayable) when the
+ * orderId is unknown, the secret does not match, or Toss has not confirmed
+ * the deposit yet.
+ *
+ * A deposit is compared with the current invoice total: a different amount
+ * is parked as AMOUNT_MISMATCH, and a deposit for an invoice that was
+ * already settled another way – before or while the callback runs – is
+ * recorded for the admin to refund by bank transfer (refund.service.ts does
+ * not refund virtual-account payments).
+ */
+export async function handleDepositCallback(cb: DepositCallback): Promise<DepositOutcome> {
+  const va = await prisma.virtualAccount.findUnique({
+    where:   { orderId: cb.orderId },
+    include: { invoice: { include: { plan: true } } },
+  });
+  if (!va) throw new Error(`No virtual account for orderId ${cb.orderId}`);
+  if (!secretMatches(va.secret, cb.secret ?? "")) {
+    throw new Error(`DEPOSIT_CALLBACK secret mismatch for orderId ${cb.orderId}`);
+  }
+
+  const { invoice } = va;
+
+  if (cb.status === "CANCELED" || cb.status === "PARTIAL_CANCELED") {
+    if (va.status === "WAITING_FOR_DEPOSIT") {
+      await prisma.virtualAccount.update({ where: { id: va.id }, data: { status: "CANCELED" } });
+    }
+    return { status: "CANCELED", invoiceId: invoice.id };
+  }
+  if (cb.status !== "DONE" || va.status === "DONE") {
+    return { status: "IGNORED", invoiceId: invoice.id };
+  }
+
+  // The callback carries no amount – ask Toss what was actually deposited
+  const payment = await getPaymentProvider().getPaymentByOrderId(cb.orderId);
+  if (payment.status !== "DONE") {
+    throw new Error(`Deposit for ${cb.orderId} not confirmed by Toss (status ${payment.status})`);
+  }
+  const deposited = payment.totalAmount;
+  const now = new Date();
+
+  const meta = {
+    orderId:        cb.orderId,
+    paymentKey:     payment.paymentKey,
+    transactionKey: cb.transactionKey ?? null,
+    deposited,
+    invoiceAmount:  invoice.amount,
+  };
+
+  const depositOnClosedInvoice = async (invoiceStatus: string): Promise<DepositOutcome> => {
+    await prisma.virtualAccount.update({
+      where: { id: va.id },
+      data:  {
+        status:          "DONE",
+        depositedAmount: deposited,
+        depositedAt:     now,
+        errorMessage:    `Invoice already ${invoiceStatus} – deposit needs a refund`,
+      },
+    });
+    await audit({
+      actorUserId: null,
+      academyId:   invoice.academyId,
+      action:      "invoice.virtualAccount.depositOnClosedInvoice",
+      targetType:  "Invoice",
+      targetId:    invoice.id,
+      metaJson:    { ...meta, invoiceStatus },
+    });
+    return { status: "ALREADY_CLOSED", invoiceId: invoice.id };
+  };
+
+  if (invoice.status !== "PENDING" && invoice.status !== "FAILED") {
+    return depositOnClosedInvoice(invoice.status);
+  }
+
+  if (deposited !== invoice.amount) {
+    await prisma.virtualAccount.update({
+      where: { id: va.id },
+      data:  {
+        status:          "AMOUNT_MISMATCH",
+        depositedAmount: deposited,
+        depositedAt:     now,
+        errorMessage:    `Deposited ₩${deposited.toLocaleString()} but invoice total is ₩${invoice.amount.toLocaleString()}`,
+      },
+    });
+    await audit({
+      actorUserId: null,
+      academyId:   invoice.academyId,
+      action:      "invoice.virtualAccount.amountMismatch",
+      targetType:  "Invoice",
+      targetId:    invoice.id,
+      metaJson:    meta,
+    });
+    return { status: "AMOUNT_MISMATCH", invoiceId: invoice.id, expected: invoice.amount, deposited };
+  }
+
+  const settled = await prisma.$transaction(async (tx) => {
+    if (!(await settleInvoice(tx, invoice, payment.paymentKey))) return false;
+    await tx.virtualAccount.update({
+      where: { id: va.id },
+      data:  { status: "DONE", depositedAmount: deposited, depositedAt: now },
+    });
+    return true;
+  });
+  // Settled another way (offline, card retry) since the invoice was read
+  if (!settled) return depositOnClosedInvoice("settled");
+
+  await audit({
+    actorUserId: null,
+    academyId:   invoice.academyId,
+    action:      "invoice.virtualAccount.deposit",
+    targetType:  "Invoice",
+    targetId:    invoice.id,
+    metaJson:    meta,
+  });
+  await notifyBilling({ invoiceId: invoice.id, event: "PAID" });
+
+  return { status: "SETTLED", invoiceId: invoice.id };
+}
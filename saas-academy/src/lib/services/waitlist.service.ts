@@ -0,0 +1,176 @@
+/**
+ * src/lib/services/waitlist.service.ts
+ *
+ * Class waitlists.
+ *
+ * Enrolling a student in a class whose ACTIVE enrollments have reached its
+ * capacity puts them on the waitlist instead: a WAITLISTED enrollment with
+ * the next waitlistPosition.
+ *
+ * Whenever a seat may have opened – an ACTIVE enrollment is dropped or
+ * paused, or the capacity is raised or removed – promoteWaitlisted() makes
+ * the first waitlisted students ACTIVE, as many as there are free seats, and
+ * queues a notification to each one's parents (enrollment-notifier.ts).
+ * Students see their waitlist position under /me/schedule.
+ *
+ * Both count seats and write in one transaction holding a row lock on the
+ * class, so concurrent enrollments and promotions cannot overfill it.
+ */
+import { prisma } from "@/lib/db/client";
+import { audit } from "@/lib/auth/audit";
+import { enqueueWaitlistPromotedNotification } from "@/lib/alimtalk/enrollment-notifier";
+import type { ClassEnrollment, Prisma } from "@prisma/client";
+
+type Tx = Prisma.TransactionClient;
+
+/** Serialize seat changes of a class until the transaction ends. */
+async function lockClass(tx: Tx, classId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM classes WHERE id = ${classId} FOR UPDATE`;
+}
+
+async function nextWaitlistPosition(tx: Tx, classId: string): Promise<number> {
+  const last = await tx.classEnrollment.aggregate({
+    where: { classId, status: "WAITLISTED" },
+    _max:  { waitlistPosition: true },
+  });
+  return (last._max.waitlistPosition ?? 0) + 1;
+}
+
+/**
+ * Enroll a student, or waitlist them when the class is full or others are
+ * already waiting. Re-enrolling a DROPPED or PAUSED student goes through
+ * the same check; an ACTIVE or WAITLISTED enrollment is returned unchanged.
+ * The capacity is read under the class row lock, so a concurrent capacity
+ * change is taken into account.
+ */
+export async function enrollOrWaitlist(p: {
+  academyId:     string;
+  classId:       string;
+  studentUserId: string;
+  actorUserId:   string;
+}): Promise<ClassEnrollment> {
+  const key = {
+    academyId_classId_studentUserId: {
+      academyId:     p.academyId,
+      classId:       p.classId,
+      studentUserId: p.studentUserId,
+    },
+  };
+  const { enrollment, full } = await prisma.$transaction(async (tx) => {
+    await lockClass(tx, p.classId);
+
+    const existing = await tx.classEnrollment.findUnique({ where: key });
+    if (existing?.status === "ACTIVE" || existing?.status === "WAITLISTED") {
+      return { enrollment: existing, full: false };
+    }
+
+    const { capacity } = await tx.class.findFirstOrThrow({
+      where:  { id: p.classId, academyId: p.academyId },
+      select: { capacity: true },
+    });
+
+    let full = false;
+    if (capacity !== null) {
+      const active  = await tx.classEnrollment.count({ where: { academyId: p.academyId, classId: p.classId, status: "ACTIVE" } });
+      const waiting = await tx.classEnrollment.count({ where: { academyId: p.academyId, classId: p.classId, status: "WAITLISTED" } });
+      full = active >= capacity || waiting > 0;
+    }
+
+    const data = full
+      ? { status: "WAITLISTED" as const, waitlistPosition: await nextWaitlistPosition(tx, p.classId) }
+      : { status: "ACTIVE" as const, waitlistPosition: null };
+
+    const enrollment = await tx.classEnrollment.upsert({
+      where:  key,
+      update: data,
+      create: {
+        academyId:     p.academyId,
+        classId:       p.classId,
+        studentUserId: p.studentUserId,
+        ...data,
+      },
+    });
+    return { enrollment, full };
+  });
+
+  if (!full) return enrollment;
+
+  // Seats left open by earlier changes go to whoever waited longest – which
+  // may be this student
+  await promoteWaitlisted({ academyId: p.academyId, classId: p.classId, actorUserId: p.actorUserId });
+  return (await prisma.classEnrollment.findUnique({ where: key })) ?? enrollment;
+}
+
+/**
+ * Fill the free seats of a class from its waitlist, in waitlistPosition
+ * order. Returns the promoted enrollments.
+ */
+export async function promoteWaitlisted(p: {
+  academyId:   string;
+  classId:     string;
+  actorUserId: string;
+}): Promise<ClassEnrollment[]> {
+  const now = new Date();
+  const promoted = await prisma.$transaction(async (tx) => {
+    await lockClass(tx, p.classId);
+
+    const cls = await tx.class.findFirst({
+      where:  { id: p.classId, academyId: p.academyId },
+      select: { capacity: true, status: true },
+    });
+    if (!cls || cls.status !== "ACTIVE") return [];
+
+    let seats = Infinity;
+    if (cls.capacity !== null) {
+      const active = await tx.classEnrollment.count({
+        where: { academyId: p.academyId, classId: p.classId, status: "ACTIVE" },
+      });
+      seats = cls.capacity - active;
+    }
+    if (seats <= 0) return [];
+
+    const waiting = await tx.classEnrollment.findMany({
+      where:   { academyId: p.academyId, classId: p.classId, status: "WAITLISTED" },
+      orderBy: [{ waitlistPosition: "asc" }, { enrolledAt: "asc" }],
+      ...(Number.isFinite(seats) ? { take: seats } : {}),
+    });
+
+    // Promoted rows, paired with the position they held for the audit log
+    const claimed: Array<{ enrollment: ClassEnrollment; waitlistPosition: number | null }> = [];
+    for (const enrollment of waiting) {
+      // Guard against a removal outside the lock
+      const { count } = await tx.classEnrollment.updateMany({
+        where: { id: enrollment.id, status: "WAITLISTED" },
+        data:  { status: "ACTIVE", waitlistPosition: null, enrolledAt: now },
+      });
+      if (count === 1) {
+        claimed.push({
+          enrollment:       { ...enrollment, status: "ACTIVE", waitlistPosition: null, enrolledAt: now },
+          waitlistPosition: enrollment.waitlistPosition,
+        });
+      }
+    }
+    return claimed;
+  });
+
+  for (const { enrollment, waitlistPosition } of promoted) {
+    await audit({
+      actorUserId: p.actorUserId,
+      academyId:   p.academyId,
+      action:      "enrollment.waitlist.promoted",
+      targetType:  "ClassEnrollment",
+      targetId:    enrollment.id,
+      metaJson:    {
+        classId:          p.classId,
+        studentUserId:    enrollment.studentUserId,
+        waitlistPosition,
+      },
+    });
+    try {
+      await enqueueWaitlistPromotedNotification({ enrollmentId: enrollment.id, actorUserId: p.actorUserId });
+    } catch (e) {
+      console.error(`[waitlist] Could not queue promotion notification for ${enrollment.id}:`, e);
+    }
+  }
+  return promoted.map((p) => p.enrollment);
+}
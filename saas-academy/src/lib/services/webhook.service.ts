@@ -0,0 +1,353 @@
+/**
+ * src/lib/services/webhook.service.ts
+ *
+ * Toss webhook pipeline: ingest now, process later.
+ *
+ *  - ingestWebhookEvent()    – called by POST /api/webhooks/toss; stores the
+ *                              event as PENDING and nothing else
+ *  - processWebhookEvents()  – worker (POST /api/internal/webhooks/process):
+ *                              claims due PENDING / ERROR events, resolves
+ *                              the academy and applies them, with
+ *                              exponential back-off up to maxAttempts
+ *  - replayWebhookEvent()    – super-admin replay of a single event
+ *
+ * A claim (PROCESSING) older than STALE_CLAIM_MS belongs to a worker that
+ * died mid-event; the worker and replay both take such events over.
+ *
+ * Duplicate deliveries are dropped at ingest through WebhookEvent.dedupKey
+ * (event type + provider key + state, see webhookDedupKey()). The state part
+ * keeps distinct transitions of the same payment, e.g. two partial refunds,
+ * apart. Deposit callbacks are unsigned and only checked against the
+ * VirtualAccount secret while processing, so their key also carries a hash
+ * of the secret: a forged callback cannot take the key of the real one.
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import type { TossWebhookPayload } from "@/lib/toss/webhooks";
+import type { TossCancel } from "@/lib/toss/cancel";
+import type { DepositCallback } from "@/lib/toss/virtual-account";
+import { syncRefundsFromProvider } from "@/lib/services/refund.service";
+import { handleDepositCallback } from "@/lib/services/virtual-account.service";
+import { Prisma, type WebhookEvent } from "@prisma/client";
+
+const DEFAULT_BATCH = 50;
+
+/** A PROCESSING claim older than this is treated as abandoned */
+export const STALE_CLAIM_MS = 10 * 60_000;
+
+// Back-off delays in minutes after attempt 1, 2, 3, 4
+const BACKOFF_MINUTES = [1, 5, 30, 120];
+
+export interface WebhookWorkerResult {
+  processed: number;
+  succeeded: number;
+  failed:    number;
+  skipped:   number;
+}
+
+type Data = Record<string, unknown>;
+
+function str(v: unknown): string | null {
+  return typeof v === "string" && v.length > 0 ? v : null;
+}
+
+/** paymentKey / billingKey / orderId identifying the provider object. */
+export function webhookProviderKey(payload: Pick<TossWebhookPayload, "eventType" | "data">): string | null {
+  const d = payload.data;
+  switch (payload.eventType) {
+    case "BILLING_STATUS_CHANGED": return str(d.billingKey);
+    case "DEPOSIT_CALLBACK":       return str(d.orderId);
+    default:                       return str(d.paymentKey);
+  }
+}
+
+/**
+ * Idempotency key of a delivery, or null when the payload carries no
+ * provider key, or is a deposit callback without a secret (such events are
+ * never deduplicated).
+ */
+export function webhookDedupKey(payload: Pick<TossWebhookPayload, "eventType" | "data">): string | null {
+  const key = webhookProviderKey(payload);
+  if (!key) return null;
+
+  const d = payload.data;
+  let secretHash: string | null = null;
+  if (payload.eventType === "DEPOSIT_CALLBACK") {
+    const secret = str(d.secret);
+    if (!secret) return null;
+    secretHash = createHash("sha256").update(secret).digest("hex").slice(0, 16);
+  }
+
+  const cancels = (d.cancels as TossCancel[] | undefined) ?? [];
+  const state = [
+    str(d.status),
+    str(d.transactionKey) ?? (cancels.length ? cancels[cancels.length - 1].transactionKey : null),
+    secretHash,
+  ].filter(Boolean).join(":");
+
+  return `${payload.eventType}:${key}${state ? `:${state}` : ""}`;
+}
+
+/**
+ * Store a verified webhook delivery. Returns null for a duplicate of an
+ * event already stored.
+ */
+export async function ingestWebhookEvent(
+  payload: TossWebhookPayload,
+): Promise<WebhookEvent | null> {
+  try {
+    return await prisma.webhookEvent.create({
+      data: {
+        provider:         "TOSS_PAYMENTS",
+        eventType:        payload.eventType,
+        payloadJson:      payload as unknown as Prisma.InputJsonValue,
+        providerKey:      webhookProviderKey(payload),
+        dedupKey:         webhookDedupKey(payload),
+        receivedAt:       new Date(),
+        processingStatus: "PENDING",
+        nextRetryAt:      new Date(),
+      },
+    });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") return null;
+    throw e;
+  }
+}
+
+/** Stored payload; rows written before async processing hold the raw body string. */
+function storedPayload(event: Pick<WebhookEvent, "payloadJson">): TossWebhookPayload {
+  const raw = event.payloadJson;
+  return (typeof raw === "string" ? JSON.parse(raw) : raw) as unknown as TossWebhookPayload;
+}
+
+/** Academy owning the provider object the event refers to, if known. */
+export async function resolveWebhookAcademyId(
+  payload: Pick<TossWebhookPayload, "eventType" | "data">,
+): Promise<string | null> {
+  const d = payload.data;
+
+  switch (payload.eventType) {
+    case "BILLING_STATUS_CHANGED": {
+      const billingKey = str(d.billingKey);
+      if (!billingKey) return null;
+      const pm = await prisma.paymentMethod.findFirst({
+        where: { billingKey }, select: { academyId: true },
+      });
+      return pm?.academyId ?? null;
+    }
+
+    case "DEPOSIT_CALLBACK": {
+      const orderId = str(d.orderId);
+      if (!orderId) return null;
+      const va = await prisma.virtualAccount.findUnique({
+        where: { orderId }, select: { academyId: true },
+      });
+      return va?.academyId ?? null;
+    }
+
+    default: {
+      const paymentKey = str(d.paymentKey);
+      const orderId    = str(d.orderId);
+      const or: Prisma.InvoiceWhereInput[] = [];
+      if (paymentKey) or.push({ providerPaymentKey: paymentKey });
+      if (orderId)    or.push({ orderId });
+      if (or.length === 0) return null;
+
+      const invoice = await prisma.invoice.findFirst({
+        where: { OR: or }, select: { academyId: true },
+      });
+      if (invoice) return invoice.academyId;
+
+      const va = paymentKey
+        ? await prisma.virtualAccount.findUnique({ where: { paymentKey }, select: { academyId: true } })
+        : null;
+      return va?.academyId ?? null;
+    }
+  }
+}
+
+/** Apply one event. Throws on failure so the worker can retry. */
+export async function applyWebhookEvent(
+  eventType: string,
+  data: Data,
+): Promise<void> {
+  switch (eventType) {
+    case "PAYMENT_STATUS_CHANGED": {
+      const paymentKey = data.paymentKey as string | undefined;
+      const status     = data.status     as string | undefined;
+      if (!paymentKey || !status) return;
+
+      if (status === "CANCELED" || status === "PARTIAL_CANCELED") {
+        // Full or partial refund – record each cancel transaction once
+        const cancels = (data.cancels as TossCancel[] | undefined) ?? [];
+        await syncRefundsFromProvider(paymentKey, cancels);
+      }
+      break;
+    }
+
+    case "BILLING_STATUS_CHANGED": {
+      // billingKey was revoked externally (e.g. card expired)
+      const billingKey = data.billingKey as string | undefined;
+      if (!billingKey) return;
+
+      await prisma.paymentMethod.updateMany({
+        where: { billingKey },
+        data:  { status: "REVOKED" },
+      });
+      break;
+    }
+
+    case "DEPOSIT_CALLBACK": {
+      // Virtual-account deposit – matched to the invoice by orderId
+      const orderId = data.orderId as string | undefined;
+      if (!orderId) return;
+
+      const outcome = await handleDepositCallback(data as unknown as DepositCallback);
+      if (outcome.status === "AMOUNT_MISMATCH") {
+        console.warn(
+          `[webhook] Deposit for ${orderId}: expected ${outcome.expected}, got ${outcome.deposited}`,
+        );
+      }
+      break;
+    }
+
+    default:
+      // Unknown event – stored for inspection, no action needed
+      break;
+  }
+}
+
+/**
+ * Process one claimed (PROCESSING) event and record the result.
+ * @returns true when the event was applied
+ */
+async function runEvent(event: WebhookEvent, now: Date): Promise<boolean> {
+  const attempts = event.attempts + 1;
+
+  try {
+    const payload   = storedPayload(event);
+    const academyId = event.academyId ?? await resolveWebhookAcademyId(payload);
+
+    if (academyId && academyId !== event.academyId) {
+      await prisma.webhookEvent.update({ where: { id: event.id }, data: { academyId } });
+    }
+
+    await applyWebhookEvent(payload.eventType, payload.data);
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data:  {
+        processingStatus: "DONE",
+        processedAt:      now,
+        attempts,
+        nextRetryAt:      null,
+        errorMessage:     null,
+      },
+    });
+    return true;
+  } catch (e) {
+    const exhausted = attempts >= event.maxAttempts;
+    const backoffMs = (BACKOFF_MINUTES[attempts - 1] ?? 120) * 60_000;
+    const message   = e instanceof Error ? e.message : String(e);
+
+    console.error(`[webhook] Event ${event.id} (${event.eventType}) failed:`, e);
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data:  {
+        processingStatus: "ERROR",
+        attempts,
+        nextRetryAt:      exhausted ? null : new Date(now.getTime() + backoffMs),
+        errorMessage:     message,
+      },
+    });
+    return false;
+  }
+}
+
+/**
+ * Worker: process due PENDING events and retry due ERROR events, oldest first.
+ * Rows are claimed with a status update so concurrent workers never apply the
+ * same event twice.
+ */
+export async function processWebhookEvents(
+  batchSize = DEFAULT_BATCH,
+): Promise<WebhookWorkerResult> {
+  const now = new Date();
+
+  const events = await prisma.webhookEvent.findMany({
+    where: {
+      OR: [
+        { processingStatus: { in: ["PENDING", "ERROR"] }, nextRetryAt: { lte: now } },
+        {
+          processingStatus: "PROCESSING",
+          OR: [{ claimedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) } }, { claimedAt: null }],
+        },
+      ],
+    },
+    orderBy: { receivedAt: "asc" },
+    take:    batchSize,
+  });
+
+  let succeeded = 0;
+  let failed    = 0;
+  let skipped   = 0;
+
+  for (const event of events) {
+    // claimedAt in the filter keeps two workers from retaking a stale claim
+    const claimed = await prisma.webhookEvent.updateMany({
+      where: { id: event.id, processingStatus: event.processingStatus, claimedAt: event.claimedAt },
+      data:  { processingStatus: "PROCESSING", claimedAt: now },
+    });
+    if (claimed.count === 0) {
+      skipped++;
+      continue; // Another worker beat us to it
+    }
+
+    if (await runEvent(event, now)) succeeded++;
+    else failed++;
+  }
+
+  return { processed: events.length, succeeded, failed, skipped };
+}
+
+/**
+ * Re-run one event now, whatever its status – unless a worker claimed it
+ * less than STALE_CLAIM_MS ago. The attempt budget is reset so a failed
+ * replay goes back to normal retries.
+ */
+export async function replayWebhookEvent(
+  id: string,
+  actorUserId: string,
+): Promise<WebhookEvent | null> {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!event) return null;
+
+  const now = new Date();
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id,
+      OR: [
+        { processingStatus: { not: "PROCESSING" } },
+        { claimedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) } },
+        { claimedAt: null },
+      ],
+    },
+    data:  { processingStatus: "PROCESSING", attempts: 0, claimedAt: now },
+  });
+  if (claimed.count === 0) return event; // being processed right now
+
+  const ok = await runEvent({ ...event, attempts: 0 }, now);
+
+  await audit({
+    actorUserId,
+    academyId:  event.academyId,
+    action:     "webhook.replay",
+    targetType: "WebhookEvent",
+    targetId:   id,
+    metaJson:   { eventType: event.eventType, previousStatus: event.processingStatus, ok },
+  });
+
+  return prisma.webhookEvent.findUnique({ where: { id } });
+}
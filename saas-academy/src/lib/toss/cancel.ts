@@ -0,0 +1,64 @@
+/**
+ * src/lib/toss/cancel.ts
+ *
+ * Cancel (refund) an approved payment, fully or partially.
+ *
+ * POST /v1/payments/{paymentKey}/cancel
+ * Omitting cancelAmount cancels the remaining balance in full.
+ * Uses Idempotency-Key header so a retried request never refunds twice.
+ *
+ * Docs: https://docs.tosspayments.com/reference#결제-취소
+ */
+
+import { tossRequest } from "./tossClient";
+
+export interface CancelParams {
+  /** Shown to the customer and stored by Toss. */
+  cancelReason: string;
+  /** Amount to refund in KRW. Omit for a full cancel of the remaining balance. */
+  cancelAmount?: number;
+  /** Tax-free portion of cancelAmount. Default 0. */
+  taxFreeAmount?: number;
+}
+
+export interface TossCancel {
+  transactionKey: string;
+  cancelAmount:   number;
+  cancelReason:   string;
+  canceledAt:     string;
+  cancelStatus?:  "DONE" | "IN_PROGRESS" | "ABORTED";
+}
+
+export interface CancelResponse {
+  paymentKey:    string;
+  orderId:       string;
+  status:        "CANCELED" | "PARTIAL_CANCELED";
+  totalAmount:   number;
+  balanceAmount: number;
+  cancels:       TossCancel[];
+}
+
+/**
+ * Cancel all or part of a payment.
+ *
+ * @param paymentKey     – Toss paymentKey of the approved charge
+ * @param params         – reason and optional partial amount
+ * @param idempotencyKey – unique per refund request (e.g. Refund.id)
+ */
+export async function cancelPayment(
+  paymentKey: string,
+  params: CancelParams,
+  idempotencyKey: string,
+): Promise<CancelResponse> {
+  const { cancelReason, cancelAmount, taxFreeAmount = 0 } = params;
+
+  return tossRequest<CancelResponse>(
+    "POST",
+    `/v1/payments/${encodeURIComponent(paymentKey)}/cancel`,
+    {
+      cancelReason,
+      ...(cancelAmount !== undefined ? { cancelAmount, taxFreeAmount } : {}),
+    },
+    idempotencyKey,
+  );
+}
@@ -5,4 +5,6 @@
 export * from "./tossClient";
 export * from "./billing";
 export * from "./charge";
+export * from "./cancel";
+export * from "./virtual-account";
 export * from "./webhooks";
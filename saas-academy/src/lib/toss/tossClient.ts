@@ -8,11 +8,17 @@
  *   TOSS_PAYMENTS_SECRET_KEY   – Toss secret key  (test_sk_xxx)
  *   TOSS_PAYMENTS_CLIENT_KEY   – Toss client key  (test_ck_xxx)  [for frontend use]
  *   TOSS_PAYMENTS_BASE_URL     – defaults to https://api.tosspayments.com
+ *   TOSS_PAYMENTS_TIMEOUT_MS   – per-request timeout, defaults to 15000
+ *
+ * Services do not call this directly – they go through the PaymentProvider
+ * from "@/lib/payments" so a fake can stand in (PAYMENT_PROVIDER=fake).
  */
 
 const BASE_URL =
   process.env.TOSS_PAYMENTS_BASE_URL ?? "https://api.tosspayments.com";
 
+const TIMEOUT_MS = Number(process.env.TOSS_PAYMENTS_TIMEOUT_MS ?? 15_000);
+
 function getAuthHeader(): string {
   const key = process.env.TOSS_PAYMENTS_SECRET_KEY;
   if (!key) throw new Error("TOSS_PAYMENTS_SECRET_KEY is not set");
@@ -37,7 +43,8 @@ export class TossError extends Error {
 
 /**
  * Generic fetch wrapper for Toss API.
- * Throws TossError on non-2xx responses.
+ * Throws TossError on non-2xx responses, and TossError("TIMEOUT") when Toss
+ * does not answer within TIMEOUT_MS.
  */
 export async function tossRequest<T = unknown>(
   method: "GET" | "POST" | "DELETE",
@@ -53,13 +60,22 @@ export async function tossRequest<T = unknown>(
     headers["Idempotency-Key"] = idempotencyKey;
   }
 
-  const response = await fetch(`${BASE_URL}${path}`, {
-    method,
-    headers,
-    body: body ? JSON.stringify(body) : undefined,
-    // Disable Next.js fetch caching for payment calls
-    cache: "no-store",
-  });
+  let response: Response;
+  try {
+    response = await fetch(`${BASE_URL}${path}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      // Disable Next.js fetch caching for payment calls
+      cache: "no-store",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+  } catch (e) {
+    if (e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError")) {
+      throw new TossError("TIMEOUT", `No response from Toss within ${TIMEOUT_MS}ms`, 504);
+    }
+    throw e;
+  }
 
   const text = await response.text();
   let json: unknown;
@@ -0,0 +1,82 @@
+/**
+ * src/lib/toss/virtual-account.ts
+ *
+ * Virtual account (가상계좌) payments for families without a card.
+ *
+ * POST /v1/virtual-accounts         – issue an account for one order
+ * GET  /v1/payments/orders/{orderId} – look up the payment (deposit amount/status)
+ *
+ * Toss reports deposits through the DEPOSIT_CALLBACK webhook, which carries
+ * the `secret` returned at issue time instead of a signature.
+ *
+ * Docs: https://docs.tosspayments.com/reference#가상계좌-발급-요청
+ */
+
+import { tossRequest } from "./tossClient";
+
+export interface VirtualAccountParams {
+  /** Amount in KRW (integer). */
+  amount: number;
+  /** Unique order ID on our side (stored in VirtualAccount.orderId). */
+  orderId: string;
+  /** Human-readable order name, e.g. "3월 수강료". */
+  orderName: string;
+  /** Depositor name shown to the bank. */
+  customerName: string;
+  /** Bank code or name, e.g. "88" / "신한". */
+  bank: string;
+  /** Hours until the account expires (max 720). */
+  validHours: number;
+  customerEmail?: string;
+}
+
+export interface TossVirtualAccount {
+  accountNumber: string;
+  bankCode:      string;
+  customerName:  string;
+  dueDate:       string;
+  expired:       boolean;
+}
+
+export interface VirtualAccountPayment {
+  paymentKey:  string;
+  orderId:     string;
+  status:      "WAITING_FOR_DEPOSIT" | "DONE" | "CANCELED" | "PARTIAL_CANCELED" | "EXPIRED";
+  totalAmount: number;
+  /** Secret echoed back in DEPOSIT_CALLBACK for verification. */
+  secret?:     string;
+  approvedAt?: string | null;
+  virtualAccount: TossVirtualAccount | null;
+}
+
+/** Shape of a DEPOSIT_CALLBACK body. */
+export interface DepositCallback {
+  orderId:         string;
+  status:          "WAITING_FOR_DEPOSIT" | "DONE" | "CANCELED" | "PARTIAL_CANCELED";
+  secret:          string;
+  transactionKey?: string;
+  createdAt?:      string;
+}
+
+/**
+ * Issue a virtual account for one order.
+ * The orderId doubles as idempotency key so a retried request returns the same account.
+ */
+export async function issueVirtualAccount(
+  params: VirtualAccountParams,
+): Promise<VirtualAccountPayment> {
+  return tossRequest<VirtualAccountPayment>(
+    "POST",
+    "/v1/virtual-accounts",
+    params,
+    params.orderId,
+  );
+}
+
+/** Fetch the current payment for an orderId. */
+export async function getPaymentByOrderId(orderId: string): Promise<VirtualAccountPayment> {
+  return tossRequest<VirtualAccountPayment>(
+    "GET",
+    `/v1/payments/orders/${encodeURIComponent(orderId)}`,
+  );
+}
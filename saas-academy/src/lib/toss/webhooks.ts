@@ -60,14 +60,25 @@ export function verifyTossWebhookSignature(
 /**
  * Parse and validate a Toss webhook body.
  * Returns null if parsing fails.
+ *
+ * Virtual-account deposit callbacks arrive as a flat body
+ * ({ orderId, status, secret, ... }) without eventType; they are wrapped as
+ * a DEPOSIT_CALLBACK payload.
  */
 export function parseTossWebhookBody(
   rawBody: string,
 ): TossWebhookPayload | null {
   try {
-    const parsed = JSON.parse(rawBody) as TossWebhookPayload;
+    const parsed = JSON.parse(rawBody) as Record<string, unknown>;
+    if (!parsed.eventType && parsed.orderId && parsed.secret && parsed.status) {
+      return {
+        eventType: "DEPOSIT_CALLBACK",
+        createdAt: String(parsed.createdAt ?? new Date().toISOString()),
+        data:      parsed,
+      };
+    }
     if (!parsed.eventType || !parsed.data) return null;
-    return parsed;
+    return parsed as unknown as TossWebhookPayload;
   } catch {
     return null;
   }
@@ -1,6 +1,7 @@
 /**
  * src/lib/validators/attendance.ts
- * Zod schemas for Class, Enrollment, Session, Attendance API payloads.
+ * Zod schemas for Class, Room, Enrollment, Session, Closure, Make-up, Attendance
+ * API payloads.
  */
 import { z } from "zod";
 
@@ -10,6 +11,8 @@ export const createClassSchema = z.object({
   name:          z.string().min(1).max(100),
   teacherUserId: z.string().uuid().optional().nullable(),
   capacity:      z.number().int().positive().optional().nullable(),
+  /** Self check-in: minutes past the start after which a student is LATE */
+  lateAfterMin:  z.number().int().min(0).max(120).default(10),
   startDate:     z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD"),
   endDate:       z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD").optional().nullable(),
   /** Weekly schedule rules (at least one required) */
@@ -20,11 +23,14 @@ export const createClassSchema = z.object({
         startTime:   z.string().regex(/^\d{2}:\d{2}$/, "HH:mm"),
         durationMin: z.number().int().min(10).max(300),
         timezone:    z.string().default("Asia/Seoul"),
+        roomId:      z.string().uuid().optional().nullable(),
       }),
     )
     .min(1),
   /** How many weeks ahead to generate sessions (default 8) */
   generateWeeks: z.number().int().min(1).max(52).default(8),
+  /** Create the class despite teacher / room conflicts */
+  override:      z.boolean().default(false),
 });
 
 export type CreateClassInput = z.infer<typeof createClassSchema>;
@@ -33,12 +39,30 @@ export const updateClassSchema = z.object({
   name:          z.string().min(1).max(100).optional(),
   teacherUserId: z.string().uuid().optional().nullable(),
   capacity:      z.number().int().positive().optional().nullable(),
+  lateAfterMin:  z.number().int().min(0).max(120).optional(),
   endDate:       z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
   status:        z.enum(["ACTIVE", "ARCHIVED"]).optional(),
 });
 
 export type UpdateClassInput = z.infer<typeof updateClassSchema>;
 
+// ─── Room ─────────────────────────────────────────────────────────────────────
+
+export const createRoomSchema = z.object({
+  name:     z.string().min(1).max(100),
+  capacity: z.number().int().positive().optional().nullable(),
+});
+
+export type CreateRoomInput = z.infer<typeof createRoomSchema>;
+
+export const updateRoomSchema = z.object({
+  name:     z.string().min(1).max(100).optional(),
+  capacity: z.number().int().positive().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateRoomInput = z.infer<typeof updateRoomSchema>;
+
 // ─── Enrollment ───────────────────────────────────────────────────────────────
 
 export const enrollStudentSchema = z.object({
@@ -66,10 +90,74 @@ export const regenerateSessionsSchema = z.object({
   dateTo:   z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   /** How many weeks forward from today to generate (default 8) */
   weeks:    z.number().int().min(1).max(52).default(8),
+  /** Regenerate despite teacher / room conflicts */
+  override: z.boolean().default(false),
 });
 
 export type RegenerateSessionsInput = z.infer<typeof regenerateSessionsSchema>;
 
+/** Reschedule a session or add an extra one (ISO 8601 datetimes) */
+export const sessionTimesSchema = z.object({
+  startsAt: z.string().datetime({ offset: true }),
+  endsAt:   z.string().datetime({ offset: true }),
+  /** Omit to keep the session's room (reschedule) */
+  roomId:   z.string().uuid().optional().nullable(),
+  /** Go ahead despite teacher / room conflicts (admins only) */
+  override: z.boolean().default(false),
+});
+
+export type SessionTimesInput = z.infer<typeof sessionTimesSchema>;
+
+export const assignSubstituteSchema = z.object({
+  /** null removes the substitute */
+  teacherUserId: z.string().uuid().nullable(),
+  /** Assign despite the substitute teaching elsewhere at that time */
+  override:      z.boolean().default(false),
+});
+
+export type AssignSubstituteInput = z.infer<typeof assignSubstituteSchema>;
+
+// ─── Closure ──────────────────────────────────────────────────────────────────
+
+export const createClosureSchema = z.object({
+  name:      z.string().min(1).max(100),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD"),
+  /** Inclusive; omit for a single day */
+  endDate:   z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD").optional().nullable(),
+});
+
+export type CreateClosureInput = z.infer<typeof createClosureSchema>;
+
+export const listClosuresQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+export const importHolidaysSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+});
+
+export type ImportHolidaysInput = z.infer<typeof importHolidaysSchema>;
+
+export const cancelClosedSessionsSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD"),
+  to:   z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD"),
+});
+
+export type CancelClosedSessionsInput = z.infer<typeof cancelClosedSessionsSchema>;
+
+// ─── Make-up ──────────────────────────────────────────────────────────────────
+
+export const listMakeupCreditsQuerySchema = z.object({
+  studentUserId: z.string().uuid().optional(),
+  status:        z.enum(["AVAILABLE", "REDEEMED", "VOID"]).optional(),
+});
+
+export const redeemMakeupCreditSchema = z.object({
+  sessionId: z.string().uuid(),
+});
+
+export type RedeemMakeupCreditInput = z.infer<typeof redeemMakeupCreditSchema>;
+
 // ─── Attendance ───────────────────────────────────────────────────────────────
 
 export const attendanceEntrySchema = z.object({
@@ -85,6 +173,14 @@ export const bulkAttendanceSchema = z.object({
 
 export type BulkAttendanceInput = z.infer<typeof bulkAttendanceSchema>;
 
+export const selfCheckInSchema = z.object({
+  code:      z.string().trim().regex(/^\d{6}$/, "6 digits"),
+  /** From the QR payload, or picked from the sessions open for check-in */
+  sessionId: z.string().uuid(),
+});
+
+export type SelfCheckInInput = z.infer<typeof selfCheckInSchema>;
+
 export const listAttendanceQuerySchema = z.object({
   classId:       z.string().uuid().optional(),
   sessionId:     z.string().uuid().optional(),
@@ -100,6 +196,8 @@ export const listSessionsQuerySchema = z.object({
   classId:   z.string().uuid().optional(),
   month:     z.string().regex(/^\d{4}-\d{2}$/).optional(),
   localDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  /** On or after this date (YYYY-MM-DD) */
+  from:      z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   status:    z.enum(["SCHEDULED", "CANCELED", "COMPLETED"]).optional(),
   page:      z.coerce.number().int().min(1).default(1),
   limit:     z.coerce.number().int().min(1).max(200).default(50),
@@ -13,11 +13,16 @@ export const createTuitionPlanSchema = z.object({
   billingDay:  z.number().int().min(1).max(28),
   graceDays:   z.number().int().min(0).max(30).default(3),
   lateFee:     z.number().int().min(0).optional(),
+  prorationMode: z.enum(["NONE", "DAILY", "PER_SESSION"]).default("NONE"),
   isActive:    z.boolean().default(true),
 });
 
 export const updateTuitionPlanSchema = createTuitionPlanSchema.partial();
 
+export const tuitionPlanQuerySchema = z.object({
+  includeArchived: z.enum(["true", "false"]).optional(),
+});
+
 export type CreateTuitionPlanInput = z.infer<typeof createTuitionPlanSchema>;
 export type UpdateTuitionPlanInput = z.infer<typeof updateTuitionPlanSchema>;
 
@@ -35,8 +40,22 @@ export const updateSubscriptionSchema = z.object({
   endDate:         z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
-export type CreateSubscriptionInput = z.infer<typeof createSubscriptionSchema>;
-export type UpdateSubscriptionInput = z.infer<typeof updateSubscriptionSchema>;
+export const changeSubscriptionPlanSchema = z.object({
+  planId: z.string().uuid(),
+});
+
+export const subscriptionQuerySchema = z.object({
+  page:          z.coerce.number().int().min(1).default(1),
+  limit:         z.coerce.number().int().min(1).max(100).default(20),
+  status:        z.enum(["ACTIVE", "PAUSED", "CANCELED"]).optional(),
+  studentUserId: z.string().uuid().optional(),
+  planId:        z.string().uuid().optional(),
+});
+
+export type CreateSubscriptionInput     = z.infer<typeof createSubscriptionSchema>;
+export type UpdateSubscriptionInput     = z.infer<typeof updateSubscriptionSchema>;
+export type ChangeSubscriptionPlanInput = z.infer<typeof changeSubscriptionPlanSchema>;
+export type SubscriptionQueryInput      = z.infer<typeof subscriptionQuerySchema>;
 
 // ─── Payment Method (Toss) ────────────────────────────────────────────────────
 
@@ -61,9 +80,77 @@ export type IssuePaymentMethodInput   = z.infer<typeof issuePaymentMethodSchema>
 export const invoiceQuerySchema = z.object({
   page:           z.coerce.number().int().min(1).default(1),
   limit:          z.coerce.number().int().min(1).max(100).default(20),
-  status:         z.enum(["PENDING","PAID","FAILED","CANCELED"]).optional(),
+  status:         z.enum(["PENDING","PAID","FAILED","CANCELED","REFUNDED"]).optional(),
   subscriptionId: z.string().uuid().optional(),
   studentUserId:  z.string().uuid().optional(),
+  planId:         z.string().uuid().optional(),
+  dueFrom:        z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dueTo:          z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+/** Admin manual settlement: paid outside Toss (cash / transfer) or canceled. */
+export const updateInvoiceSchema = z.object({
+  status: z.enum(["PAID", "CANCELED"]),
+  note:   z.string().max(500).optional(),
+});
+
+/** Full (amount omitted) or partial refund through Toss. */
+export const refundInvoiceSchema = z.object({
+  amount: z.number().int().positive().optional(),
+  reason: z.string().min(1).max(200),
+});
+
+/** Student requests a Toss virtual account (bank transfer) for an invoice. */
+export const issueVirtualAccountSchema = z.object({
+  bank: z.string().min(2).max(20),
+});
+
+export type InvoiceQueryInput  = z.infer<typeof invoiceQuerySchema>;
+export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>;
+export type RefundInvoiceInput = z.infer<typeof refundInvoiceSchema>;
+export type IssueVirtualAccountInput = z.infer<typeof issueVirtualAccountSchema>;
+
+// ─── Discount Rules ───────────────────────────────────────────────────────────
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const discountRuleFields = z.object({
+  name:       z.string().min(1).max(100),
+  type:       z.enum(["SIBLING", "MULTI_CLASS", "COUPON", "PROMOTION"]),
+  valueType:  z.enum(["FIXED", "PERCENT"]),
+  value:      z.number().int().positive(),
+  minCount:   z.number().int().min(2).max(10).default(2),
+  code:       z.string().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/).nullable().optional(),
+  planId:     z.string().uuid().nullable().optional(),
+  validFrom:  dateOnly.nullable().optional(),
+  validUntil: dateOnly.nullable().optional(),
+  isActive:   z.boolean().default(true),
+});
+
+export const createDiscountRuleSchema = discountRuleFields
+  .refine((r) => r.valueType !== "PERCENT" || r.value <= 100, {
+    message: "Percentage must be between 1 and 100",
+    path:    ["value"],
+  })
+  .refine((r) => r.type !== "COUPON" || !!r.code, {
+    message: "Coupons need a code",
+    path:    ["code"],
+  })
+  .refine((r) => !r.validFrom || !r.validUntil || r.validFrom <= r.validUntil, {
+    message: "validUntil must not be before validFrom",
+    path:    ["validUntil"],
+  });
+
+/** `type` is fixed once created; the rest is checked against the stored rule in the route. */
+export const updateDiscountRuleSchema = discountRuleFields.omit({ type: true }).partial();
+
+export const discountRuleQuerySchema = z.object({
+  includeInactive: z.enum(["true", "false"]).optional(),
+});
+
+export const applyCouponSchema = z.object({
+  code: z.string().min(1).max(40),
 });
 
-export type InvoiceQueryInput = z.infer<typeof invoiceQuerySchema>;
+export type CreateDiscountRuleInput = z.infer<typeof createDiscountRuleSchema>;
+export type UpdateDiscountRuleInput = z.infer<typeof updateDiscountRuleSchema>;
@@ -4,11 +4,21 @@
  * Zod schemas for AlimTalk notification-related API bodies.
  */
 import { z } from "zod";
+import {
+  DEFAULT_LANGUAGE,
+  isBillingType,
+  missingTemplateVars,
+  NOTIFICATION_LANGUAGES,
+} from "@/lib/alimtalk/templates";
 
 // ── Parent Contact ─────────────────────────────────────────────────────────
 
 export const ParentRelationshipEnum = z.enum(["MOTHER", "FATHER", "GUARDIAN", "ETC"]);
 export const ContactStatusEnum      = z.enum(["ACTIVE", "INACTIVE"]);
+export const NotificationLanguageEnum = z.preprocess(
+  (v) => (typeof v === "string" ? v.trim().toUpperCase() : v),
+  z.enum(NOTIFICATION_LANGUAGES),
+);
 
 /** Normalize Korean mobile phone: strip dashes/spaces, ensure 010... format */
 function normalizePhone(raw: string): string {
@@ -28,7 +38,10 @@ export const CreateParentContactSchema = z.object({
   phone:             phoneSchema,
   relationship:      ParentRelationshipEnum.default("ETC"),
   notificationOptIn: z.boolean().default(false),
-  preferredLanguage: z.string().max(5).default("KO"),
+  notifyAbsent:      z.boolean().default(true),
+  notifyLate:        z.boolean().default(true),
+  notifyBilling:     z.boolean().default(true),
+  preferredLanguage: NotificationLanguageEnum.default("KO"),
 });
 
 export const UpdateParentContactSchema = z.object({
@@ -36,16 +49,50 @@ export const UpdateParentContactSchema = z.object({
   phone:             phoneSchema.optional(),
   relationship:      ParentRelationshipEnum.optional(),
   notificationOptIn: z.boolean().optional(),
-  preferredLanguage: z.string().max(5).optional(),
+  notifyAbsent:      z.boolean().optional(),
+  notifyLate:        z.boolean().optional(),
+  notifyBilling:     z.boolean().optional(),
+  preferredLanguage: NotificationLanguageEnum.optional(),
   status:            ContactStatusEnum.optional(),
   consentRecordedAt: z.string().datetime().nullable().optional(),
 });
 
+/** Parent's own choices on the public preference page */
+export const ParentPreferencesSchema = z.object({
+  optIn:         z.boolean(),
+  notifyAbsent:  z.boolean(),
+  notifyLate:    z.boolean(),
+  notifyBilling: z.boolean(),
+});
+
 export type CreateParentContactInput = z.infer<typeof CreateParentContactSchema>;
 export type UpdateParentContactInput = z.infer<typeof UpdateParentContactSchema>;
+export type ParentPreferencesInput   = z.infer<typeof ParentPreferencesSchema>;
 
 // ── Academy Notification Settings ─────────────────────────────────────────
 
+export const AlimtalkTemplateTypeEnum = z.enum([
+  "ABSENT",
+  "LATE",
+  "EXCUSED",
+  "BILLING_UPCOMING",
+  "BILLING_FAILED",
+  "BILLING_FINAL_FAILED",
+  "BILLING_PAID",
+  "SESSION_RESCHEDULED",
+  "SESSION_EXTRA",
+  "SESSION_MAKEUP",
+  "WAITLIST_PROMOTED",
+]);
+
+/** Caller ID registered with the SMS provider: landline or mobile, digits only */
+const smsSenderSchema = z
+  .string()
+  .transform(normalizePhone)
+  .refine((v) => /^0\d{8,10}$/.test(v) || /^1\d{7}$/.test(v), {
+    message: "올바른 발신번호를 입력하세요 (예: 0212345678, 15881234)",
+  });
+
 export const UpsertNotificationSettingsSchema = z.object({
   alimtalkEnabled:           z.boolean().optional(),
   sendOnAbsent:              z.boolean().optional(),
@@ -61,6 +108,21 @@ export const UpsertNotificationSettingsSchema = z.object({
     .string()
     .regex(/^\d{2}:\d{2}$/, "Format must be HH:mm")
     .optional(),
+  sendOnChargeUpcoming:      z.boolean().optional(),
+  chargeReminderDays:        z.number().int().min(1).max(14).optional(),
+  sendOnChargeFailed:        z.boolean().optional(),
+  sendOnChargeSucceeded:     z.boolean().optional(),
+  sendOnScheduleChange:      z.boolean().optional(),
+  sendOnWaitlistPromotion:   z.boolean().optional(),
+  smsFallbackEnabled:        z.boolean().optional(),
+  smsSenderNumber:           smsSenderSchema.nullable().optional(),
+  /** Fallback text per template type, #{var} placeholders as in AlimTalk */
+  smsFallbackTexts:          z
+    .record(AlimtalkTemplateTypeEnum, z.string().max(2000))
+    .optional(),
+  sendRatePerMinute:         z.number().int().min(1).max(1000).optional(),
+  /** Messages per KST calendar month; null removes the cap */
+  monthlyMessageCap:         z.number().int().min(1).max(10_000_000).nullable().optional(),
 });
 
 export type UpsertNotificationSettingsInput = z.infer<
@@ -69,15 +131,83 @@ export type UpsertNotificationSettingsInput = z.infer<
 
 // ── AlimTalk Template ──────────────────────────────────────────────────────
 
-export const AlimtalkTemplateTypeEnum = z.enum(["ABSENT", "LATE", "EXCUSED"]);
+/** Kakao limits an AlimTalk template body to 1,000 characters */
+const templateBodySchema = z.string().trim().min(1).max(1000);
 
-export const UpsertAlimtalkTemplateSchema = z.object({
-  type:         AlimtalkTemplateTypeEnum,
-  templateCode: z.string().min(1).max(100),
-  senderKey:    z.string().min(1).max(200),
-  isActive:     z.boolean().optional().default(true),
-});
+export const UpsertAlimtalkTemplateSchema = z
+  .object({
+    type:         AlimtalkTemplateTypeEnum,
+    templateCode: z.string().min(1).max(100),
+    senderKey:    z.string().min(1).max(200),
+    language:     NotificationLanguageEnum.default("KO"),
+    /** Approved template text, #{var} placeholders */
+    body:         templateBodySchema,
+    isActive:     z.boolean().optional().default(true),
+  })
+  .superRefine((v, ctx) => {
+    // Billing messages are sent in Korean only (billing-notifier.ts)
+    if (isBillingType(v.type) && v.language !== DEFAULT_LANGUAGE) {
+      ctx.addIssue({
+        code:    z.ZodIssueCode.custom,
+        path:    ["language"],
+        message: "결제 알림 템플릿은 한국어로만 등록할 수 있습니다",
+      });
+    }
+    const missing = missingTemplateVars(v.type, v.body);
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code:    z.ZodIssueCode.custom,
+        path:    ["body"],
+        message: `지원하지 않는 변수: ${missing.map((n) => `#{${n}}`).join(", ")}`,
+      });
+    }
+  });
 
 export type UpsertAlimtalkTemplateInput = z.infer<
   typeof UpsertAlimtalkTemplateSchema
 >;
+
+export const PreviewAlimtalkTemplateSchema = z.object({
+  type:         AlimtalkTemplateTypeEnum,
+  language:     NotificationLanguageEnum.default("KO"),
+  /** Unsaved body to preview; defaults to the stored template */
+  body:         templateBodySchema.optional(),
+  /** Render with this attendance's real data instead of sample data */
+  attendanceId: z.string().uuid().optional(),
+});
+
+export type PreviewAlimtalkTemplateInput = z.infer<
+  typeof PreviewAlimtalkTemplateSchema
+>;
+
+// ── Notification outbox ─────────────────────────────────────────────────────
+
+/** POST /api/notifications – manual send */
+export const SendNotificationSchema = z.object({
+  phone:        phoneSchema,
+  templateCode: z.string().min(1).max(100),
+  params:       z.record(z.string()).default({}),
+  /** User the message is about (shown in the log) */
+  recipientId:  z.string().uuid().optional(),
+  /** Defaults to the academy template with this code, else KAKAO_SENDER_KEY */
+  senderKey:    z.string().min(1).optional(),
+});
+
+export type SendNotificationInput = z.infer<typeof SendNotificationSchema>;
+
+/** GET /api/notifications – outbox log */
+export const OutboxQuerySchema = z.object({
+  page:          z.coerce.number().int().min(1).default(1),
+  limit:         z.coerce.number().int().min(1).max(100).default(20),
+  status:        z.enum(["PENDING", "PROCESSING", "SENT", "FAILED", "SKIPPED"]).optional(),
+  channel:       z.enum(["KAKAO_ALIMTALK", "SMS"]).optional(),
+  eventType:     z.enum(["ATTENDANCE", "BILLING", "MANUAL", "SCHEDULE", "ENROLLMENT"]).optional(),
+  studentUserId: z.string().uuid().optional(),
+  /** Student name search */
+  student:       z.string().trim().min(1).max(50).optional(),
+  phone:         z.string().transform(normalizePhone).optional(),
+  from:          z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to:            z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type OutboxQueryInput = z.infer<typeof OutboxQuerySchema>;
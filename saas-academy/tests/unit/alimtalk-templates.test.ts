@@ -0,0 +1,115 @@
+/**
+ * tests/unit/alimtalk-templates.test.ts
+ *
+ * Unit tests for template bodies: variable extraction, validation against
+ * the variable builders, sample rendering for the preview and the
+ * per-language status labels.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  missingTemplateVars,
+  normalizeLanguage,
+  renderTemplateText,
+  sampleTemplateVars,
+  statusLabel,
+  templateVarNames,
+} from "@/lib/alimtalk/templates";
+import { UpsertAlimtalkTemplateSchema } from "@/lib/validators/notifications";
+
+const ABSENT_BODY =
+  "[#{academyName}] #{studentName} 학생이 #{sessionDate} #{sessionTime} #{className} 수업에 #{statusText}했습니다.";
+
+describe("templateVarNames()", () => {
+  it("lists each variable once, in order of first use", () => {
+    expect(templateVarNames("#{b} #{a} #{b} #{ c} ##{a}")).toEqual(["b", "a"]);
+  });
+});
+
+describe("missingTemplateVars()", () => {
+  it("accepts variables the attendance builder supplies", () => {
+    expect(missingTemplateVars("ABSENT", ABSENT_BODY)).toEqual([]);
+  });
+
+  it("flags unknown variables", () => {
+    expect(missingTemplateVars("LATE", "#{studentName} #{parentName}")).toEqual(["parentName"]);
+  });
+
+  it("checks billing templates against the billing builder", () => {
+    expect(missingTemplateVars("BILLING_FAILED", "#{amount} #{failureReason}")).toEqual([]);
+    expect(missingTemplateVars("BILLING_FAILED", "#{sessionDate}")).toEqual(["sessionDate"]);
+  });
+
+  it("checks schedule templates against the schedule builder", () => {
+    expect(missingTemplateVars("SESSION_RESCHEDULED", "#{previousDate} #{previousTime} → #{sessionDate}")).toEqual([]);
+    expect(missingTemplateVars("SESSION_EXTRA", "#{statusText}")).toEqual(["statusText"]);
+  });
+
+  it("checks waitlist templates against the waitlist builder", () => {
+    expect(missingTemplateVars("WAITLIST_PROMOTED", "#{className} #{sessionDate} #{sessionTime}")).toEqual([]);
+    expect(missingTemplateVars("WAITLIST_PROMOTED", "#{previousDate}")).toEqual(["previousDate"]);
+  });
+});
+
+describe("sample rendering", () => {
+  it("renders an attendance body with the status label of its type", () => {
+    expect(renderTemplateText(ABSENT_BODY, sampleTemplateVars("LATE")))
+      .toBe("[한빛학원] 홍길동 학생이 2026-03-02 18:00 중2 수학 수업에 지각했습니다.");
+  });
+
+  it("renders the status label in the preview language", () => {
+    expect(sampleTemplateVars("ABSENT", "VI").statusText).toBe("Vắng mặt");
+  });
+
+  it("renders billing amounts formatted", () => {
+    expect(renderTemplateText("#{amount} (#{attemptNo})", sampleTemplateVars("BILLING_FAILED")))
+      .toBe("150,000원 (2/3)");
+  });
+});
+
+describe("languages", () => {
+  it("normalizes stored preferredLanguage values, defaulting to Korean", () => {
+    expect(normalizeLanguage("en")).toBe("EN");
+    expect(normalizeLanguage("JP")).toBe("KO");
+    expect(normalizeLanguage(null)).toBe("KO");
+  });
+
+  it("localizes status labels with a Korean fallback", () => {
+    expect(statusLabel("LATE", "ZH")).toBe("迟到");
+    expect(statusLabel("LATE", "JP")).toBe("지각");
+    expect(statusLabel("UNKNOWN", "EN")).toBe("UNKNOWN");
+  });
+});
+
+describe("UpsertAlimtalkTemplateSchema", () => {
+  const base = { type: "ABSENT", templateCode: "TM_ABSENT_001", senderKey: "sk" };
+
+  it("accepts a body the builder can fill", () => {
+    expect(UpsertAlimtalkTemplateSchema.safeParse({ ...base, body: ABSENT_BODY }).success).toBe(true);
+  });
+
+  it("rejects a body with unsupported variables", () => {
+    const result = UpsertAlimtalkTemplateSchema.safeParse({ ...base, body: "#{studentName} #{amount}" });
+    expect(result.success).toBe(false);
+    expect(result.error?.flatten().fieldErrors.body).toEqual(["지원하지 않는 변수: #{amount}"]);
+  });
+
+  it("defaults the language to Korean and accepts other languages", () => {
+    const result = UpsertAlimtalkTemplateSchema.safeParse({ ...base, body: ABSENT_BODY });
+    expect(result.data?.language).toBe("KO");
+    expect(UpsertAlimtalkTemplateSchema.safeParse({ ...base, language: "vi", body: ABSENT_BODY }).data?.language)
+      .toBe("VI");
+  });
+
+  it("keeps billing templates Korean only", () => {
+    const result = UpsertAlimtalkTemplateSchema.safeParse({
+      ...base, type: "BILLING_PAID", language: "EN", body: "#{amount}",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.flatten().fieldErrors.language).toBeDefined();
+  });
+
+  it("requires a body", () => {
+    expect(UpsertAlimtalkTemplateSchema.safeParse(base).success).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * tests/unit/attendance-notifier.test.ts
+ *
+ * Unit tests for per-language template selection and per-event consent in
+ * enqueueAttendanceNotification(). Prisma and the audit log are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    attendance:                  { findUnique: vi.fn() },
+    academyNotificationSettings: { findUnique: vi.fn() },
+    notificationQueue:           { findFirst: vi.fn(), create: vi.fn() },
+    parentContact:               { findMany: vi.fn() },
+    alimtalkTemplate:            { findMany: vi.fn() },
+    academy:                     { findUnique: vi.fn() },
+    user:                        { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+import { prisma } from "@/lib/db/client";
+import { enqueueAttendanceNotification } from "@/lib/alimtalk/attendance-notifier";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  attendance:                  { findUnique: Fn };
+  academyNotificationSettings: { findUnique: Fn };
+  notificationQueue:           { findFirst: Fn; create: Fn };
+  parentContact:               { findMany: Fn };
+  alimtalkTemplate:            { findMany: Fn };
+  academy:                     { findUnique: Fn };
+  user:                        { findUnique: Fn };
+};
+
+const KO_TEMPLATE = { language: "KO", templateCode: "TM_ABSENT_KO", senderKey: "sk" };
+const EN_TEMPLATE = { language: "EN", templateCode: "TM_ABSENT_EN", senderKey: "sk" };
+
+function contact(id: string, preferredLanguage: string) {
+  return { id, phone: "01012345678", preferredLanguage };
+}
+
+/** templateCode + statusText of each queued row */
+function queued() {
+  return mockPrisma.notificationQueue.create.mock.calls.map(([{ data }]) => [
+    data.templateCode,
+    (data.templateVarsJson as Record<string, string>).statusText,
+  ]);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.attendance.findUnique.mockResolvedValue({
+    id:            "att-1",
+    academyId:     "ac-1",
+    studentUserId: "stu-1",
+    status:        "ABSENT",
+    session: {
+      status:   "SCHEDULED",
+      startsAt: new Date("2026-03-02T09:00:00Z"),
+      class:    { name: "Math", teacher: { name: "Kim" } },
+    },
+  });
+  mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue({
+    alimtalkEnabled: true, sendOnAbsent: true, quietHoursEnabled: false,
+  });
+  mockPrisma.notificationQueue.findFirst.mockResolvedValue(null);
+  mockPrisma.notificationQueue.create.mockImplementation(async ({ data }) => ({ id: `q-${data.parentContactId}` }));
+  mockPrisma.academy.findUnique.mockResolvedValue({ name: "Sunrise" });
+  mockPrisma.user.findUnique.mockResolvedValue({ name: "Alice" });
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("enqueueAttendanceNotification() languages", () => {
+  it("uses each contact's language template with localized status text", async () => {
+    mockPrisma.alimtalkTemplate.findMany.mockResolvedValue([KO_TEMPLATE, EN_TEMPLATE]);
+    mockPrisma.parentContact.findMany.mockResolvedValue([contact("pc-1", "KO"), contact("pc-2", "EN")]);
+
+    const result = await enqueueAttendanceNotification({ attendanceId: "att-1" });
+
+    expect(result.queueIds).toEqual(["q-pc-1", "q-pc-2"]);
+    expect(queued()).toEqual([
+      ["TM_ABSENT_KO", "결석"],
+      ["TM_ABSENT_EN", "Absent"],
+    ]);
+  });
+
+  it("falls back to the Korean template and Korean status text", async () => {
+    mockPrisma.alimtalkTemplate.findMany.mockResolvedValue([KO_TEMPLATE, EN_TEMPLATE]);
+    mockPrisma.parentContact.findMany.mockResolvedValue([contact("pc-3", "VI"), contact("pc-4", "xx")]);
+
+    await enqueueAttendanceNotification({ attendanceId: "att-1" });
+
+    expect(queued()).toEqual([
+      ["TM_ABSENT_KO", "결석"],
+      ["TM_ABSENT_KO", "결석"],
+    ]);
+  });
+
+  it("skips contacts with neither their language nor Korean registered", async () => {
+    mockPrisma.alimtalkTemplate.findMany.mockResolvedValue([EN_TEMPLATE]);
+    mockPrisma.parentContact.findMany.mockResolvedValue([contact("pc-1", "KO"), contact("pc-2", "EN")]);
+
+    const result = await enqueueAttendanceNotification({ attendanceId: "att-1" });
+
+    expect(result.queueIds).toEqual(["q-pc-2"]);
+    expect(queued()).toEqual([["TM_ABSENT_EN", "Absent"]]);
+  });
+
+  it("only loads contacts that still want this event", async () => {
+    mockPrisma.alimtalkTemplate.findMany.mockResolvedValue([KO_TEMPLATE]);
+    mockPrisma.parentContact.findMany.mockResolvedValue([contact("pc-1", "KO")]);
+
+    await enqueueAttendanceNotification({ attendanceId: "att-1" });
+
+    expect(mockPrisma.parentContact.findMany.mock.calls[0][0].where).toMatchObject({
+      notificationOptIn: true,
+      notifyAbsent:      true,
+    });
+  });
+
+  it("skips entirely when no contact has a usable template", async () => {
+    mockPrisma.alimtalkTemplate.findMany.mockResolvedValue([EN_TEMPLATE]);
+    mockPrisma.parentContact.findMany.mockResolvedValue([contact("pc-1", "ZH")]);
+
+    const result = await enqueueAttendanceNotification({ attendanceId: "att-1" });
+
+    expect(result).toMatchObject({ skipped: true, queueIds: [] });
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * tests/unit/billing-notifier.test.ts
+ *
+ * Unit tests for dunning notifications (billing-notifier.ts).
+ * Prisma and the audit log are mocked; quiet hours use the real helpers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    invoice:                     { findUnique: vi.fn(), findMany: vi.fn() },
+    academyNotificationSettings: { findUnique: vi.fn(), findMany: vi.fn() },
+    notificationQueue:           { findFirst: vi.fn(), create: vi.fn() },
+    parentContact:               { findMany: vi.fn() },
+    alimtalkTemplate:            { findFirst: vi.fn() },
+    academy:                     { findUnique: vi.fn() },
+    user:                        { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+import { prisma } from "@/lib/db/client";
+import {
+  enqueueBillingNotification,
+  enqueueUpcomingChargeReminders,
+} from "@/lib/alimtalk/billing-notifier";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  invoice:                     { findUnique: Fn; findMany: Fn };
+  academyNotificationSettings: { findUnique: Fn; findMany: Fn };
+  notificationQueue:           { findFirst: Fn; create: Fn };
+  parentContact:               { findMany: Fn };
+  alimtalkTemplate:            { findFirst: Fn };
+  academy:                     { findUnique: Fn };
+  user:                        { findUnique: Fn };
+};
+
+const settings = {
+  academyId:             "ac-1",
+  alimtalkEnabled:       true,
+  sendOnChargeUpcoming:  true,
+  chargeReminderDays:    3,
+  sendOnChargeFailed:    true,
+  sendOnChargeSucceeded: false,
+  quietHoursEnabled:     true,
+  quietHoursStart:       "21:00",
+  quietHoursEnd:         "08:00",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-03-10T12:00:00+09:00")); // 12:00 KST
+
+  mockPrisma.invoice.findUnique.mockResolvedValue({
+    id:            "inv-1",
+    academyId:     "ac-1",
+    studentUserId: "user-1",
+    amount:        150000,
+    dueDate:       new Date("2026-03-13"),
+    plan:          { name: "Basic" },
+  });
+  mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue(settings);
+  mockPrisma.notificationQueue.findFirst.mockResolvedValue(null);
+  mockPrisma.notificationQueue.create.mockResolvedValue({ id: "q-1" });
+  mockPrisma.parentContact.findMany.mockResolvedValue([{ id: "pc-1", phone: "01012345678" }]);
+  mockPrisma.alimtalkTemplate.findFirst.mockResolvedValue({
+    templateCode: "TM_BILL_FAIL",
+    senderKey:    "sender-1",
+  });
+  mockPrisma.academy.findUnique.mockResolvedValue({ name: "Sunrise Academy" });
+  mockPrisma.user.findUnique.mockResolvedValue({ name: "Alice" });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("enqueueBillingNotification()", () => {
+  it("queues one row per opted-in parent with billing vars", async () => {
+    const result = await enqueueBillingNotification({
+      invoiceId: "inv-1", event: "FAILED", attemptNo: 1, maxAttempts: 3, failureReason: "한도 초과",
+    });
+
+    expect(result).toEqual({ skipped: false, queueIds: ["q-1"] });
+    expect(mockPrisma.alimtalkTemplate.findFirst).toHaveBeenCalledWith({
+      where: { academyId: "ac-1", type: "BILLING_FAILED", language: "KO", isActive: true },
+    });
+    expect(mockPrisma.notificationQueue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventType:        "BILLING",
+        invoiceId:        "inv-1",
+        billingEvent:     "FAILED",
+        attemptNo:        1,
+        recipientPhone:   "01012345678",
+        templateVarsJson: expect.objectContaining({
+          studentName:   "Alice",
+          amount:        "150,000원",
+          dueDate:       "2026-03-13",
+          attemptNo:     "1/3",
+          failureReason: "한도 초과",
+        }),
+      }),
+    });
+  });
+
+  it("skips when the academy policy is off for the event", async () => {
+    const result = await enqueueBillingNotification({ invoiceId: "inv-1", event: "PAID", attemptNo: 1 });
+
+    expect(result.skipped).toBe(true);
+    expect(result.reason).toMatch(/PAID notifications disabled/);
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("dedups on invoice + event + attempt", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue({ id: "q-old" });
+
+    const result = await enqueueBillingNotification({ invoiceId: "inv-1", event: "FAILED", attemptNo: 2 });
+
+    expect(result.skipped).toBe(true);
+    expect(mockPrisma.notificationQueue.findFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({ invoiceId: "inv-1", billingEvent: "FAILED", attemptNo: 2 }),
+    });
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("defers delivery to the end of quiet hours", async () => {
+    vi.setSystemTime(new Date("2026-03-10T23:00:00+09:00")); // 23:00 KST
+
+    await enqueueBillingNotification({ invoiceId: "inv-1", event: "FINAL_FAILED", attemptNo: 3 });
+
+    const { data } = mockPrisma.notificationQueue.create.mock.calls[0][0];
+    expect(data.scheduledAt.getTime()).toBeGreaterThan(Date.now());
+  });
+});
+
+describe("enqueueUpcomingChargeReminders()", () => {
+  it("reminds for PENDING invoices due chargeReminderDays ahead", async () => {
+    mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([
+      { academyId: "ac-1", chargeReminderDays: 3 },
+    ]);
+    mockPrisma.invoice.findMany.mockResolvedValue([{ id: "inv-1" }]);
+
+    const queued = await enqueueUpcomingChargeReminders("2026-03-10");
+
+    expect(queued).toBe(1);
+    expect(mockPrisma.invoice.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ status: "PENDING", dueDate: new Date("2026-03-13") }),
+    }));
+    expect(mockPrisma.notificationQueue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ billingEvent: "UPCOMING", attemptNo: null }),
+    });
+  });
+});
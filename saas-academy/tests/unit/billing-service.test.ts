@@ -6,14 +6,19 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
 
 // ─── Mock Prisma ──────────────────────────────────────────────────────────────
 vi.mock("@/lib/db/client", () => ({
   prisma: {
-    invoice:             { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+    invoice:             { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+    invoiceLineItem:     { findFirst: vi.fn(), count: vi.fn(), create: vi.fn(), aggregate: vi.fn() },
     paymentMethod:       { findFirst: vi.fn() },
     paymentAttempt:      { create: vi.fn(), update: vi.fn() },
     studentSubscription: { update: vi.fn() },
+    user:                { findMany: vi.fn().mockResolvedValue([]) },
+    discountRule:        { findMany: vi.fn().mockResolvedValue([]) },
+    virtualAccount:      { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
     $transaction:        vi.fn(),
   },
 }));
@@ -23,12 +28,23 @@ vi.mock("@/lib/toss/charge", () => ({
   chargeWithBillingKey: vi.fn(),
 }));
 
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+// ─── Mock dunning notifier ────────────────────────────────────────────────────
+vi.mock("@/lib/alimtalk/billing-notifier", () => ({
+  enqueueBillingNotification:     vi.fn().mockResolvedValue({ skipped: true, queueIds: [] }),
+  enqueueUpcomingChargeReminders: vi.fn().mockResolvedValue(0),
+}));
+
 import { prisma } from "@/lib/db/client";
+import { audit } from "@/lib/auth/audit";
+import { enqueueBillingNotification } from "@/lib/alimtalk/billing-notifier";
 import { chargeWithBillingKey } from "@/lib/toss/charge";
-import { todayKST } from "@/lib/services/billing.service";
+import { todayKST, isPastGrace } from "@/lib/services/billing.service";
 
 const mockPrisma = prisma as unknown as {
-  invoice:             { findMany: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn>; updateMany: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn> };
+  invoice:             { findMany: ReturnType<typeof vi.fn>; findUnique: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn>; updateMany: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn> };
+  invoiceLineItem:     { findFirst: ReturnType<typeof vi.fn>; count: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn>; aggregate: ReturnType<typeof vi.fn> };
   paymentMethod:       { findFirst: ReturnType<typeof vi.fn> };
   paymentAttempt:      { create: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
   studentSubscription: { update: ReturnType<typeof vi.fn> };
@@ -36,9 +52,12 @@ const mockPrisma = prisma as unknown as {
 };
 
 const mockCharge = chargeWithBillingKey as ReturnType<typeof vi.fn>;
+const mockNotify = enqueueBillingNotification as ReturnType<typeof vi.fn>;
 
 beforeEach(() => {
   vi.clearAllMocks();
+  mockPrisma.invoice.findUnique.mockResolvedValue({ status: "PENDING" });
+  mockPrisma.invoice.updateMany.mockResolvedValue({ count: 1 });
 });
 
 // ─── Tests ────────────────────────────────────────────────────────────────────
@@ -58,6 +77,25 @@ describe("todayKST()", () => {
   });
 });
 
+describe("isPastGrace()", () => {
+  const due = new Date("2026-01-01");
+
+  it("is false on the last grace day", () => {
+    // 2026-01-04 00:00 KST
+    expect(isPastGrace(due, 3, new Date("2026-01-03T15:00:00Z"))).toBe(false);
+  });
+
+  it("is true the day after dueDate + graceDays", () => {
+    // 2026-01-05 00:00 KST
+    expect(isPastGrace(due, 3, new Date("2026-01-04T15:00:00Z"))).toBe(true);
+  });
+
+  it("treats graceDays 0 as due-date only", () => {
+    expect(isPastGrace(due, 0, new Date("2025-12-31T15:00:00Z"))).toBe(false);
+    expect(isPastGrace(due, 0, new Date("2026-01-01T15:00:00Z"))).toBe(true);
+  });
+});
+
 describe("runDailyBilling()", () => {
   it("skips invoices when no payment method is found", async () => {
     // Arrange: one pending invoice, no payment method
@@ -133,6 +171,7 @@ describe("runDailyBilling()", () => {
     expect(result.succeeded).toBe(1);
     expect(result.failed).toBe(0);
     expect(mockCharge).toHaveBeenCalledOnce();
+    expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({ event: "PAID" }));
   });
 
   it("records failed attempt and marks FAILED after max retries", async () => {
@@ -171,5 +210,278 @@ describe("runDailyBilling()", () => {
     expect(mockPrisma.invoice.update).toHaveBeenCalledWith(
       expect.objectContaining({ data: { status: "FAILED" } }),
     );
+    // Parents are told the charge finally failed
+    expect(mockNotify).toHaveBeenCalledWith(
+      expect.objectContaining({ invoiceId: "inv-3", event: "FINAL_FAILED", attemptNo: 3 }),
+    );
+  });
+
+  it("keeps invoice PENDING while still inside the grace period", async () => {
+    const invoice = {
+      id:            "inv-4",
+      academyId:     "ac-1",
+      orderId:       "ORD-999",
+      amount:        150000,
+      dueDate:       todayKST(),
+      studentUserId: "user-1",
+      planId:        "plan-1",
+      subscriptionId:"sub-1",
+      plan:          { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, graceDays: 3, lateFee: 5000 },
+      subscription:  { id: "sub-1" },
+      attempts:      [{ id: "a1", attemptNo: 1 }, { id: "a2", attemptNo: 2 }, { id: "a3", attemptNo: 3 }],
+    };
+    mockPrisma.invoice.findMany.mockResolvedValue([invoice]);
+
+    const { runDailyBilling } = await import("@/lib/services/billing.service");
+
+    const result = await runDailyBilling();
+
+    expect(result.skipped).toBe(1);
+    expect(result.failed).toBe(0);
+    expect(mockPrisma.invoice.update).not.toHaveBeenCalled();
+    expect(mockPrisma.invoiceLineItem.create).not.toHaveBeenCalled();
+    expect(mockCharge).not.toHaveBeenCalled();
+  });
+
+  it("adds the late fee once grace has passed and charges the invoice total", async () => {
+    const invoice = {
+      id:            "inv-5",
+      academyId:     "ac-1",
+      orderId:       "ORD-555",
+      amount:        150000,
+      dueDate:       new Date("2026-01-01"),
+      studentUserId: "user-1",
+      planId:        "plan-1",
+      subscriptionId:"sub-1",
+      plan:          { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, graceDays: 3, lateFee: 5000 },
+      subscription:  { id: "sub-1" },
+      attempts:      [],
+    };
+    mockPrisma.invoice.findMany.mockResolvedValue([invoice]);
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+    mockPrisma.invoiceLineItem.findFirst.mockResolvedValue(null);
+    mockPrisma.invoiceLineItem.count.mockResolvedValue(1);
+    mockPrisma.invoiceLineItem.aggregate.mockResolvedValue({ _sum: { amount: 155000 } });
+    mockPrisma.paymentMethod.findFirst.mockResolvedValue({
+      id:          "pm-1",
+      billingKey:  "billing-key-abc",
+      customerKey: "user-1",
+    });
+    mockPrisma.paymentAttempt.create.mockResolvedValue({ id: "att-5" });
+    mockCharge.mockResolvedValue({ paymentKey: "payment-key-late", status: "DONE" });
+
+    const { runDailyBilling } = await import("@/lib/services/billing.service");
+
+    const result = await runDailyBilling();
+
+    expect(result.succeeded).toBe(1);
+    expect(mockPrisma.invoiceLineItem.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ type: "LATE_FEE", amount: 5000 }) }),
+    );
+    expect(mockCharge).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 155000 }),
+      "ORD-555-A1",
+    );
+  });
+
+  it("charges the new total once when attempts ran out during grace", async () => {
+    const invoice = {
+      id:            "inv-7",
+      academyId:     "ac-1",
+      orderId:       "ORD-777",
+      amount:        150000,
+      dueDate:       new Date("2026-01-01"),
+      studentUserId: "user-1",
+      planId:        "plan-1",
+      subscriptionId:"sub-1",
+      plan:          { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, graceDays: 3, lateFee: 5000 },
+      subscription:  { id: "sub-1" },
+      attempts:      [{ id: "a1", attemptNo: 1 }, { id: "a2", attemptNo: 2 }, { id: "a3", attemptNo: 3 }],
+    };
+    mockPrisma.invoice.findMany.mockResolvedValue([invoice]);
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+    mockPrisma.invoiceLineItem.findFirst.mockResolvedValue(null);
+    mockPrisma.invoiceLineItem.count.mockResolvedValue(1);
+    mockPrisma.invoiceLineItem.aggregate.mockResolvedValue({ _sum: { amount: 155000 } });
+    mockPrisma.paymentMethod.findFirst.mockResolvedValue({
+      id:          "pm-1",
+      billingKey:  "billing-key-abc",
+      customerKey: "user-1",
+    });
+    mockPrisma.paymentAttempt.create.mockResolvedValue({ id: "att-4" });
+    mockCharge.mockRejectedValue(new Error("CARD_DECLINED"));
+
+    const { runDailyBilling } = await import("@/lib/services/billing.service");
+
+    const result = await runDailyBilling();
+
+    expect(mockCharge).toHaveBeenCalledOnce();
+    expect(mockCharge.mock.calls[0][0]).toMatchObject({ amount: 155000 });
+    expect(result.failed).toBe(1);
+    expect(mockPrisma.invoice.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: "FAILED" } }),
+    );
+    expect(mockNotify).toHaveBeenCalledWith(
+      expect.objectContaining({ invoiceId: "inv-7", event: "FINAL_FAILED", attemptNo: 4 }),
+    );
+  });
+
+  it("settles an invoice fully offset by proration credits without charging", async () => {
+    const invoice = {
+      id:            "inv-6",
+      academyId:     "ac-1",
+      orderId:       "ORD-666",
+      amount:        0,
+      dueDate:       new Date("2026-03-17"),
+      studentUserId: "user-1",
+      planId:        "plan-1",
+      subscriptionId:"sub-1",
+      plan:          { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, graceDays: 3, lateFee: 0, prorationMode: "DAILY" },
+      subscription:  { id: "sub-1" },
+      attempts:      [],
+    };
+    mockPrisma.invoice.findMany.mockResolvedValue([invoice]);
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+
+    const { runDailyBilling } = await import("@/lib/services/billing.service");
+
+    const result = await runDailyBilling();
+
+    expect(result.succeeded).toBe(1);
+    expect(mockCharge).not.toHaveBeenCalled();
+    expect(mockPrisma.paymentAttempt.create).not.toHaveBeenCalled();
+    expect(mockPrisma.invoice.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: "PAID" }) }),
+    );
+    // Prorated plan: the mid-cycle first invoice rolls to the next billing day
+    expect(mockPrisma.studentSubscription.update).toHaveBeenCalledWith({
+      where: { id: "sub-1" },
+      data:  { nextBillingDate: new Date("2026-04-01") },
+    });
+  });
+});
+
+// ─── chargeInvoice() ──────────────────────────────────────────────────────────
+
+describe("chargeInvoice()", () => {
+  function exhausted() {
+    return {
+      id:            "inv-8",
+      academyId:     "ac-1",
+      orderId:       "ORD-888",
+      amount:        150000,
+      dueDate:       new Date("2026-01-01"),
+      studentUserId: "user-1",
+      planId:        "plan-1",
+      subscriptionId:"sub-1",
+      status:        "FAILED",
+      plan:          { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, graceDays: 3, lateFee: 0 },
+      subscription:  { id: "sub-1" },
+      attempts:      [{ id: "a1", attemptNo: 1 }, { id: "a2", attemptNo: 2 }, { id: "a3", attemptNo: 3 }],
+    };
+  }
+
+  beforeEach(() => {
+    mockPrisma.paymentMethod.findFirst.mockResolvedValue({
+      id:          "pm-1",
+      billingKey:  "billing-key-abc",
+      customerKey: "user-1",
+    });
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+  });
+
+  it("lets an admin retry past the attempt limit with a per-attempt key", async () => {
+    mockPrisma.paymentAttempt.create.mockResolvedValue({ id: "att-4" });
+    mockCharge.mockResolvedValue({ paymentKey: "pk-retry", status: "DONE" });
+
+    const { chargeInvoice } = await import("@/lib/services/billing.service");
+    const invoice = exhausted() as unknown as Parameters<typeof chargeInvoice>[0];
+
+    expect(await chargeInvoice(invoice)).toEqual({ status: "EXHAUSTED" });
+    expect(mockCharge).not.toHaveBeenCalled();
+
+    const outcome = await chargeInvoice(invoice, undefined, { ignoreAttemptLimit: true });
+
+    expect(outcome).toMatchObject({ status: "SUCCEEDED", attemptNo: 4 });
+    expect(mockCharge).toHaveBeenCalledWith(expect.anything(), "ORD-888-A4");
+  });
+
+  it("does not charge when the attempt was claimed by a concurrent run", async () => {
+    mockPrisma.paymentAttempt.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint", { code: "P2002", clientVersion: "5" }),
+    );
+
+    const { chargeInvoice } = await import("@/lib/services/billing.service");
+    const invoice = { ...exhausted(), status: "PENDING", attempts: [] } as unknown as Parameters<typeof chargeInvoice>[0];
+
+    expect(await chargeInvoice(invoice)).toEqual({ status: "IN_PROGRESS", attemptNo: 1 });
+    expect(mockCharge).not.toHaveBeenCalled();
+  });
+
+  it("does not charge an invoice settled after it was read", async () => {
+    mockPrisma.paymentAttempt.create.mockResolvedValue({ id: "att-1" });
+    mockPrisma.invoice.findUnique.mockResolvedValue({ status: "PAID" });
+
+    const { chargeInvoice } = await import("@/lib/services/billing.service");
+    const invoice = { ...exhausted(), status: "PENDING", attempts: [] } as unknown as Parameters<typeof chargeInvoice>[0];
+
+    expect(await chargeInvoice(invoice)).toEqual({ status: "ALREADY_SETTLED" });
+    expect(mockCharge).not.toHaveBeenCalled();
+    expect(mockPrisma.paymentAttempt.update).toHaveBeenCalledWith({
+      where: { id: "att-1" },
+      data:  expect.objectContaining({ status: "FAILED", errorCode: "ALREADY_SETTLED" }),
+    });
+  });
+
+  it("flags a charge for refund when the invoice was settled while charging", async () => {
+    mockPrisma.paymentAttempt.create.mockResolvedValue({ id: "att-1" });
+    mockCharge.mockResolvedValue({ paymentKey: "pk-late", status: "DONE" });
+    mockPrisma.invoice.updateMany.mockResolvedValue({ count: 0 });
+
+    const { chargeInvoice } = await import("@/lib/services/billing.service");
+    const invoice = { ...exhausted(), status: "PENDING", attempts: [] } as unknown as Parameters<typeof chargeInvoice>[0];
+
+    expect(await chargeInvoice(invoice)).toEqual({ status: "ALREADY_SETTLED", paymentKey: "pk-late" });
+    expect(mockPrisma.invoice.create).not.toHaveBeenCalled();
+    expect(audit).toHaveBeenCalledWith(expect.objectContaining({
+      action:   "invoice.chargeAfterSettle",
+      metaJson: expect.objectContaining({ paymentKey: "pk-late" }),
+    }));
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+});
+
+// ─── settleInvoice() ──────────────────────────────────────────────────────────
+
+describe("settleInvoice()", () => {
+  it("rolls the subscription forward once when two settlements race", async () => {
+    // The first settlement flips the invoice to PAID; the second finds it closed
+    let status = "PENDING";
+    mockPrisma.invoice.updateMany.mockImplementation(async ({ where }: { where: { status: { in: string[] } } }) => {
+      if (!where.status.in.includes(status)) return { count: 0 };
+      status = "PAID";
+      return { count: 1 };
+    });
+
+    const { settleInvoice } = await import("@/lib/services/billing.service");
+    const invoice = {
+      id:            "inv-9",
+      academyId:     "ac-1",
+      subscriptionId:"sub-1",
+      studentUserId: "user-1",
+      planId:        "plan-1",
+      dueDate:       new Date("2026-03-01"),
+      plan:          { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, prorationMode: "NONE" },
+    } as unknown as Parameters<typeof settleInvoice>[1];
+    const tx = mockPrisma as unknown as Parameters<typeof settleInvoice>[0];
+
+    const settled = await Promise.all([
+      settleInvoice(tx, invoice, null),
+      settleInvoice(tx, invoice, "pk-deposit"),
+    ]);
+
+    expect(settled.sort()).toEqual([false, true]);
+    expect(mockPrisma.invoice.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.studentSubscription.update).toHaveBeenCalledTimes(1);
   });
 });
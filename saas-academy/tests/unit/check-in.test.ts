@@ -0,0 +1,273 @@
+/**
+ * tests/unit/check-in.test.ts
+ *
+ * Unit tests for student self check-in (check-in.service.ts). Prisma, the
+ * attendance notifier and make-up credit syncing are mocked; marking goes
+ * through the real markAttendance().
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => {
+  const prisma = {
+    classSession:      { findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    classEnrollment:   { findFirst: vi.fn(), count: vi.fn() },
+    makeupCredit:      { findFirst: vi.fn(), count: vi.fn() },
+    attendance:        { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), upsert: vi.fn(), count: vi.fn() },
+    attendanceHistory: { createMany: vi.fn() },
+    $transaction:      vi.fn(),
+  };
+  prisma.$transaction.mockImplementation(async (fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("@/lib/alimtalk/attendance-notifier", () => ({
+  enqueueAttendanceNotification: vi.fn(),
+}));
+
+vi.mock("@/lib/services/makeup.service", () => ({
+  syncMakeupCredit: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { enqueueAttendanceNotification } from "@/lib/alimtalk/attendance-notifier";
+import {
+  CODE_PERIOD_SEC,
+  CheckInError,
+  checkInCode,
+  codeMatches,
+  currentCheckInCode,
+  openCheckIn,
+  selfCheckIn,
+} from "@/lib/services/check-in.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  classSession:      { findFirst: Fn; update: Fn; updateMany: Fn };
+  classEnrollment:   { findFirst: Fn; count: Fn };
+  makeupCredit:      { findFirst: Fn; count: Fn };
+  attendance:        { findUnique: Fn; findMany: Fn; create: Fn; upsert: Fn; count: Fn };
+  attendanceHistory: { createMany: Fn };
+};
+const mockNotify = enqueueAttendanceNotification as unknown as Fn;
+
+const SECRET   = "a".repeat(40);
+const STARTS   = new Date("2026-03-02T06:00:00Z"); // 15:00 KST
+const ENDS     = new Date("2026-03-02T07:00:00Z");
+const MINUTE   = 60_000;
+const at       = (minFromStart: number) => new Date(STARTS.getTime() + minFromStart * MINUTE);
+const codeAt   = (now: Date) => checkInCode(SECRET, Math.floor(now.getTime() / 1000 / CODE_PERIOD_SEC));
+
+function session(overrides: Record<string, unknown> = {}) {
+  return {
+    id:            "s-1",
+    academyId:     "ac-1",
+    classId:       "c-1",
+    localDate:     "2026-03-02",
+    startsAt:      STARTS,
+    endsAt:        ENDS,
+    status:        "SCHEDULED",
+    checkInSecret: SECRET,
+    class:         { name: "초급 피아노반", lateAfterMin: 10 },
+    ...overrides,
+  };
+}
+
+async function expectCheckInError(promise: Promise<unknown>, status: number) {
+  const e = await promise.catch((e: unknown) => e);
+  expect(e).toBeInstanceOf(CheckInError);
+  expect((e as CheckInError).status).toBe(status);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.classSession.findFirst.mockResolvedValue(session());
+  mockPrisma.classEnrollment.findFirst.mockResolvedValue({ id: "e-1" });
+  mockPrisma.classEnrollment.count.mockResolvedValue(3);
+  mockPrisma.makeupCredit.findFirst.mockResolvedValue(null);
+  mockPrisma.makeupCredit.count.mockResolvedValue(0);
+  mockPrisma.attendance.findUnique.mockResolvedValue(null);
+  mockPrisma.attendance.findMany.mockResolvedValue([]);
+  mockPrisma.attendance.create.mockResolvedValue({ id: "att-1" });
+  mockPrisma.attendance.count.mockResolvedValue(1);
+  mockNotify.mockResolvedValue({ skipped: false, queueIds: ["q-1"] });
+});
+
+// ─── Codes ────────────────────────────────────────────────────────────────────
+
+describe("check-in codes", () => {
+  it("are six digits and change every period", () => {
+    const a = checkInCode(SECRET, 1000);
+    expect(a).toMatch(/^\d{6}$/);
+    expect(checkInCode(SECRET, 1000)).toBe(a);
+    expect(checkInCode(SECRET, 1001)).not.toBe(a);
+    expect(checkInCode("b".repeat(40), 1000)).not.toBe(a);
+  });
+
+  it("accept the current and the previous window only", () => {
+    const now = at(0);
+    expect(codeMatches(SECRET, codeAt(now), now)).toBe(true);
+    expect(codeMatches(SECRET, codeAt(now), new Date(now.getTime() + CODE_PERIOD_SEC * 1000))).toBe(true);
+    expect(codeMatches(SECRET, codeAt(now), new Date(now.getTime() + 2 * CODE_PERIOD_SEC * 1000))).toBe(false);
+    expect(codeMatches(SECRET, "12345", now)).toBe(false);
+  });
+
+  it("expire at the end of the window and carry the session in the QR payload", () => {
+    const code = currentCheckInCode({ id: "s-1", checkInSecret: SECRET }, new Date("2026-03-02T06:00:10Z"));
+    expect(code.expiresAt).toBe("2026-03-02T06:00:30.000Z");
+    expect(code.qrPayload).toContain(`/me/attendance?checkin=s-1&code=${code.code}`);
+  });
+
+  it("are not shown while check-in is closed", () => {
+    expect(() => currentCheckInCode({ id: "s-1", checkInSecret: null })).toThrow(CheckInError);
+  });
+});
+
+// ─── openCheckIn ──────────────────────────────────────────────────────────────
+
+describe("openCheckIn", () => {
+  it("gives the session a secret", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(session({ checkInSecret: null }));
+    mockPrisma.classSession.update.mockImplementation(async ({ data }) => session(data));
+
+    const code = await openCheckIn("ac-1", "s-1", at(-5));
+
+    expect(mockPrisma.classSession.update.mock.calls[0][0].data.checkInSecret).toMatch(/^[0-9a-f]{40}$/);
+    expect(code.code).toMatch(/^\d{6}$/);
+  });
+
+  it("keeps the secret when reopened", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(session());
+    expect((await openCheckIn("ac-1", "s-1", at(0))).code).toBe(codeAt(at(0)));
+    expect(mockPrisma.classSession.update).not.toHaveBeenCalled();
+  });
+
+  it("refuses ended and canceled sessions", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(session());
+    await expectCheckInError(openCheckIn("ac-1", "s-1", at(60)), 409);
+
+    mockPrisma.classSession.findFirst.mockResolvedValue(session({ status: "CANCELED" }));
+    await expectCheckInError(openCheckIn("ac-1", "s-1", at(0)), 409);
+  });
+});
+
+// ─── selfCheckIn ──────────────────────────────────────────────────────────────
+
+describe("selfCheckIn", () => {
+  const base = { academyId: "ac-1", studentUserId: "stu-1", sessionId: "s-1" };
+
+  it("marks the student PRESENT before the late threshold", async () => {
+    const now = at(5);
+    const result = await selfCheckIn({ ...base, code: codeAt(now), now });
+
+    expect(result.attendance.status).toBe("PRESENT");
+    expect(result.className).toBe("초급 피아노반");
+    expect(mockPrisma.attendance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ studentUserId: "stu-1", status: "PRESENT", markedByUserId: "stu-1" }),
+    });
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it("marks the student LATE past the class's threshold", async () => {
+    const now = at(11);
+    const result = await selfCheckIn({ ...base, code: codeAt(now), now });
+
+    expect(result.attendance.status).toBe("LATE");
+    expect(mockNotify).toHaveBeenCalledWith({ attendanceId: "att-1", actorUserId: "stu-1" });
+  });
+
+  it("uses the class's own threshold", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(session({ class: { name: "A", lateAfterMin: 0 } }));
+    const now = at(1);
+    expect((await selfCheckIn({ ...base, code: codeAt(now), now })).attendance.status).toBe("LATE");
+  });
+
+  it("rejects a wrong or expired code", async () => {
+    const now = at(0);
+    await expectCheckInError(selfCheckIn({ ...base, code: codeAt(at(-2)), now }), 422);
+    expect(mockPrisma.attendance.create).not.toHaveBeenCalled();
+  });
+
+  it("only matches the code against the given session", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(null);
+    const now = at(0);
+    await expectCheckInError(selfCheckIn({ ...base, sessionId: "s-2", code: codeAt(now), now }), 422);
+    expect(mockPrisma.classSession.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: "s-2", academyId: "ac-1" }),
+    }));
+  });
+
+  it("rejects students not enrolled in the class", async () => {
+    mockPrisma.classEnrollment.findFirst.mockResolvedValue(null);
+    const now = at(0);
+    await expectCheckInError(selfCheckIn({ ...base, code: codeAt(now), now }), 403);
+  });
+
+  it("accepts students booked in with a make-up credit", async () => {
+    mockPrisma.classEnrollment.findFirst.mockResolvedValue(null);
+    mockPrisma.makeupCredit.findFirst.mockResolvedValue({ id: "mc-1" });
+    const now = at(0);
+    expect((await selfCheckIn({ ...base, code: codeAt(now), now })).attendance.status).toBe("PRESENT");
+  });
+
+  it("rejects check-in outside the session time window", async () => {
+    const early = at(-20);
+    await expectCheckInError(selfCheckIn({ ...base, code: codeAt(early), now: early }), 409);
+    const late = at(60);
+    await expectCheckInError(selfCheckIn({ ...base, code: codeAt(late), now: late }), 409);
+  });
+
+  const alreadyMarked = () =>
+    new Prisma.PrismaClientKnownRequestError("Unique constraint", { code: "P2002", clientVersion: "5" });
+
+  it("does not check a student in twice", async () => {
+    mockPrisma.attendance.create.mockRejectedValue(alreadyMarked());
+    mockPrisma.attendance.findUnique.mockResolvedValue({ markedByUserId: "stu-1" });
+    const now = at(0);
+
+    const e = await selfCheckIn({ ...base, code: codeAt(now), now }).catch((e: unknown) => e);
+    expect(e).toMatchObject({ status: 409, message: "You have already checked in" });
+  });
+
+  it("never overwrites a mark set by staff, even one saved concurrently", async () => {
+    // The teacher's PUT lands between the student's checks and the insert
+    mockPrisma.attendance.create.mockRejectedValue(alreadyMarked());
+    mockPrisma.attendance.findUnique.mockResolvedValue({ markedByUserId: "teacher-1" });
+    const now = at(3);
+
+    const e = await selfCheckIn({ ...base, code: codeAt(now), now }).catch((e: unknown) => e);
+    expect(e).toBeInstanceOf(CheckInError);
+    expect(e).toMatchObject({ status: 409, message: "Your attendance has already been marked by staff" });
+    expect(mockPrisma.attendance.upsert).not.toHaveBeenCalled();
+  });
+
+  it("marks through markAttendance with the student as the marking user", async () => {
+    const now = at(3);
+
+    await selfCheckIn({ ...base, code: codeAt(now), now });
+
+    expect(mockPrisma.attendance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: "PRESENT", markedByUserId: "stu-1", memo: null }),
+    });
+    expect(mockPrisma.attendance.upsert).not.toHaveBeenCalled();
+  });
+
+  it("logs the check-in to the attendance history", async () => {
+    const now = at(11);
+
+    await selfCheckIn({ ...base, code: codeAt(now), now });
+
+    expect(mockPrisma.attendanceHistory.createMany).toHaveBeenCalledWith({
+      data: [{
+        academyId:    "ac-1",
+        attendanceId: "att-1",
+        editorUserId: "stu-1",
+        beforeJson:   { status: null, memo: null },
+        afterJson:    { status: "LATE", memo: null, source: "SELF_CHECK_IN" },
+        reason:       "Self check-in",
+      }],
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * tests/unit/closures.test.ts
+ *
+ * Unit tests for the academy closure calendar (closure.service.ts), the
+ * bundled public holiday table and session generation around closures.
+ * Prisma is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    academyClosure: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn(), createMany: vi.fn() },
+    classSchedule:  { findMany: vi.fn() },
+    classSession:   { findUnique: vi.fn(), create: vi.fn(), count: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+import { prisma } from "@/lib/db/client";
+import { KR_PUBLIC_HOLIDAYS, PUBLIC_HOLIDAY_YEARS, publicHolidaysOf } from "@/lib/calendar/kr-holidays";
+import {
+  cancelSessionsOnClosures,
+  closedDates,
+  createClosure,
+  importPublicHolidays,
+  notOnClosures,
+} from "@/lib/services/closure.service";
+import { generateSessions } from "@/lib/services/classSessionGenerator";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  academyClosure: { findMany: Fn; findUnique: Fn; create: Fn; createMany: Fn };
+  classSchedule:  { findMany: Fn };
+  classSession:   { findUnique: Fn; create: Fn; count: Fn; updateMany: Fn };
+};
+
+const NOW = new Date("2026-09-01T00:00:00Z");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.academyClosure.findMany.mockResolvedValue([]);
+  mockPrisma.classSession.count.mockResolvedValue(0);
+});
+
+// ─── Holiday table ────────────────────────────────────────────────────────────
+
+describe("KR_PUBLIC_HOLIDAYS", () => {
+  it("has valid, unique dates", () => {
+    const dates = KR_PUBLIC_HOLIDAYS.map((h) => h.date);
+    expect(new Set(dates).size).toBe(dates.length);
+    for (const date of dates) {
+      expect(new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10)).toBe(date);
+    }
+  });
+
+  it("covers Seollal and Chuseok in every year", () => {
+    for (const year of PUBLIC_HOLIDAY_YEARS) {
+      const names = publicHolidaysOf(year).map((h) => h.name);
+      expect(names).toContain("설날");
+      expect(names).toContain("추석");
+    }
+  });
+});
+
+// ─── Date helpers ─────────────────────────────────────────────────────────────
+
+describe("closedDates", () => {
+  it("expands ranges inclusively, across month ends", () => {
+    const dates = closedDates([
+      { startDate: "2026-07-30", endDate: "2026-08-02" },
+      { startDate: "2026-09-25", endDate: "2026-09-25" },
+    ]);
+    expect([...dates]).toEqual(["2026-07-30", "2026-07-31", "2026-08-01", "2026-08-02", "2026-09-25"]);
+  });
+});
+
+describe("notOnClosures", () => {
+  it("is empty without closures", () => {
+    expect(notOnClosures([])).toEqual({});
+  });
+
+  it("excludes every closure range by localDate", () => {
+    expect(notOnClosures([{ startDate: "2026-08-03", endDate: "2026-08-07" }])).toEqual({
+      NOT: { OR: [{ localDate: { gte: "2026-08-03", lte: "2026-08-07" } }] },
+    });
+  });
+});
+
+// ─── Session generation ───────────────────────────────────────────────────────
+
+describe("generateSessions", () => {
+  it("skips dates on which the academy is closed", async () => {
+    // Thursdays and Fridays in the Chuseok week of 2026
+    mockPrisma.classSchedule.findMany.mockResolvedValue([
+      { daysOfWeek: [4, 5], startTime: "16:00", durationMin: 50, timezone: "Asia/Seoul" },
+    ]);
+    mockPrisma.academyClosure.findMany.mockResolvedValue([
+      { startDate: "2026-09-24", endDate: "2026-09-26" },
+    ]);
+    mockPrisma.classSession.findUnique.mockResolvedValue(null);
+
+    const created = await generateSessions({
+      classId:   "c-1",
+      academyId: "ac-1",
+      dateFrom:  new Date("2026-09-14T00:00:00Z"),
+      dateTo:    new Date("2026-10-02T00:00:00Z"),
+    });
+
+    expect(created).toBe(4);
+    const dates = mockPrisma.classSession.create.mock.calls.map(([{ data }]) => data.localDate);
+    expect(dates).toEqual(["2026-09-17", "2026-09-18", "2026-10-01", "2026-10-02"]);
+    expect(mockPrisma.academyClosure.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { academyId: "ac-1", startDate: { lte: "2026-10-02" }, endDate: { gte: "2026-09-14" } },
+    }));
+  });
+});
+
+// ─── createClosure ────────────────────────────────────────────────────────────
+
+describe("createClosure", () => {
+  const base = { academyId: "ac-1", name: "여름 방학", createdByUserId: "admin-1", now: NOW };
+
+  it("creates a range and reports the future sessions on it", async () => {
+    mockPrisma.academyClosure.findUnique.mockResolvedValue(null);
+    mockPrisma.academyClosure.create.mockImplementation(async ({ data }) => ({ id: "cl-1", ...data }));
+    mockPrisma.classSession.count.mockResolvedValue(6);
+
+    const result = await createClosure({ ...base, startDate: "2026-08-03", endDate: "2026-08-07" });
+
+    expect(result.affectedSessions).toBe(6);
+    expect(mockPrisma.classSession.count).toHaveBeenCalledWith({
+      where: {
+        academyId:   "ac-1",
+        status:      "SCHEDULED",
+        startsAt:    { gt: NOW },
+        attendances: { none: {} },
+        OR:          [{ localDate: { gte: "2026-08-03", lte: "2026-08-07" } }],
+      },
+    });
+  });
+
+  it("treats a missing endDate as a single day", async () => {
+    mockPrisma.academyClosure.findUnique.mockResolvedValue(null);
+    mockPrisma.academyClosure.create.mockImplementation(async ({ data }) => ({ id: "cl-1", ...data }));
+
+    const { closure } = await createClosure({ ...base, startDate: "2026-08-03" });
+    expect(closure.endDate).toBe("2026-08-03");
+  });
+
+  it("rejects a range that ends before it starts", async () => {
+    await expect(createClosure({ ...base, startDate: "2026-08-07", endDate: "2026-08-03" }))
+      .rejects.toMatchObject({ status: 422 });
+    expect(mockPrisma.academyClosure.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a duplicate", async () => {
+    mockPrisma.academyClosure.findUnique.mockResolvedValue({ id: "cl-0" });
+    await expect(createClosure({ ...base, startDate: "2026-08-03" })).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+// ─── importPublicHolidays ─────────────────────────────────────────────────────
+
+describe("importPublicHolidays", () => {
+  it("adds the year's holidays, skipping ones already on the calendar", async () => {
+    mockPrisma.academyClosure.createMany.mockResolvedValue({ count: 3 });
+
+    const result = await importPublicHolidays({ academyId: "ac-1", year: 2026, createdByUserId: "admin-1", now: NOW });
+
+    expect(result.imported).toBe(3);
+    const { data, skipDuplicates } = mockPrisma.academyClosure.createMany.mock.calls[0][0];
+    expect(skipDuplicates).toBe(true);
+    expect(data).toHaveLength(publicHolidaysOf(2026).length);
+    expect(data).toContainEqual(expect.objectContaining({
+      name: "추석", startDate: "2026-09-25", endDate: "2026-09-25", source: "PUBLIC_HOLIDAY",
+    }));
+  });
+
+  it("rejects a year without data", async () => {
+    await expect(importPublicHolidays({ academyId: "ac-1", year: 2031, createdByUserId: "admin-1" }))
+      .rejects.toMatchObject({ status: 422 });
+  });
+});
+
+// ─── cancelSessionsOnClosures ─────────────────────────────────────────────────
+
+describe("cancelSessionsOnClosures", () => {
+  it("cancels future scheduled sessions on closures in the range", async () => {
+    mockPrisma.academyClosure.findMany.mockResolvedValue([{ startDate: "2026-09-24", endDate: "2026-09-26" }]);
+    mockPrisma.classSession.updateMany.mockResolvedValue({ count: 4 });
+
+    const canceled = await cancelSessionsOnClosures("ac-1", "2026-09-24", "2026-09-26", NOW);
+
+    expect(canceled).toBe(4);
+    expect(mockPrisma.classSession.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        status:      "SCHEDULED",
+        attendances: { none: {} },
+        localDate:   { gte: "2026-09-24", lte: "2026-09-26" },
+      }),
+      data: { status: "CANCELED" },
+    });
+  });
+
+  it("does nothing when no closure overlaps", async () => {
+    expect(await cancelSessionsOnClosures("ac-1", "2026-09-01", "2026-09-05", NOW)).toBe(0);
+    expect(mockPrisma.classSession.updateMany).not.toHaveBeenCalled();
+  });
+});
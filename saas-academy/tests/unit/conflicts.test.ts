@@ -0,0 +1,194 @@
+/**
+ * tests/unit/conflicts.test.ts
+ *
+ * Unit tests for teacher / room double-booking detection
+ * (conflict.service.ts) and the session plan it checks. Prisma is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    classSession:   { findMany: vi.fn() },
+    room:           { count: vi.fn() },
+    academyClosure: { findMany: vi.fn() },
+  },
+}));
+
+import { prisma } from "@/lib/db/client";
+import {
+  assertNoConflicts,
+  findConflicts,
+  roomsUsable,
+  ConflictError,
+} from "@/lib/services/conflict.service";
+import { planSessions } from "@/lib/services/classSessionGenerator";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  classSession:   { findMany: Fn };
+  room:           { count: Fn };
+  academyClosure: { findMany: Fn };
+};
+
+/** Monday 2026-03-09, 16:00–16:50 KST */
+const SLOT = {
+  startsAt: new Date("2026-03-09T07:00:00Z"),
+  endsAt:   new Date("2026-03-09T07:50:00Z"),
+  roomId:   "room-1",
+};
+
+function existing(overrides: Record<string, unknown> = {}) {
+  return {
+    id:        "s-9",
+    classId:   "c-2",
+    localDate: "2026-03-09",
+    startsAt:  new Date("2026-03-09T07:30:00Z"),
+    endsAt:    new Date("2026-03-09T08:20:00Z"),
+    roomId:    "room-2",
+    substituteTeacherUserId: null,
+    class:     { name: "고1 영어", teacherUserId: "t-2" },
+    room:      { name: "302호" },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.classSession.findMany.mockResolvedValue([]);
+  mockPrisma.academyClosure.findMany.mockResolvedValue([]);
+});
+
+// ─── findConflicts ────────────────────────────────────────────────────────────
+
+describe("findConflicts", () => {
+  it("queries overlapping, non-canceled sessions of the teacher or the rooms", async () => {
+    await findConflicts({ academyId: "ac-1", teacherUserId: "t-1", slots: [SLOT], excludeClassId: "c-1" });
+
+    expect(mockPrisma.classSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        academyId: "ac-1",
+        status:    { not: "CANCELED" },
+        startsAt:  { lt: SLOT.endsAt },
+        endsAt:    { gt: SLOT.startsAt },
+        classId:   { not: "c-1" },
+        OR:        [
+          { class: { teacherUserId: "t-1" }, substituteTeacherUserId: null },
+          { substituteTeacherUserId: "t-1" },
+          { roomId: { in: ["room-1"] } },
+        ],
+      },
+    }));
+  });
+
+  it("skips the query without a teacher or a room", async () => {
+    const conflicts = await findConflicts({
+      academyId: "ac-1", teacherUserId: null, slots: [{ ...SLOT, roomId: null }],
+    });
+    expect(conflicts).toEqual([]);
+    expect(mockPrisma.classSession.findMany).not.toHaveBeenCalled();
+  });
+
+  it("reports teacher and room clashes separately", async () => {
+    mockPrisma.classSession.findMany.mockResolvedValue([
+      existing({ roomId: "room-1", class: { name: "고1 영어", teacherUserId: "t-1" } }),
+    ]);
+
+    const conflicts = await findConflicts({ academyId: "ac-1", teacherUserId: "t-1", slots: [SLOT] });
+
+    expect(conflicts.map((c) => c.type)).toEqual(["TEACHER", "ROOM"]);
+    expect(conflicts[0]).toMatchObject({
+      startsAt: SLOT.startsAt.toISOString(),
+      session:  { id: "s-9", className: "고1 영어", localDate: "2026-03-09", roomName: "302호" },
+    });
+  });
+
+  it("counts a session against its substitute rather than the class teacher", async () => {
+    mockPrisma.classSession.findMany.mockResolvedValue([
+      existing({ substituteTeacherUserId: "t-1" }),
+      existing({ id: "s-10", substituteTeacherUserId: "t-3", class: { name: "중3 수학", teacherUserId: "t-1" } }),
+    ]);
+
+    const conflicts = await findConflicts({
+      academyId: "ac-1", teacherUserId: "t-1", slots: [{ ...SLOT, roomId: null }],
+    });
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: "TEACHER", session: { id: "s-9" } });
+  });
+
+  it("treats back-to-back sessions as free", async () => {
+    mockPrisma.classSession.findMany.mockResolvedValue([
+      existing({
+        startsAt: SLOT.endsAt,
+        endsAt:   new Date("2026-03-09T08:40:00Z"),
+        class:    { name: "고1 영어", teacherUserId: "t-1" },
+      }),
+    ]);
+    expect(await findConflicts({ academyId: "ac-1", teacherUserId: "t-1", slots: [SLOT] })).toEqual([]);
+  });
+
+  it("matches each proposed slot against the sessions it overlaps", async () => {
+    const nextWeek = {
+      startsAt: new Date("2026-03-16T07:00:00Z"),
+      endsAt:   new Date("2026-03-16T07:50:00Z"),
+      roomId:   "room-1",
+    };
+    mockPrisma.classSession.findMany.mockResolvedValue([existing({ roomId: "room-1" })]);
+
+    const conflicts = await findConflicts({ academyId: "ac-1", teacherUserId: null, slots: [SLOT, nextWeek] });
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].startsAt).toBe(SLOT.startsAt.toISOString());
+  });
+});
+
+// ─── assertNoConflicts ────────────────────────────────────────────────────────
+
+describe("assertNoConflicts", () => {
+  it("throws a 409 carrying the conflicts unless overridden", async () => {
+    mockPrisma.classSession.findMany.mockResolvedValue([existing({ roomId: "room-1" })]);
+    const conflicts = await findConflicts({ academyId: "ac-1", teacherUserId: null, slots: [SLOT] });
+
+    expect(() => assertNoConflicts(conflicts, false)).toThrow(ConflictError);
+    expect(assertNoConflicts(conflicts, true)).toBe(conflicts);
+    expect(assertNoConflicts([], false)).toEqual([]);
+  });
+});
+
+// ─── roomsUsable ──────────────────────────────────────────────────────────────
+
+describe("roomsUsable", () => {
+  it("requires every distinct room to be an active room of the academy", async () => {
+    mockPrisma.room.count.mockResolvedValue(1);
+    expect(await roomsUsable("ac-1", ["room-1", "room-1", null])).toBe(true);
+    expect(await roomsUsable("ac-1", ["room-1", "room-2"])).toBe(false);
+    expect(mockPrisma.room.count).toHaveBeenLastCalledWith({
+      where: { academyId: "ac-1", id: { in: ["room-1", "room-2"] }, isActive: true },
+    });
+  });
+
+  it("accepts no room without a query", async () => {
+    expect(await roomsUsable("ac-1", [undefined, null])).toBe(true);
+    expect(mockPrisma.room.count).not.toHaveBeenCalled();
+  });
+});
+
+// ─── planSessions ─────────────────────────────────────────────────────────────
+
+describe("planSessions", () => {
+  it("plans the schedule's slots in its room, skipping closures", async () => {
+    mockPrisma.academyClosure.findMany.mockResolvedValue([{ startDate: "2026-03-16", endDate: "2026-03-16" }]);
+
+    const planned = await planSessions(
+      "ac-1",
+      [{ daysOfWeek: [1], startTime: "16:00", durationMin: 50, timezone: "Asia/Seoul", roomId: "room-1" }],
+      new Date("2026-03-09T00:00:00Z"),
+      new Date("2026-03-23T00:00:00Z"),
+    );
+
+    expect(planned.map((p) => p.localDate)).toEqual(["2026-03-09", "2026-03-23"]);
+    expect(planned[0]).toEqual({ ...SLOT, localDate: "2026-03-09" });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * tests/unit/delivery-reports.test.ts
+ *
+ * Unit tests for the AlimTalk/SMS delivery-report poller and the
+ * delivery-based notification KPI. Prisma and the SMS fallback are mocked;
+ * the provider HTTP calls go through a stubbed fetch.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    notificationQueue: { findMany: vi.fn(), update: vi.fn(), count: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+vi.mock("@/lib/alimtalk/sms-fallback", () => ({ enqueueSmsFallback: vi.fn() }));
+
+import { prisma } from "@/lib/db/client";
+import { enqueueSmsFallback } from "@/lib/alimtalk/sms-fallback";
+import { pollDeliveryReports } from "@/lib/alimtalk/delivery-reports";
+import { getNotifKPI } from "@/lib/kpi/risk.queries";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  notificationQueue: { findMany: Fn; update: Fn; count: Fn };
+};
+const mockFallback = enqueueSmsFallback as Fn;
+const mockFetch = vi.fn();
+
+const NOW = new Date("2026-03-02T03:00:00Z");
+
+function sentRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id:             "q-1",
+    academyId:      "ac-1",
+    channel:        "KAKAO_ALIMTALK",
+    status:         "SENT",
+    recipientPhone: "01012345678",
+    providerMsgKey: "mid-1",
+    processedAt:    new Date("2026-03-02T02:50:00Z"),
+    ...overrides,
+  };
+}
+
+/** Aligo AlimTalk history/detail response */
+function alimtalkReport(rslt: string, rslt_message = "") {
+  return { ok: true, json: async () => ({ code: 0, list: [{ rslt, rslt_message, rsltdate: "2026-03-02 11:51:00" }] }) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.KAKAO_API_KEY = "key";
+  process.env.KAKAO_USER_ID = "user";
+  vi.stubGlobal("fetch", mockFetch);
+  mockFallback.mockResolvedValue(null);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  delete process.env.KAKAO_API_KEY;
+  delete process.env.KAKAO_USER_ID;
+});
+
+function lastUpdate() {
+  return mockPrisma.notificationQueue.update.mock.calls.at(-1)![0];
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("pollDeliveryReports()", () => {
+  it("records a delivered message with the provider time", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([sentRow()]);
+    mockFetch.mockResolvedValue(alimtalkReport("0"));
+
+    const result = await pollDeliveryReports(100, NOW);
+
+    expect(result).toMatchObject({ checked: 1, delivered: 1 });
+    expect(lastUpdate()).toEqual({
+      where: { id: "q-1" },
+      data:  expect.objectContaining({
+        deliveryStatus: "DELIVERED",
+        deliveredAt:    new Date("2026-03-02T02:51:00Z"),
+      }),
+    });
+  });
+
+  it("only stamps the check time while the result is pending", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([sentRow()]);
+    mockFetch.mockResolvedValue(alimtalkReport(""));
+
+    const result = await pollDeliveryReports(100, NOW);
+
+    expect(result.pending).toBe(1);
+    expect(lastUpdate()).toEqual({ where: { id: "q-1" }, data: { deliveryCheckedAt: NOW } });
+  });
+
+  it("marks an undelivered AlimTalk FALLBACK when an SMS is queued", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([sentRow()]);
+    mockFetch.mockResolvedValue(alimtalkReport("3018", "카카오톡 미사용자"));
+    mockFallback.mockResolvedValue("q-sms");
+
+    const result = await pollDeliveryReports(100, NOW);
+
+    expect(result).toMatchObject({ failed: 1, fallbacks: 1 });
+    expect(mockFallback).toHaveBeenCalledWith(expect.objectContaining({ id: "q-1", errorCode: "3018" }), NOW);
+    expect(lastUpdate().data).toMatchObject({ deliveryStatus: "FALLBACK", deliveryCode: "3018" });
+  });
+
+  it("marks it FAILED when no fallback applies", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([sentRow()]);
+    mockFetch.mockResolvedValue(alimtalkReport("3018"));
+
+    await pollDeliveryReports(100, NOW);
+
+    expect(lastUpdate().data.deliveryStatus).toBe("FAILED");
+  });
+
+  it("reads SMS rows from the SMS report", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([sentRow({ channel: "SMS" })]);
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ result_code: "1", list: [{ sms_state: "발송완료", send_date: "2026-03-02 11:52:00" }] }),
+    });
+
+    const result = await pollDeliveryReports(100, NOW);
+
+    expect(result.delivered).toBe(1);
+    expect(mockFetch.mock.calls[0][0]).toContain("/sms_list/");
+  });
+});
+
+describe("getNotifKPI()", () => {
+  it("reports the delivery rate over resolved rows", async () => {
+    // queued, delivered, failed, SMS fallbacks
+    mockPrisma.notificationQueue.count
+      .mockResolvedValueOnce(10)
+      .mockResolvedValueOnce(6)
+      .mockResolvedValueOnce(2)
+      .mockResolvedValueOnce(3);
+
+    const kpi = await getNotifKPI("ac-1", "2026-03-01", "2026-03-31");
+
+    expect(kpi).toEqual({
+      queuedCount:      10,
+      deliveredCount:   6,
+      failedCount:      2,
+      pendingCount:     2,
+      smsFallbackCount: 3,
+      deliveryRate:     75,
+    });
+  });
+
+  it("has no rate before any outcome is known", async () => {
+    mockPrisma.notificationQueue.count.mockResolvedValue(0);
+    expect((await getNotifKPI("ac-1", "2026-03-01", "2026-03-31")).deliveryRate).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * tests/unit/discount.test.ts
+ *
+ * Unit tests for discount rule evaluation (sibling / multi-class / coupon /
+ * promotion) done when the billing run issues the next invoice.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/db/client", () => ({ prisma: {} }));
+
+import {
+  discountAmount,
+  isRuleInWindow,
+  evaluateDiscounts,
+} from "@/lib/services/discount.service";
+import type { Prisma } from "@prisma/client";
+
+const db = {
+  discountRule:        { findMany: vi.fn() },
+  parentContact:       { findMany: vi.fn() },
+  studentSubscription: { findMany: vi.fn() },
+  classEnrollment:     { count: vi.fn() },
+  subscriptionCoupon:  { findMany: vi.fn() },
+};
+const tx = db as unknown as Prisma.TransactionClient;
+
+function rule(overrides: Record<string, unknown>) {
+  return {
+    id:         "rule-1",
+    academyId:  "ac-1",
+    name:       "Rule",
+    type:       "PROMOTION",
+    valueType:  "PERCENT",
+    value:      10,
+    minCount:   2,
+    code:       null,
+    planId:     null,
+    validFrom:  null,
+    validUntil: null,
+    isActive:   true,
+    ...overrides,
+  };
+}
+
+const ctx = {
+  academyId:      "ac-1",
+  subscriptionId: "sub-1",
+  studentUserId:  "stu-1",
+  planId:         "plan-1",
+  dueDate:        new Date("2026-04-01"),
+  baseAmount:     200000,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("discountAmount()", () => {
+  it("takes a percentage of the base amount", () => {
+    expect(discountAmount({ valueType: "PERCENT", value: 15 }, 150000)).toBe(22500);
+  });
+
+  it("caps a fixed discount at the base amount", () => {
+    expect(discountAmount({ valueType: "FIXED", value: 500000 }, 150000)).toBe(150000);
+  });
+});
+
+describe("isRuleInWindow()", () => {
+  const r = { validFrom: new Date("2026-03-01"), validUntil: new Date("2026-03-31") };
+
+  it("includes both ends of the window", () => {
+    expect(isRuleInWindow(r, new Date("2026-03-01"))).toBe(true);
+    expect(isRuleInWindow(r, new Date("2026-03-31"))).toBe(true);
+  });
+
+  it("excludes dates outside the window", () => {
+    expect(isRuleInWindow(r, new Date("2026-02-28"))).toBe(false);
+    expect(isRuleInWindow(r, new Date("2026-04-01"))).toBe(false);
+  });
+});
+
+describe("evaluateDiscounts()", () => {
+  it("applies a sibling discount when enough siblings are subscribed", async () => {
+    db.discountRule.findMany.mockResolvedValue([rule({ id: "sib", name: "형제 할인", type: "SIBLING" })]);
+    db.parentContact.findMany
+      .mockResolvedValueOnce([{ phone: "01012345678" }])
+      .mockResolvedValueOnce([{ studentUserId: "stu-1" }, { studentUserId: "stu-2" }]);
+    db.studentSubscription.findMany.mockResolvedValue([{ studentUserId: "stu-1" }, { studentUserId: "stu-2" }]);
+
+    const lines = await evaluateDiscounts(tx, ctx);
+
+    expect(lines).toEqual([
+      { type: "DISCOUNT", description: "형제 할인", amount: -20000, discountRuleId: "sib" },
+    ]);
+    expect(db.parentContact.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ academyId: "ac-1", phone: { in: ["01012345678"] } }),
+    }));
+  });
+
+  it("skips the sibling discount for a student without a shared contact", async () => {
+    db.discountRule.findMany.mockResolvedValue([rule({ type: "SIBLING" })]);
+    db.parentContact.findMany.mockResolvedValue([]);
+
+    expect(await evaluateDiscounts(tx, ctx)).toEqual([]);
+  });
+
+  it("applies a multi-class discount from the active enrollment count", async () => {
+    db.discountRule.findMany.mockResolvedValue([
+      rule({ id: "mc3", type: "MULTI_CLASS", minCount: 3, valueType: "FIXED", value: 30000 }),
+      rule({ id: "mc2", type: "MULTI_CLASS", minCount: 2, valueType: "FIXED", value: 10000 }),
+    ]);
+    db.classEnrollment.count.mockResolvedValue(2);
+
+    const lines = await evaluateDiscounts(tx, ctx);
+
+    expect(lines.map((l) => l.discountRuleId)).toEqual(["mc2"]);
+    expect(db.classEnrollment.count).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies coupons only to subscriptions they were applied to", async () => {
+    db.discountRule.findMany.mockResolvedValue([
+      rule({ id: "c1", type: "COUPON", code: "WELCOME", valueType: "FIXED", value: 5000 }),
+      rule({ id: "c2", type: "COUPON", code: "OTHER",   valueType: "FIXED", value: 7000 }),
+    ]);
+    db.subscriptionCoupon.findMany.mockResolvedValue([{ ruleId: "c1" }]);
+
+    const lines = await evaluateDiscounts(tx, ctx);
+
+    expect(lines.map((l) => [l.discountRuleId, l.amount])).toEqual([["c1", -5000]]);
+  });
+
+  it("ignores promotions outside their validity window", async () => {
+    db.discountRule.findMany.mockResolvedValue([
+      rule({ id: "spring", validFrom: new Date("2026-03-01"), validUntil: new Date("2026-03-31") }),
+      rule({ id: "april",  validFrom: new Date("2026-04-01"), validUntil: new Date("2026-04-30") }),
+    ]);
+
+    const lines = await evaluateDiscounts(tx, ctx);
+
+    expect(lines.map((l) => l.discountRuleId)).toEqual(["april"]);
+  });
+
+  it("stacks rules but never discounts more than the base amount", async () => {
+    db.discountRule.findMany.mockResolvedValue([
+      rule({ id: "p1", valueType: "PERCENT", value: 60 }),
+      rule({ id: "p2", valueType: "FIXED",   value: 100000 }),
+      rule({ id: "p3", valueType: "FIXED",   value: 5000 }),
+    ]);
+
+    const lines = await evaluateDiscounts(tx, ctx);
+
+    expect(lines.map((l) => l.amount)).toEqual([-120000, -80000]);
+    expect(lines.reduce((s, l) => s + l.amount, 0)).toBe(-ctx.baseAmount);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * tests/unit/invoice-service.test.ts
+ *
+ * Unit tests for the invoice line-item helpers (invoice.service.ts). The
+ * transaction client is a mock that keeps line items in memory.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/db/client", () => ({ prisma: {} }));
+
+import type { Prisma } from "@prisma/client";
+import { addProrationLineItems, replaceTuitionLineItem } from "@/lib/services/invoice.service";
+
+type Item = {
+  id:           string;
+  type:         string;
+  description:  string;
+  amount:       number;
+  discountRule: { valueType: "FIXED" | "PERCENT"; value: number } | null;
+};
+
+let items: Item[];
+let nextId: number;
+
+const tx = {
+  invoiceLineItem: {
+    count:      vi.fn(async () => items.length),
+    aggregate:  vi.fn(async () => ({
+      _sum: { amount: items.length ? items.reduce((s, i) => s + i.amount, 0) : null },
+    })),
+    findFirst:  vi.fn(async ({ where }: { where: { type: string } }) => items.find((i) => i.type === where.type) ?? null),
+    findMany:   vi.fn(async ({ where }: { where: { type: string } }) => items.filter((i) => i.type === where.type)),
+    create:     vi.fn(async ({ data }: { data: Omit<Item, "id" | "discountRule"> }) => {
+      items.push({ id: `li-${nextId++}`, discountRule: null, ...data });
+    }),
+    createMany: vi.fn(async ({ data }: { data: Omit<Item, "id" | "discountRule">[] }) => {
+      for (const d of data) items.push({ id: `li-${nextId++}`, discountRule: null, ...d });
+    }),
+    update:     vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<Item> }) => {
+      Object.assign(items.find((i) => i.id === where.id)!, data);
+    }),
+  },
+  invoice:     { update: vi.fn() },
+  tuitionPlan: { findUniqueOrThrow: vi.fn(async () => ({ name: "Basic" })) },
+};
+const db = tx as unknown as Prisma.TransactionClient;
+
+const invoice = { id: "inv-1", academyId: "ac-1", amount: 150000, planId: "plan-basic" };
+
+function item(type: string, amount: number, discountRule: Item["discountRule"] = null): Item {
+  return { id: `li-${nextId++}`, type, description: type, amount, discountRule };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  items  = [];
+  nextId = 1;
+});
+
+// ─── addProrationLineItems ────────────────────────────────────────────────────
+
+describe("addProrationLineItems", () => {
+  it("keeps the tuition of an invoice created before line items existed", async () => {
+    const total = await addProrationLineItems(db, invoice, [
+      { type: "PRORATION_CREDIT", description: "Basic 미사용분", amount: -50000 },
+      { type: "PRORATION_DEBIT",  description: "Premium 잔여분", amount: 100000 },
+    ]);
+
+    expect(items[0]).toMatchObject({ type: "TUITION", description: "Basic", amount: 150000 });
+    expect(total).toBe(200000);
+  });
+
+  it("caps a credit at the invoice total", async () => {
+    items = [item("TUITION", 150000)];
+
+    const total = await addProrationLineItems(db, invoice, [
+      { type: "PRORATION_CREDIT", description: "Premium 미사용분", amount: -200000 },
+    ]);
+
+    expect(total).toBe(0);
+    expect(tx.invoiceLineItem.create).not.toHaveBeenCalled();
+  });
+});
+
+// ─── replaceTuitionLineItem ───────────────────────────────────────────────────
+
+describe("replaceTuitionLineItem", () => {
+  const premium = { id: "plan-premium", name: "Premium", amount: 300000 };
+
+  it("recomputes PERCENT discounts from the new plan amount", async () => {
+    items = [
+      item("TUITION",  150000),
+      item("DISCOUNT", -15000, { valueType: "PERCENT", value: 10 }),
+      item("DISCOUNT", -20000, { valueType: "FIXED",   value: 20000 }),
+    ];
+
+    const total = await replaceTuitionLineItem(db, invoice, premium);
+
+    expect(items.map((i) => i.amount)).toEqual([300000, -30000, -20000]);
+    expect(total).toBe(250000);
+  });
+
+  it("keeps the combined discount within a cheaper plan", async () => {
+    items = [
+      item("TUITION",  300000),
+      item("DISCOUNT", -150000, { valueType: "PERCENT", value: 50 }),
+      item("DISCOUNT", -100000, { valueType: "FIXED",   value: 100000 }),
+    ];
+
+    const total = await replaceTuitionLineItem(db, invoice, { id: "plan-lite", name: "Lite", amount: 120000 });
+
+    expect(items.map((i) => i.amount)).toEqual([120000, -60000, -60000]);
+    expect(total).toBe(0);
+  });
+
+  it("leaves discounts of deleted rules as they were", async () => {
+    items = [item("TUITION", 150000), item("DISCOUNT", -15000)];
+
+    await replaceTuitionLineItem(db, invoice, premium);
+
+    expect(items[1].amount).toBe(-15000);
+    expect(tx.invoiceLineItem.update).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * tests/unit/job.test.ts
+ *
+ * Unit tests for internal job runs (job.service.ts) and the cron guard.
+ * Prisma and the workers are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import { NextRequest } from "next/server";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    jobRun:  { create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    jobLock: { create: vi.fn(), updateMany: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+vi.mock("@/lib/alimtalk/queue-worker", () => ({
+  processNotificationQueue: vi.fn(),
+}));
+vi.mock("@/lib/services/webhook.service", () => ({
+  processWebhookEvents: vi.fn(),
+}));
+vi.mock("@/lib/services/billing.service", () => ({
+  runDailyBilling: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { processNotificationQueue } from "@/lib/alimtalk/queue-worker";
+import { runDailyBilling } from "@/lib/services/billing.service";
+import { JOBS, acquireJobLock, runJob } from "@/lib/services/job.service";
+import { guardCron } from "@/lib/guards/cron-guard";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  jobRun:  { create: Fn; update: Fn; updateMany: Fn };
+  jobLock: { create: Fn; updateMany: Fn; deleteMany: Fn };
+};
+const mockWorker = processNotificationQueue as Fn;
+const mockBilling = runDailyBilling as Fn;
+
+const STARTED = new Date("2026-03-01T00:00:00Z");
+const duplicate = () =>
+  new Prisma.PrismaClientKnownRequestError("Unique constraint", { code: "P2002", clientVersion: "5" });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.jobRun.create.mockResolvedValue({ id: "run-1", jobName: "notifications", startedAt: STARTED });
+  mockPrisma.jobRun.update.mockImplementation(async ({ data }) => ({ id: "run-1", ...data }));
+  mockPrisma.jobRun.updateMany.mockResolvedValue({ count: 0 });
+  mockPrisma.jobLock.create.mockResolvedValue({});
+  mockPrisma.jobLock.updateMany.mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("acquireJobLock()", () => {
+  it("takes a free lock", async () => {
+    expect(await acquireJobLock("billing", "run-1", 60_000, STARTED)).toBe(true);
+    expect(mockPrisma.jobLock.create).toHaveBeenCalledWith({
+      data: { jobName: "billing", holder: "run-1", acquiredAt: STARTED, lockedUntil: new Date(STARTED.getTime() + 60_000) },
+    });
+  });
+
+  it("takes over only an expired lease", async () => {
+    mockPrisma.jobLock.create.mockRejectedValue(duplicate());
+    mockPrisma.jobLock.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await acquireJobLock("billing", "run-2", 60_000, STARTED)).toBe(true);
+    expect(mockPrisma.jobLock.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { jobName: "billing", lockedUntil: { lt: STARTED } },
+    }));
+  });
+
+  it("fails while another lease is live", async () => {
+    mockPrisma.jobLock.create.mockRejectedValue(duplicate());
+    mockPrisma.jobLock.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await acquireJobLock("billing", "run-2", 60_000, STARTED)).toBe(false);
+  });
+});
+
+describe("runJob()", () => {
+  it("records the worker result and releases the lock", async () => {
+    const result = { processed: 2, succeeded: 2, failed: 0, skipped: 0 };
+    mockWorker.mockResolvedValue(result);
+
+    const run = await runJob("notifications");
+
+    expect(run).toMatchObject({ status: "SUCCEEDED", resultJson: result });
+    expect(mockPrisma.jobLock.deleteMany).toHaveBeenCalledWith({ where: { jobName: "notifications", holder: "run-1" } });
+  });
+
+  it("is SKIPPED without running the worker while another run holds the lock", async () => {
+    mockPrisma.jobLock.create.mockRejectedValue(duplicate());
+    mockPrisma.jobLock.updateMany.mockResolvedValue({ count: 0 });
+
+    const run = await runJob("notifications");
+
+    expect(run.status).toBe("SKIPPED");
+    expect(mockWorker).not.toHaveBeenCalled();
+    expect(mockPrisma.jobLock.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("stores the error on a FAILED run and still releases the lock", async () => {
+    mockWorker.mockRejectedValue(new Error("db down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const run = await runJob("notifications");
+
+    expect(run).toMatchObject({ status: "FAILED", errorMessage: "db down" });
+    expect(mockPrisma.jobLock.deleteMany).toHaveBeenCalled();
+  });
+
+  it("marks runs abandoned by an expired lease as FAILED", async () => {
+    mockWorker.mockResolvedValue({});
+
+    await runJob("notifications");
+
+    expect(mockPrisma.jobRun.updateMany).toHaveBeenCalledWith({
+      where: { jobName: "notifications", status: "RUNNING", startedAt: { lt: STARTED } },
+      data:  expect.objectContaining({ status: "FAILED" }),
+    });
+  });
+
+  it("renews the lease while a long run is in progress", async () => {
+    vi.useFakeTimers();
+    const leaseMs = JOBS.notifications.leaseMs;
+    mockWorker.mockImplementation(() => new Promise((resolve) => setTimeout(() => resolve({}), leaseMs)));
+
+    const running = runJob("notifications");
+    await vi.advanceTimersByTimeAsync(leaseMs);
+    const run = await running;
+
+    expect(run.status).toBe("SUCCEEDED");
+    const renewals = mockPrisma.jobLock.updateMany.mock.calls.filter(
+      ([arg]) => arg.where.holder === "run-1",
+    );
+    expect(renewals.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it("lets billing stop once its lease has been taken over", async () => {
+    mockPrisma.jobRun.create.mockResolvedValue({ id: "run-1", jobName: "billing", startedAt: STARTED });
+    mockBilling.mockImplementation(async (opts: { assertLease: () => Promise<void> }) => {
+      await opts.assertLease();
+      mockPrisma.jobLock.updateMany.mockResolvedValue({ count: 0 });
+      await opts.assertLease();
+      return {};
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const run = await runJob("billing");
+
+    expect(run).toMatchObject({ status: "FAILED", errorMessage: "Lease of job billing was lost to another run" });
+  });
+});
+
+describe("guardCron()", () => {
+  const req = (secret?: string) =>
+    new NextRequest("http://localhost/api/internal/billing/run", {
+      method:  "POST",
+      headers: secret ? { "x-cron-secret": secret } : {},
+    });
+
+  beforeEach(() => { process.env.CRON_SECRET = "s3cret"; });
+  afterEach(() => { delete process.env.CRON_SECRET; });
+
+  it("accepts the shared secret", () => {
+    expect(guardCron(req("s3cret"))).toBeNull();
+  });
+
+  it("rejects a missing or wrong secret", () => {
+    expect(guardCron(req())?.status).toBe(401);
+    expect(guardCron(req("nope"))?.status).toBe(401);
+  });
+
+  it("is disabled without CRON_SECRET", () => {
+    delete process.env.CRON_SECRET;
+    expect(guardCron(req("s3cret"))?.status).toBe(503);
+  });
+});
@@ -211,7 +211,7 @@ vi.mock("@/lib/guards/route-guard", () => ({
 }));
 
 // Mock all KPI query functions to return empty data (we only test RBAC here)
-vi.mock("@/lib/kpi/revenue.queries",    () => ({ getRevenueKPI: vi.fn().mockResolvedValue({ totalPaidAmount: 0, paidCount: 0, outstandingAmount: 0, outstandingCount: 0, failedCount: 0, collectionRate: 0 }) }));
+vi.mock("@/lib/kpi/revenue.queries",    () => ({ getRevenueKPI: vi.fn().mockResolvedValue({ totalPaidAmount: 0, paidCount: 0, refundedAmount: 0, netPaidAmount: 0, outstandingAmount: 0, outstandingCount: 0, failedCount: 0, collectionRate: 0 }) }));
 vi.mock("@/lib/kpi/students.queries",   () => ({ getStudentKPI: vi.fn().mockResolvedValue({ activeCount: 0, newCount: 0, churnCount: 0, participantCount: 0 }) }));
 vi.mock("@/lib/kpi/attendance.queries", () => ({
   getAttendanceKPI:              vi.fn().mockResolvedValue({ scheduledSessions: 0, completedSessions: 0, attendanceRate: 0, lateRate: 0, activeTeachers: 0 }),
@@ -220,7 +220,9 @@ vi.mock("@/lib/kpi/attendance.queries", () => ({
 }));
 vi.mock("@/lib/kpi/risk.queries",       () => ({
   getRiskKPI:           vi.fn().mockResolvedValue({ atRiskStudentsCount: 0, delinquentStudentsCount: 0 }),
-  getNotifKPI:          vi.fn().mockResolvedValue({ queuedCount: 0, failedCount: 0 }),
+  getNotifKPI:          vi.fn().mockResolvedValue({
+    queuedCount: 0, deliveredCount: 0, failedCount: 0, pendingCount: 0, smsFallbackCount: 0, deliveryRate: null,
+  }),
   getAtRiskStudents:    vi.fn().mockResolvedValue([]),
   getDelinquentStudents:vi.fn().mockResolvedValue([]),
 }));
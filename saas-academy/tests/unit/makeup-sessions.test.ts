@@ -0,0 +1,435 @@
+/**
+ * tests/unit/makeup-sessions.test.ts
+ *
+ * Unit tests for rescheduling, extra sessions and substitute teachers
+ * (session.service.ts) and
+ * make-up credits (makeup.service.ts). Prisma and the schedule notifier are
+ * mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => {
+  const prisma = {
+    classSession:    { findFirst: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), create: vi.fn() },
+    class:           { findFirst: vi.fn() },
+    classEnrollment: { findMany: vi.fn(), findFirst: vi.fn(), count: vi.fn() },
+    academyClosure:  { findMany: vi.fn() },
+    user:            { findUnique: vi.fn() },
+    attendance:      { findFirst: vi.fn() },
+    makeupCredit:    {
+      findFirst: vi.fn(), findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), findMany: vi.fn(),
+      create: vi.fn(), update: vi.fn(), updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("@/lib/alimtalk/schedule-notifier", () => ({
+  enqueueScheduleNotification: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { enqueueScheduleNotification } from "@/lib/alimtalk/schedule-notifier";
+import {
+  assignSubstitute,
+  createExtraSession,
+  rescheduleSession,
+  teachesSession,
+} from "@/lib/services/session.service";
+import {
+  cancelMakeupBooking,
+  redeemMakeupCredit,
+  syncMakeupCredit,
+} from "@/lib/services/makeup.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  classSession:    { findFirst: Fn; findUnique: Fn; findMany: Fn; update: Fn; create: Fn };
+  class:           { findFirst: Fn };
+  classEnrollment: { findMany: Fn; findFirst: Fn; count: Fn };
+  academyClosure:  { findMany: Fn };
+  user:            { findUnique: Fn };
+  attendance:      { findFirst: Fn };
+  makeupCredit:    {
+    findFirst: Fn; findUnique: Fn; findUniqueOrThrow: Fn; findMany: Fn;
+    create: Fn; update: Fn; updateMany: Fn;
+  };
+};
+const mockNotify = enqueueScheduleNotification as unknown as Fn;
+
+const NOW = new Date("2026-03-10T03:00:00Z");
+const NEW_TIMES = {
+  startsAt: new Date("2026-03-12T10:00:00Z"), // 19:00 KST
+  endsAt:   new Date("2026-03-12T10:50:00Z"),
+};
+
+const scheduled = {
+  id:        "s-1",
+  academyId: "ac-1",
+  classId:   "c-1",
+  startsAt:  new Date("2026-03-11T09:00:00Z"),
+  endsAt:    new Date("2026-03-11T09:50:00Z"),
+  localDate: "2026-03-11",
+  status:    "SCHEDULED",
+  kind:      "REGULAR",
+  roomId:    "room-1",
+  substituteTeacherUserId: null as string | null,
+  class:     { teacherUserId: "t-1" },
+  _count:    { attendances: 0 },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.academyClosure.findMany.mockResolvedValue([]);
+  mockPrisma.classSession.findUnique.mockResolvedValue(null);
+  mockPrisma.classSession.findMany.mockResolvedValue([]);
+  mockPrisma.classSession.update.mockImplementation(async ({ where, data }) => ({ ...scheduled, id: where.id, ...data }));
+  mockPrisma.classSession.create.mockImplementation(async ({ data }) => ({ id: "s-new", ...data }));
+  mockPrisma.classEnrollment.findMany.mockResolvedValue([{ studentUserId: "stu-1" }, { studentUserId: "stu-2" }]);
+  mockPrisma.makeupCredit.findMany.mockResolvedValue([]);
+  mockPrisma.makeupCredit.updateMany.mockResolvedValue({ count: 1 });
+  mockNotify.mockResolvedValue({ skipped: false, queueIds: ["q-1", "q-2"] });
+});
+
+// ─── rescheduleSession ────────────────────────────────────────────────────────
+
+describe("rescheduleSession", () => {
+  const base = { academyId: "ac-1", sessionId: "s-1", actorUserId: "admin-1", now: NOW, ...NEW_TIMES };
+
+  it("cancels the original, links a RESCHEDULED session and notifies everyone on it", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    mockPrisma.makeupCredit.findMany.mockResolvedValue([{ studentUserId: "guest-1" }]);
+
+    const result = await rescheduleSession(base);
+
+    expect(result.previous.status).toBe("CANCELED");
+    expect(mockPrisma.classSession.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        classId:           "c-1",
+        localDate:         "2026-03-12",
+        kind:              "RESCHEDULED",
+        rescheduledFromId: "s-1",
+      }),
+    });
+    expect(mockPrisma.makeupCredit.updateMany).toHaveBeenCalledWith({
+      where: { redeemedSessionId: "s-1", status: "REDEEMED" },
+      data:  { redeemedSessionId: "s-new" },
+    });
+    expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId:        "s-new",
+      event:            "RESCHEDULED",
+      studentUserIds:   ["stu-1", "stu-2", "guest-1"],
+      previousStartsAt: scheduled.startsAt,
+    }));
+    expect(result.notifQueued).toBe(2);
+  });
+
+  it("refuses sessions with attendance", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue({ ...scheduled, _count: { attendances: 1 } });
+    await expect(rescheduleSession(base)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("refuses a time in the past", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    await expect(rescheduleSession({ ...base, now: new Date("2026-03-13T00:00:00Z") }))
+      .rejects.toMatchObject({ status: 422 });
+  });
+
+  it("refuses a date on which the academy is closed", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    mockPrisma.academyClosure.findMany.mockResolvedValue([
+      { name: "학원 정기 휴무", startDate: "2026-03-12", endDate: "2026-03-12" },
+    ]);
+    await expect(rescheduleSession(base)).rejects.toMatchObject({
+      status:  409,
+      message: "The academy is closed on 2026-03-12 (학원 정기 휴무)",
+    });
+  });
+
+  it("refuses a slot the class already has", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    mockPrisma.classSession.findUnique.mockResolvedValue({ id: "s-2" });
+    await expect(rescheduleSession(base)).rejects.toMatchObject({ status: 409 });
+    expect(mockPrisma.classSession.create).not.toHaveBeenCalled();
+  });
+
+  it("keeps the room and checks teacher and room, ignoring the session itself", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+
+    await rescheduleSession(base);
+
+    expect(mockPrisma.classSession.create.mock.calls[0][0].data.roomId).toBe("room-1");
+    expect(mockPrisma.classSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        id: { notIn: ["s-1"] },
+        OR: [
+          { class: { teacherUserId: "t-1" }, substituteTeacherUserId: null },
+          { substituteTeacherUserId: "t-1" },
+          { roomId: { in: ["room-1"] } },
+        ],
+      }),
+    }));
+  });
+
+  it("refuses a teacher conflict unless overridden", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    mockPrisma.classSession.findMany.mockResolvedValue([{
+      id: "s-other", classId: "c-2", localDate: "2026-03-12", roomId: null,
+      startsAt: new Date("2026-03-12T10:30:00Z"), endsAt: new Date("2026-03-12T11:20:00Z"),
+      class: { name: "고1 영어", teacherUserId: "t-1" }, room: null,
+    }]);
+
+    await expect(rescheduleSession(base)).rejects.toMatchObject({
+      status:    409,
+      conflicts: [expect.objectContaining({ type: "TEACHER" })],
+    });
+    expect(mockPrisma.classSession.create).not.toHaveBeenCalled();
+
+    const result = await rescheduleSession({ ...base, override: true });
+    expect(result.conflicts).toHaveLength(1);
+    expect(mockPrisma.classSession.create).toHaveBeenCalled();
+  });
+
+  it("moves the substitute along and checks their schedule", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue({ ...scheduled, substituteTeacherUserId: "t-2" });
+
+    await rescheduleSession(base);
+
+    expect(mockPrisma.classSession.create.mock.calls[0][0].data.substituteTeacherUserId).toBe("t-2");
+    expect(mockPrisma.classSession.findMany.mock.calls[0][0].where.OR).toContainEqual({ substituteTeacherUserId: "t-2" });
+  });
+
+  it("still succeeds when the notification cannot be queued", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    mockNotify.mockRejectedValue(new Error("db down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await rescheduleSession(base);
+    expect(result.notifQueued).toBe(0);
+  });
+});
+
+// ─── createExtraSession ───────────────────────────────────────────────────────
+
+describe("createExtraSession", () => {
+  const base = { academyId: "ac-1", classId: "c-1", actorUserId: "admin-1", now: NOW, ...NEW_TIMES };
+
+  it("adds an EXTRA session and notifies enrolled students", async () => {
+    mockPrisma.class.findFirst.mockResolvedValue({ status: "ACTIVE", teacherUserId: null });
+
+    const { session } = await createExtraSession(base);
+
+    expect(session).toMatchObject({ kind: "EXTRA", status: "SCHEDULED", localDate: "2026-03-12" });
+    expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({
+      event:          "EXTRA",
+      studentUserIds: ["stu-1", "stu-2"],
+    }));
+  });
+
+  it("refuses an archived class", async () => {
+    mockPrisma.class.findFirst.mockResolvedValue({ status: "ARCHIVED" });
+    await expect(createExtraSession(base)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("refuses end before start", async () => {
+    mockPrisma.class.findFirst.mockResolvedValue({ status: "ACTIVE" });
+    await expect(createExtraSession({ ...base, endsAt: NEW_TIMES.startsAt }))
+      .rejects.toMatchObject({ status: 422 });
+  });
+});
+
+// ─── assignSubstitute ─────────────────────────────────────────────────────────
+
+describe("assignSubstitute", () => {
+  const base = { academyId: "ac-1", sessionId: "s-1", teacherUserId: "t-2" };
+
+  beforeEach(() => {
+    mockPrisma.classSession.findFirst.mockResolvedValue(scheduled);
+    mockPrisma.user.findUnique.mockResolvedValue({ academyId: "ac-1", role: "TEACHER" });
+  });
+
+  it("assigns a free teacher, checking only their schedule", async () => {
+    const { session } = await assignSubstitute(base);
+
+    expect(session.substituteTeacherUserId).toBe("t-2");
+    expect(mockPrisma.classSession.findMany.mock.calls[0][0].where).toMatchObject({
+      id: { notIn: ["s-1"] },
+      OR: [{ class: { teacherUserId: "t-2" }, substituteTeacherUserId: null }, { substituteTeacherUserId: "t-2" }],
+    });
+  });
+
+  it("removes the substitute without any checks", async () => {
+    const { session } = await assignSubstitute({ ...base, teacherUserId: null });
+
+    expect(session.substituteTeacherUserId).toBeNull();
+    expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    expect(mockPrisma.classSession.findMany).not.toHaveBeenCalled();
+  });
+
+  it("refuses the class teacher and users who are not teachers of the academy", async () => {
+    await expect(assignSubstitute({ ...base, teacherUserId: "t-1" })).rejects.toMatchObject({ status: 422 });
+
+    mockPrisma.user.findUnique.mockResolvedValue({ academyId: "ac-1", role: "STUDENT" });
+    await expect(assignSubstitute(base)).rejects.toMatchObject({ status: 422 });
+
+    mockPrisma.user.findUnique.mockResolvedValue({ academyId: "ac-2", role: "TEACHER" });
+    await expect(assignSubstitute(base)).rejects.toMatchObject({ status: 422 });
+    expect(mockPrisma.classSession.update).not.toHaveBeenCalled();
+  });
+
+  it("refuses a canceled session", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue({ ...scheduled, status: "CANCELED" });
+    await expect(assignSubstitute(base)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("refuses a busy teacher unless overridden", async () => {
+    mockPrisma.classSession.findMany.mockResolvedValue([{
+      id: "s-other", classId: "c-2", localDate: "2026-03-11", roomId: null, substituteTeacherUserId: null,
+      startsAt: scheduled.startsAt, endsAt: scheduled.endsAt,
+      class: { name: "고1 영어", teacherUserId: "t-2" }, room: null,
+    }]);
+
+    await expect(assignSubstitute(base)).rejects.toMatchObject({
+      status:    409,
+      conflicts: [expect.objectContaining({ type: "TEACHER" })],
+    });
+    expect(mockPrisma.classSession.update).not.toHaveBeenCalled();
+
+    const result = await assignSubstitute({ ...base, override: true });
+    expect(result.conflicts).toHaveLength(1);
+  });
+});
+
+describe("teachesSession", () => {
+  it("lets both the substitute and the class teacher in", () => {
+    const session = { substituteTeacherUserId: "t-2", class: { teacherUserId: "t-1" } };
+    expect(teachesSession(session, "t-2")).toBe(true);
+    expect(teachesSession(session, "t-1")).toBe(true);
+    expect(teachesSession(session, "t-3")).toBe(false);
+  });
+});
+
+// ─── syncMakeupCredit ─────────────────────────────────────────────────────────
+
+describe("syncMakeupCredit", () => {
+  const attendance = { id: "att-1", academyId: "ac-1", studentUserId: "stu-1", classId: "c-1" };
+
+  it("grants a credit for an EXCUSED absence", async () => {
+    mockPrisma.makeupCredit.findUnique.mockResolvedValue(null);
+
+    await syncMakeupCredit({ ...attendance, status: "EXCUSED" });
+
+    expect(mockPrisma.makeupCredit.create).toHaveBeenCalledWith({
+      data: { academyId: "ac-1", studentUserId: "stu-1", attendanceId: "att-1", classId: "c-1" },
+    });
+  });
+
+  it("restores a voided credit when marked EXCUSED again", async () => {
+    mockPrisma.makeupCredit.findUnique.mockResolvedValue({ id: "mc-1", status: "VOID" });
+
+    await syncMakeupCredit({ ...attendance, status: "EXCUSED" });
+
+    expect(mockPrisma.makeupCredit.update).toHaveBeenCalledWith({ where: { id: "mc-1" }, data: { status: "AVAILABLE" } });
+    expect(mockPrisma.makeupCredit.create).not.toHaveBeenCalled();
+  });
+
+  it("voids an unused credit when the mark changes", async () => {
+    await syncMakeupCredit({ ...attendance, status: "PRESENT" });
+
+    expect(mockPrisma.makeupCredit.updateMany).toHaveBeenCalledWith({
+      where: { attendanceId: "att-1", status: "AVAILABLE" },
+      data:  { status: "VOID" },
+    });
+  });
+});
+
+// ─── redeemMakeupCredit ───────────────────────────────────────────────────────
+
+describe("redeemMakeupCredit", () => {
+  const base = { academyId: "ac-1", creditId: "mc-1", sessionId: "s-9", actorUserId: "admin-1", now: NOW };
+  const credit = {
+    id:            "mc-1",
+    studentUserId: "stu-1",
+    classId:       "c-1",
+    status:        "AVAILABLE",
+    attendance:    { session: { startsAt: scheduled.startsAt } },
+  };
+  const target = {
+    ...scheduled,
+    id:      "s-9",
+    classId: "c-2",
+    startsAt: NEW_TIMES.startsAt,
+    class:   { capacity: 10 },
+  };
+
+  beforeEach(() => {
+    mockPrisma.makeupCredit.findFirst.mockResolvedValue(credit);
+    mockPrisma.classSession.findFirst.mockResolvedValue(target);
+    mockPrisma.classEnrollment.count.mockResolvedValue(5);
+    mockPrisma.classEnrollment.findFirst.mockResolvedValue(null);
+    mockPrisma.makeupCredit.findUniqueOrThrow.mockResolvedValue({ ...credit, status: "REDEEMED" });
+  });
+
+  it("books the student into the session and notifies their parents", async () => {
+    const result = await redeemMakeupCredit(base);
+
+    expect(mockPrisma.makeupCredit.updateMany).toHaveBeenCalledWith({
+      where: { id: "mc-1", status: "AVAILABLE" },
+      data:  { status: "REDEEMED", redeemedSessionId: "s-9", redeemedAt: NOW, redeemedByUserId: "admin-1" },
+    });
+    expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId:        "s-9",
+      event:            "MAKEUP",
+      studentUserIds:   ["stu-1"],
+      previousStartsAt: scheduled.startsAt,
+    }));
+    expect(result.credit.status).toBe("REDEEMED");
+  });
+
+  it("refuses a session of the same class", async () => {
+    mockPrisma.classSession.findFirst.mockResolvedValue({ ...target, classId: "c-1" });
+    await expect(redeemMakeupCredit(base)).rejects.toMatchObject({ status: 422 });
+  });
+
+  it("refuses a full session, counting other make-up bookings", async () => {
+    mockPrisma.classEnrollment.count.mockResolvedValue(9);
+    mockPrisma.makeupCredit.findMany.mockResolvedValue([{ studentUserId: "stu-7" }]);
+    await expect(redeemMakeupCredit(base)).rejects.toMatchObject({ status: 409, message: "The session is full" });
+  });
+
+  it("refuses a student who is already on the session", async () => {
+    mockPrisma.classEnrollment.findFirst.mockResolvedValue({ id: "enr-1" });
+    await expect(redeemMakeupCredit(base)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("refuses a credit that was claimed concurrently", async () => {
+    mockPrisma.makeupCredit.updateMany.mockResolvedValue({ count: 0 });
+    await expect(redeemMakeupCredit(base)).rejects.toMatchObject({ status: 409 });
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+});
+
+// ─── cancelMakeupBooking ──────────────────────────────────────────────────────
+
+describe("cancelMakeupBooking", () => {
+  const booked = { id: "mc-1", studentUserId: "stu-1", status: "REDEEMED", redeemedSessionId: "s-9" };
+
+  it("returns the credit to AVAILABLE", async () => {
+    mockPrisma.makeupCredit.findFirst.mockResolvedValue(booked);
+    mockPrisma.attendance.findFirst.mockResolvedValue(null);
+    mockPrisma.makeupCredit.update.mockImplementation(async ({ data }) => ({ ...booked, ...data }));
+
+    const credit = await cancelMakeupBooking("ac-1", "mc-1");
+    expect(credit).toMatchObject({ status: "AVAILABLE", redeemedSessionId: null });
+  });
+
+  it("refuses once attendance is marked", async () => {
+    mockPrisma.makeupCredit.findFirst.mockResolvedValue(booked);
+    mockPrisma.attendance.findFirst.mockResolvedValue({ id: "att-9" });
+    await expect(cancelMakeupBooking("ac-1", "mc-1")).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * tests/unit/outbox.test.ts
+ *
+ * Unit tests for the notification outbox: enqueueOutbox(), the shared
+ * back-off policy, admin send / resend / cancel (notification.service.ts)
+ * and the legacy Notification migration. Prisma and the AlimTalk client
+ * are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    notificationQueue: {
+      create: vi.fn(), createMany: vi.fn(), updateMany: vi.fn(), update: vi.fn(),
+      findFirst: vi.fn(), findUnique: vi.fn(), count: vi.fn(),
+    },
+    academyNotificationSettings: { findUnique: vi.fn() },
+    notification:      { findMany: vi.fn() },
+    parentContact:     { findFirst: vi.fn() },
+    alimtalkTemplate:  { findFirst: vi.fn() },
+    user:              { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+vi.mock("@/lib/alimtalk/client", () => ({ sendAlimtalk: vi.fn() }));
+vi.mock("@/lib/alimtalk/sms-fallback", () => ({
+  enqueueSmsFallback: vi.fn().mockResolvedValue(null),
+  isKakaoRejection:   vi.fn().mockReturnValue(false),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { sendAlimtalk } from "@/lib/alimtalk/client";
+import {
+  enqueueOutbox,
+  migrateLegacyNotifications,
+  nextRetryAt,
+  OUTBOX_MAX_ATTEMPTS,
+} from "@/lib/alimtalk/outbox";
+import {
+  cancelNotification,
+  enqueueNotification,
+  NotificationError,
+  resendNotification,
+} from "@/lib/services/notification.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  notificationQueue: {
+    create: Fn; createMany: Fn; updateMany: Fn; update: Fn; findFirst: Fn; findUnique: Fn; count: Fn;
+  };
+  academyNotificationSettings: { findUnique: Fn };
+  notification:      { findMany: Fn };
+  parentContact:     { findFirst: Fn };
+  alimtalkTemplate:  { findFirst: Fn };
+  user:              { findFirst: Fn };
+};
+const mockAlimtalk = sendAlimtalk as Fn;
+
+const NOW = new Date("2026-03-02T03:00:00Z");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.notificationQueue.create.mockImplementation(async ({ data }) => ({ id: "q-1", attempts: 0, ...data }));
+  mockPrisma.notificationQueue.updateMany.mockResolvedValue({ count: 1 });
+  mockPrisma.notificationQueue.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+  mockPrisma.notificationQueue.count.mockResolvedValue(0);
+  mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue(null);
+});
+
+afterEach(() => {
+  delete process.env.KAKAO_SENDER_KEY;
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("enqueueOutbox()", () => {
+  it("queues a PENDING row due at its scheduled time", async () => {
+    const later = new Date("2026-03-02T23:00:00Z");
+
+    await enqueueOutbox({
+      academyId:        "ac-1",
+      eventType:        "ATTENDANCE",
+      recipientPhone:   "01012345678",
+      templateCode:     "TPL",
+      senderKey:        "sk",
+      templateVarsJson: {},
+      scheduledAt:      later,
+    }, NOW);
+
+    expect(mockPrisma.notificationQueue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status:      "PENDING",
+        maxAttempts: OUTBOX_MAX_ATTEMPTS,
+        scheduledAt: later,
+        nextRetryAt: later,
+      }),
+    });
+  });
+});
+
+describe("nextRetryAt()", () => {
+  it("backs off 5m, 30m, then 120m", () => {
+    const minutes = [1, 2, 3, 4].map((n) => (nextRetryAt(n, NOW).getTime() - NOW.getTime()) / 60_000);
+    expect(minutes).toEqual([5, 30, 120, 120]);
+  });
+});
+
+describe("enqueueNotification()", () => {
+  const params = { academyId: "ac-1", phone: "01012345678", templateCode: "TPL_NOTICE", params: { name: "홍길동" } };
+
+  it("queues a MANUAL row with the template's sender key and sends it", async () => {
+    mockPrisma.alimtalkTemplate.findFirst.mockResolvedValue({ senderKey: "sk-academy" });
+    mockAlimtalk.mockResolvedValue({ success: true, msgKey: "mid-1" });
+
+    const { row, outcome } = await enqueueNotification(params);
+
+    expect(row).toMatchObject({ eventType: "MANUAL", senderKey: "sk-academy", templateVarsJson: { name: "홍길동" } });
+    expect(outcome.status).toBe("SENT");
+    expect(mockAlimtalk).toHaveBeenCalledWith(expect.objectContaining({ senderKey: "sk-academy", templateCode: "TPL_NOTICE" }));
+  });
+
+  it("leaves a failed first attempt to the worker's retry", async () => {
+    process.env.KAKAO_SENDER_KEY = "sk-env";
+    mockPrisma.alimtalkTemplate.findFirst.mockResolvedValue(null);
+    mockAlimtalk.mockResolvedValue({ success: false, errorCode: "HTTP_500", errorMessage: "down" });
+
+    const { outcome } = await enqueueNotification(params);
+
+    expect(outcome).toMatchObject({ status: "PENDING", errorCode: "HTTP_500" });
+    expect(mockPrisma.notificationQueue.update.mock.calls[0][0].data).toMatchObject({
+      status:      "PENDING",
+      attempts:    1,
+      nextRetryAt: expect.any(Date),
+    });
+  });
+
+  it("refuses to queue without a sender key", async () => {
+    mockPrisma.alimtalkTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(enqueueNotification(params)).rejects.toBeInstanceOf(NotificationError);
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("is refused once the monthly cap is used up", async () => {
+    mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue({ sendRatePerMinute: 60, monthlyMessageCap: 100 });
+    mockPrisma.notificationQueue.count.mockResolvedValue(100);
+
+    await expect(enqueueNotification({ ...params, senderKey: "sk" })).rejects.toThrow(/cap of 100/);
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a recipient from another academy", async () => {
+    mockPrisma.user.findFirst.mockResolvedValue(null);
+
+    await expect(enqueueNotification({ ...params, recipientId: "u-other", senderKey: "sk" }))
+      .rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe("resendNotification()", () => {
+  function failedRow(overrides: Record<string, unknown> = {}) {
+    return {
+      id:               "q-failed",
+      academyId:        "ac-1",
+      channel:          "KAKAO_ALIMTALK",
+      eventType:        "ATTENDANCE",
+      attendanceId:     "att-1",
+      attendanceStatus: "ABSENT",
+      studentUserId:    "stu-1",
+      parentContactId:  "pc-1",
+      recipientPhone:   "01000000000",
+      templateCode:     "TPL_ABSENT",
+      senderKey:        "sk",
+      templateVarsJson: { studentName: "홍길동" },
+      status:           "FAILED",
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    mockPrisma.notificationQueue.findUnique.mockResolvedValue(null);
+    mockPrisma.parentContact.findFirst.mockResolvedValue({ status: "ACTIVE", notificationOptIn: true, phone: "01012345678" });
+    mockAlimtalk.mockResolvedValue({ success: true, msgKey: "mid-2" });
+  });
+
+  it("queues a linked copy to the contact's current phone and sends it", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue(failedRow());
+
+    const { row, outcome } = await resendNotification("ac-1", "q-failed");
+
+    expect(mockPrisma.notificationQueue.findFirst).toHaveBeenCalledWith({ where: { id: "q-failed", academyId: "ac-1" } });
+    expect(row).toMatchObject({ resendOfId: "q-failed", recipientPhone: "01012345678", attendanceStatus: "ABSENT" });
+    expect(outcome.status).toBe("SENT");
+  });
+
+  it("only resends FAILED rows, once", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue(failedRow({ status: "SENT" }));
+    await expect(resendNotification("ac-1", "q-failed")).rejects.toMatchObject({ status: 409 });
+
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue(failedRow());
+    mockPrisma.notificationQueue.findUnique.mockResolvedValue({ id: "q-resent" });
+    await expect(resendNotification("ac-1", "q-failed")).rejects.toMatchObject({ status: 409 });
+
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("refuses when the parent has withdrawn consent", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue(failedRow());
+    mockPrisma.parentContact.findFirst.mockResolvedValue({ status: "ACTIVE", notificationOptIn: false, phone: "01012345678" });
+
+    await expect(resendNotification("ac-1", "q-failed")).rejects.toThrow(/no longer accepts/);
+  });
+
+  it("404s for another academy's row", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue(null);
+    await expect(resendNotification("ac-1", "q-other")).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe("cancelNotification()", () => {
+  it("skips a held PENDING row", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue({ id: "q-held", academyId: "ac-1", status: "PENDING" });
+
+    const row = await cancelNotification("ac-1", "q-held", NOW);
+
+    expect(mockPrisma.notificationQueue.updateMany).toHaveBeenCalledWith({
+      where: { id: "q-held", status: "PENDING", nextRetryAt: { gt: NOW } },
+      data:  expect.objectContaining({ status: "SKIPPED", errorCode: "CANCELED", nextRetryAt: null }),
+    });
+    expect(row.status).toBe("SKIPPED");
+  });
+
+  it("refuses rows that are due, sent or already picked up", async () => {
+    mockPrisma.notificationQueue.findFirst.mockResolvedValue({ id: "q-1", academyId: "ac-1", status: "SENT" });
+    mockPrisma.notificationQueue.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(cancelNotification("ac-1", "q-1", NOW)).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe("migrateLegacyNotifications()", () => {
+  function legacy(overrides: Record<string, unknown>) {
+    return {
+      academyId:    "ac-1",
+      recipientId:  "stu-1",
+      channel:      "KAKAO_ALIM",
+      templateCode: "TPL",
+      params:       { name: "홍길동" },
+      phone:        "01012345678",
+      attempts:     1,
+      lastError:    null,
+      sentAt:       null,
+      createdAt:    new Date("2026-01-01T00:00:00Z"),
+      updatedAt:    new Date("2026-01-01T00:00:00Z"),
+      ...overrides,
+    };
+  }
+
+  it("maps statuses and skips channels the outbox does not have", async () => {
+    process.env.KAKAO_SENDER_KEY = "sk-env";
+    const sentAt = new Date("2026-01-01T00:01:00Z");
+    mockPrisma.notification.findMany.mockResolvedValueOnce([
+      legacy({ id: "n-1", status: "SENT", sentAt }),
+      legacy({ id: "n-2", status: "RETRYING", lastError: "timeout" }),
+      legacy({ id: "n-3", status: "RETRYING", attempts: 3 }),
+      legacy({ id: "n-4", status: "PENDING", channel: "EMAIL" }),
+    ]);
+
+    const result = await migrateLegacyNotifications(500, NOW);
+
+    expect(result).toEqual({ scanned: 4, migrated: 3, skipped: 1 });
+    const { data, skipDuplicates } = mockPrisma.notificationQueue.createMany.mock.calls[0][0];
+    expect(skipDuplicates).toBe(true);
+    expect(data.map((d: Record<string, unknown>) => [d.legacyNotificationId, d.status])).toEqual([
+      ["n-1", "SENT"],
+      ["n-2", "PENDING"],
+      ["n-3", "FAILED"],
+    ]);
+    expect(data[0]).toMatchObject({ eventType: "MANUAL", processedAt: sentAt, studentUserId: "stu-1", senderKey: "sk-env" });
+    expect(data[1]).toMatchObject({ nextRetryAt: NOW, errorMessage: "timeout" });
+  });
+
+  it("pages through the table by id", async () => {
+    mockPrisma.notification.findMany
+      .mockResolvedValueOnce([legacy({ id: "n-1", status: "SENT" }), legacy({ id: "n-2", status: "SENT" })])
+      .mockResolvedValueOnce([legacy({ id: "n-3", status: "SENT" })]);
+
+    const result = await migrateLegacyNotifications(2, NOW);
+
+    expect(result.scanned).toBe(3);
+    expect(mockPrisma.notification.findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: "n-2" }, skip: 1 });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * tests/unit/parent-consent.test.ts
+ *
+ * Unit tests for parent-managed notification consent: the signed preference
+ * link (preference-link.ts) and the consent history (consent.service.ts).
+ * Prisma is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SignJWT } from "jose";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => {
+  const prisma = {
+    parentContact:        { update: vi.fn() },
+    parentContactConsent: { create: vi.fn() },
+    $transaction:         vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+import { prisma } from "@/lib/db/client";
+import {
+  preferenceUrl,
+  signPreferenceToken,
+  verifyPreferenceToken,
+  withContactVars,
+} from "@/lib/alimtalk/preference-link";
+import { recordConsentChange, setContactConsent } from "@/lib/services/consent.service";
+import type { ParentContact } from "@prisma/client";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  parentContact:        { update: Fn };
+  parentContactConsent: { create: Fn };
+};
+
+const SECRET = "test_notification_link_secret_0123456789";
+
+function contact(overrides: Partial<ParentContact> = {}): ParentContact {
+  return {
+    id:                "pc-1",
+    academyId:         "ac-1",
+    studentUserId:     "stu-1",
+    name:              "김엄마",
+    phone:             "01012345678",
+    relationship:      "MOTHER",
+    notificationOptIn: true,
+    consentRecordedAt: new Date("2026-01-01T00:00:00Z"),
+    notifyAbsent:      true,
+    notifyLate:        true,
+    notifyBilling:     true,
+    preferredLanguage: "KO",
+    status:            "ACTIVE",
+    createdAt:         new Date("2026-01-01T00:00:00Z"),
+    updatedAt:         new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.NOTIFICATION_LINK_SECRET = SECRET;
+  process.env.APP_URL = "https://academy.test";
+  mockPrisma.parentContactConsent.create.mockImplementation(async ({ data }) => ({ id: "cs-1", ...data }));
+});
+
+afterEach(() => {
+  delete process.env.NOTIFICATION_LINK_SECRET;
+  delete process.env.APP_URL;
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("preference link", () => {
+  it("round-trips the contact id", async () => {
+    expect(await verifyPreferenceToken(await signPreferenceToken("pc-1"))).toBe("pc-1");
+  });
+
+  it("rejects tampered, expired and foreign tokens", async () => {
+    const token = await signPreferenceToken("pc-1");
+    expect(await verifyPreferenceToken(`${token.slice(0, -2)}xx`)).toBeNull();
+
+    const key = new TextEncoder().encode(SECRET);
+    const expired = await new SignJWT({ type: "notification-preferences" })
+      .setProtectedHeader({ alg: "HS256" })
+      .setSubject("pc-1")
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+      .sign(key);
+    expect(await verifyPreferenceToken(expired)).toBeNull();
+
+    const access = await new SignJWT({ type: "access" })
+      .setProtectedHeader({ alg: "HS256" })
+      .setSubject("pc-1")
+      .sign(key);
+    expect(await verifyPreferenceToken(access)).toBeNull();
+  });
+
+  it("builds the public page URL", async () => {
+    expect(await preferenceUrl("pc-1")).toMatch(/^https:\/\/academy\.test\/notification-preferences\/[\w-]+\.[\w-]+\.[\w-]+$/);
+  });
+
+  it("adds #{preferenceUrl}, empty when no usable secret is configured", async () => {
+    expect((await withContactVars({ studentName: "홍길동" }, "pc-1")).preferenceUrl)
+      .toContain("/notification-preferences/");
+
+    delete process.env.NOTIFICATION_LINK_SECRET;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await withContactVars({ studentName: "홍길동" }, "pc-1"))
+      .toEqual({ studentName: "홍길동", preferenceUrl: "" });
+
+    process.env.NOTIFICATION_LINK_SECRET = "too-short";
+    expect(await withContactVars({ studentName: "홍길동" }, "pc-1"))
+      .toEqual({ studentName: "홍길동", preferenceUrl: "" });
+  });
+});
+
+describe("consent history", () => {
+  it("records the initial state of a new contact", async () => {
+    await recordConsentChange(null, contact({ notificationOptIn: false }), { source: "ADMIN", actorUserId: "admin-1" });
+
+    expect(mockPrisma.parentContactConsent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ source: "ADMIN", actorUserId: "admin-1", optIn: false }),
+    });
+  });
+
+  it("skips edits that leave consent unchanged", async () => {
+    const before = contact();
+    expect(await recordConsentChange(before, contact({ name: "새 이름" }), { source: "ADMIN" })).toBeNull();
+    expect(mockPrisma.parentContactConsent.create).not.toHaveBeenCalled();
+  });
+
+  it("stores a parent opt-out from the link with IP and user agent", async () => {
+    const before = contact();
+    const after  = contact({ notificationOptIn: false });
+    mockPrisma.parentContact.update.mockResolvedValue(after);
+
+    const result = await setContactConsent(
+      before,
+      { optIn: false, notifyAbsent: true, notifyLate: true, notifyBilling: true },
+      { source: "PARENT_LINK", ip: "203.0.113.7", userAgent: "KakaoTalk" },
+    );
+
+    expect(result).toBe(after);
+    expect(mockPrisma.parentContact.update.mock.calls[0][0].data).not.toHaveProperty("consentRecordedAt");
+    expect(mockPrisma.parentContactConsent.create).toHaveBeenCalledWith({
+      data: {
+        academyId:       "ac-1",
+        parentContactId: "pc-1",
+        source:          "PARENT_LINK",
+        actorUserId:     null,
+        optIn:           false,
+        notifyAbsent:    true,
+        notifyLate:      true,
+        notifyBilling:   true,
+        ip:              "203.0.113.7",
+        userAgent:       "KakaoTalk",
+      },
+    });
+  });
+
+  it("stamps consentRecordedAt when a parent opts back in", async () => {
+    const before = contact({ notificationOptIn: false });
+    mockPrisma.parentContact.update.mockResolvedValue(contact());
+
+    await setContactConsent(
+      before,
+      { optIn: true, notifyAbsent: true, notifyLate: false, notifyBilling: true },
+      { source: "PARENT_LINK" },
+    );
+
+    expect(mockPrisma.parentContact.update.mock.calls[0][0].data.consentRecordedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * tests/unit/payment-provider.test.ts
+ *
+ * Unit tests for the scriptable FakePaymentProvider and for the billing run
+ * driven through it instead of a mocked Toss module.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    invoice:             { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+    paymentMethod:       { findFirst: vi.fn() },
+    paymentAttempt:      { create: vi.fn(), update: vi.fn() },
+    studentSubscription: { update: vi.fn() },
+    user:                { findMany: vi.fn().mockResolvedValue([]) },
+    discountRule:        { findMany: vi.fn().mockResolvedValue([]) },
+    virtualAccount:      { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    $transaction:        vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/alimtalk/billing-notifier", () => ({
+  enqueueBillingNotification:     vi.fn().mockResolvedValue({ skipped: true, queueIds: [] }),
+  enqueueUpcomingChargeReminders: vi.fn().mockResolvedValue(0),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { TossError } from "@/lib/toss/tossClient";
+import { FakePaymentProvider, setPaymentProvider } from "@/lib/payments";
+import { runDailyBilling } from "@/lib/services/billing.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  invoice:             { findMany: Fn; findUnique: Fn; update: Fn; updateMany: Fn; create: Fn };
+  paymentMethod:       { findFirst: Fn };
+  paymentAttempt:      { create: Fn; update: Fn };
+  studentSubscription: { update: Fn };
+  $transaction:        Fn;
+};
+
+const fake = new FakePaymentProvider();
+
+const invoice = {
+  id:             "inv-1",
+  academyId:      "ac-1",
+  orderId:        "ORD-1",
+  amount:         150000,
+  dueDate:        new Date("2026-01-01"),
+  studentUserId:  "user-1",
+  planId:         "plan-1",
+  subscriptionId: "sub-1",
+  student:        { id: "user-1", name: "Alice", email: "alice@test.com" },
+  plan:           { id: "plan-1", name: "Basic", billingDay: 1, amount: 150000, graceDays: 0, lateFee: 0 },
+  subscription:   { id: "sub-1" },
+  attempts:       [],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fake.reset();
+  setPaymentProvider(fake);
+
+  mockPrisma.invoice.findMany.mockResolvedValue([invoice]);
+  mockPrisma.invoice.findUnique.mockResolvedValue({ status: "PENDING" });
+  mockPrisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+  mockPrisma.paymentMethod.findFirst.mockResolvedValue({ id: "pm-1", billingKey: "bk-1", customerKey: "user-1" });
+  mockPrisma.paymentAttempt.create.mockResolvedValue({ id: "att-1" });
+  mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+});
+
+afterAll(() => setPaymentProvider(null));
+
+function attemptUpdate() {
+  return mockPrisma.paymentAttempt.update.mock.calls.at(-1)![0].data;
+}
+
+// ─── Billing run through the fake ─────────────────────────────────────────────
+
+describe("runDailyBilling() with the fake provider", () => {
+  it("settles the invoice on approval", async () => {
+    const result = await runDailyBilling();
+
+    expect(result.succeeded).toBe(1);
+    expect(fake.calls).toHaveLength(1);
+    expect(fake.payment("ORD-1")).toMatchObject({ status: "DONE", totalAmount: 150000 });
+    expect(attemptUpdate()).toMatchObject({ status: "SUCCESS", providerTransactionId: fake.payment("ORD-1")!.paymentKey });
+  });
+
+  it("records the decline code on the attempt", async () => {
+    fake.script("charge", { type: "decline", code: "REJECT_CARD_COMPANY", message: "한도 초과" });
+
+    const result = await runDailyBilling();
+
+    expect(result.failed).toBe(1);
+    expect(attemptUpdate()).toMatchObject({ status: "FAILED", errorCode: "REJECT_CARD_COMPANY" });
+    expect(attemptUpdate().errorMessage).toContain("한도 초과");
+  });
+
+  it("records a timeout as a failed attempt", async () => {
+    fake.script("charge", { type: "timeout" });
+
+    await runDailyBilling();
+
+    expect(attemptUpdate()).toMatchObject({ status: "FAILED", errorCode: "TIMEOUT" });
+  });
+});
+
+// ─── Fake behaviour ───────────────────────────────────────────────────────────
+
+describe("FakePaymentProvider", () => {
+  const params = { billingKey: "bk-1", customerKey: "c-1", amount: 1000, orderId: "ORD-9", orderName: "x" };
+
+  it("returns the first result for a repeated idempotency key", async () => {
+    const first  = await fake.chargeWithBillingKey(params, "key-1");
+    const second = await fake.chargeWithBillingKey(params, "key-1");
+
+    expect(second.paymentKey).toBe(first.paymentKey);
+    expect(fake.calls).toHaveLength(1);
+  });
+
+  it("lets a retry through after a timeout", async () => {
+    fake.script("charge", { type: "timeout" });
+
+    await expect(fake.chargeWithBillingKey(params, "key-1")).rejects.toMatchObject({ code: "TIMEOUT", status: 504 });
+    await expect(fake.chargeWithBillingKey(params, "key-1")).resolves.toMatchObject({ status: "DONE" });
+  });
+
+  it("throws declines as TossError", async () => {
+    fake.script("charge", { type: "decline", code: "INVALID_CARD_EXPIRATION" });
+
+    const error = await fake.chargeWithBillingKey(params).catch((e) => e);
+    expect(error).toBeInstanceOf(TossError);
+    expect(error.code).toBe("INVALID_CARD_EXPIRATION");
+  });
+
+  it("holds delayed webhooks until they are due", async () => {
+    const sink = vi.fn().mockResolvedValue(undefined);
+    const delayed = new FakePaymentProvider({ sink });
+    delayed.script("charge", { type: "approve", webhook: { delayMs: 60_000 } });
+
+    await delayed.chargeWithBillingKey(params);
+
+    expect(await delayed.flushWebhooks()).toBe(0);
+    expect(delayed.pendingWebhooks).toHaveLength(1);
+
+    expect(await delayed.flushWebhooks(Date.now() + 60_000)).toBe(1);
+    expect(sink).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: "PAYMENT_STATUS_CHANGED",
+      data:      expect.objectContaining({ orderId: "ORD-9", status: "DONE" }),
+    }));
+  });
+
+  it("emits a DEPOSIT_CALLBACK with the account secret on deposit()", async () => {
+    const va = await fake.issueVirtualAccount({
+      orderId: "ORD-1-VA1", orderName: "x", amount: 150000, customerName: "Alice", bank: "088", validHours: 72,
+    });
+
+    fake.deposit("ORD-1-VA1");
+    await fake.flushWebhooks();
+
+    expect(fake.delivered[0]).toMatchObject({
+      eventType: "DEPOSIT_CALLBACK",
+      data:      { orderId: "ORD-1-VA1", status: "DONE", secret: va.secret },
+    });
+    expect(await fake.getPaymentByOrderId("ORD-1-VA1")).toMatchObject({ status: "DONE", totalAmount: 150000 });
+  });
+});
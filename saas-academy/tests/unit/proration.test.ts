@@ -0,0 +1,251 @@
+/**
+ * tests/unit/proration.test.ts
+ *
+ * Unit tests for the proration math used on mid-cycle subscriptions and
+ * plan changes. Session counts come from a mocked Prisma.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    classEnrollment: { findMany: vi.fn() },
+    classSession:    { count: vi.fn() },
+    invoice:         { findFirst: vi.fn() },
+    academyClosure:  { findMany: vi.fn() },
+  },
+}));
+
+import { prisma } from "@/lib/db/client";
+import {
+  billingPeriodFor,
+  prorate,
+  dailyUnits,
+  enrollmentCredit,
+  planChangeLines,
+  enrollmentProration,
+  planChangeProration,
+} from "@/lib/services/proration.service";
+
+const mockPrisma = prisma as unknown as {
+  classEnrollment: { findMany: ReturnType<typeof vi.fn> };
+  classSession:    { count: ReturnType<typeof vi.fn> };
+  invoice:         { findFirst: ReturnType<typeof vi.fn> };
+  academyClosure:  { findMany: ReturnType<typeof vi.fn> };
+};
+
+const d = (s: string) => new Date(s);
+const key = (x: Date) => x.toISOString().slice(0, 10);
+
+const basic   = { name: "Basic",   amount: 150000, billingDay: 1, prorationMode: "DAILY" as const };
+const premium = { name: "Premium", amount: 300000, billingDay: 1, prorationMode: "DAILY" as const };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.academyClosure.findMany.mockResolvedValue([]);
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("billingPeriodFor()", () => {
+  it("starts on the billing day of the same month when on/after it", () => {
+    const p = billingPeriodFor(d("2026-03-17"), 10);
+    expect(key(p.start)).toBe("2026-03-10");
+    expect(key(p.end)).toBe("2026-04-10");
+  });
+
+  it("starts in the previous month when before the billing day", () => {
+    const p = billingPeriodFor(d("2026-03-05"), 10);
+    expect(key(p.start)).toBe("2026-02-10");
+    expect(key(p.end)).toBe("2026-03-10");
+  });
+
+  it("rolls over the year boundary", () => {
+    const p = billingPeriodFor(d("2026-01-03"), 25);
+    expect(key(p.start)).toBe("2025-12-25");
+    expect(key(p.end)).toBe("2026-01-25");
+  });
+
+  it("treats the billing day itself as the period start", () => {
+    const p = billingPeriodFor(d("2026-03-01"), 1);
+    expect(key(p.start)).toBe("2026-03-01");
+    expect(key(p.end)).toBe("2026-04-01");
+  });
+});
+
+describe("prorate()", () => {
+  it("rounds to whole KRW", () => {
+    expect(prorate(150000, 15, 31)).toBe(72581);
+  });
+
+  it("clamps used to [0, total]", () => {
+    expect(prorate(150000, -2, 30)).toBe(0);
+    expect(prorate(150000, 40, 30)).toBe(150000);
+  });
+
+  it("returns the full amount when total is zero", () => {
+    expect(prorate(150000, 0, 0)).toBe(150000);
+  });
+});
+
+describe("dailyUnits()", () => {
+  it("counts remaining days including the start day", () => {
+    const period = billingPeriodFor(d("2026-03-17"), 1);
+    expect(dailyUnits(period, d("2026-03-17"))).toEqual({ used: 15, total: 31, basis: "DAILY" });
+  });
+
+  it("handles a 28-day February", () => {
+    const period = billingPeriodFor(d("2026-02-15"), 1);
+    expect(dailyUnits(period, d("2026-02-15"))).toEqual({ used: 14, total: 28, basis: "DAILY" });
+  });
+});
+
+describe("enrollmentCredit()", () => {
+  const period = billingPeriodFor(d("2026-03-17"), 1);
+
+  it("credits the days before the start date", () => {
+    const line = enrollmentCredit(basic, { used: 15, total: 31, basis: "DAILY" }, d("2026-03-17"), period);
+    expect(line).toEqual({
+      type:        "PRORATION_CREDIT",
+      description: "일할 계산 (2026-03-17 ~ 2026-03-31)",
+      amount:      72581 - 150000,
+    });
+  });
+
+  it("tuition + credit equals the prorated charge", () => {
+    const line = enrollmentCredit(basic, { used: 6, total: 8, basis: "PER_SESSION" }, d("2026-03-17"), period);
+    expect(basic.amount + line!.amount).toBe(112500);
+  });
+
+  it("returns null for a full period", () => {
+    expect(enrollmentCredit(basic, { used: 31, total: 31, basis: "DAILY" }, d("2026-03-01"), period)).toBeNull();
+  });
+});
+
+describe("planChangeLines()", () => {
+  it("upgrade: credits the old plan and debits the new plan for the remaining share", () => {
+    const lines = planChangeLines(basic, premium, { used: 10, total: 30, basis: "DAILY" });
+    expect(lines).toEqual([
+      { type: "PRORATION_CREDIT", description: "플랜 변경 차감: Basic",   amount: -50000 },
+      { type: "PRORATION_DEBIT",  description: "플랜 변경 추가: Premium", amount: 100000 },
+    ]);
+    expect(lines.reduce((s, l) => s + l.amount, 0)).toBe(50000);
+  });
+
+  it("downgrade nets out negative", () => {
+    const lines = planChangeLines(premium, basic, { used: 10, total: 30, basis: "DAILY" });
+    expect(lines.reduce((s, l) => s + l.amount, 0)).toBe(-50000);
+  });
+
+  it("returns nothing when no units remain", () => {
+    expect(planChangeLines(basic, premium, { used: 0, total: 30, basis: "DAILY" })).toEqual([]);
+  });
+});
+
+describe("enrollmentProration()", () => {
+  const student = { academyId: "ac-1", studentUserId: "user-1" };
+
+  it("returns null for plans without proration", async () => {
+    const line = await enrollmentProration({
+      ...student, plan: { ...basic, prorationMode: "NONE" }, startDate: d("2026-03-17"),
+    });
+    expect(line).toBeNull();
+  });
+
+  it("returns null when starting on the billing day", async () => {
+    const line = await enrollmentProration({ ...student, plan: basic, startDate: d("2026-03-01") });
+    expect(line).toBeNull();
+  });
+
+  it("PER_SESSION prices by the student's sessions in the period", async () => {
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([{ classId: "c-1" }, { classId: "c-2" }]);
+    mockPrisma.classSession.count
+      .mockResolvedValueOnce(12)  // whole period
+      .mockResolvedValueOnce(3);  // from start date
+
+    const line = await enrollmentProration({
+      ...student, plan: { ...basic, prorationMode: "PER_SESSION" }, startDate: d("2026-03-23"),
+    });
+
+    expect(line?.amount).toBe(37500 - 150000);
+    expect(mockPrisma.classSession.count).toHaveBeenLastCalledWith({
+      where: expect.objectContaining({
+        academyId: "ac-1",
+        classId:   { in: ["c-1", "c-2"] },
+        status:    { not: "CANCELED" },
+        localDate: { gte: "2026-03-23", lt: "2026-04-01" },
+      }),
+    });
+  });
+
+  it("PER_SESSION leaves out sessions on academy closure dates", async () => {
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([{ classId: "c-1" }]);
+    mockPrisma.academyClosure.findMany.mockResolvedValue([
+      { startDate: "2026-03-02", endDate: "2026-03-02" },
+      { startDate: "2026-03-23", endDate: "2026-03-27" },
+    ]);
+    mockPrisma.classSession.count.mockResolvedValueOnce(8).mockResolvedValueOnce(2);
+
+    const line = await enrollmentProration({
+      ...student, plan: { ...basic, prorationMode: "PER_SESSION" }, startDate: d("2026-03-17"),
+    });
+
+    expect(line?.amount).toBe(37500 - 150000);
+    expect(mockPrisma.classSession.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        NOT: {
+          OR: [
+            { localDate: { gte: "2026-03-02", lte: "2026-03-02" } },
+            { localDate: { gte: "2026-03-23", lte: "2026-03-27" } },
+          ],
+        },
+      }),
+    });
+  });
+
+  it("PER_SESSION falls back to daily when the student has no sessions", async () => {
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([]);
+
+    const line = await enrollmentProration({
+      ...student, plan: { ...basic, prorationMode: "PER_SESSION" }, startDate: d("2026-03-17"),
+    });
+
+    expect(line?.amount).toBe(72581 - 150000);
+    expect(mockPrisma.classSession.count).not.toHaveBeenCalled();
+  });
+});
+
+describe("planChangeProration()", () => {
+  const base = {
+    subscriptionId: "sub-1",
+    academyId:      "ac-1",
+    studentUserId:  "user-1",
+    oldPlan:        basic,
+    newPlan:        premium,
+    today:          d("2026-04-21"),
+  };
+
+  it("adds credit/debit when the current period is already paid", async () => {
+    mockPrisma.invoice.findFirst.mockResolvedValue({ id: "inv-1", status: "PAID" });
+
+    const lines = await planChangeProration(base);
+
+    // 2026-04-21 → 2026-05-01: 10 of 30 days
+    expect(lines.map((l) => l.amount)).toEqual([-50000, 100000]);
+    expect(mockPrisma.invoice.findFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({ subscriptionId: "sub-1", status: "PAID" }),
+    });
+  });
+
+  it("adds nothing when the current period is unpaid", async () => {
+    mockPrisma.invoice.findFirst.mockResolvedValue(null);
+    expect(await planChangeProration(base)).toEqual([]);
+  });
+
+  it("adds nothing when the new plan does not prorate", async () => {
+    const lines = await planChangeProration({ ...base, newPlan: { ...premium, prorationMode: "NONE" } });
+    expect(lines).toEqual([]);
+    expect(mockPrisma.invoice.findFirst).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * tests/unit/refund.test.ts
+ *
+ * Unit tests for invoice refunds (refund.service.ts).
+ * Uses vi.mock to avoid real Toss API calls.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    invoice:        { findFirst: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    paymentAttempt: { findFirst: vi.fn() },
+    virtualAccount: { findUnique: vi.fn() },
+    refund:         {
+      findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn(),
+    },
+    $transaction:   vi.fn(),
+  },
+}));
+
+// ─── Mock Toss cancel ─────────────────────────────────────────────────────────
+vi.mock("@/lib/toss/cancel", () => ({
+  cancelPayment: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { cancelPayment } from "@/lib/toss/cancel";
+import { TossError } from "@/lib/toss/tossClient";
+import {
+  RefundError,
+  refundableAmount,
+  refundInvoice,
+  syncRefundsFromProvider,
+} from "@/lib/services/refund.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  invoice:        { findFirst: Fn; findUniqueOrThrow: Fn; update: Fn };
+  paymentAttempt: { findFirst: Fn };
+  virtualAccount: { findUnique: Fn };
+  refund:         { findUnique: Fn; findUniqueOrThrow: Fn; findFirst: Fn; create: Fn; update: Fn };
+  $transaction:   Fn;
+};
+const mockCancel = cancelPayment as Fn;
+
+function paidInvoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id:                 "inv-1",
+    academyId:          "ac-1",
+    amount:             150000,
+    refundedAmount:     0,
+    status:             "PAID",
+    providerPaymentKey: "pk-1",
+    ...overrides,
+  };
+}
+
+function cancelResponse(amount: number) {
+  return {
+    paymentKey: "pk-1",
+    status:     "PARTIAL_CANCELED",
+    cancels:    [{ transactionKey: "tx-1", cancelAmount: amount, cancelReason: "환불", canceledAt: "2026-03-02T01:00:00Z" }],
+  };
+}
+
+async function expectRefundError(promise: Promise<unknown>, status: number) {
+  const e = await promise.catch((e: unknown) => e);
+  expect(e).toBeInstanceOf(RefundError);
+  expect((e as RefundError).status).toBe(status);
+}
+
+const params = { reason: "수강 취소", actorUserId: "admin-1" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+  mockPrisma.virtualAccount.findUnique.mockResolvedValue(null);
+  mockPrisma.paymentAttempt.findFirst.mockResolvedValue({ id: "att-1" });
+  mockPrisma.refund.create.mockImplementation(async ({ data }) => ({ id: "ref-1", ...data }));
+  mockPrisma.refund.update.mockImplementation(async ({ data }) => ({ id: "ref-1", ...data }));
+  mockPrisma.refund.findUniqueOrThrow.mockResolvedValue({ id: "ref-1", status: "REQUESTED" });
+});
+
+// ─── refundableAmount() ───────────────────────────────────────────────────────
+
+describe("refundableAmount()", () => {
+  it("is what has not been refunded yet, never below zero", () => {
+    expect(refundableAmount({ amount: 150000, refundedAmount: 50000 })).toBe(100000);
+    expect(refundableAmount({ amount: 150000, refundedAmount: 200000 })).toBe(0);
+  });
+});
+
+// ─── refundInvoice() ──────────────────────────────────────────────────────────
+
+describe("refundInvoice()", () => {
+  it("refunds part of an invoice and keeps it PAID", async () => {
+    const invoice = paidInvoice();
+    mockPrisma.invoice.findUniqueOrThrow.mockResolvedValue(invoice);
+    mockCancel.mockResolvedValue(cancelResponse(50000));
+
+    const refund = await refundInvoice({ ...params, invoice: invoice as never, amount: 50000 });
+
+    expect(mockCancel).toHaveBeenCalledWith("pk-1", { cancelReason: "수강 취소", cancelAmount: 50000 }, "ref-1");
+    expect(mockPrisma.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ paymentAttemptId: "att-1", amount: 50000, status: "REQUESTED", source: "ADMIN" }),
+    });
+    expect(mockPrisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: "inv-1" },
+      data:  { refundedAmount: 50000 },
+    });
+    expect(refund).toMatchObject({ status: "SUCCEEDED", providerTransactionKey: "tx-1" });
+  });
+
+  it("refunds the remaining balance by default and marks the invoice REFUNDED", async () => {
+    const invoice = paidInvoice({ refundedAmount: 50000 });
+    mockPrisma.invoice.findUniqueOrThrow.mockResolvedValue(invoice);
+    mockCancel.mockResolvedValue(cancelResponse(100000));
+
+    await refundInvoice({ ...params, invoice: invoice as never });
+
+    expect(mockCancel).toHaveBeenCalledWith("pk-1", expect.objectContaining({ cancelAmount: 100000 }), "ref-1");
+    expect(mockPrisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: "inv-1" },
+      data:  { refundedAmount: 150000, status: "REFUNDED" },
+    });
+  });
+
+  it("rejects amounts outside 1..remaining", async () => {
+    const invoice = paidInvoice({ refundedAmount: 100000 });
+
+    await expectRefundError(refundInvoice({ ...params, invoice: invoice as never, amount: 0 }), 422);
+    await expectRefundError(refundInvoice({ ...params, invoice: invoice as never, amount: 50001 }), 422);
+    await expectRefundError(refundInvoice({ ...params, invoice: paidInvoice({ refundedAmount: 150000 }) as never }), 422);
+    expect(mockPrisma.refund.create).not.toHaveBeenCalled();
+  });
+
+  it("refuses invoices that are not PAID", async () => {
+    await expectRefundError(refundInvoice({ ...params, invoice: paidInvoice({ status: "PENDING" }) as never }), 409);
+  });
+
+  it("refuses invoices paid offline or by bank transfer", async () => {
+    await expectRefundError(refundInvoice({ ...params, invoice: paidInvoice({ providerPaymentKey: null }) as never }), 422);
+
+    mockPrisma.virtualAccount.findUnique.mockResolvedValue({ id: "va-1" });
+    await expectRefundError(refundInvoice({ ...params, invoice: paidInvoice() as never }), 422);
+    expect(mockCancel).not.toHaveBeenCalled();
+  });
+
+  it("marks the refund FAILED when Toss refuses it", async () => {
+    mockCancel.mockRejectedValue(new TossError("NOT_CANCELABLE_PAYMENT", "취소할 수 없는 결제입니다", 400));
+
+    await expectRefundError(refundInvoice({ ...params, invoice: paidInvoice() as never }), 502);
+    expect(mockPrisma.refund.update).toHaveBeenCalledWith({
+      where: { id: "ref-1" },
+      data:  expect.objectContaining({ status: "FAILED", errorCode: "NOT_CANCELABLE_PAYMENT" }),
+    });
+    expect(mockPrisma.invoice.update).not.toHaveBeenCalled();
+  });
+
+  it("leaves a refund the webhook already completed as it is", async () => {
+    const completed = { id: "ref-1", status: "SUCCEEDED", providerTransactionKey: "tx-1" };
+    mockPrisma.refund.findUniqueOrThrow.mockResolvedValue(completed);
+    mockCancel.mockResolvedValue(cancelResponse(150000));
+
+    expect(await refundInvoice({ ...params, invoice: paidInvoice() as never })).toBe(completed);
+    expect(mockPrisma.invoice.update).not.toHaveBeenCalled();
+    expect(mockPrisma.refund.update).not.toHaveBeenCalled();
+  });
+});
+
+// ─── syncRefundsFromProvider() ────────────────────────────────────────────────
+
+describe("syncRefundsFromProvider()", () => {
+  const cancel = { transactionKey: "tx-1", cancelAmount: 50000, cancelReason: "환불", canceledAt: "2026-03-02T01:00:00Z" };
+
+  beforeEach(() => {
+    mockPrisma.invoice.findFirst.mockResolvedValue(paidInvoice());
+    mockPrisma.invoice.findUniqueOrThrow.mockResolvedValue(paidInvoice());
+    mockPrisma.refund.findUnique.mockResolvedValue(null);
+    mockPrisma.refund.findFirst.mockResolvedValue(null);
+  });
+
+  it("completes the matching REQUESTED refund instead of adding one", async () => {
+    mockPrisma.refund.findFirst.mockResolvedValue({ id: "ref-1" });
+
+    expect(await syncRefundsFromProvider("pk-1", [cancel])).toBe(1);
+    expect(mockPrisma.refund.update).toHaveBeenCalledWith({
+      where: { id: "ref-1" },
+      data:  expect.objectContaining({ status: "SUCCEEDED", providerTransactionKey: "tx-1" }),
+    });
+    expect(mockPrisma.refund.create).not.toHaveBeenCalled();
+    expect(mockPrisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: "inv-1" },
+      data:  { refundedAmount: 50000 },
+    });
+  });
+
+  it("records cancels made in the Toss console once", async () => {
+    mockPrisma.refund.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "ref-console" });
+
+    expect(await syncRefundsFromProvider("pk-1", [cancel, cancel])).toBe(1);
+    expect(mockPrisma.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ source: "PROVIDER", amount: 50000, providerTransactionKey: "tx-1" }),
+    });
+  });
+
+  it("ignores aborted cancels and unknown payments", async () => {
+    expect(await syncRefundsFromProvider("pk-1", [{ ...cancel, cancelStatus: "ABORTED" }])).toBe(0);
+
+    mockPrisma.invoice.findFirst.mockResolvedValue(null);
+    expect(await syncRefundsFromProvider("pk-unknown", [cancel])).toBe(0);
+    expect(mockPrisma.invoice.update).not.toHaveBeenCalled();
+  });
+});
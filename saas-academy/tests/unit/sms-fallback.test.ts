@@ -0,0 +1,242 @@
+/**
+ * tests/unit/sms-fallback.test.ts
+ *
+ * Unit tests for the SMS/LMS fallback of failed AlimTalk rows
+ * (sms-fallback.ts, sms-client.ts and the queue worker).
+ * Prisma and both provider clients are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    notificationQueue:           {
+      findMany: vi.fn(), updateMany: vi.fn(), update: vi.fn(), create: vi.fn(), findUniqueOrThrow: vi.fn(), groupBy: vi.fn(), count: vi.fn(),
+    },
+    academyNotificationSettings: { findUnique: vi.fn(), findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+vi.mock("@/lib/alimtalk/client", () => ({ sendAlimtalk: vi.fn() }));
+vi.mock("@/lib/alimtalk/sms-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/alimtalk/sms-client")>()),
+  sendSms: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { sendAlimtalk } from "@/lib/alimtalk/client";
+import { sendSms, smsMessageType } from "@/lib/alimtalk/sms-client";
+import { enqueueSmsFallback, isKakaoRejection, queueTemplateType } from "@/lib/alimtalk/sms-fallback";
+import { renderTemplateText } from "@/lib/alimtalk/templates";
+import { processNotificationQueue } from "@/lib/alimtalk/queue-worker";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  notificationQueue:           { findMany: Fn; updateMany: Fn; update: Fn; create: Fn; findUniqueOrThrow: Fn; groupBy: Fn; count: Fn };
+  academyNotificationSettings: { findUnique: Fn; findMany: Fn };
+};
+const mockAlimtalk = sendAlimtalk as Fn;
+const mockSms      = sendSms as Fn;
+
+function queueRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id:               "q-1",
+    academyId:        "ac-1",
+    channel:          "KAKAO_ALIMTALK",
+    eventType:        "ATTENDANCE",
+    attendanceId:     "att-1",
+    attendanceStatus: "ABSENT",
+    invoiceId:        null,
+    billingEvent:     null,
+    attemptNo:        null,
+    studentUserId:    "stu-1",
+    parentContactId:  "pc-1",
+    recipientPhone:   "01012345678",
+    templateCode:     "TPL_ABSENT",
+    senderKey:        "sk",
+    templateVarsJson: { studentName: "홍길동", sessionDate: "2026-03-02" },
+    fallbackOfId:     null,
+    messageText:      null,
+    senderNumber:     null,
+    attempts:         0,
+    maxAttempts:      3,
+    errorCode:        null,
+    ...overrides,
+  };
+}
+
+const fallbackSettings = {
+  smsFallbackEnabled: true,
+  smsSenderNumber:    "0212345678",
+  smsFallbackTexts:   { ABSENT: "[학원] #{studentName} 학생 #{sessionDate} 결석" },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.notificationQueue.updateMany.mockResolvedValue({ count: 1 });
+  mockPrisma.notificationQueue.create.mockResolvedValue({ id: "q-sms" });
+  mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue(fallbackSettings);
+  // One academy with due rows, default sending limits, nothing sent yet
+  mockPrisma.notificationQueue.groupBy.mockResolvedValue([{ academyId: "ac-1" }]);
+  mockPrisma.notificationQueue.count.mockResolvedValue(0);
+  mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([]);
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("helpers", () => {
+  it("treats provider result codes as Kakao rejections, transport errors not", () => {
+    expect(isKakaoRejection("-99")).toBe(true);
+    expect(isKakaoRejection("HTTP_503")).toBe(false);
+    expect(isKakaoRejection("FETCH_ERROR")).toBe(false);
+    expect(isKakaoRejection(null)).toBe(false);
+  });
+
+  it("maps queue rows to template types", () => {
+    const row = { attendanceStatus: null, billingEvent: null, scheduleEvent: null };
+    expect(queueTemplateType({ ...row, eventType: "ATTENDANCE", attendanceStatus: "LATE" })).toBe("LATE");
+    expect(queueTemplateType({ ...row, eventType: "BILLING", billingEvent: "FINAL_FAILED" }))
+      .toBe("BILLING_FINAL_FAILED");
+    expect(queueTemplateType({ ...row, eventType: "SCHEDULE", scheduleEvent: "RESCHEDULED" }))
+      .toBe("SESSION_RESCHEDULED");
+    expect(queueTemplateType({ ...row, eventType: "ENROLLMENT" })).toBe("WAITLIST_PROMOTED");
+  });
+
+  it("renders #{var} placeholders", () => {
+    expect(renderTemplateText("#{studentName} #{missing}!", { studentName: "홍길동" })).toBe("홍길동 !");
+  });
+
+  it("switches to LMS past 90 bytes", () => {
+    expect(smsMessageType("가".repeat(45))).toBe("SMS");
+    expect(smsMessageType("가".repeat(46))).toBe("LMS");
+  });
+});
+
+describe("enqueueSmsFallback()", () => {
+  const quiet = { quietHoursEnabled: true, quietHoursStart: "21:00", quietHoursEnd: "08:00" };
+
+  it("holds the SMS until the academy's quiet hours end", async () => {
+    mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue({ ...fallbackSettings, ...quiet });
+
+    await enqueueSmsFallback(queueRow() as never, new Date("2026-03-02T14:00:00Z")); // 23:00 KST
+
+    const end = new Date("2026-03-02T23:00:00Z"); // 08:00 KST
+    expect(mockPrisma.notificationQueue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ scheduledAt: end, nextRetryAt: end }),
+    });
+  });
+
+  it("sends at once outside quiet hours", async () => {
+    mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue({ ...fallbackSettings, ...quiet });
+    const now = new Date("2026-03-02T03:00:00Z"); // 12:00 KST
+
+    await enqueueSmsFallback(queueRow() as never, now);
+
+    expect(mockPrisma.notificationQueue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ scheduledAt: now, nextRetryAt: now }),
+    });
+  });
+
+  it("queues one SMS per failed row", async () => {
+    mockPrisma.notificationQueue.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint", { code: "P2002", clientVersion: "5" }),
+    );
+    mockPrisma.notificationQueue.findUniqueOrThrow.mockResolvedValue({ id: "q-sms-earlier" });
+
+    expect(await enqueueSmsFallback(queueRow() as never)).toBe("q-sms-earlier");
+    expect(mockPrisma.notificationQueue.findUniqueOrThrow).toHaveBeenCalledWith(expect.objectContaining({
+      where: { fallbackOfId: "q-1" },
+    }));
+  });
+});
+
+describe("processNotificationQueue() fallback", () => {
+  it("fails a Kakao-rejected row at once and queues the SMS", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([queueRow()]);
+    mockAlimtalk.mockResolvedValue({ success: false, errorCode: "-3015", errorMessage: "카카오톡 미사용자" });
+
+    const result = await processNotificationQueue();
+
+    expect(result).toMatchObject({ failed: 1, fallbacks: 1 });
+    expect(mockPrisma.notificationQueue.update).toHaveBeenCalledWith({
+      where: { id: "q-1" },
+      data:  expect.objectContaining({ status: "FAILED", attempts: 1, errorCode: "-3015" }),
+    });
+    expect(mockPrisma.notificationQueue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        channel:      "SMS",
+        fallbackOfId: "q-1",
+        senderNumber: "0212345678",
+        messageText:  "[학원] 홍길동 학생 2026-03-02 결석",
+        status:       "PENDING",
+        maxAttempts:  3,
+      }),
+    });
+  });
+
+  it("retries a transport error without falling back", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([queueRow()]);
+    mockAlimtalk.mockResolvedValue({ success: false, errorCode: "HTTP_503", errorMessage: "HTTP error 503" });
+
+    const result = await processNotificationQueue();
+
+    expect(result.fallbacks).toBe(0);
+    expect(mockPrisma.notificationQueue.update.mock.calls[0][0].data.status).toBe("PENDING");
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("falls back once retries are exhausted", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([queueRow({ attempts: 2 })]);
+    mockAlimtalk.mockResolvedValue({ success: false, errorCode: "FETCH_ERROR", errorMessage: "timeout" });
+
+    expect((await processNotificationQueue()).fallbacks).toBe(1);
+  });
+
+  it("does not fall back without a text for the template type", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([queueRow({ attendanceStatus: "LATE" })]);
+    mockAlimtalk.mockResolvedValue({ success: false, errorCode: "-3015" });
+
+    expect((await processNotificationQueue()).fallbacks).toBe(0);
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+
+  it("does not fall back when the academy has it disabled", async () => {
+    mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue({ ...fallbackSettings, smsFallbackEnabled: false });
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([queueRow()]);
+    mockAlimtalk.mockResolvedValue({ success: false, errorCode: "-3015" });
+
+    expect((await processNotificationQueue()).fallbacks).toBe(0);
+  });
+
+  it("sends SMS rows through the SMS client", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([
+      queueRow({ id: "q-sms", channel: "SMS", fallbackOfId: "q-1", senderNumber: "0212345678", messageText: "결석 안내" }),
+    ]);
+    mockSms.mockResolvedValue({ success: true, msgKey: "m-1", messageType: "SMS" });
+
+    const result = await processNotificationQueue();
+
+    expect(result.succeeded).toBe(1);
+    expect(mockAlimtalk).not.toHaveBeenCalled();
+    expect(mockSms).toHaveBeenCalledWith({ sender: "0212345678", phone: "01012345678", text: "결석 안내" });
+    expect(mockPrisma.notificationQueue.update).toHaveBeenCalledWith({
+      where: { id: "q-sms" },
+      data:  expect.objectContaining({ status: "SENT", providerMsgKey: "m-1" }),
+    });
+  });
+
+  it("never chains a fallback off a failed SMS row", async () => {
+    mockPrisma.notificationQueue.findMany.mockResolvedValue([
+      queueRow({ channel: "SMS", attempts: 2, senderNumber: "0212345678", messageText: "x" }),
+    ]);
+    mockSms.mockResolvedValue({ success: false, errorCode: "-101", messageType: "SMS" });
+
+    const result = await processNotificationQueue();
+
+    expect(result).toMatchObject({ failed: 1, fallbacks: 0 });
+    expect(mockPrisma.notificationQueue.create).not.toHaveBeenCalled();
+  });
+});
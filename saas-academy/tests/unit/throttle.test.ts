@@ -0,0 +1,177 @@
+/**
+ * tests/unit/throttle.test.ts
+ *
+ * Unit tests for the per-academy sending limits (throttle.ts): fair batch
+ * selection, the per-minute rate and the monthly cap.
+ * Prisma is mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    notificationQueue:           { findMany: vi.fn(), updateMany: vi.fn(), groupBy: vi.fn(), count: vi.fn() },
+    academyNotificationSettings: { findUnique: vi.fn(), findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+import { prisma } from "@/lib/db/client";
+import { audit }  from "@/lib/auth/audit";
+import { getMessageUsage, kstMonthStart, selectDueRows, MONTHLY_CAP_CODE } from "@/lib/alimtalk/throttle";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  notificationQueue:           { findMany: Fn; updateMany: Fn; groupBy: Fn; count: Fn };
+  academyNotificationSettings: { findUnique: Fn; findMany: Fn };
+};
+
+const NOW = new Date("2026-03-15T01:00:00Z");
+
+function rows(academyId: string, n: number) {
+  return Array.from({ length: n }, (_, i) => ({ id: `${academyId}-${i}`, academyId }));
+}
+
+/** findMany returns `pending[academyId]`, honouring `take` */
+function withPending(pending: Record<string, number>) {
+  mockPrisma.notificationQueue.groupBy.mockResolvedValue(
+    Object.keys(pending).map((academyId) => ({ academyId })),
+  );
+  mockPrisma.notificationQueue.findMany.mockImplementation(async ({ where, take }) =>
+    rows(where.academyId, Math.min(pending[where.academyId] ?? 0, take)),
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.notificationQueue.count.mockResolvedValue(0);
+  mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([]);
+  mockPrisma.notificationQueue.updateMany.mockResolvedValue({ count: 0 });
+});
+
+// ─── kstMonthStart ────────────────────────────────────────────────────────────
+
+describe("kstMonthStart", () => {
+  it("uses the KST calendar month", () => {
+    // 2026-03-31T16:00Z is already April 1st in Seoul
+    expect(kstMonthStart(new Date("2026-03-31T16:00:00Z")).toISOString()).toBe("2026-03-31T15:00:00.000Z");
+    expect(kstMonthStart(NOW).toISOString()).toBe("2026-02-28T15:00:00.000Z");
+  });
+});
+
+// ─── selectDueRows ────────────────────────────────────────────────────────────
+
+describe("selectDueRows", () => {
+  it("returns nothing when no row is due", async () => {
+    mockPrisma.notificationQueue.groupBy.mockResolvedValue([]);
+
+    expect(await selectDueRows(50, NOW)).toEqual({ rows: [], overCap: 0 });
+    expect(mockPrisma.notificationQueue.findMany).not.toHaveBeenCalled();
+  });
+
+  it("interleaves academies so a large backlog does not starve the others", async () => {
+    withPending({ "ac-big": 40, "ac-a": 2, "ac-b": 1 });
+
+    const { rows: batch } = await selectDueRows(6, NOW);
+
+    expect(batch.map((r) => r.id)).toEqual([
+      "ac-big-0", "ac-a-0", "ac-b-0",
+      "ac-big-1", "ac-a-1",
+      "ac-big-2",
+    ]);
+  });
+
+  it("limits an academy to what its rate leaves for this minute", async () => {
+    withPending({ "ac-1": 100 });
+    mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([
+      { academyId: "ac-1", sendRatePerMinute: 10, monthlyMessageCap: null },
+    ]);
+    mockPrisma.notificationQueue.count.mockResolvedValue(7);   // sent in the last minute
+
+    const { rows: batch } = await selectDueRows(50, NOW);
+
+    expect(batch).toHaveLength(3);
+    expect(mockPrisma.notificationQueue.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ academyId: "ac-1", processedAt: { gte: new Date(NOW.getTime() - 60_000) } }),
+    });
+  });
+
+  it("skips an academy whose rate is used up", async () => {
+    withPending({ "ac-1": 5 });
+    mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([
+      { academyId: "ac-1", sendRatePerMinute: 10, monthlyMessageCap: null },
+    ]);
+    mockPrisma.notificationQueue.count.mockResolvedValue(10);
+
+    expect((await selectDueRows(50, NOW)).rows).toEqual([]);
+    expect(mockPrisma.notificationQueue.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("does not let an academy one below its cap send a full batch", async () => {
+    withPending({ "ac-1": 30 });
+    mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([
+      { academyId: "ac-1", sendRatePerMinute: 60, monthlyMessageCap: 500 },
+    ]);
+    mockPrisma.notificationQueue.count
+      .mockResolvedValueOnce(499)   // sent this month
+      .mockResolvedValueOnce(0);    // sent in the last minute
+
+    const { rows: batch } = await selectDueRows(50, NOW);
+
+    expect(batch).toHaveLength(1);
+    expect(mockPrisma.notificationQueue.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("marks due rows SKIPPED once the monthly cap is reached", async () => {
+    withPending({ "ac-1": 5, "ac-2": 2 });
+    mockPrisma.academyNotificationSettings.findMany.mockResolvedValue([
+      { academyId: "ac-1", sendRatePerMinute: 60, monthlyMessageCap: 500 },
+    ]);
+    mockPrisma.notificationQueue.count.mockResolvedValueOnce(500);
+    mockPrisma.notificationQueue.updateMany.mockResolvedValue({ count: 5 });
+
+    const result = await selectDueRows(50, NOW);
+
+    expect(result.overCap).toBe(5);
+    expect(result.rows.map((r) => r.academyId)).toEqual(["ac-2", "ac-2"]);
+    expect(mockPrisma.notificationQueue.updateMany).toHaveBeenCalledWith({
+      where: { status: "PENDING", nextRetryAt: { lte: NOW }, academyId: "ac-1" },
+      data:  expect.objectContaining({ status: "SKIPPED", errorCode: MONTHLY_CAP_CODE }),
+    });
+    expect(audit).toHaveBeenCalledWith(expect.objectContaining({
+      academyId: "ac-1",
+      action:    "notification.capReached",
+      metaJson:  { cap: 500, skipped: 5 },
+    }));
+  });
+});
+
+// ─── getMessageUsage ──────────────────────────────────────────────────────────
+
+describe("getMessageUsage", () => {
+  it("warns from 80% of the cap", async () => {
+    mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue({ sendRatePerMinute: 60, monthlyMessageCap: 1000 });
+
+    mockPrisma.notificationQueue.count.mockResolvedValue(799);
+    expect(await getMessageUsage("ac-1", NOW)).toMatchObject({ warning: false, exhausted: false });
+
+    mockPrisma.notificationQueue.count.mockResolvedValue(800);
+    expect(await getMessageUsage("ac-1", NOW)).toEqual({
+      sent: 800, cap: 1000, ratio: 0.8, warning: true, exhausted: false,
+    });
+
+    mockPrisma.notificationQueue.count.mockResolvedValue(1000);
+    expect(await getMessageUsage("ac-1", NOW)).toMatchObject({ warning: true, exhausted: true });
+  });
+
+  it("never warns without a cap", async () => {
+    mockPrisma.academyNotificationSettings.findUnique.mockResolvedValue(null);
+    mockPrisma.notificationQueue.count.mockResolvedValue(100_000);
+
+    expect(await getMessageUsage("ac-1", NOW)).toEqual({
+      sent: 100_000, cap: null, ratio: null, warning: false, exhausted: false,
+    });
+  });
+});
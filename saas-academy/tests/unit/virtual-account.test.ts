@@ -0,0 +1,200 @@
+/**
+ * tests/unit/virtual-account.test.ts
+ *
+ * Unit tests for bank-transfer payments (virtual-account.service.ts).
+ * Prisma, the Toss API and invoice settlement are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    virtualAccount: {
+      findFirst: vi.fn(), findUnique: vi.fn(), count: vi.fn(),
+      create: vi.fn(), update: vi.fn(), updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+vi.mock("@/lib/toss/virtual-account", () => ({
+  issueVirtualAccount: vi.fn(),
+  getPaymentByOrderId: vi.fn(),
+}));
+
+vi.mock("@/lib/services/billing.service", () => ({
+  settleInvoice: vi.fn(),
+  notifyBilling: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { issueVirtualAccount, getPaymentByOrderId } from "@/lib/toss/virtual-account";
+import { settleInvoice, notifyBilling } from "@/lib/services/billing.service";
+import {
+  issueInvoiceVirtualAccount,
+  handleDepositCallback,
+  VirtualAccountError,
+} from "@/lib/services/virtual-account.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  virtualAccount: {
+    findFirst: Fn; findUnique: Fn; count: Fn; create: Fn; update: Fn; updateMany: Fn;
+  };
+  $transaction: Fn;
+};
+const mockIssue   = issueVirtualAccount as Fn;
+const mockPayment = getPaymentByOrderId as Fn;
+const mockSettle  = settleInvoice as Fn;
+const mockNotify  = notifyBilling as Fn;
+
+const invoice = {
+  id:        "inv-1",
+  academyId: "ac-1",
+  orderId:   "INV-1",
+  amount:    150000,
+  dueDate:   new Date("2026-03-01"),
+  status:    "PENDING",
+  plan:      { name: "Basic" },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+  mockSettle.mockResolvedValue(true);
+  mockPrisma.virtualAccount.create.mockImplementation(({ data }) => Promise.resolve({ id: "va-new", ...data }));
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("issueInvoiceVirtualAccount()", () => {
+  const params = {
+    invoice: invoice as never,
+    student: { name: "Alice", email: "alice@test.com" },
+    bank:    "88",
+  };
+
+  it("issues an account with a per-invoice orderId", async () => {
+    mockPrisma.virtualAccount.findFirst.mockResolvedValue(null);
+    mockPrisma.virtualAccount.count.mockResolvedValue(1); // one earlier, expired account
+    mockIssue.mockResolvedValue({
+      paymentKey: "pk-1",
+      orderId:    "INV-1-VA2",
+      status:     "WAITING_FOR_DEPOSIT",
+      secret:     "s3cret",
+      virtualAccount: {
+        accountNumber: "X123", bankCode: "88", customerName: "Alice",
+        dueDate: "2026-03-04T00:00:00+09:00", expired: false,
+      },
+    });
+
+    const va = await issueInvoiceVirtualAccount(params);
+
+    expect(mockIssue).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: "INV-1-VA2", amount: 150000, bank: "88",
+    }));
+    expect(va).toMatchObject({ orderId: "INV-1-VA2", secret: "s3cret", amount: 150000 });
+  });
+
+  it("returns the live account instead of issuing a new one", async () => {
+    const live = { id: "va-1", amount: 150000, dueDate: new Date(Date.now() + 3600_000) };
+    mockPrisma.virtualAccount.findFirst.mockResolvedValue(live);
+
+    expect(await issueInvoiceVirtualAccount(params)).toBe(live);
+    expect(mockIssue).not.toHaveBeenCalled();
+  });
+
+  it("rejects invoices that are not PENDING", async () => {
+    await expect(
+      issueInvoiceVirtualAccount({ ...params, invoice: { ...invoice, status: "PAID" } as never }),
+    ).rejects.toBeInstanceOf(VirtualAccountError);
+  });
+});
+
+describe("handleDepositCallback()", () => {
+  const account = {
+    id:      "va-1",
+    orderId: "INV-1-VA1",
+    secret:  "s3cret",
+    status:  "WAITING_FOR_DEPOSIT",
+    amount:  150000,
+    invoice,
+  };
+  const callback = { orderId: "INV-1-VA1", status: "DONE" as const, secret: "s3cret" };
+
+  beforeEach(() => {
+    mockPrisma.virtualAccount.findUnique.mockResolvedValue(account);
+  });
+
+  it("settles the invoice when the deposit matches", async () => {
+    mockPayment.mockResolvedValue({ paymentKey: "pk-1", status: "DONE", totalAmount: 150000 });
+
+    const outcome = await handleDepositCallback(callback);
+
+    expect(outcome).toEqual({ status: "SETTLED", invoiceId: "inv-1" });
+    expect(mockSettle).toHaveBeenCalledWith(prisma, invoice, "pk-1");
+    expect(mockNotify).toHaveBeenCalledWith({ invoiceId: "inv-1", event: "PAID" });
+  });
+
+  it("parks a wrong-amount deposit without settling", async () => {
+    mockPayment.mockResolvedValue({ paymentKey: "pk-1", status: "DONE", totalAmount: 100000 });
+
+    const outcome = await handleDepositCallback(callback);
+
+    expect(outcome).toMatchObject({ status: "AMOUNT_MISMATCH", expected: 150000, deposited: 100000 });
+    expect(mockPrisma.virtualAccount.update).toHaveBeenCalledWith({
+      where: { id: "va-1" },
+      data:  expect.objectContaining({ status: "AMOUNT_MISMATCH", depositedAmount: 100000 }),
+    });
+    expect(mockSettle).not.toHaveBeenCalled();
+  });
+
+  it("records a deposit on an invoice that is already paid", async () => {
+    mockPrisma.virtualAccount.findUnique.mockResolvedValue({
+      ...account, invoice: { ...invoice, status: "PAID" },
+    });
+    mockPayment.mockResolvedValue({ paymentKey: "pk-1", status: "DONE", totalAmount: 150000 });
+
+    const outcome = await handleDepositCallback(callback);
+
+    expect(outcome.status).toBe("ALREADY_CLOSED");
+    expect(mockSettle).not.toHaveBeenCalled();
+  });
+
+  it("records a deposit for refund when the invoice is settled meanwhile", async () => {
+    mockPayment.mockResolvedValue({ paymentKey: "pk-1", status: "DONE", totalAmount: 150000 });
+    mockSettle.mockResolvedValue(false);
+
+    const outcome = await handleDepositCallback(callback);
+
+    expect(outcome.status).toBe("ALREADY_CLOSED");
+    expect(mockPrisma.virtualAccount.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.virtualAccount.update).toHaveBeenCalledWith({
+      where: { id: "va-1" },
+      data:  expect.objectContaining({ status: "DONE", errorMessage: expect.stringMatching(/needs a refund/) }),
+    });
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it("throws on a secret mismatch", async () => {
+    await expect(handleDepositCallback({ ...callback, secret: "nope" })).rejects.toThrow(/secret/);
+    expect(mockPayment).not.toHaveBeenCalled();
+  });
+
+  it("throws when the orderId is unknown", async () => {
+    mockPrisma.virtualAccount.findUnique.mockResolvedValue(null);
+    await expect(handleDepositCallback(callback)).rejects.toThrow(/No virtual account/);
+  });
+
+  it("marks a waiting account CANCELED", async () => {
+    const outcome = await handleDepositCallback({ ...callback, status: "CANCELED" });
+
+    expect(outcome.status).toBe("CANCELED");
+    expect(mockPrisma.virtualAccount.update).toHaveBeenCalledWith({
+      where: { id: "va-1" }, data: { status: "CANCELED" },
+    });
+  });
+});
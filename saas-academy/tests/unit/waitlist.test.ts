@@ -0,0 +1,230 @@
+/**
+ * tests/unit/waitlist.test.ts
+ *
+ * Unit tests for class waitlists (waitlist.service.ts). Prisma, the audit
+ * log and the enrollment notifier are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => {
+  const prisma = {
+    class:           { findFirst: vi.fn(), findFirstOrThrow: vi.fn() },
+    classEnrollment: {
+      findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn(), aggregate: vi.fn(),
+      upsert: vi.fn(), updateMany: vi.fn(),
+    },
+    $queryRaw:    vi.fn(),
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation(async (fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+vi.mock("@/lib/alimtalk/enrollment-notifier", () => ({
+  enqueueWaitlistPromotedNotification: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { audit } from "@/lib/auth/audit";
+import { enqueueWaitlistPromotedNotification } from "@/lib/alimtalk/enrollment-notifier";
+import { enrollOrWaitlist, promoteWaitlisted } from "@/lib/services/waitlist.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  class:           { findFirst: Fn; findFirstOrThrow: Fn };
+  classEnrollment: {
+    findUnique: Fn; findMany: Fn; count: Fn; aggregate: Fn;
+    upsert: Fn; updateMany: Fn;
+  };
+  $queryRaw: Fn;
+};
+const mockNotify = enqueueWaitlistPromotedNotification as unknown as Fn;
+
+/** Counts answered by enrollment status */
+function counts(byStatus: { ACTIVE?: number; WAITLISTED?: number }) {
+  mockPrisma.classEnrollment.count.mockImplementation(
+    async ({ where }: { where: { status: "ACTIVE" | "WAITLISTED" } }) => byStatus[where.status] ?? 0,
+  );
+}
+
+function waiting(id: string, waitlistPosition: number) {
+  return {
+    id,
+    academyId:        "ac-1",
+    classId:          "c-1",
+    studentUserId:    `stu-${id}`,
+    status:           "WAITLISTED",
+    waitlistPosition,
+    enrolledAt:       new Date("2026-03-01T00:00:00Z"),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.class.findFirst.mockResolvedValue({ capacity: 2, status: "ACTIVE" });
+  mockPrisma.class.findFirstOrThrow.mockResolvedValue({ capacity: 2 });
+  mockPrisma.classEnrollment.findUnique.mockResolvedValue(null);
+  mockPrisma.classEnrollment.findMany.mockResolvedValue([]);
+  mockPrisma.classEnrollment.aggregate.mockResolvedValue({ _max: { waitlistPosition: 3 } });
+  mockPrisma.classEnrollment.upsert.mockImplementation(async ({ create }) => ({ id: "e-new", ...create }));
+  mockPrisma.classEnrollment.updateMany.mockResolvedValue({ count: 1 });
+  mockNotify.mockResolvedValue({ skipped: false, queueIds: ["q-1"] });
+  counts({});
+});
+
+// ─── enrollOrWaitlist ─────────────────────────────────────────────────────────
+
+describe("enrollOrWaitlist", () => {
+  const base = { academyId: "ac-1", classId: "c-1", studentUserId: "stu-1", actorUserId: "admin-1" };
+
+  it("enrolls while there are free seats", async () => {
+    counts({ ACTIVE: 1 });
+
+    const enrollment = await enrollOrWaitlist(base);
+
+    expect(enrollment).toMatchObject({ status: "ACTIVE", waitlistPosition: null });
+    expect(mockPrisma.classEnrollment.findMany).not.toHaveBeenCalled();
+  });
+
+  it("waitlists at the end of the line when the class is full", async () => {
+    counts({ ACTIVE: 2, WAITLISTED: 3 });
+
+    const enrollment = await enrollOrWaitlist(base);
+
+    expect(enrollment).toMatchObject({ status: "WAITLISTED", waitlistPosition: 4 });
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it("does not let a new student skip those already waiting", async () => {
+    counts({ ACTIVE: 1, WAITLISTED: 1 });
+    expect(await enrollOrWaitlist(base)).toMatchObject({ status: "WAITLISTED" });
+  });
+
+  it("never waitlists without a capacity", async () => {
+    mockPrisma.class.findFirstOrThrow.mockResolvedValue({ capacity: null });
+    expect(await enrollOrWaitlist(base)).toMatchObject({ status: "ACTIVE" });
+    expect(mockPrisma.classEnrollment.count).not.toHaveBeenCalled();
+  });
+
+  it("locks the class row before counting seats", async () => {
+    counts({ ACTIVE: 1 });
+    await enrollOrWaitlist(base);
+
+    const [sql, classId] = mockPrisma.$queryRaw.mock.calls[0];
+    expect(sql.join("?")).toContain("FOR UPDATE");
+    expect(classId).toBe("c-1");
+    expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0])
+      .toBeLessThan(mockPrisma.classEnrollment.count.mock.invocationCallOrder[0]);
+  });
+
+  it("reads the capacity under the class row lock", async () => {
+    // Capacity lowered to 1 after the route read the class
+    mockPrisma.class.findFirstOrThrow.mockResolvedValue({ capacity: 1 });
+    counts({ ACTIVE: 1 });
+
+    expect(await enrollOrWaitlist(base)).toMatchObject({ status: "WAITLISTED" });
+    expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0])
+      .toBeLessThan(mockPrisma.class.findFirstOrThrow.mock.invocationCallOrder[0]);
+  });
+
+  it("returns the promoted row when the student moves up straight away", async () => {
+    counts({ ACTIVE: 1, WAITLISTED: 1 });
+    const mine = waiting("e-new", 4);
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([mine]);
+    mockPrisma.classEnrollment.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...mine, status: "ACTIVE", waitlistPosition: null });
+
+    const enrollment = await enrollOrWaitlist(base);
+
+    expect(enrollment).toMatchObject({ id: "e-new", status: "ACTIVE", waitlistPosition: null });
+  });
+
+  it("leaves a waitlisted student in their place", async () => {
+    const existing = waiting("e-1", 2);
+    mockPrisma.classEnrollment.findUnique.mockResolvedValue(existing);
+
+    expect(await enrollOrWaitlist(base)).toBe(existing);
+    expect(mockPrisma.classEnrollment.upsert).not.toHaveBeenCalled();
+  });
+});
+
+// ─── promoteWaitlisted ────────────────────────────────────────────────────────
+
+describe("promoteWaitlisted", () => {
+  const base = { academyId: "ac-1", classId: "c-1", actorUserId: "admin-1" };
+
+  it("promotes the first waitlisted students into the free seats and notifies them", async () => {
+    counts({ ACTIVE: 1 });
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([waiting("e-1", 1)]);
+
+    const promoted = await promoteWaitlisted(base);
+
+    expect(mockPrisma.classEnrollment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where:   { academyId: "ac-1", classId: "c-1", status: "WAITLISTED" },
+      orderBy: [{ waitlistPosition: "asc" }, { enrolledAt: "asc" }],
+      take:    1,
+    }));
+    expect(mockPrisma.classEnrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: "e-1", status: "WAITLISTED" },
+      data:  expect.objectContaining({ status: "ACTIVE", waitlistPosition: null }),
+    });
+    expect(promoted.map((e) => e.id)).toEqual(["e-1"]);
+    expect(mockNotify).toHaveBeenCalledWith({ enrollmentId: "e-1", actorUserId: "admin-1" });
+  });
+
+  it("audits the position each student held on the waitlist", async () => {
+    counts({ ACTIVE: 0 });
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([waiting("e-1", 1), waiting("e-2", 3)]);
+
+    await promoteWaitlisted(base);
+
+    expect(vi.mocked(audit).mock.calls.map(([a]) => a.metaJson)).toEqual([
+      { classId: "c-1", studentUserId: "stu-e-1", waitlistPosition: 1 },
+      { classId: "c-1", studentUserId: "stu-e-2", waitlistPosition: 3 },
+    ]);
+  });
+
+  it("does nothing while the class is full", async () => {
+    counts({ ACTIVE: 2 });
+    expect(await promoteWaitlisted(base)).toEqual([]);
+    expect(mockPrisma.classEnrollment.findMany).not.toHaveBeenCalled();
+  });
+
+  it("promotes everyone once the capacity is removed", async () => {
+    mockPrisma.class.findFirst.mockResolvedValue({ capacity: null, status: "ACTIVE" });
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([waiting("e-1", 1), waiting("e-2", 2)]);
+
+    expect(await promoteWaitlisted(base)).toHaveLength(2);
+    expect(mockPrisma.classEnrollment.findMany.mock.calls[0][0]).not.toHaveProperty("take");
+  });
+
+  it("skips students promoted or removed concurrently", async () => {
+    counts({ ACTIVE: 0 });
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([waiting("e-1", 1), waiting("e-2", 2)]);
+    mockPrisma.classEnrollment.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const promoted = await promoteWaitlisted(base);
+
+    expect(promoted.map((e) => e.id)).toEqual(["e-2"]);
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+  });
+
+  it("still promotes when the notification cannot be queued", async () => {
+    counts({ ACTIVE: 1 });
+    mockPrisma.classEnrollment.findMany.mockResolvedValue([waiting("e-1", 1)]);
+    mockNotify.mockRejectedValue(new Error("db down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await promoteWaitlisted(base)).toHaveLength(1);
+  });
+
+  it("leaves archived classes alone", async () => {
+    mockPrisma.class.findFirst.mockResolvedValue({ capacity: 5, status: "ARCHIVED" });
+    expect(await promoteWaitlisted(base)).toEqual([]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * tests/unit/webhook.test.ts
+ *
+ * Unit tests for the async Toss webhook pipeline (webhook.service.ts).
+ * Prisma and the event handlers are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+
+// ─── Mock Prisma ──────────────────────────────────────────────────────────────
+vi.mock("@/lib/db/client", () => ({
+  prisma: {
+    webhookEvent:   { create: vi.fn(), findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    invoice:        { findFirst: vi.fn() },
+    paymentMethod:  { findFirst: vi.fn(), updateMany: vi.fn() },
+    virtualAccount: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/auth/audit", () => ({ audit: vi.fn() }));
+
+vi.mock("@/lib/services/refund.service", () => ({
+  syncRefundsFromProvider: vi.fn(),
+}));
+
+vi.mock("@/lib/services/virtual-account.service", () => ({
+  handleDepositCallback: vi.fn(),
+}));
+
+import { prisma } from "@/lib/db/client";
+import { syncRefundsFromProvider } from "@/lib/services/refund.service";
+import {
+  webhookDedupKey,
+  ingestWebhookEvent,
+  processWebhookEvents,
+  replayWebhookEvent,
+  STALE_CLAIM_MS,
+} from "@/lib/services/webhook.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  webhookEvent:   { create: Fn; findMany: Fn; findUnique: Fn; update: Fn; updateMany: Fn };
+  invoice:        { findFirst: Fn };
+  paymentMethod:  { findFirst: Fn; updateMany: Fn };
+  virtualAccount: { findUnique: Fn };
+};
+const mockSyncRefunds = syncRefundsFromProvider as Fn;
+
+const refundPayload = {
+  eventType: "PAYMENT_STATUS_CHANGED" as const,
+  createdAt: "2026-03-01T10:00:00+09:00",
+  data: {
+    paymentKey: "pk-1",
+    orderId:    "INV-1",
+    status:     "PARTIAL_CANCELED",
+    cancels:    [{ transactionKey: "tx-1", cancelAmount: 10000, cancelReason: "r", canceledAt: "" }],
+  },
+};
+
+function storedEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id:               "ev-1",
+    eventType:        refundPayload.eventType,
+    payloadJson:      refundPayload,
+    processingStatus: "PENDING",
+    attempts:         0,
+    maxAttempts:      5,
+    academyId:        null,
+    claimedAt:        null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.webhookEvent.updateMany.mockResolvedValue({ count: 1 });
+  mockPrisma.invoice.findFirst.mockResolvedValue({ academyId: "ac-1" });
+  mockSyncRefunds.mockResolvedValue(undefined);
+});
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe("webhookDedupKey()", () => {
+  it("combines event type, payment key and state", () => {
+    expect(webhookDedupKey(refundPayload)).toBe("PAYMENT_STATUS_CHANGED:pk-1:PARTIAL_CANCELED:tx-1");
+  });
+
+  it("keeps successive partial refunds apart", () => {
+    const second = {
+      ...refundPayload,
+      data: {
+        ...refundPayload.data,
+        cancels: [...refundPayload.data.cancels, { ...refundPayload.data.cancels[0], transactionKey: "tx-2" }],
+      },
+    };
+    expect(webhookDedupKey(second)).not.toBe(webhookDedupKey(refundPayload));
+  });
+
+  it("uses orderId and a hash of the secret for deposit callbacks", () => {
+    const key = webhookDedupKey({
+      eventType: "DEPOSIT_CALLBACK",
+      data:      { orderId: "INV-1-VA1", status: "DONE", transactionKey: "tx-9", secret: "s3cret" },
+    });
+    expect(key).toMatch(/^DEPOSIT_CALLBACK:INV-1-VA1:DONE:tx-9:[0-9a-f]{16}$/);
+    expect(key).not.toContain("s3cret");
+  });
+
+  it("keeps a forged deposit callback from taking the real one's key", () => {
+    const data = { orderId: "INV-1-VA1", status: "DONE" };
+    const real   = webhookDedupKey({ eventType: "DEPOSIT_CALLBACK", data: { ...data, secret: "s3cret" } });
+    const forged = webhookDedupKey({ eventType: "DEPOSIT_CALLBACK", data: { ...data, secret: "x" } });
+    expect(forged).not.toBe(real);
+    expect(webhookDedupKey({ eventType: "DEPOSIT_CALLBACK", data })).toBeNull();
+  });
+
+  it("is null without a provider key", () => {
+    expect(webhookDedupKey({ eventType: "PAYMENT_STATUS_CHANGED", data: {} })).toBeNull();
+  });
+});
+
+describe("ingestWebhookEvent()", () => {
+  it("stores the event as PENDING only", async () => {
+    mockPrisma.webhookEvent.create.mockResolvedValue({ id: "ev-1" });
+
+    await ingestWebhookEvent(refundPayload);
+
+    expect(mockPrisma.webhookEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        processingStatus: "PENDING",
+        providerKey:      "pk-1",
+        dedupKey:         "PAYMENT_STATUS_CHANGED:pk-1:PARTIAL_CANCELED:tx-1",
+      }),
+    });
+    expect(mockSyncRefunds).not.toHaveBeenCalled();
+  });
+
+  it("returns null for a duplicate delivery", async () => {
+    mockPrisma.webhookEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint", { code: "P2002", clientVersion: "5" }),
+    );
+
+    expect(await ingestWebhookEvent(refundPayload)).toBeNull();
+  });
+});
+
+describe("processWebhookEvents()", () => {
+  it("applies the event, resolves the academy and marks it DONE", async () => {
+    mockPrisma.webhookEvent.findMany.mockResolvedValue([storedEvent()]);
+
+    const result = await processWebhookEvents();
+
+    expect(result).toEqual({ processed: 1, succeeded: 1, failed: 0, skipped: 0 });
+    expect(mockSyncRefunds).toHaveBeenCalledWith("pk-1", refundPayload.data.cancels);
+    expect(mockPrisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "ev-1" }, data: { academyId: "ac-1" },
+    });
+    expect(mockPrisma.webhookEvent.update).toHaveBeenLastCalledWith({
+      where: { id: "ev-1" },
+      data:  expect.objectContaining({ processingStatus: "DONE", attempts: 1 }),
+    });
+  });
+
+  it("reads legacy rows that stored the raw body string", async () => {
+    mockPrisma.webhookEvent.findMany.mockResolvedValue([
+      storedEvent({ payloadJson: JSON.stringify(refundPayload) }),
+    ]);
+
+    await processWebhookEvents();
+
+    expect(mockSyncRefunds).toHaveBeenCalledOnce();
+  });
+
+  it("schedules a retry with back-off on failure", async () => {
+    mockPrisma.webhookEvent.findMany.mockResolvedValue([storedEvent({ attempts: 1 })]);
+    mockSyncRefunds.mockRejectedValue(new Error("db down"));
+
+    const result = await processWebhookEvents();
+
+    expect(result.failed).toBe(1);
+    const { data } = mockPrisma.webhookEvent.update.mock.calls.at(-1)![0];
+    expect(data).toMatchObject({ processingStatus: "ERROR", attempts: 2, errorMessage: "db down" });
+    expect(data.nextRetryAt.getTime()).toBeGreaterThan(Date.now() + 4 * 60_000);
+  });
+
+  it("stops retrying once attempts are exhausted", async () => {
+    mockPrisma.webhookEvent.findMany.mockResolvedValue([storedEvent({ attempts: 4 })]);
+    mockSyncRefunds.mockRejectedValue(new Error("db down"));
+
+    await processWebhookEvents();
+
+    const { data } = mockPrisma.webhookEvent.update.mock.calls.at(-1)![0];
+    expect(data).toMatchObject({ processingStatus: "ERROR", attempts: 5, nextRetryAt: null });
+  });
+
+  it("skips events claimed by another worker", async () => {
+    mockPrisma.webhookEvent.findMany.mockResolvedValue([storedEvent()]);
+    mockPrisma.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await processWebhookEvents();
+
+    expect(result.skipped).toBe(1);
+    expect(mockSyncRefunds).not.toHaveBeenCalled();
+  });
+
+  it("takes over events whose claim went stale", async () => {
+    const claimedAt = new Date(Date.now() - STALE_CLAIM_MS - 60_000);
+    mockPrisma.webhookEvent.findMany.mockResolvedValue([
+      storedEvent({ processingStatus: "PROCESSING", claimedAt }),
+    ]);
+
+    const result = await processWebhookEvents();
+
+    const { where } = mockPrisma.webhookEvent.findMany.mock.calls[0][0];
+    expect(where.OR).toContainEqual(expect.objectContaining({ processingStatus: "PROCESSING" }));
+    expect(mockPrisma.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: { id: "ev-1", processingStatus: "PROCESSING", claimedAt },
+      data:  { processingStatus: "PROCESSING", claimedAt: expect.any(Date) },
+    });
+    expect(result.succeeded).toBe(1);
+  });
+});
+
+describe("replayWebhookEvent()", () => {
+  it("re-runs a finished event", async () => {
+    mockPrisma.webhookEvent.findUnique.mockResolvedValue(
+      storedEvent({ processingStatus: "DONE", attempts: 1, academyId: "ac-1" }),
+    );
+
+    await replayWebhookEvent("ev-1", "admin-1");
+
+    expect(mockSyncRefunds).toHaveBeenCalledOnce();
+    expect(mockPrisma.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "ev-1",
+        OR: [
+          { processingStatus: { not: "PROCESSING" } },
+          { claimedAt: { lt: expect.any(Date) } },
+          { claimedAt: null },
+        ],
+      },
+      data:  { processingStatus: "PROCESSING", attempts: 0, claimedAt: expect.any(Date) },
+    });
+  });
+
+  it("leaves an event alone while a worker holds a fresh claim", async () => {
+    const event = storedEvent({ processingStatus: "PROCESSING", claimedAt: new Date() });
+    mockPrisma.webhookEvent.findUnique.mockResolvedValue(event);
+    mockPrisma.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await replayWebhookEvent("ev-1", "admin-1")).toBe(event);
+    expect(mockSyncRefunds).not.toHaveBeenCalled();
+  });
+
+  it("returns null for an unknown event", async () => {
+    mockPrisma.webhookEvent.findUnique.mockResolvedValue(null);
+    expect(await replayWebhookEvent("nope", "admin-1")).toBeNull();
+  });
+});